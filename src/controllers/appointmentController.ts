@@ -1,12 +1,294 @@
 import { Request, Response } from 'express';
 import { validationResult } from 'express-validator';
-import { Appointment } from '../models';
+import { Appointment, AppointmentSeries, IAppointment, IWaitlistOffer, StatusChangeContext, staffMemberFilter, attendingPatientFilter } from '../models';
 import { AuthRequest } from '../types/express';
 import { getRoleBasedFilter, getTenantScopedFilter, addTenantToData } from '../middleware/auth';
 import Invoice from '../models/Invoice';
 import mongoose from 'mongoose';
 import AppointmentStatus from '../models/AppointmentStatus';
+import { AvailabilityService, AvailabilityCheckResult } from '../utils/availability';
+import { StatusWorkflowService, TransitionRejectionResult } from '../utils/statusWorkflow';
+import { RecurrenceService, RecurrenceRule } from '../utils/recurrence';
+import { WaitlistService } from '../utils/waitlist';
+import { NotificationService } from '../utils/notifications';
+import { AppointmentLinkService } from '../utils/appointmentLinks';
+import { VisitMetricsService } from '../utils/visitMetrics';
+import { ResourceService, ResourceAllocationResult } from '../utils/resources';
+import { TimezoneService } from '../utils/timezone';
+
+type SeriesScope = 'this' | 'following' | 'series';
+
+const SERIES_SCOPES: SeriesScope[] = ['this', 'following', 'series'];
+
+// Fields that "this and following" / "entire series" edits propagate to every occurrence
+const SERIES_FIELDS = ['doctor_id', 'nurse_id', 'participants', 'additional_patient_ids', 'duration', 'type', 'reason', 'notes'];
+
 export class AppointmentController {
+  static sendAvailabilityConflict(res: Response, availability: AvailabilityCheckResult): void {
+    res.status(409).json({
+      success: false,
+      message: availability.message,
+      reason: availability.reason,
+      conflicts: availability.conflicts.map(conflict => ({
+        id: conflict._id,
+        appointment_date: conflict.appointment_date,
+        duration: conflict.duration,
+        status: conflict.status
+      })),
+      ...(availability.participant && { participant: availability.participant }),
+      ...(availability.resource_conflicts && { resource_conflicts: availability.resource_conflicts })
+    });
+  }
+
+  static sendTransitionRejection(res: Response, rejection: TransitionRejectionResult): void {
+    res.status(rejection.http_status).json({
+      success: false,
+      message: rejection.message,
+      reason: rejection.reason,
+      ...(rejection.allowed_transitions && { allowed_transitions: rejection.allowed_transitions }),
+      ...(rejection.missing_fields && { missing_fields: rejection.missing_fields }),
+      ...(rejection.missing_consents && { missing_consents: rejection.missing_consents })
+    });
+  }
+
+  /**
+   * Who changed an appointment's status from a staff request, and why
+   */
+  static getStatusChangeContext(req: AuthRequest): StatusChangeContext {
+    const body = req.body || {};
+    return {
+      changed_by: req.user?._id as mongoose.Types.ObjectId | undefined,
+      reason: body.cancellation_reason || body.status_reason || undefined,
+      source: 'staff'
+    };
+  }
+
+  /**
+   * With ?local_time=true, each appointment also carries its date as wall-clock time in the clinic's timezone
+   */
+  static withLocalTime(req: AuthRequest, appointments: IAppointment[]): any[] {
+    if (req.query.local_time !== 'true') return appointments;
+
+    const timezone = TimezoneService.forClinic(req.currentClinic);
+    return appointments.map(appointment => ({
+      ...appointment.toObject(),
+      local_time: TimezoneService.localize(appointment.appointment_date, timezone)
+    }));
+  }
+
+  /**
+   * Resolve the requested status code against the clinic's active statuses,
+   * falling back to the clinic default. Returns null for an unknown requested code.
+   */
+  static async resolveStatusCode(tenant_id?: string, clinic_id?: string, requested?: string): Promise<string | null> {
+    if (requested) {
+      const statusExists = await AppointmentStatus.findOne({
+        tenant_id,
+        clinic_id,
+        code: requested.toLowerCase(),
+        is_active: true
+      });
+
+      return statusExists ? statusExists.code : null;
+    }
+
+    const defaultStatus = await AppointmentStatus.findOne({
+      tenant_id,
+      clinic_id,
+      is_default: true,
+      is_active: true
+    });
+
+    return defaultStatus ? defaultStatus.code : 'scheduled';
+  }
+
+  /**
+   * Occurrences of a series affected by a "this and following" or "entire series" action
+   */
+  private static async getSeriesTargets(anchor: IAppointment, scope: SeriesScope): Promise<IAppointment[]> {
+    const terminalCodes = await StatusWorkflowService.getCodesWithFlag(anchor.tenant_id, anchor.clinic_id, 'is_terminal');
+    const stageCodes = await VisitMetricsService.getStageCodes(anchor.tenant_id, anchor.clinic_id);
+    const filter: any = {
+      tenant_id: anchor.tenant_id,
+      series_id: anchor.series_id,
+      frees_slot: { $ne: true },
+      // Visits already in the chair are left alone
+      status: { $nin: [...terminalCodes, ...stageCodes.in_chair] }
+    };
+
+    if (scope === 'following') {
+      filter.series_index = { $gte: anchor.series_index || 0 };
+    } else {
+      filter.$or = [{ _id: anchor._id }, { appointment_date: { $gte: new Date() } }];
+    }
+
+    return Appointment.find(filter).sort({ appointment_date: 1 });
+  }
+
+  private static async updateSeriesOccurrences(
+    req: AuthRequest,
+    res: Response,
+    anchor: IAppointment,
+    scope: SeriesScope
+  ): Promise<void> {
+    const targets = await AppointmentController.getSeriesTargets(anchor, scope);
+    const targetIds = targets.map(target => target._id as mongoose.Types.ObjectId);
+
+    const changes: any = {};
+    for (const field of SERIES_FIELDS) {
+      if (req.body[field] !== undefined) {
+        changes[field] = req.body[field];
+      }
+    }
+
+    // Moving the anchor occurrence moves every targeted occurrence by the same offset
+    const shift = req.body.appointment_date
+      ? new Date(req.body.appointment_date).getTime() - anchor.appointment_date.getTime()
+      : 0;
+
+    // Resources are re-allocated for each moved occurrence
+    const allocations = new Map<string, mongoose.Types.ObjectId[]>();
+
+    if (shift !== 0 || changes.doctor_id || changes.duration || changes.participants) {
+      const conflicts: any[] = [];
+
+      for (const target of targets) {
+        const start = new Date(target.appointment_date.getTime() + shift);
+        const availability = await AvailabilityService.checkAvailability({
+          tenant_id: target.tenant_id,
+          clinic_id: target.clinic_id,
+          doctor_id: changes.doctor_id || target.doctor_id,
+          start,
+          duration: parseInt(changes.duration) || target.duration,
+          exclude_appointment_id: targetIds,
+          service_id: target.service_id,
+          participants: changes.participants || target.participants
+        });
+
+        if (availability.available) {
+          allocations.set(target._id!.toString(), availability.resource_ids || []);
+        } else {
+          conflicts.push({
+            appointment_id: target._id,
+            appointment_date: start,
+            reason: availability.reason,
+            message: availability.message
+          });
+        }
+      }
+
+      if (conflicts.length > 0) {
+        res.status(409).json({
+          success: false,
+          message: `${conflicts.length} occurrence(s) of the series are not available`,
+          conflicts
+        });
+        return;
+      }
+    }
+
+    // "This and following" from the middle of a series splits it so earlier occurrences keep the old template
+    let seriesId = anchor.series_id as mongoose.Types.ObjectId;
+    const series = await AppointmentSeries.findById(anchor.series_id);
+    if (series) {
+      const anchorIndex = anchor.series_index || 0;
+
+      if (scope === 'following' && anchorIndex > 0) {
+        const { _id, created_at, updated_at, __v, ...template } = series.toObject() as any;
+        const followingRule: RecurrenceRule = {
+          ...template.recurrence,
+          count: template.recurrence.count ? Math.max(1, template.recurrence.count - anchorIndex) : undefined
+        };
+
+        const followingSeries = new AppointmentSeries({
+          ...template,
+          ...changes,
+          parent_series_id: series._id,
+          start_date: new Date(anchor.appointment_date.getTime() + shift),
+          recurrence: { ...followingRule, rrule: RecurrenceService.toRRule(followingRule) }
+        });
+        await followingSeries.save();
+
+        const previousRule: RecurrenceRule = {
+          ...series.toObject().recurrence,
+          count: series.recurrence.count ? anchorIndex : undefined,
+          until: new Date(anchor.appointment_date.getTime() - 1)
+        };
+        series.recurrence = { ...previousRule, rrule: RecurrenceService.toRRule(previousRule) } as any;
+        await series.save();
+
+        seriesId = followingSeries._id as mongoose.Types.ObjectId;
+      } else {
+        Object.assign(series, changes);
+        if (shift !== 0) {
+          series.start_date = new Date(series.start_date.getTime() + shift);
+        }
+        await series.save();
+      }
+    }
+
+    // Apply in the direction of the shift so occurrences never collide with each other's old slot
+    const ordered = shift > 0 ? [...targets].reverse() : targets;
+    const anchorIndex = anchor.series_index || 0;
+    const skipped: any[] = [];
+
+    for (const target of ordered) {
+      const update: any = { ...changes };
+      if (shift !== 0) {
+        update.appointment_date = new Date(target.appointment_date.getTime() + shift);
+      }
+      if (seriesId.toString() !== anchor.series_id!.toString()) {
+        update.series_id = seriesId;
+        update.series_index = (target.series_index || 0) - anchorIndex;
+      }
+
+      const resourceIds = allocations.get(target._id!.toString());
+      if (!resourceIds) {
+        await Appointment.findByIdAndUpdate(target._id, update, { runValidators: true });
+        continue;
+      }
+
+      update.resource_ids = resourceIds;
+      const reservation = await ResourceService.reserve({
+        tenant_id: target.tenant_id,
+        clinic_id: target.clinic_id,
+        start: update.appointment_date || target.appointment_date,
+        duration: parseInt(changes.duration) || target.duration,
+        resource_ids: resourceIds,
+        staff_ids: AvailabilityService.getStaffIds(changes.doctor_id || target.doctor_id, changes.participants || target.participants),
+        exclude_appointment_id: targetIds
+      }, () => Appointment.findByIdAndUpdate(target._id, update, { runValidators: true }).exec());
+
+      // Taken in the meantime - the occurrence keeps its time and resources for staff to resolve
+      if (!reservation.reserved) {
+        skipped.push({
+          appointment_id: target._id,
+          reason: AvailabilityService.fromResourceAllocation(reservation.allocation).reason,
+          message: reservation.allocation.message
+        });
+      }
+    }
+
+    const appointments = await Appointment.find({ _id: { $in: targetIds } })
+      .populate('patient_id', 'first_name last_name phone')
+      .populate('doctor_id', 'first_name last_name')
+      .populate('nurse_id', 'first_name last_name')
+      .sort({ appointment_date: 1 });
+
+    res.json({
+      success: true,
+      message: skipped.length > 0
+        ? `${appointments.length - skipped.length} of ${appointments.length} appointment(s) in the series updated`
+        : `${appointments.length} appointment(s) in the series updated successfully`,
+      data: {
+        series_id: seriesId,
+        scope,
+        appointments,
+        skipped
+      }
+    });
+  }
+
   static async createAppointment(req: AuthRequest, res: Response): Promise<void> {
     try {
       const errors = validationResult(req);
@@ -23,51 +305,69 @@ export class AppointmentController {
       const clinic_id = req.clinic_id;
       
       // Validate status dynamically if provided, otherwise use default
-      let statusCode = req.body.status || 'scheduled';
-      if (req.body.status) {
-        const statusExists = await AppointmentStatus.findOne({
-          tenant_id,
-          clinic_id,
-          code: req.body.status.toLowerCase(),
-          is_active: true
-        });
-        
-        if (!statusExists) {
-          res.status(400).json({
-            success: false,
-            message: `Status '${req.body.status}' does not exist or is not active for this clinic`
-          });
+      const statusCode = await AppointmentController.resolveStatusCode(tenant_id, clinic_id, req.body.status);
+      if (!statusCode) {
+        res.status(400).json({
+          success: false,
+          message: `Status '${req.body.status}' does not exist or is not active for this clinic`
+        });
+        return;
+      }
+      
+      // Reject any interval that overlaps the doctor's existing bookings or working hours,
+      // and allocate the chairs, rooms and equipment the service needs
+      const duration = parseInt(req.body.duration) || 30;
+      let resourceIds: mongoose.Types.ObjectId[] = [];
+      const freesSlot = (await StatusWorkflowService.getFlags(tenant_id!, clinic_id!, statusCode)).frees_slot;
+      if (!freesSlot) {
+        const availability = await AvailabilityService.checkAvailability({
+          tenant_id: tenant_id!,
+          clinic_id: clinic_id!,
+          doctor_id: req.body.doctor_id,
+          start: new Date(req.body.appointment_date),
+          duration,
+          service_id: req.body.service_id,
+          resource_ids: req.body.resource_ids,
+          participants: req.body.participants
+        });
+
+        if (!availability.available) {
+          AppointmentController.sendAvailabilityConflict(res, availability);
           return;
         }
-        
-        statusCode = statusExists.code;
-      } else {
-        // If no status provided, get default status
-        const defaultStatus = await AppointmentStatus.findOne({
-          tenant_id,
-          clinic_id,
-          is_default: true,
-          is_active: true
-        });
-        
-        if (defaultStatus) {
-          statusCode = defaultStatus.code;
-        }
+        resourceIds = availability.resource_ids || [];
       }
-      
+
       // Add tenant_id to 
       const appointmentData = addTenantToData(req, {
         ...req.body,
         clinic_id,
         tenant_id,
-        status: statusCode
+        status: statusCode,
+        resource_ids: resourceIds
       });
       
       const appointment = new Appointment(appointmentData);
-      await appointment.save();
+      appointment.$locals.status_change = AppointmentController.getStatusChangeContext(req);
+
+      const reservation = await ResourceService.reserve({
+        tenant_id: tenant_id!,
+        clinic_id: clinic_id!,
+        start: appointment.appointment_date,
+        duration: appointment.duration,
+        resource_ids: resourceIds,
+        staff_ids: freesSlot ? [] : AvailabilityService.getStaffIds(appointment.doctor_id, req.body.participants)
+      }, () => appointment.save());
+
+      if (!reservation.reserved) {
+        AppointmentController.sendAvailabilityConflict(res, AvailabilityService.fromResourceAllocation(reservation.allocation));
+        return;
+      }
+
+      await NotificationService.notifyAppointment(appointment, 'appointment_booked');
 
-      // Populate patient, doctor, and nurse details
-      await appointment.populate(['patient_id', 'doctor_id', 'nurse_id']);
+      // Populate patient, doctor, nurse and participant details
+      await appointment.populate(['patient_id', 'doctor_id', 'nurse_id', 'participants.user_id', 'additional_patient_ids']);
 
       res.status(201).json({
         success: true,
@@ -243,6 +543,268 @@ export class AppointmentController {
 
 
 
+  static async createAppointmentSeries(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation failed',
+          errors: errors.array()
+        });
+        return;
+      }
+
+      const tenant_id = req.tenant_id;
+      const clinic_id = req.clinic_id;
+
+      let rule: RecurrenceRule;
+      try {
+        rule = RecurrenceService.normalize(req.body.recurrence);
+      } catch (ruleError: any) {
+        res.status(400).json({
+          success: false,
+          message: ruleError.message
+        });
+        return;
+      }
+
+      const statusCode = await AppointmentController.resolveStatusCode(tenant_id, clinic_id, req.body.status);
+      if (!statusCode) {
+        res.status(400).json({
+          success: false,
+          message: `Status '${req.body.status}' does not exist or is not active for this clinic`
+        });
+        return;
+      }
+
+      const duration = parseInt(req.body.duration) || 30;
+      const occurrences = RecurrenceService.generateOccurrences(
+        rule,
+        new Date(req.body.appointment_date),
+        TimezoneService.forClinic(req.currentClinic)
+      );
+
+      // Validate every occurrence against the doctor's availability (and the service's resources) up front
+      const bookable = new Map<number, mongoose.Types.ObjectId[]>();
+      const conflicts: any[] = [];
+
+      for (const [index, occurrence] of occurrences.entries()) {
+        const availability = await AvailabilityService.checkAvailability({
+          tenant_id: tenant_id!,
+          clinic_id: clinic_id!,
+          doctor_id: req.body.doctor_id,
+          start: occurrence,
+          duration,
+          service_id: req.body.service_id,
+          resource_ids: req.body.resource_ids,
+          participants: req.body.participants
+        });
+
+        if (availability.available) {
+          bookable.set(index, availability.resource_ids || []);
+        } else {
+          conflicts.push({
+            series_index: index,
+            appointment_date: occurrence,
+            reason: availability.reason,
+            message: availability.message
+          });
+        }
+      }
+
+      if (bookable.size === 0 || (conflicts.length > 0 && !req.body.skip_conflicts)) {
+        res.status(409).json({
+          success: false,
+          message: bookable.size === 0
+            ? 'No occurrence of the series is available'
+            : `${conflicts.length} of ${occurrences.length} occurrence(s) are not available`,
+          conflicts
+        });
+        return;
+      }
+
+      const series = new AppointmentSeries(addTenantToData(req, {
+        clinic_id,
+        patient_id: req.body.patient_id,
+        doctor_id: req.body.doctor_id,
+        nurse_id: req.body.nurse_id,
+        participants: req.body.participants,
+        additional_patient_ids: req.body.additional_patient_ids,
+        start_date: occurrences[0],
+        duration,
+        type: req.body.type,
+        reason: req.body.reason,
+        notes: req.body.notes,
+        recurrence: { ...rule, rrule: RecurrenceService.toRRule(rule) },
+        created_by: req.user?._id
+      }));
+      await series.save();
+
+      const appointments: IAppointment[] = [];
+      let resourceConflict: ResourceAllocationResult | null = null;
+      try {
+        for (const [index, occurrence] of occurrences.entries()) {
+          const resourceIds = bookable.get(index);
+          if (!resourceIds) continue;
+
+          const appointment = new Appointment(addTenantToData(req, {
+            clinic_id,
+            patient_id: req.body.patient_id,
+            doctor_id: req.body.doctor_id,
+            nurse_id: req.body.nurse_id,
+            participants: req.body.participants,
+            additional_patient_ids: req.body.additional_patient_ids,
+            service_id: req.body.service_id,
+            resource_ids: resourceIds,
+            appointment_date: occurrence,
+            duration,
+            type: req.body.type,
+            reason: req.body.reason,
+            notes: req.body.notes,
+            status: statusCode,
+            series_id: series._id,
+            series_index: index
+          }));
+          appointment.$locals.status_change = AppointmentController.getStatusChangeContext(req);
+
+          const reservation = await ResourceService.reserve({
+            tenant_id: tenant_id!,
+            clinic_id: clinic_id!,
+            start: occurrence,
+            duration,
+            resource_ids: resourceIds,
+            staff_ids: AvailabilityService.getStaffIds(req.body.doctor_id, req.body.participants)
+          }, () => appointment.save());
+
+          if (!reservation.reserved) {
+            resourceConflict = reservation.allocation;
+            break;
+          }
+          appointments.push(appointment);
+        }
+      } catch (creationError) {
+        // Roll back the partially created series
+        await Appointment.deleteMany({ series_id: series._id });
+        await AppointmentSeries.deleteOne({ _id: series._id });
+        throw creationError;
+      }
+
+      // A resource or the doctor was taken between the availability check and the booking
+      if (resourceConflict) {
+        await Appointment.deleteMany({ series_id: series._id });
+        await AppointmentSeries.deleteOne({ _id: series._id });
+        AppointmentController.sendAvailabilityConflict(res, AvailabilityService.fromResourceAllocation(resourceConflict));
+        return;
+      }
+
+      res.status(201).json({
+        success: true,
+        message: `Appointment series created with ${appointments.length} appointment(s)`,
+        data: {
+          series,
+          appointments,
+          skipped: conflicts
+        }
+      });
+    } catch (error: any) {
+      console.error('Create appointment series error:', error);
+
+      if (error.message === 'Tenant context is required for this operation') {
+        res.status(400).json({
+          success: false,
+          message: 'Tenant information is required'
+        });
+        return;
+      }
+
+      if (error.name === 'ValidationError') {
+        res.status(400).json({
+          success: false,
+          message: 'Validation failed',
+          errors: Object.values(error.errors).map((err: any) => ({
+            field: err.path,
+            message: err.message
+          }))
+        });
+        return;
+      }
+
+      if (error.code === 11000) {
+        res.status(409).json({
+          success: false,
+          message: 'Doctor is already booked at this time'
+        });
+        return;
+      }
+
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      });
+    }
+  }
+
+  static async getAppointmentSeries(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const { seriesId } = req.params;
+
+      let filter: any = getTenantScopedFilter(req, {
+        _id: seriesId,
+        clinic_id: req.clinic_id
+      });
+
+      const roleFilter = getRoleBasedFilter(req.user, 'appointment');
+      filter = { ...filter, ...roleFilter };
+
+      const series = await AppointmentSeries.findOne(filter)
+        .populate('patient_id', 'first_name last_name phone')
+        .populate('doctor_id', 'first_name last_name')
+        .populate('nurse_id', 'first_name last_name');
+
+      if (!series) {
+        res.status(404).json({
+          success: false,
+          message: 'Appointment series not found or access denied'
+        });
+        return;
+      }
+
+      const appointments = await Appointment.find({
+        tenant_id: series.tenant_id,
+        series_id: series._id
+      }).sort({ series_index: 1 });
+
+      res.json({
+        success: true,
+        data: { series, appointments }
+      });
+    } catch (error: any) {
+      console.error('Get appointment series error:', error);
+
+      if (error.message === 'Tenant context is required for this operation') {
+        res.status(400).json({
+          success: false,
+          message: 'Tenant information is required'
+        });
+        return;
+      }
+
+      if (error.name === 'CastError') {
+        res.status(400).json({
+          success: false,
+          message: 'Invalid series ID format'
+        });
+        return;
+      }
+
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      });
+    }
+  }
+
   static async getAllAppointments(req: AuthRequest, res: Response): Promise<void> {
     try {
       const page = parseInt(req.query.page as string) || 1;
@@ -254,11 +816,18 @@ export class AppointmentController {
         clinic_id: req.clinic_id
       });
 
-      // Date range filter
+      // Date range filter - plain YYYY-MM-DD dates are whole days in the clinic's timezone
       if (req.query.start_date && req.query.end_date) {
+        const timezone = TimezoneService.forClinic(req.currentClinic);
+        const isDay = (value: string) => /^\d{4}-\d{2}-\d{2}$/.test(value);
+        const startDate = req.query.start_date as string;
+        const endDate = req.query.end_date as string;
+
         filter.appointment_date = {
-          $gte: new Date(req.query.start_date as string),
-          $lte: new Date(req.query.end_date as string)
+          $gte: isDay(startDate) ? TimezoneService.startOfDay(startDate, timezone) : new Date(startDate),
+          ...(isDay(endDate)
+            ? { $lt: TimezoneService.addDays(endDate, 1, timezone) }
+            : { $lte: new Date(endDate) })
         };
       }
 
@@ -272,9 +841,9 @@ export class AppointmentController {
         filter.doctor_id = req.query.doctor_id;
       }
 
-      // Patient filter
+      // Patient filter - includes group sessions the patient attends
       if (req.query.patient_id) {
-        filter.patient_id = req.query.patient_id;
+        filter.$and = [attendingPatientFilter(req.query.patient_id as string)];
       }
 
       // Apply role-based filtering
@@ -285,6 +854,8 @@ export class AppointmentController {
         .populate('patient_id', 'first_name last_name email phone')
         .populate('doctor_id', 'first_name last_name role')
         .populate('nurse_id', 'first_name last_name role')
+        .populate('participants.user_id', 'first_name last_name role')
+        .populate('additional_patient_ids', 'first_name last_name email phone')
         .skip(skip)
         .limit(limit)
         .sort({ appointment_date: -1 });
@@ -294,7 +865,7 @@ export class AppointmentController {
       res.json({
         success: true,
         data: {
-          appointments,
+          appointments: AppointmentController.withLocalTime(req, appointments),
           pagination: {
             page,
             limit,
@@ -338,7 +909,9 @@ export class AppointmentController {
       const appointment = await Appointment.findOne(filter)
         .populate('patient_id')
         .populate('doctor_id', '-password_hash')
-        .populate('nurse_id', '-password_hash');
+        .populate('nurse_id', '-password_hash')
+        .populate('participants.user_id', 'first_name last_name role')
+        .populate('additional_patient_ids');
 
       if (!appointment) {
         res.status(404).json({
@@ -350,7 +923,7 @@ export class AppointmentController {
 
       res.json({
         success: true,
-        data: { appointment }
+        data: { appointment: AppointmentController.withLocalTime(req, [appointment])[0] }
       });
     } catch (error: any) {
       console.error('Get appointment by ID error:', error);
@@ -383,29 +956,6 @@ export class AppointmentController {
       }
 
       const { id } = req.params;
-      const tenant_id = req.tenant_id;
-      const clinic_id = req.clinic_id;
-      
-      // Validate status dynamically if provided
-      if (req.body.status) {
-        const statusExists = await AppointmentStatus.findOne({
-          tenant_id,
-          clinic_id,
-          code: req.body.status.toLowerCase(),
-          is_active: true
-        });
-        
-        if (!statusExists) {
-          res.status(400).json({
-            success: false,
-            message: `Status '${req.body.status}' does not exist or is not active for this clinic`
-          });
-          return;
-        }
-        
-        // Use the code from the database (in case of case differences)
-        req.body.status = statusExists.code;
-      }
       
       let filter: any = { _id: id };
       
@@ -413,14 +963,122 @@ export class AppointmentController {
       const roleFilter = getRoleBasedFilter(req.user, 'appointment');
       filter = { ...filter, ...roleFilter };
 
-      const appointment = await Appointment.findOneAndUpdate(
+      const existingAppointment = await Appointment.findOne(filter);
+
+      if (!existingAppointment) {
+        res.status(404).json({
+          success: false,
+          message: 'Appointment not found or access denied'
+        });
+        return;
+      }
+
+      // Derived from the status, never set directly
+      delete req.body.frees_slot;
+      delete req.body.status_history;
+      const statusChange = AppointmentController.getStatusChangeContext(req);
+      delete req.body.status_reason;
+
+      // Status changes must follow the clinic's workflow
+      let nextFreesSlot = existingAppointment.frees_slot;
+      let isCancellation = false;
+      if (req.body.status) {
+        const transition = await StatusWorkflowService.checkTransition({
+          tenant_id: existingAppointment.tenant_id,
+          clinic_id: existingAppointment.clinic_id,
+          from: existingAppointment.status,
+          to: req.body.status.toLowerCase(),
+          user: req.user,
+          data: req.body,
+          appointment: existingAppointment
+        });
+
+        if (!transition.allowed) {
+          AppointmentController.sendTransitionRejection(res, transition);
+          return;
+        }
+
+        // Use the code from the database (in case of case differences)
+        req.body.status = transition.status.code;
+        nextFreesSlot = transition.flags.frees_slot;
+        isCancellation = transition.flags.counts_as_cancelled && transition.status.code !== existingAppointment.status;
+      }
+
+      const scope: SeriesScope = req.body.scope || 'this';
+      delete req.body.scope;
+      delete req.body.series_id;
+      delete req.body.series_index;
+
+      if (scope !== 'this' && existingAppointment.series_id) {
+        await AppointmentController.updateSeriesOccurrences(req, res, existingAppointment, scope);
+        return;
+      }
+
+      // Re-check availability only when the booked interval, doctor or participants change,
+      // or when an appointment that freed its slot is being reactivated
+      const intervalChanged =
+        (req.body.doctor_id && req.body.doctor_id.toString() !== existingAppointment.doctor_id.toString()) ||
+        (req.body.appointment_date && new Date(req.body.appointment_date).getTime() !== existingAppointment.appointment_date.getTime()) ||
+        (req.body.duration && parseInt(req.body.duration) !== existingAppointment.duration) ||
+        (existingAppointment.frees_slot && !nextFreesSlot);
+      const resourcesChanged = req.body.service_id !== undefined || req.body.resource_ids !== undefined;
+      const participantsChanged = req.body.participants !== undefined;
+
+      const start = new Date(req.body.appointment_date || existingAppointment.appointment_date);
+      const duration = parseInt(req.body.duration) || existingAppointment.duration;
+
+      const recheck = (intervalChanged || resourcesChanged || participantsChanged) && !nextFreesSlot;
+      if (recheck) {
+        const availability = await AvailabilityService.checkAvailability({
+          tenant_id: existingAppointment.tenant_id,
+          clinic_id: existingAppointment.clinic_id,
+          doctor_id: req.body.doctor_id || existingAppointment.doctor_id,
+          start,
+          duration,
+          exclude_appointment_id: existingAppointment._id as mongoose.Types.ObjectId,
+          service_id: req.body.service_id !== undefined ? req.body.service_id : existingAppointment.service_id,
+          resource_ids: req.body.resource_ids,
+          participants: participantsChanged ? req.body.participants : existingAppointment.participants
+        });
+
+        if (!availability.available) {
+          AppointmentController.sendAvailabilityConflict(res, availability);
+          return;
+        }
+        req.body.resource_ids = availability.resource_ids || [];
+      } else {
+        delete req.body.resource_ids;
+      }
+
+      const reservation = await ResourceService.reserve({
+        tenant_id: existingAppointment.tenant_id,
+        clinic_id: existingAppointment.clinic_id,
+        start,
+        duration,
+        resource_ids: req.body.resource_ids || [],
+        staff_ids: recheck
+          ? AvailabilityService.getStaffIds(
+              req.body.doctor_id || existingAppointment.doctor_id,
+              participantsChanged ? req.body.participants : existingAppointment.participants
+            )
+          : [],
+        exclude_appointment_id: existingAppointment._id as mongoose.Types.ObjectId
+      }, () => Appointment.findOneAndUpdate(
         filter,
         req.body,
-        { new: true, runValidators: true }
+        { new: true, runValidators: true, status_change: statusChange }
       )
       .populate('patient_id')
       .populate('doctor_id', '-password_hash')
-      .populate('nurse_id', '-password_hash');
+      .populate('nurse_id', '-password_hash')
+      .populate('participants.user_id', 'first_name last_name role')
+      .exec());
+
+      if (!reservation.reserved) {
+        AppointmentController.sendAvailabilityConflict(res, AvailabilityService.fromResourceAllocation(reservation.allocation));
+        return;
+      }
+      const appointment = reservation.result;
 
       if (!appointment) {
         res.status(404).json({
@@ -430,10 +1088,23 @@ export class AppointmentController {
         return;
       }
 
+      // Moving to a slot-freeing status (cancelled, no-show) or moving the appointment frees its old slot for the waitlist
+      let waitlistOffer: IWaitlistOffer | null = null;
+      if (!existingAppointment.frees_slot && (nextFreesSlot || intervalChanged)) {
+        waitlistOffer = await WaitlistService.offerFreedAppointment(existingAppointment);
+      }
+
+      if (isCancellation) {
+        await NotificationService.notifyAppointment(appointment, 'appointment_cancelled');
+      } else if (!nextFreesSlot &&
+          appointment.appointment_date.getTime() !== existingAppointment.appointment_date.getTime()) {
+        await NotificationService.notifyAppointment(appointment, 'appointment_rescheduled');
+      }
+
       res.json({
         success: true,
         message: 'Appointment updated successfully',
-        data: { appointment }
+        data: { appointment, waitlist_offer: waitlistOffer }
       });
     } catch (error) {
       console.error('Update appointment error:', error);
@@ -479,6 +1150,16 @@ export class AppointmentController {
 
   static async cancelAppointment(req: AuthRequest, res: Response): Promise<void> {
     try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation failed',
+          errors: errors.array()
+        });
+        return;
+      }
+
       const { id } = req.params;
       
       let filter: any = { _id: id };
@@ -487,10 +1168,127 @@ export class AppointmentController {
       const roleFilter = getRoleBasedFilter(req.user, 'appointment');
       filter = { ...filter, ...roleFilter };
 
+      const scope = ((req.body && req.body.scope) || req.query.scope || 'this') as SeriesScope;
+      if (!SERIES_SCOPES.includes(scope)) {
+        res.status(400).json({
+          success: false,
+          message: `Scope must be one of: ${SERIES_SCOPES.join(', ')}`
+        });
+        return;
+      }
+
+      if (scope !== 'this') {
+        const anchor = await Appointment.findOne(filter);
+
+        if (!anchor) {
+          res.status(404).json({
+            success: false,
+            message: 'Appointment not found or access denied'
+          });
+          return;
+        }
+
+        if (anchor.series_id) {
+          const targets = await AppointmentController.getSeriesTargets(anchor, scope);
+          const cancelledCode = await StatusWorkflowService.getCancelledStatusCode(anchor.tenant_id, anchor.clinic_id);
+
+          // Every occurrence must be allowed to move to the cancelled status before any is touched
+          for (const fromStatus of new Set(targets.map(target => target.status))) {
+            const transition = await StatusWorkflowService.checkTransition({
+              tenant_id: anchor.tenant_id,
+              clinic_id: anchor.clinic_id,
+              from: fromStatus,
+              to: cancelledCode,
+              user: req.user,
+              data: req.body
+            });
+
+            if (!transition.allowed) {
+              AppointmentController.sendTransitionRejection(res, transition);
+              return;
+            }
+          }
+
+          // One update per occurrence so each records its own status change
+          const statusChange = AppointmentController.getStatusChangeContext(req);
+          for (const target of targets) {
+            await Appointment.updateOne(
+              { _id: target._id },
+              { status: cancelledCode, cancellation_reason: req.body && req.body.cancellation_reason },
+              { status_change: statusChange }
+            );
+          }
+
+          let waitlistOffers = 0;
+          for (const target of targets) {
+            await NotificationService.cancelPendingReminders(target._id as mongoose.Types.ObjectId);
+            if (await WaitlistService.offerFreedAppointment(target)) waitlistOffers++;
+          }
+
+          await NotificationService.notifyAppointment(anchor, 'appointment_cancelled');
+
+          const series = await AppointmentSeries.findById(anchor.series_id);
+          if (series) {
+            if (scope === 'series' || !anchor.series_index) {
+              series.status = 'cancelled';
+            } else {
+              // Stop the rule before the cancelled tail so the series reflects what remains
+              const rule: RecurrenceRule = {
+                ...series.toObject().recurrence,
+                count: series.recurrence.count ? anchor.series_index : undefined,
+                until: new Date(anchor.appointment_date.getTime() - 1)
+              };
+              series.recurrence = { ...rule, rrule: RecurrenceService.toRRule(rule) } as any;
+            }
+            await series.save();
+          }
+
+          const appointment = await Appointment.findById(anchor._id);
+
+          res.json({
+            success: true,
+            message: `${targets.length} appointment(s) in the series cancelled successfully`,
+            data: {
+              appointment,
+              series_id: anchor.series_id,
+              scope,
+              cancelled_count: targets.length,
+              waitlist_offers: waitlistOffers
+            }
+          });
+          return;
+        }
+      }
+
+      const existingAppointment = await Appointment.findOne(filter);
+
+      if (!existingAppointment) {
+        res.status(404).json({
+          success: false,
+          message: 'Appointment not found or access denied'
+        });
+        return;
+      }
+
+      const cancelledCode = await StatusWorkflowService.getCancelledStatusCode(existingAppointment.tenant_id, existingAppointment.clinic_id);
+      const transition = await StatusWorkflowService.checkTransition({
+        tenant_id: existingAppointment.tenant_id,
+        clinic_id: existingAppointment.clinic_id,
+        from: existingAppointment.status,
+        to: cancelledCode,
+        user: req.user,
+        data: req.body
+      });
+
+      if (!transition.allowed) {
+        AppointmentController.sendTransitionRejection(res, transition);
+        return;
+      }
+
       const appointment = await Appointment.findOneAndUpdate(
         filter,
-        { status: 'cancelled' },
-        { new: true }
+        { status: cancelledCode, cancellation_reason: req.body && req.body.cancellation_reason },
+        { new: true, status_change: AppointmentController.getStatusChangeContext(req) }
       );
 
       if (!appointment) {
@@ -501,10 +1299,15 @@ export class AppointmentController {
         return;
       }
 
+      await NotificationService.notifyAppointment(appointment, 'appointment_cancelled');
+
+      // Offer the freed slot to the best-matching waitlisted patient
+      const waitlistOffer = await WaitlistService.offerFreedAppointment(appointment);
+
       res.json({
         success: true,
         message: 'Appointment cancelled successfully',
-        data: { appointment }
+        data: { appointment, waitlist_offer: waitlistOffer }
       });
     } catch (error) {
       console.error('Cancel appointment error:', error);
@@ -537,24 +1340,50 @@ export class AppointmentController {
         return;
       }
 
-      const startDate = new Date(date as string);
-      const endDate = new Date(startDate);
-      endDate.setDate(endDate.getDate() + 1);
+      // Working hours after leave, holidays and overrides are applied
+      const { timezone, working_window, exceptions, blocked } = await AvailabilityService.getDaySchedule({
+        tenant_id: req.tenant_id!,
+        clinic_id: req.clinic_id!,
+        doctor_id: doctorId,
+        date: date as string
+      });
+
+      const { start: startDate, end: endDate } = TimezoneService.getDayRange(date as string, timezone);
 
+      // Includes appointments of other doctors they take part in (assisting, anesthesia...)
       const appointments = await Appointment.find({
-        doctor_id: doctorId,
+        tenant_id: req.tenant_id,
+        clinic_id: req.clinic_id,
+        ...staffMemberFilter(doctorId),
         appointment_date: {
           $gte: startDate,
           $lt: endDate
         },
-        status: { $nin: ['cancelled', 'no-show'] }
+        frees_slot: { $ne: true }
       })
       .populate('patient_id', 'first_name last_name')
       .sort({ appointment_date: -1 });
 
+      // Booked appointments that now fall into a leave/closure period
+      const conflictingAppointmentIds = appointments
+        .filter(appointment => {
+          const appointmentEnd = appointment.appointment_date.getTime() + appointment.duration * 60000;
+          return blocked.some(interval =>
+            interval.start.getTime() < appointmentEnd && interval.end.getTime() > appointment.appointment_date.getTime()
+          );
+        })
+        .map(appointment => appointment._id);
+
       res.json({
         success: true,
-        data: { appointments }
+        data: {
+          appointments: AppointmentController.withLocalTime(req, appointments),
+          timezone,
+          is_available: !!working_window && !blocked.some(interval => interval.start <= startDate && interval.end >= endDate),
+          working_hours: working_window ? { start: working_window.start, end: working_window.end } : null,
+          exceptions,
+          conflicting_appointment_ids: conflictingAppointmentIds
+        }
       });
     } catch (error) {
       console.error('Get doctor schedule error:', error);
@@ -565,13 +1394,64 @@ export class AppointmentController {
     }
   }
 
+  static async getAvailability(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation failed',
+          errors: errors.array()
+        });
+        return;
+      }
+
+      const { doctor_id, date } = req.query;
+      const duration = parseInt(req.query.duration as string) || 30;
+      const step = parseInt(req.query.step as string) || 15;
+
+      const { timezone, working_window, slots, booked, blocked, held } = await AvailabilityService.getAvailableSlots({
+        tenant_id: req.tenant_id!,
+        clinic_id: req.clinic_id!,
+        doctor_id: doctor_id as string,
+        date: date as string,
+        duration,
+        step,
+        service_id: req.query.service_id as string | undefined
+      });
+
+      res.json({
+        success: true,
+        data: {
+          doctor_id,
+          date,
+          duration,
+          timezone,
+          is_working: !!working_window,
+          working_hours: working_window ? { start: working_window.start, end: working_window.end } : null,
+          slots,
+          booked,
+          blocked,
+          held
+        }
+      });
+    } catch (error) {
+      console.error('Get availability error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      });
+    }
+  }
+
   static async getUpcomingAppointments(req: AuthRequest, res: Response): Promise<void> {
     try {
       const limit = parseInt(req.query.limit as string) || 10;
       
       let filter: any = {
         appointment_date: { $gte: new Date() },
-        status: { $nin: ['cancelled', 'completed', 'no-show'] }
+        frees_slot: { $ne: true },
+        status: { $nin: await StatusWorkflowService.getCodesWithFlag(req.tenant_id!, req.clinic_id!, 'is_terminal') }
       };
 
       // Apply role-based filtering
@@ -617,35 +1497,54 @@ export class AppointmentController {
         }
       ]);
 
-      const todayStart = new Date();
-      todayStart.setHours(0, 0, 0, 0);
-      const todayEnd = new Date();
-      todayEnd.setHours(23, 59, 59, 999);
+      // "Today" and "this week" follow the clinic's calendar, not the server's
+      const timezone = TimezoneService.forClinic(req.currentClinic);
+      const { start: todayStart, end: todayEnd } = TimezoneService.getDayRange(new Date(), timezone);
 
       const todayAppointments = await Appointment.countDocuments({
         ...filter,
         appointment_date: {
           $gte: todayStart,
-          $lte: todayEnd
+          $lt: todayEnd
         }
       });
 
-      const thisWeekStart = new Date();
-      thisWeekStart.setDate(thisWeekStart.getDate() - thisWeekStart.getDay());
-      thisWeekStart.setHours(0, 0, 0, 0);
+      const thisWeekStart = TimezoneService.addDays(todayStart, -TimezoneService.getWeekDayIndex(todayStart, timezone), timezone);
 
       const weeklyAppointments = await Appointment.countDocuments({
         ...filter,
         appointment_date: { $gte: thisWeekStart }
       });
 
+      // An appointment counts once however many staff take part; a group session counts a visit per patient
+      const [attendance] = await Appointment.aggregate([
+        { $match: filter },
+        {
+          $project: {
+            extra_patients: { $size: { $ifNull: ['$additional_patient_ids', []] } },
+            extra_staff: { $size: { $ifNull: ['$participants', []] } }
+          }
+        },
+        {
+          $group: {
+            _id: null,
+            patientVisits: { $sum: { $add: [1, '$extra_patients'] } },
+            groupAppointments: { $sum: { $cond: [{ $gt: ['$extra_patients', 0] }, 1, 0] } },
+            multiProviderAppointments: { $sum: { $cond: [{ $gt: ['$extra_staff', 0] }, 1, 0] } }
+          }
+        }
+      ]);
+
       res.json({
         success: true,
         data: {
           totalAppointments,
           statusStats,
           todayAppointments,
-          weeklyAppointments
+          weeklyAppointments,
+          patientVisits: attendance?.patientVisits || 0,
+          groupAppointments: attendance?.groupAppointments || 0,
+          multiProviderAppointments: attendance?.multiProviderAppointments || 0
         }
       });
     } catch (error) {
@@ -657,70 +1556,106 @@ export class AppointmentController {
     }
   }
 
-  // Public method for patients to view their appointments without authentication
-  static async getPublicPatientAppointments(req: Request, res: Response): Promise<void> {
+  // Status timeline of an appointment with the visit's wait and chair time
+  static async getTimeline(req: AuthRequest, res: Response): Promise<void> {
     try {
-      const { patientId } = req.params;
-      const page = parseInt(req.query.page as string) || 1;
-      const limit = parseInt(req.query.limit as string) || 20;
-      const skip = (page - 1) * limit;
+      let filter: any = getTenantScopedFilter(req, {
+        _id: req.params.id,
+        clinic_id: req.clinic_id
+      });
 
-      // Validate patient ID format
-      if (!patientId || patientId.length !== 24) {
-        res.status(400).json({
+      // Apply role-based filtering
+      const roleFilter = getRoleBasedFilter(req.user, 'appointment');
+      filter = { ...filter, ...roleFilter };
+
+      const appointment = await Appointment.findOne(filter)
+        .populate('status_history.changed_by', 'first_name last_name role');
+
+      if (!appointment) {
+        res.status(404).json({
           success: false,
-          message: 'Invalid patient ID format'
+          message: 'Appointment not found or access denied'
         });
         return;
       }
 
-      let filter: any = { patient_id: patientId };
+      const stageCodes = await VisitMetricsService.getStageCodes(appointment.tenant_id, appointment.clinic_id);
 
-      // Optional status filter
-      if (req.query.status) {
-        filter.status = req.query.status;
-      }
+      const events = [
+        {
+          type: 'created',
+          at: appointment.created_at,
+          source: appointment.source
+        },
+        ...appointment.status_history.map(change => ({
+          type: 'status_change',
+          at: change.changed_at,
+          from_status: change.from_status,
+          to_status: change.to_status,
+          visit_stage: VisitMetricsService.getStage(change.to_status, stageCodes),
+          changed_by: change.changed_by,
+          reason: change.reason,
+          source: change.source
+        }))
+      ];
 
-      // Optional date range filter
-      if (req.query.start_date && req.query.end_date) {
-        filter.appointment_date = {
-          $gte: new Date(req.query.start_date as string),
-          $lte: new Date(req.query.end_date as string)
-        };
-      }
+      res.json({
+        success: true,
+        data: {
+          appointment_id: appointment._id,
+          status: appointment.status,
+          appointment_date: appointment.appointment_date,
+          events,
+          metrics: VisitMetricsService.compute(appointment, stageCodes)
+        }
+      });
+    } catch (error) {
+      console.error('Get appointment timeline error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      });
+    }
+  }
 
-      const appointments = await Appointment.find(filter)
-        .populate('patient_id', 'first_name last_name email phone date_of_birth')
-        .populate('doctor_id', 'first_name last_name role department')
-        .populate('nurse_id', 'first_name last_name role')
-        .skip(skip)
-        .limit(limit)
-        .sort({ appointment_date: -1 });
+  /**
+   * Signed self-service links (view, confirm, cancel, reschedule) for staff to share with the patient
+   */
+  static async getPatientLinks(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      let filter: any = getTenantScopedFilter(req, {
+        _id: req.params.id,
+        clinic_id: req.clinic_id
+      });
 
-      const totalAppointments = await Appointment.countDocuments(filter);
+      // Apply role-based filtering
+      const roleFilter = getRoleBasedFilter(req.user, 'appointment');
+      filter = { ...filter, ...roleFilter };
 
-      // Also get some basic patient info for display
-      const patientInfo = appointments.length > 0 ? appointments[0].patient_id : null;
+      const appointment = await Appointment.findOne(filter);
+
+      if (!appointment) {
+        res.status(404).json({
+          success: false,
+          message: 'Appointment not found or access denied'
+        });
+        return;
+      }
 
       res.json({
         success: true,
         data: {
-          patient: patientInfo,
-          appointments,
-          pagination: {
-            page,
-            limit,
-            total: totalAppointments,
-            pages: Math.ceil(totalAppointments / limit)
-          }
+          appointment_id: appointment._id,
+          links: AppointmentLinkService.createLinks(appointment)
         }
       });
     } catch (error) {
-      console.error('Get public patient appointments error:', error);
+      console.error('Get appointment patient links error:', error);
       res.status(500).json({
         success: false,
         message: 'Internal server error'
       });
     }
   }
+
 } 
\ No newline at end of file
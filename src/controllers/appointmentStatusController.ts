@@ -1,10 +1,13 @@
 import { Request, Response } from 'express';
 import { validationResult } from 'express-validator';
-import AppointmentStatus from '../models/AppointmentStatus';
+import AppointmentStatus, { IStatusTransition, resolveStatusFlags } from '../models/AppointmentStatus';
 import { AuthRequest } from '../types/express';
 import { addTenantToData } from '../middleware/auth';
+import { StatusWorkflowService } from '../utils/statusWorkflow';
 import mongoose from 'mongoose';
 
+const FLAG_FIELDS = ['is_terminal', 'counts_as_cancelled', 'frees_slot', 'is_billable'] as const;
+
 export class AppointmentStatusController {
   // Get all appointment statuses for current tenant/clinic
   static async getStatuses(req: AuthRequest, res: Response): Promise<void> {
@@ -133,6 +136,18 @@ export class AppointmentStatusController {
       }
 
       const { code, name_en, name_ar, color, icon, order, show_in_calendar, is_default, description } = req.body;
+      const transitions = AppointmentStatusController.normalizeTransitions(req.body.transitions);
+
+      const transitionError = await AppointmentStatusController.validateTransitions(
+        tenant_id, clinic_id, code.toLowerCase(), transitions, !!req.body.is_terminal
+      );
+      if (transitionError) {
+        res.status(400).json({
+          success: false,
+          message: transitionError
+        });
+        return;
+      }
 
       // Check if code already exists for this tenant/clinic
       const existingStatus = await AppointmentStatus.findOne({
@@ -169,6 +184,9 @@ export class AppointmentStatusController {
         show_in_calendar: show_in_calendar ?? false,
         is_active: true,
         is_default: is_default ?? false,
+        ...AppointmentStatusController.pickFlags(req.body),
+        ...(req.body.visit_stage !== undefined && { visit_stage: req.body.visit_stage || null }),
+        transitions,
         description
       });
 
@@ -239,13 +257,7 @@ export class AppointmentStatusController {
 
       const { name_en, name_ar, color, icon, order, show_in_calendar, is_default, is_active, description } = req.body;
 
-      // If setting as default, unset other defaults
-      if (is_default && !status.is_default) {
-        await AppointmentStatus.updateMany(
-          { tenant_id, clinic_id, is_default: true, _id: { $ne: id } },
-          { $set: { is_default: false } }
-        );
-      }
+      const wasDefault = status.is_default;
 
       // Update fields
       if (name_en !== undefined) status.name_en = name_en;
@@ -258,6 +270,46 @@ export class AppointmentStatusController {
       if (is_active !== undefined) status.is_active = is_active;
       if (description !== undefined) status.description = description;
 
+      const previousFreesSlot = resolveStatusFlags(status.code, status).frees_slot;
+      Object.assign(status, AppointmentStatusController.pickFlags(req.body));
+      if (req.body.visit_stage !== undefined) status.visit_stage = req.body.visit_stage || null;
+      if (req.body.transitions !== undefined) {
+        status.transitions = AppointmentStatusController.normalizeTransitions(req.body.transitions) as any;
+      }
+
+      const transitionError = await AppointmentStatusController.validateTransitions(
+        tenant_id, clinic_id, status.code, status.transitions, resolveStatusFlags(status.code, status).is_terminal
+      );
+      if (transitionError) {
+        res.status(400).json({
+          success: false,
+          message: transitionError
+        });
+        return;
+      }
+
+      if (is_active === false && status.is_default) {
+        res.status(400).json({
+          success: false,
+          message: 'Cannot deactivate the default status'
+        });
+        return;
+      }
+
+      // Appointments carry their own copy of frees_slot - bring them in line first so a clash aborts the change
+      const freesSlot = resolveStatusFlags(status.code, status).frees_slot;
+      if (freesSlot !== previousFreesSlot) {
+        await StatusWorkflowService.syncAppointmentSlots(tenant_id, clinic_id, status.code, freesSlot);
+      }
+
+      // If setting as default, unset other defaults
+      if (is_default && !wasDefault) {
+        await AppointmentStatus.updateMany(
+          { tenant_id, clinic_id, is_default: true, _id: { $ne: id } },
+          { $set: { is_default: false } }
+        );
+      }
+
       await status.save();
 
       res.status(200).json({
@@ -267,6 +319,15 @@ export class AppointmentStatusController {
       });
     } catch (error: any) {
       console.error('Update appointment status error:', error);
+
+      if (error.code === 11000) {
+        res.status(409).json({
+          success: false,
+          message: 'Appointments in this status would double-book a doctor if their slots were held again'
+        });
+        return;
+      }
+
       res.status(500).json({
         success: false,
         message: 'Internal server error'
@@ -345,7 +406,7 @@ export class AppointmentStatusController {
         return;
       }
 
-      const { updates } = req.body; // Array of { id, order } or { id, is_active }, etc.
+      const { updates } = req.body; // Array of { id, order } or { id, is_active }, flags, transitions, etc.
 
       if (!Array.isArray(updates) || updates.length === 0) {
         res.status(400).json({
@@ -355,6 +416,49 @@ export class AppointmentStatusController {
         return;
       }
 
+      const statuses = await AppointmentStatus.find({
+        _id: { $in: updates.map((update: any) => update.id) },
+        tenant_id,
+        clinic_id
+      });
+      const statusesById = new Map(statuses.map(status => [(status._id as mongoose.Types.ObjectId).toString(), status]));
+
+      // Validate the whole batch against the workflow rules before writing any of it
+      for (const update of updates) {
+        const status = statusesById.get(update.id);
+        if (!status) {
+          res.status(404).json({
+            success: false,
+            message: `Appointment status ${update.id} not found`
+          });
+          return;
+        }
+
+        if (update.is_active === false && status.is_default) {
+          res.status(400).json({
+            success: false,
+            message: `Cannot deactivate the default status '${status.code}'`
+          });
+          return;
+        }
+
+        const transitions = update.transitions !== undefined
+          ? AppointmentStatusController.normalizeTransitions(update.transitions)
+          : status.transitions;
+        const flags = resolveStatusFlags(status.code, { ...status.toObject(), ...AppointmentStatusController.pickFlags(update) });
+
+        const transitionError = await AppointmentStatusController.validateTransitions(
+          tenant_id, clinic_id, status.code, transitions, flags.is_terminal
+        );
+        if (transitionError) {
+          res.status(400).json({
+            success: false,
+            message: `${status.code}: ${transitionError}`
+          });
+          return;
+        }
+      }
+
       const bulkOps = updates.map((update: any) => ({
         updateOne: {
           filter: {
@@ -366,12 +470,22 @@ export class AppointmentStatusController {
             $set: {
               ...(update.order !== undefined && { order: update.order }),
               ...(update.is_active !== undefined && { is_active: update.is_active }),
-              ...(update.show_in_calendar !== undefined && { show_in_calendar: update.show_in_calendar })
+              ...(update.show_in_calendar !== undefined && { show_in_calendar: update.show_in_calendar }),
+              ...AppointmentStatusController.pickFlags(update),
+              ...(update.visit_stage !== undefined && { visit_stage: update.visit_stage || null }),
+              ...(update.transitions !== undefined && { transitions: AppointmentStatusController.normalizeTransitions(update.transitions) })
             }
           }
         }
       }));
 
+      for (const update of updates) {
+        const status = statusesById.get(update.id)!;
+        if (update.frees_slot !== undefined && Boolean(update.frees_slot) !== resolveStatusFlags(status.code, status).frees_slot) {
+          await StatusWorkflowService.syncAppointmentSlots(tenant_id, clinic_id, status.code, Boolean(update.frees_slot));
+        }
+      }
+
       await AppointmentStatus.bulkWrite(bulkOps);
 
       res.status(200).json({
@@ -380,11 +494,79 @@ export class AppointmentStatusController {
       });
     } catch (error: any) {
       console.error('Batch update appointment statuses error:', error);
+
+      if (error.code === 11000) {
+        res.status(409).json({
+          success: false,
+          message: 'Appointments in these statuses would double-book a doctor if their slots were held again'
+        });
+        return;
+      }
+
       res.status(500).json({
         success: false,
         message: 'Internal server error'
       });
     }
   }
+
+  // Flags present in a request body, leaving unset ones untouched
+  private static pickFlags(source: any): Partial<Record<typeof FLAG_FIELDS[number], boolean>> {
+    const flags: Partial<Record<typeof FLAG_FIELDS[number], boolean>> = {};
+    FLAG_FIELDS.forEach(flag => {
+      if (source[flag] !== undefined) {
+        flags[flag] = Boolean(source[flag]);
+      }
+    });
+    return flags;
+  }
+
+  private static normalizeTransitions(transitions: any): IStatusTransition[] {
+    if (!Array.isArray(transitions)) {
+      return [];
+    }
+
+    return transitions.map((transition: any) => ({
+      to: String(transition.to || '').trim().toLowerCase(),
+      roles: Array.isArray(transition.roles) ? transition.roles : [],
+      permission: transition.permission || undefined,
+      required_fields: Array.isArray(transition.required_fields) ? transition.required_fields : []
+    }));
+  }
+
+  // Returns an error message when the transitions of a status do not form a valid part of the clinic's graph
+  private static async validateTransitions(
+    tenant_id: string,
+    clinic_id: string,
+    code: string,
+    transitions: IStatusTransition[],
+    isTerminal: boolean
+  ): Promise<string | null> {
+    if (transitions.length === 0) {
+      return null;
+    }
+
+    if (isTerminal) {
+      return 'A terminal status cannot have transitions';
+    }
+
+    const targets = transitions.map(transition => transition.to);
+
+    if (targets.includes(code)) {
+      return 'A status cannot transition to itself';
+    }
+
+    if (new Set(targets).size !== targets.length) {
+      return 'Each target status can only appear once in transitions';
+    }
+
+    const existingCodes: string[] = await AppointmentStatus.distinct('code', { tenant_id, clinic_id, code: { $in: targets } });
+    const unknownCodes = targets.filter(target => !existingCodes.includes(target));
+    if (unknownCodes.length > 0) {
+      return `Unknown target status: ${unknownCodes.join(', ')}`;
+    }
+
+    return null;
+  }
 }
 
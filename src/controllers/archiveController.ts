@@ -0,0 +1,134 @@
+import { Response } from 'express';
+import { validationResult } from 'express-validator';
+import { AuthRequest } from '../types/express';
+import { ArchiveRecordType, ArchiveService } from '../utils/archive';
+
+export class ArchiveController {
+  /**
+   * How long archived records of each type are kept before they are purged
+   */
+  static async getPolicies(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      res.json({
+        success: true,
+        data: { policies: ArchiveService.getPolicies() }
+      });
+    } catch (error) {
+      console.error('Get archive policies error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      });
+    }
+  }
+
+  static async getArchivedRecords(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation failed',
+          errors: errors.array()
+        });
+        return;
+      }
+
+      const type = req.params.type as ArchiveRecordType;
+      const page = parseInt(req.query.page as string) || 1;
+      const limit = parseInt(req.query.limit as string) || 20;
+
+      const { records, total } = await ArchiveService.list({
+        type,
+        tenant_id: req.tenant_id!,
+        clinic_id: req.clinic_id,
+        search: req.query.search as string | undefined,
+        page,
+        limit
+      });
+
+      res.json({
+        success: true,
+        data: {
+          records,
+          policy: ArchiveService.getPolicy(type),
+          pagination: {
+            page,
+            limit,
+            total,
+            pages: Math.ceil(total / limit)
+          }
+        }
+      });
+    } catch (error) {
+      console.error('Get archived records error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      });
+    }
+  }
+
+  static async restoreRecord(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation failed',
+          errors: errors.array()
+        });
+        return;
+      }
+
+      const type = req.params.type as ArchiveRecordType;
+      const record = await ArchiveService.findArchived(type, req.params.id, req.tenant_id!, req.clinic_id);
+
+      if (!record) {
+        res.status(404).json({
+          success: false,
+          message: 'Archived record not found'
+        });
+        return;
+      }
+
+      await ArchiveService.restore(type, record);
+
+      res.json({
+        success: true,
+        message: 'Record restored successfully',
+        data: { record }
+      });
+    } catch (error) {
+      console.error('Restore archived record error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      });
+    }
+  }
+
+  /**
+   * Purge this clinic's archived records that are past their retention period, without waiting
+   * for the scheduled run
+   */
+  static async purgeExpired(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const results = await ArchiveService.purgeExpired({ tenant_id: req.tenant_id!, clinic_id: req.clinic_id });
+
+      res.json({
+        success: true,
+        message: 'Expired archived records purged',
+        data: { results }
+      });
+    } catch (error) {
+      console.error('Purge archived records error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      });
+    }
+  }
+}
+
+export default ArchiveController;
@@ -0,0 +1,371 @@
+import { Request, Response } from 'express';
+import { validationResult } from 'express-validator';
+import crypto from 'crypto';
+import multer from 'multer';
+import path from 'path';
+import mongoose from 'mongoose';
+import { Appointment, IAppointment, ScheduleException, IScheduleException, User, staffMemberFilter } from '../models';
+import { AuthRequest } from '../types/express';
+import { getRoleBasedFilter } from '../middleware/auth';
+import { AvailabilityService } from '../utils/availability';
+import { ICalendarService, ICalEvent } from '../utils/ical';
+import { TimezoneService } from '../utils/timezone';
+
+// Calendar files are read in memory - they are parsed, never stored
+export const icsUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 1024 * 1024 // 1MB limit
+  },
+  fileFilter: (req, file, cb) => {
+    if (path.extname(file.originalname).toLowerCase() === '.ics' || file.mimetype === 'text/calendar') {
+      return cb(null, true);
+    }
+    cb(new Error('Only iCalendar (.ics) files are allowed'));
+  }
+});
+
+// Appointments listed in a feed: a month back and a year ahead
+const FEED_PAST_DAYS = 30;
+const FEED_FUTURE_DAYS = 365;
+const FEED_MAX_EVENTS = 2000;
+
+// Imported busy blocks are kept for the coming year
+const IMPORT_WINDOW_DAYS = 365;
+
+const hashToken = (token: string): string => crypto.createHash('sha256').update(token).digest('hex');
+
+export class CalendarController {
+  /**
+   * Whether the current user has a feed URL (the URL itself is only shown when created)
+   */
+  static async getFeedStatus(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const user = await User.findById(req.user?._id).select('+calendar_feed_token_hash calendar_feed_created_at');
+
+      res.json({
+        success: true,
+        data: {
+          enabled: !!user?.calendar_feed_token_hash,
+          created_at: user?.calendar_feed_created_at || null
+        }
+      });
+    } catch (error) {
+      console.error('Get calendar feed status error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      });
+    }
+  }
+
+  /**
+   * Create the current user's secret feed URL, replacing (and so revoking) any previous one
+   */
+  static async createFeed(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const token = crypto.randomBytes(32).toString('hex');
+
+      await User.updateOne(
+        { _id: req.user?._id },
+        { calendar_feed_token_hash: hashToken(token), calendar_feed_created_at: new Date() }
+      );
+
+      const base = (process.env.API_PUBLIC_URL || `${req.protocol}://${req.get('host')}`).replace(/\/$/, '');
+      const url = `${base}/public/calendar-feeds/${token}.ics`;
+
+      res.status(201).json({
+        success: true,
+        message: 'Calendar feed created. Keep this URL private - anyone with it can see your appointments.',
+        data: {
+          url,
+          webcal_url: url.replace(/^https?:/, 'webcal:')
+        }
+      });
+    } catch (error) {
+      console.error('Create calendar feed error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      });
+    }
+  }
+
+  static async revokeFeed(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      await User.updateOne(
+        { _id: req.user?._id },
+        { $unset: { calendar_feed_token_hash: 1, calendar_feed_created_at: 1 } }
+      );
+
+      res.json({
+        success: true,
+        message: 'Calendar feed revoked'
+      });
+    } catch (error) {
+      console.error('Revoke calendar feed error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      });
+    }
+  }
+
+  /**
+   * Public ICS feed of the appointments a staff member takes part in - the secret token is the credential
+   */
+  static async getFeed(req: Request, res: Response): Promise<void> {
+    try {
+      const token = req.params.token.replace(/\.ics$/i, '');
+      const user = /^[a-f0-9]{64}$/.test(token)
+        ? await User.findOne({ calendar_feed_token_hash: hashToken(token), is_active: true })
+        : null;
+
+      if (!user) {
+        res.status(404).json({
+          success: false,
+          message: 'Calendar feed not found'
+        });
+        return;
+      }
+
+      const now = Date.now();
+      const appointments = await Appointment.find({
+        tenant_id: user.tenant_id,
+        ...staffMemberFilter(user._id as mongoose.Types.ObjectId),
+        frees_slot: { $ne: true },
+        appointment_date: {
+          $gte: new Date(now - FEED_PAST_DAYS * 24 * 60 * 60000),
+          $lte: new Date(now + FEED_FUTURE_DAYS * 24 * 60 * 60000)
+        }
+      })
+      .populate('patient_id', 'first_name last_name')
+      .populate('clinic_id', 'name')
+      .sort({ appointment_date: 1 })
+      .limit(FEED_MAX_EVENTS);
+
+      const ics = ICalendarService.buildCalendar({
+        name: `${user.first_name} ${user.last_name} - Appointments`,
+        events: appointments.map(CalendarController.toCalendarEvent)
+      });
+
+      res.set({
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': 'inline; filename="appointments.ics"',
+        'Cache-Control': 'private, max-age=300'
+      });
+      res.send(ics);
+    } catch (error) {
+      console.error('Get calendar feed error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      });
+    }
+  }
+
+  /**
+   * One appointment as an .ics download
+   */
+  static async getAppointmentIcs(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const filter: any = {
+        _id: req.params.id,
+        tenant_id: req.tenant_id,
+        clinic_id: req.clinic_id,
+        ...getRoleBasedFilter(req.user, 'appointment')
+      };
+
+      const appointment = await Appointment.findOne(filter)
+        .populate('patient_id', 'first_name last_name')
+        .populate('clinic_id', 'name');
+
+      if (!appointment) {
+        res.status(404).json({
+          success: false,
+          message: 'Appointment not found or access denied'
+        });
+        return;
+      }
+
+      const ics = ICalendarService.buildCalendar({ events: [CalendarController.toCalendarEvent(appointment)] });
+
+      res.set({
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': `attachment; filename="appointment-${appointment._id}.ics"`
+      });
+      res.send(ics);
+    } catch (error) {
+      console.error('Get appointment ics error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      });
+    }
+  }
+
+  /**
+   * Import an external calendar as busy blocks of one staff member, so those commitments block booking.
+   * Re-importing the same calendar updates the blocks; with replace (the default) blocks that are no
+   * longer in the file are removed.
+   */
+  static async importCalendar(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation failed',
+          errors: errors.array()
+        });
+        return;
+      }
+
+      const ics = req.file ? req.file.buffer.toString('utf8') : req.body.ics;
+      if (!ics || !/BEGIN:VCALENDAR/i.test(ics)) {
+        res.status(400).json({
+          success: false,
+          message: 'An iCalendar file (or ics text) is required'
+        });
+        return;
+      }
+
+      // Staff import their own calendar; admins may import for anyone in the clinic
+      const userId = req.body.user_id || req.user?._id?.toString();
+      const isAdmin = req.user?.role === 'admin' || req.user?.role === 'super_admin';
+      if (userId !== req.user?._id?.toString() && !isAdmin) {
+        res.status(403).json({
+          success: false,
+          message: 'You can only import your own calendar'
+        });
+        return;
+      }
+
+      const user = await User.findOne({ _id: userId, tenant_id: req.tenant_id });
+      if (!user) {
+        res.status(404).json({
+          success: false,
+          message: 'User not found'
+        });
+        return;
+      }
+
+      const timezone = TimezoneService.forClinic(req.currentClinic);
+      const from = TimezoneService.startOfDay(new Date(), timezone);
+      const to = TimezoneService.addDays(from, IMPORT_WINDOW_DAYS, timezone);
+      const occurrences = ICalendarService.expand(ICalendarService.parse(ics, timezone), from, to, timezone);
+
+      const scope = {
+        tenant_id: req.tenant_id,
+        clinic_id: req.clinic_id,
+        user_id: user._id,
+        source: 'ics'
+      };
+      const existing = new Map(
+        (await ScheduleException.find(scope)).map(exception => [exception.external_uid, exception])
+      );
+
+      const changed: IScheduleException[] = [];
+      let created = 0;
+      let updated = 0;
+
+      for (const occurrence of occurrences) {
+        const title = (occurrence.summary || 'Busy').slice(0, 200);
+        const exception = existing.get(occurrence.uid);
+
+        if (exception) {
+          existing.delete(occurrence.uid);
+          const unchanged = exception.is_active &&
+            exception.title === title &&
+            exception.start_date.getTime() === occurrence.start.getTime() &&
+            exception.end_date.getTime() === occurrence.end.getTime();
+          if (unchanged) continue;
+
+          exception.set({ title, start_date: occurrence.start, end_date: occurrence.end, all_day: occurrence.all_day, is_active: true });
+          await exception.save();
+          changed.push(exception);
+          updated++;
+          continue;
+        }
+
+        const newException = await ScheduleException.create({
+          ...scope,
+          external_uid: occurrence.uid,
+          type: 'busy',
+          title,
+          start_date: occurrence.start,
+          end_date: occurrence.end,
+          all_day: occurrence.all_day,
+          reason: 'Imported from external calendar',
+          created_by: req.user?._id
+        });
+        changed.push(newException);
+        created++;
+      }
+
+      // Blocks still ahead that disappeared from the calendar
+      let removed = 0;
+      if (req.body.replace !== false && req.body.replace !== 'false') {
+        const staleIds = Array.from(existing.values())
+          .filter(exception => exception.is_active && exception.end_date > new Date())
+          .map(exception => exception._id);
+
+        if (staleIds.length > 0) {
+          removed = (await ScheduleException.updateMany({ _id: { $in: staleIds } }, { is_active: false })).modifiedCount;
+        }
+      }
+
+      // Booked appointments the new commitments collide with
+      const conflicting = new Map<string, IAppointment>();
+      for (const exception of changed) {
+        for (const appointment of await AvailabilityService.findAppointmentsAffectedBy(exception)) {
+          conflicting.set((appointment._id as mongoose.Types.ObjectId).toString(), appointment);
+        }
+      }
+
+      res.json({
+        success: true,
+        message: `Calendar imported: ${created} added, ${updated} updated, ${removed} removed`,
+        data: {
+          user_id: user._id,
+          created,
+          updated,
+          removed,
+          conflicting_appointments: Array.from(conflicting.values())
+        }
+      });
+    } catch (error) {
+      console.error('Import calendar error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      });
+    }
+  }
+
+  /**
+   * Calendar event for a staff calendar - the patient only appears as initials
+   */
+  private static toCalendarEvent(appointment: IAppointment): ICalEvent {
+    const patient: any = appointment.patient_id;
+    const clinic: any = appointment.clinic_id;
+    const initials = [patient?.first_name, patient?.last_name]
+      .filter(Boolean)
+      .map((name: string) => `${name.trim().charAt(0).toUpperCase()}.`)
+      .join('');
+    const type = appointment.type ? appointment.type.charAt(0).toUpperCase() + appointment.type.slice(1) : 'Appointment';
+
+    return {
+      uid: ICalendarService.getAppointmentUid(appointment._id as mongoose.Types.ObjectId),
+      start: appointment.appointment_date,
+      end: new Date(appointment.appointment_date.getTime() + appointment.duration * 60000),
+      summary: initials ? `${type} - ${initials}` : type,
+      description: `Status: ${appointment.status}\nDuration: ${appointment.duration} min`,
+      location: clinic?.name,
+      status: 'CONFIRMED',
+      updated_at: appointment.updated_at
+    };
+  }
+}
+
+export default CalendarController;
@@ -7,6 +7,7 @@ import { getClinicScopedFilter } from '../middleware/clinicContext';
 import { getTenantScopedFilter, addTenantToData, canAccessTenant } from '../middleware/auth';
 import { createDefaultStatusesForClinic } from '../migrations/createDefaultAppointmentStatuses';
 import { validateClinicBusinessRules, validateMainClinicDeletion, validateMainClinicStatus } from '../utils/clinicValidation';
+import { MrnService } from '../utils/mrn';
 
 export class ClinicController {
   
@@ -669,6 +670,74 @@ export class ClinicController {
     }
   }
 
+  /**
+   * Preview the next medical record number
+   * GET /api/clinics/:id/mrn-preview?pattern=&prefix=&padding=&scope=
+   */
+  static async getMrnPreview(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation failed',
+          errors: errors.array()
+        });
+        return;
+      }
+
+      const { id } = req.params;
+
+      if (req.user?.role !== 'super_admin') {
+        const userClinic = await UserClinic.findOne({
+          user_id: req.user?._id,
+          clinic_id: id,
+          is_active: true
+        });
+
+        if (!userClinic) {
+          res.status(403).json({
+            success: false,
+            message: 'Access denied to this clinic'
+          });
+          return;
+        }
+      }
+
+      const clinic = await Clinic.findById(id).select('code settings tenant_id');
+      if (!clinic) {
+        res.status(404).json({
+          success: false,
+          message: 'Clinic not found'
+        });
+        return;
+      }
+
+      // Unsaved settings from the query take precedence over the saved ones
+      const saved = MrnService.getSettings(clinic);
+      const settings = {
+        scope: (req.query.scope as typeof saved.scope) || saved.scope,
+        pattern: (req.query.pattern as string) || saved.pattern,
+        prefix: req.query.prefix !== undefined ? String(req.query.prefix).toUpperCase() : saved.prefix,
+        padding: parseInt(req.query.padding as string) || saved.padding
+      };
+
+      res.json({
+        success: true,
+        data: {
+          settings,
+          next_mrn: await MrnService.preview(clinic, settings)
+        }
+      });
+    } catch (error) {
+      console.error('Error previewing MRN:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Error previewing medical record number'
+      });
+    }
+  }
+
   /**
    * Get clinic users
    * GET /api/clinics/:id/users
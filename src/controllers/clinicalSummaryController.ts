@@ -0,0 +1,264 @@
+import { Response } from 'express';
+import { validationResult } from 'express-validator';
+import { IPatient, Patient } from '../models';
+import { AuthRequest } from '../types/express';
+import { getTenantScopedFilter } from '../middleware/auth';
+import { PatientTimelineService } from '../utils/patientTimeline';
+
+type ClinicalList = 'allergies' | 'conditions' | 'medications';
+
+// Fields each list accepts from the client
+const LIST_FIELDS: Record<ClinicalList, string[]> = {
+  allergies: ['allergen', 'category', 'severity', 'reaction', 'status'],
+  conditions: ['name', 'code', 'status', 'onset_date', 'notes'],
+  medications: ['name', 'dosage', 'frequency', 'status', 'started_at', 'stopped_at', 'notes']
+};
+
+const pickFields = (list: ClinicalList, body: Record<string, any>): Record<string, any> =>
+  Object.fromEntries(LIST_FIELDS[list].filter(field => body[field] !== undefined).map(field => [field, body[field]]));
+
+export class ClinicalSummaryController {
+  static async getClinicalSummary(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const patient = await ClinicalSummaryController.findPatient(req, res);
+      if (!patient) return;
+
+      await patient.populate('clinical_summary.reviewed_by', 'first_name last_name');
+
+      res.json({
+        success: true,
+        data: { clinical_summary: patient.clinical_summary }
+      });
+    } catch (error) {
+      console.error('Get clinical summary error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      });
+    }
+  }
+
+  /**
+   * Smoking and pregnancy status. With `reviewed` the whole summary is marked as confirmed with the patient.
+   */
+  static async updateClinicalSummary(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation failed',
+          errors: errors.array()
+        });
+        return;
+      }
+
+      const patient = await ClinicalSummaryController.findPatient(req, res);
+      if (!patient) return;
+
+      const { smoking_status, pregnancy_status, pregnancy_due_date, reviewed } = req.body;
+
+      if (['pregnant', 'breastfeeding'].includes(pregnancy_status) && patient.gender === 'male') {
+        res.status(400).json({
+          success: false,
+          message: 'Pregnancy status does not apply to this patient'
+        });
+        return;
+      }
+
+      const summary = patient.clinical_summary;
+      if (smoking_status !== undefined) summary.smoking_status = smoking_status;
+      if (pregnancy_status !== undefined) {
+        summary.pregnancy_status = pregnancy_status;
+        if (pregnancy_status !== 'pregnant') summary.pregnancy_due_date = undefined;
+      }
+      if (pregnancy_due_date !== undefined && summary.pregnancy_status === 'pregnant') {
+        summary.pregnancy_due_date = pregnancy_due_date;
+      }
+      if (reviewed) {
+        summary.reviewed_at = new Date();
+        summary.reviewed_by = req.user?._id as any;
+      }
+      await patient.save({ validateModifiedOnly: true });
+
+      res.json({
+        success: true,
+        message: 'Clinical summary updated successfully',
+        data: { clinical_summary: patient.clinical_summary }
+      });
+    } catch (error) {
+      console.error('Update clinical summary error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      });
+    }
+  }
+
+  static async addEntry(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation failed',
+          errors: errors.array()
+        });
+        return;
+      }
+
+      const list = req.params.list as ClinicalList;
+      const patient = await ClinicalSummaryController.findPatient(req, res);
+      if (!patient) return;
+
+      const entries = patient.clinical_summary[list] as any;
+      entries.push({
+        ...pickFields(list, req.body),
+        source: 'manual',
+        recorded_by: req.user?._id,
+        recorded_at: new Date()
+      });
+      await patient.save({ validateModifiedOnly: true });
+
+      res.status(201).json({
+        success: true,
+        message: 'Clinical summary entry added successfully',
+        data: {
+          entry: entries[entries.length - 1],
+          clinical_summary: patient.clinical_summary
+        }
+      });
+    } catch (error) {
+      console.error('Add clinical summary entry error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      });
+    }
+  }
+
+  static async updateEntry(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation failed',
+          errors: errors.array()
+        });
+        return;
+      }
+
+      const list = req.params.list as ClinicalList;
+      const patient = await ClinicalSummaryController.findPatient(req, res);
+      if (!patient) return;
+
+      const entry = (patient.clinical_summary[list] as any).id(req.params.entryId);
+      if (!entry) {
+        res.status(404).json({
+          success: false,
+          message: 'Clinical summary entry not found'
+        });
+        return;
+      }
+
+      const updates = pickFields(list, req.body);
+      entry.set(updates);
+      if (list === 'medications' && updates.status === 'stopped' && !entry.stopped_at) {
+        entry.stopped_at = new Date();
+      }
+      await patient.save({ validateModifiedOnly: true });
+
+      res.json({
+        success: true,
+        message: 'Clinical summary entry updated successfully',
+        data: {
+          entry,
+          clinical_summary: patient.clinical_summary
+        }
+      });
+    } catch (error) {
+      console.error('Update clinical summary entry error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      });
+    }
+  }
+
+  /**
+   * Remove an entry recorded in error. Allergies that no longer apply should be marked inactive instead.
+   */
+  static async removeEntry(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation failed',
+          errors: errors.array()
+        });
+        return;
+      }
+
+      const list = req.params.list as ClinicalList;
+      const patient = await ClinicalSummaryController.findPatient(req, res);
+      if (!patient) return;
+
+      const entry = (patient.clinical_summary[list] as any).id(req.params.entryId);
+      if (!entry) {
+        res.status(404).json({
+          success: false,
+          message: 'Clinical summary entry not found'
+        });
+        return;
+      }
+
+      entry.deleteOne();
+      await patient.save({ validateModifiedOnly: true });
+
+      res.json({
+        success: true,
+        message: 'Clinical summary entry removed successfully',
+        data: { clinical_summary: patient.clinical_summary }
+      });
+    } catch (error) {
+      console.error('Remove clinical summary entry error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      });
+    }
+  }
+
+  /**
+   * The clinic's patient, when the caller may see them - doctors and nurses only see patients they treat.
+   * Sends the error response and returns null otherwise.
+   */
+  private static async findPatient(req: AuthRequest, res: Response): Promise<IPatient | null> {
+    const patient = await Patient.findOne(getTenantScopedFilter(req, {
+      _id: req.params.id,
+      clinic_id: req.clinic_id
+    }));
+
+    if (!patient) {
+      res.status(404).json({
+        success: false,
+        message: 'Patient not found'
+      });
+      return null;
+    }
+
+    if (!(await PatientTimelineService.canViewPatient(req.user!, req.tenant_id!, patient._id as any))) {
+      res.status(403).json({
+        success: false,
+        message: 'Access denied. You can only view patients assigned to you.'
+      });
+      return null;
+    }
+
+    return patient;
+  }
+}
+
+export default ClinicalSummaryController;
@@ -0,0 +1,538 @@
+import { Response } from 'express';
+import { validationResult } from 'express-validator';
+import { Appointment, ConsentTemplate, Patient, PatientConsent } from '../models';
+import { AuthRequest } from '../types/express';
+import { getTenantScopedFilter } from '../middleware/auth';
+import { ConsentService } from '../utils/consents';
+import { PatientRelationshipService } from '../utils/patientRelationships';
+import { S3Service } from '../utils/s3';
+
+const SIGNATURES_FOLDER = 'consents/signatures';
+
+export class ConsentController {
+  /**
+   * Current version of each of the clinic's consent forms
+   */
+  static async getTemplates(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const filter: any = { tenant_id: req.tenant_id, clinic_id: req.clinic_id, is_current: true };
+      if (req.query.include_inactive !== 'true') {
+        filter.is_active = true;
+      }
+
+      const templates = await ConsentTemplate.find(filter)
+        .populate('created_by', 'first_name last_name')
+        .sort({ code: 1 });
+
+      res.json({
+        success: true,
+        data: { templates }
+      });
+    } catch (error) {
+      console.error('Get consent templates error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      });
+    }
+  }
+
+  static async getTemplateVersions(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const versions = await ConsentTemplate.find({
+        tenant_id: req.tenant_id,
+        clinic_id: req.clinic_id,
+        code: req.params.code.toLowerCase()
+      })
+        .populate('created_by', 'first_name last_name')
+        .sort({ version: -1 });
+
+      if (versions.length === 0) {
+        res.status(404).json({
+          success: false,
+          message: 'Consent template not found'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: { versions }
+      });
+    } catch (error) {
+      console.error('Get consent template versions error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      });
+    }
+  }
+
+  static async createTemplate(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation failed',
+          errors: errors.array()
+        });
+        return;
+      }
+
+      const { code, title, body, valid_for_days } = req.body;
+
+      const existing = await ConsentTemplate.exists({ tenant_id: req.tenant_id, clinic_id: req.clinic_id, code: code.toLowerCase() });
+      if (existing) {
+        res.status(409).json({
+          success: false,
+          message: `A consent template with code '${code}' already exists - update it to add a new version`
+        });
+        return;
+      }
+
+      const template = await ConsentTemplate.create({
+        tenant_id: req.tenant_id,
+        clinic_id: req.clinic_id,
+        code,
+        version: 1,
+        title,
+        body,
+        valid_for_days,
+        created_by: req.user?._id
+      });
+
+      res.status(201).json({
+        success: true,
+        message: 'Consent template created successfully',
+        data: { template }
+      });
+    } catch (error: any) {
+      if (error?.code === 11000) {
+        res.status(409).json({
+          success: false,
+          message: 'A consent template with this code already exists'
+        });
+        return;
+      }
+      console.error('Create consent template error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      });
+    }
+  }
+
+  /**
+   * Publish a new version of a form. Earlier versions stay as they were, so consents already
+   * signed keep the wording the patient agreed to.
+   */
+  static async updateTemplate(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation failed',
+          errors: errors.array()
+        });
+        return;
+      }
+
+      const current = await ConsentTemplate.findOne({
+        tenant_id: req.tenant_id,
+        clinic_id: req.clinic_id,
+        code: req.params.code.toLowerCase(),
+        is_current: true
+      });
+
+      if (!current) {
+        res.status(404).json({
+          success: false,
+          message: 'Consent template not found'
+        });
+        return;
+      }
+
+      const { title, body, valid_for_days } = req.body;
+
+      // Only one version may be current at a time
+      current.is_current = false;
+      await current.save();
+
+      try {
+        const template = await ConsentTemplate.create({
+          tenant_id: current.tenant_id,
+          clinic_id: current.clinic_id,
+          code: current.code,
+          version: current.version + 1,
+          title: { en: current.title.en, ar: current.title.ar, ...title },
+          body: { en: current.body.en, ar: current.body.ar, ...body },
+          valid_for_days: valid_for_days === undefined ? current.valid_for_days : valid_for_days || undefined,
+          is_active: current.is_active,
+          created_by: req.user?._id
+        });
+
+        res.json({
+          success: true,
+          message: `Consent template updated to version ${template.version}`,
+          data: { template, previous_version: current.version }
+        });
+      } catch (error) {
+        current.is_current = true;
+        await current.save();
+        throw error;
+      }
+    } catch (error: any) {
+      if (error?.code === 11000) {
+        res.status(409).json({
+          success: false,
+          message: 'The consent template was changed by someone else, please reload and try again'
+        });
+        return;
+      }
+      console.error('Update consent template error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      });
+    }
+  }
+
+  static async toggleTemplateStatus(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const template = await ConsentTemplate.findOne({
+        tenant_id: req.tenant_id,
+        clinic_id: req.clinic_id,
+        code: req.params.code.toLowerCase(),
+        is_current: true
+      });
+
+      if (!template) {
+        res.status(404).json({
+          success: false,
+          message: 'Consent template not found'
+        });
+        return;
+      }
+
+      template.is_active = !template.is_active;
+      await template.save();
+
+      res.json({
+        success: true,
+        message: `Consent template ${template.is_active ? 'activated' : 'deactivated'} successfully`,
+        data: { template }
+      });
+    } catch (error) {
+      console.error('Toggle consent template status error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      });
+    }
+  }
+
+  static async getPatientConsents(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation failed',
+          errors: errors.array()
+        });
+        return;
+      }
+
+      const filter: any = getTenantScopedFilter(req, { clinic_id: req.clinic_id, patient_id: req.params.patientId });
+      if (req.query.status) filter.status = req.query.status;
+      if (req.query.template_code) filter.template_code = String(req.query.template_code).toLowerCase();
+
+      const consents = await PatientConsent.find(filter)
+        .select('-body')
+        .populate('signer.patient_id', 'first_name last_name')
+        .populate('witnessed_by', 'first_name last_name')
+        .populate('revoked_by', 'first_name last_name')
+        .sort({ signed_at: -1 });
+
+      res.json({
+        success: true,
+        data: { consents }
+      });
+    } catch (error) {
+      console.error('Get patient consents error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      });
+    }
+  }
+
+  static async getConsentById(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const consent = await PatientConsent.findOne(getTenantScopedFilter(req, { _id: req.params.id, clinic_id: req.clinic_id }))
+        .populate('patient_id', 'first_name last_name mrn')
+        .populate('signer.patient_id', 'first_name last_name')
+        .populate('witnessed_by', 'first_name last_name')
+        .populate('revoked_by', 'first_name last_name');
+
+      if (!consent) {
+        res.status(404).json({
+          success: false,
+          message: 'Consent not found'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: { consent }
+      });
+    } catch (error) {
+      console.error('Get consent error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      });
+    }
+  }
+
+  /**
+   * Consents an appointment needs before it can be completed, and which are signed
+   */
+  static async getAppointmentConsents(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const appointment = await Appointment.findOne(getTenantScopedFilter(req, { _id: req.params.appointmentId, clinic_id: req.clinic_id }));
+
+      if (!appointment) {
+        res.status(404).json({
+          success: false,
+          message: 'Appointment not found'
+        });
+        return;
+      }
+
+      const requirements = await ConsentService.getRequiredConsents(appointment);
+
+      res.json({
+        success: true,
+        data: {
+          requirements,
+          complete: requirements.every(item => !!item.consent)
+        }
+      });
+    } catch (error) {
+      console.error('Get appointment consents error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      });
+    }
+  }
+
+  /**
+   * Record a signature against the current version of a form. Minors cannot sign for
+   * themselves - a linked guardian (or spouse) signs in their place.
+   */
+  static async signConsent(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation failed',
+          errors: errors.array()
+        });
+        return;
+      }
+
+      const { patient_id, template_code, appointment_id, language = 'en', signer = {}, signature } = req.body;
+
+      const [patient, template] = await Promise.all([
+        Patient.findOne(getTenantScopedFilter(req, { _id: patient_id, clinic_id: req.clinic_id })),
+        ConsentTemplate.findOne({
+          tenant_id: req.tenant_id,
+          clinic_id: req.clinic_id,
+          code: template_code.toLowerCase(),
+          is_current: true,
+          is_active: true
+        })
+      ]);
+
+      if (!patient || !template) {
+        res.status(404).json({
+          success: false,
+          message: `${!patient ? 'Patient' : 'Consent template'} not found`
+        });
+        return;
+      }
+
+      if (language === 'ar' && !template.body.ar) {
+        res.status(400).json({
+          success: false,
+          message: 'This consent form has no Arabic text'
+        });
+        return;
+      }
+
+      if (appointment_id) {
+        const appointment = await Appointment.exists(getTenantScopedFilter(req, {
+          _id: appointment_id,
+          clinic_id: req.clinic_id,
+          $or: [{ patient_id: patient._id }, { additional_patient_ids: patient._id }]
+        }));
+        if (!appointment) {
+          res.status(404).json({
+            success: false,
+            message: 'Appointment not found for this patient'
+          });
+          return;
+        }
+      }
+
+      const relationship = signer.relationship || 'self';
+      let signerName = signer.name;
+
+      if (relationship === 'self') {
+        if (ConsentService.isMinor(patient)) {
+          res.status(400).json({
+            success: false,
+            message: 'The patient is a minor - consent must be signed by a guardian'
+          });
+          return;
+        }
+        signerName = signerName || `${patient.first_name} ${patient.last_name || ''}`.trim();
+      } else {
+        const linked = await PatientRelationshipService.getRelationship(req.tenant_id!, patient._id as any, signer.patient_id);
+        if (linked !== relationship) {
+          res.status(400).json({
+            success: false,
+            message: `The signer must be linked to the patient as ${relationship}`
+          });
+          return;
+        }
+        if (!signerName) {
+          const relative = await Patient.findOne(getTenantScopedFilter(req, { _id: signer.patient_id, clinic_id: req.clinic_id })).select('first_name last_name');
+          signerName = relative ? `${relative.first_name} ${relative.last_name || ''}`.trim() : undefined;
+        }
+      }
+
+      let imageUrl: string | undefined;
+      if (signature.type === 'drawn') {
+        const image = ConsentService.parseSignatureImage(signature.image);
+        if (!image) {
+          res.status(400).json({
+            success: false,
+            message: 'Signature image must be a base64 PNG, JPEG or WebP data URL'
+          });
+          return;
+        }
+        imageUrl = await S3Service.uploadBuffer(image.buffer, image.contentType, SIGNATURES_FOLDER, image.extension);
+      }
+
+      const signedAt = new Date();
+
+      try {
+        const consent = await PatientConsent.create({
+          tenant_id: req.tenant_id,
+          clinic_id: req.clinic_id,
+          patient_id: patient._id,
+          template_id: template._id,
+          template_code: template.code,
+          template_version: template.version,
+          appointment_id,
+          language,
+          title: template.title[language as 'en' | 'ar'] || template.title.en,
+          body: template.body[language as 'en' | 'ar'],
+          signer: {
+            name: signerName,
+            relationship,
+            patient_id: relationship === 'self' ? undefined : signer.patient_id
+          },
+          signature: {
+            type: signature.type,
+            image_url: imageUrl,
+            typed_name: signature.type === 'typed' ? signature.typed_name : undefined
+          },
+          signed_at: signedAt,
+          ip: req.ip,
+          user_agent: req.get('user-agent'),
+          witnessed_by: req.user?._id,
+          expires_at: template.valid_for_days
+            ? new Date(signedAt.getTime() + template.valid_for_days * 24 * 60 * 60 * 1000)
+            : undefined
+        });
+
+        res.status(201).json({
+          success: true,
+          message: 'Consent signed successfully',
+          data: { consent }
+        });
+      } catch (error) {
+        if (imageUrl) {
+          await S3Service.deleteFile(imageUrl).catch(() => undefined);
+        }
+        throw error;
+      }
+    } catch (error) {
+      console.error('Sign consent error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      });
+    }
+  }
+
+  static async revokeConsent(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation failed',
+          errors: errors.array()
+        });
+        return;
+      }
+
+      const consent = await PatientConsent.findOne(getTenantScopedFilter(req, { _id: req.params.id, clinic_id: req.clinic_id }));
+
+      if (!consent) {
+        res.status(404).json({
+          success: false,
+          message: 'Consent not found'
+        });
+        return;
+      }
+
+      if (consent.status === 'revoked') {
+        res.status(409).json({
+          success: false,
+          message: 'Consent has already been revoked'
+        });
+        return;
+      }
+
+      consent.status = 'revoked';
+      consent.revoked_at = new Date();
+      consent.revoked_by = req.user?._id as any;
+      consent.revocation_reason = req.body.reason;
+      await consent.save();
+
+      res.json({
+        success: true,
+        message: 'Consent revoked successfully',
+        data: { consent }
+      });
+    } catch (error) {
+      console.error('Revoke consent error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      });
+    }
+  }
+}
+
+export default ConsentController;
@@ -1,16 +1,17 @@
 import { Response } from 'express';
 import { Patient, Appointment, Invoice, Inventory, User, Lead, Expense } from '../models';
 import { AuthRequest } from '../types/express';
+import { TimezoneService } from '../utils/timezone';
 
 export class DashboardController {
   static async getAdminDashboardStats(req: AuthRequest, res: Response): Promise<void> {
     try {
       const clinicId = req.clinic_id;
       const now = new Date();
-      const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
-      const tomorrow = new Date(today.getTime() + 24 * 60 * 60 * 1000);
-      const startOfMonth = new Date(now.getFullYear(), now.getMonth(), 1);
-      const startOfYear = new Date(now.getFullYear(), 0, 1);
+      // Day and month boundaries follow the clinic's calendar
+      const timezone = TimezoneService.forClinic(req.currentClinic);
+      const { start: today, end: tomorrow } = TimezoneService.getDayRange(now, timezone);
+      const startOfMonth = TimezoneService.startOfMonth(now, timezone);
 
       // Basic counts - filtered by clinic
       const [
@@ -114,9 +115,7 @@ export class DashboardController {
         .limit(10);
 
       // Calculate percentage changes (comparing to previous month)
-      const lastMonth = new Date(startOfMonth);
-      lastMonth.setMonth(lastMonth.getMonth() - 1);
-      const startOfLastMonth = new Date(lastMonth.getFullYear(), lastMonth.getMonth(), 1);
+      const startOfLastMonth = TimezoneService.startOfMonth(now, timezone, -1);
 
       const [lastMonthRevenue, lastMonthPatients, lastMonthAppointments] = await Promise.all([
         Invoice.aggregate([
@@ -224,17 +223,18 @@ export class DashboardController {
       
       let startDate: Date;
       const now = new Date();
+      const timezone = TimezoneService.forClinic(req.currentClinic);
       
       switch (period) {
         case '1month':
-          startDate = new Date(now.getFullYear(), now.getMonth(), 1);
+          startDate = TimezoneService.startOfMonth(now, timezone);
           break;
         case '3months':
           startDate = new Date();
           startDate.setMonth(startDate.getMonth() - 3);
           break;
         case '1year':
-          startDate = new Date(now.getFullYear(), 0, 1);
+          startDate = TimezoneService.startOfYear(now, timezone);
           break;
         default:
           startDate = new Date();
@@ -310,9 +310,10 @@ export class DashboardController {
     try {
       const clinicId = req.clinic_id;
       const now = new Date();
-      const startOfDay = new Date(now.getFullYear(), now.getMonth(), now.getDate());
-      const startOfWeek = new Date(startOfDay.getTime() - (startOfDay.getDay() * 24 * 60 * 60 * 1000));
-      const startOfMonth = new Date(now.getFullYear(), now.getMonth(), 1);
+      const timezone = TimezoneService.forClinic(req.currentClinic);
+      const startOfDay = TimezoneService.startOfDay(now, timezone);
+      const startOfWeek = TimezoneService.addDays(startOfDay, -TimezoneService.getWeekDayIndex(startOfDay, timezone), timezone);
+      const startOfMonth = TimezoneService.startOfMonth(now, timezone);
 
       // Appointment metrics - filtered by clinic
       const appointmentMetrics = await Promise.all([
@@ -0,0 +1,438 @@
+import { Response } from 'express';
+import { validationResult } from 'express-validator';
+import { Appointment, Patient, PatientDocument } from '../models';
+import { AuthRequest } from '../types/express';
+import { getTenantScopedFilter } from '../middleware/auth';
+import { DocumentStorageService, DOCUMENT_DOWNLOAD_TTL_SECONDS } from '../utils/documentStorage';
+
+const escapeRegex = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Multipart forms send lists as repeated fields or one comma-separated value
+const toList = (value: unknown): string[] => {
+  if (value === undefined || value === null || value === '') return [];
+  const items = Array.isArray(value) ? value : String(value).split(',');
+  return [...new Set(items.map(item => String(item).trim()).filter(Boolean))];
+};
+
+export class DocumentController {
+  static async getDocuments(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation failed',
+          errors: errors.array()
+        });
+        return;
+      }
+
+      const page = parseInt(req.query.page as string) || 1;
+      const limit = parseInt(req.query.limit as string) || 20;
+      const skip = (page - 1) * limit;
+
+      const filter: any = getTenantScopedFilter(req, {
+        clinic_id: req.clinic_id,
+        ...DocumentStorageService.accessFilter(req.user)
+      });
+      if (req.query.patient_id) filter.patient_id = req.query.patient_id;
+      if (req.query.appointment_id) filter.appointment_id = req.query.appointment_id;
+      if (req.query.category) filter.category = req.query.category;
+      if (req.query.tag) filter.tags = String(req.query.tag).toLowerCase();
+      if (req.query.search) {
+        filter.title = { $regex: escapeRegex(String(req.query.search)), $options: 'i' };
+      }
+
+      const [documents, total] = await Promise.all([
+        PatientDocument.find(filter)
+          .populate('patient_id', 'first_name last_name mrn')
+          .populate('uploaded_by', 'first_name last_name')
+          .skip(skip)
+          .limit(limit)
+          .sort({ created_at: -1 }),
+        PatientDocument.countDocuments(filter)
+      ]);
+
+      res.json({
+        success: true,
+        data: {
+          documents,
+          pagination: {
+            page,
+            limit,
+            total,
+            pages: Math.ceil(total / limit)
+          }
+        }
+      });
+    } catch (error) {
+      console.error('Get documents error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      });
+    }
+  }
+
+  static async getDocumentById(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const document = await PatientDocument.findOne(getTenantScopedFilter(req, { _id: req.params.id, clinic_id: req.clinic_id }))
+        .populate('patient_id', 'first_name last_name mrn')
+        .populate('uploaded_by', 'first_name last_name')
+        .populate('access.user_ids', 'first_name last_name role');
+
+      // Restricted documents are reported as missing to those who may not see them
+      if (!document || !DocumentStorageService.canAccess(document, req.user)) {
+        res.status(404).json({
+          success: false,
+          message: 'Document not found'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: { document }
+      });
+    } catch (error) {
+      console.error('Get document error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      });
+    }
+  }
+
+  /**
+   * Upload a file to a patient's vault. It is virus-scanned first; infected files are refused.
+   */
+  static async uploadDocument(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation failed',
+          errors: errors.array()
+        });
+        return;
+      }
+
+      if (!req.file) {
+        res.status(400).json({
+          success: false,
+          message: 'No file uploaded'
+        });
+        return;
+      }
+
+      const { patient_id, appointment_id, category, title, description, access_level } = req.body;
+
+      const patient = await Patient.findOne(getTenantScopedFilter(req, { _id: patient_id, clinic_id: req.clinic_id })).select('_id');
+      if (!patient) {
+        res.status(404).json({
+          success: false,
+          message: 'Patient not found'
+        });
+        return;
+      }
+
+      if (appointment_id) {
+        const appointment = await Appointment.exists(getTenantScopedFilter(req, {
+          _id: appointment_id,
+          clinic_id: req.clinic_id,
+          $or: [{ patient_id: patient._id }, { additional_patient_ids: patient._id }]
+        }));
+        if (!appointment) {
+          res.status(404).json({
+            success: false,
+            message: 'Appointment not found for this patient'
+          });
+          return;
+        }
+      }
+
+      const result = await DocumentStorageService.store({
+        tenant_id: req.tenant_id!,
+        patient_id: patient._id as any,
+        content: req.file.buffer,
+        file_name: req.file.originalname,
+        mime_type: req.file.mimetype
+      });
+
+      if (!result.stored) {
+        res.status(result.reason === 'infected' ? 422 : 503).json({
+          success: false,
+          message: result.reason === 'infected'
+            ? `The file was rejected by the virus scanner${result.signature ? ` (${result.signature})` : ''}`
+            : 'The virus scanner is unavailable, please try again later',
+          reason: result.reason
+        });
+        return;
+      }
+
+      try {
+        const document = await PatientDocument.create({
+          tenant_id: req.tenant_id,
+          clinic_id: req.clinic_id,
+          patient_id: patient._id,
+          appointment_id,
+          category,
+          title: title || req.file.originalname,
+          description,
+          tags: toList(req.body.tags),
+          file: result.file,
+          scan: result.scan,
+          access: {
+            level: access_level || 'clinic',
+            roles: toList(req.body.access_roles),
+            user_ids: toList(req.body.access_user_ids)
+          },
+          uploaded_by: req.user?._id
+        });
+
+        res.status(201).json({
+          success: true,
+          message: 'Document uploaded successfully',
+          data: { document }
+        });
+      } catch (error) {
+        await DocumentStorageService.getBackend(result.file.storage).delete(result.file.key).catch(() => undefined);
+        throw error;
+      }
+    } catch (error) {
+      console.error('Upload document error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      });
+    }
+  }
+
+  static async updateDocument(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation failed',
+          errors: errors.array()
+        });
+        return;
+      }
+
+      const document = await PatientDocument.findOne(getTenantScopedFilter(req, { _id: req.params.id, clinic_id: req.clinic_id }));
+
+      if (!document || !DocumentStorageService.canAccess(document, req.user)) {
+        res.status(404).json({
+          success: false,
+          message: 'Document not found'
+        });
+        return;
+      }
+
+      const { title, description, category, tags } = req.body;
+      if (title !== undefined) document.title = title;
+      if (description !== undefined) document.description = description;
+      if (category !== undefined) document.category = category;
+      if (tags !== undefined) document.tags = toList(tags);
+      await document.save();
+
+      res.json({
+        success: true,
+        message: 'Document updated successfully',
+        data: { document }
+      });
+    } catch (error) {
+      console.error('Update document error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      });
+    }
+  }
+
+  /**
+   * Change who may see a document - only its uploader and admins can
+   */
+  static async updateAccess(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation failed',
+          errors: errors.array()
+        });
+        return;
+      }
+
+      const document = await PatientDocument.findOne(getTenantScopedFilter(req, { _id: req.params.id, clinic_id: req.clinic_id }));
+
+      if (!document || !DocumentStorageService.canAccess(document, req.user)) {
+        res.status(404).json({
+          success: false,
+          message: 'Document not found'
+        });
+        return;
+      }
+
+      if (!DocumentStorageService.canManage(document, req.user)) {
+        res.status(403).json({
+          success: false,
+          message: 'Only the uploader or an administrator can change who may see this document'
+        });
+        return;
+      }
+
+      const { level, roles, user_ids } = req.body;
+      document.access.level = level;
+      document.access.roles = level === 'restricted' ? toList(roles) : [];
+      document.access.user_ids = (level === 'restricted' ? toList(user_ids) : []) as any;
+      await document.save();
+
+      res.json({
+        success: true,
+        message: 'Document access updated successfully',
+        data: { document }
+      });
+    } catch (error) {
+      console.error('Update document access error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      });
+    }
+  }
+
+  /**
+   * Short-lived link to the file: a presigned S3 URL, or the API content endpoint for local storage
+   */
+  static async getDownloadUrl(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const document = await PatientDocument.findOne(getTenantScopedFilter(req, { _id: req.params.id, clinic_id: req.clinic_id }));
+
+      if (!document || !DocumentStorageService.canAccess(document, req.user)) {
+        res.status(404).json({
+          success: false,
+          message: 'Document not found'
+        });
+        return;
+      }
+
+      const backend = DocumentStorageService.getBackend(document.file.storage);
+      const presigned = await backend.getDownloadUrl(document.file.key, DOCUMENT_DOWNLOAD_TTL_SECONDS, document.file.name);
+      const base = (process.env.API_PUBLIC_URL || `${req.protocol}://${req.get('host')}`).replace(/\/$/, '');
+
+      res.json({
+        success: true,
+        data: {
+          url: presigned || `${base}/api/documents/${document._id}/content`,
+          requires_auth: !presigned,
+          expires_at: presigned ? new Date(Date.now() + DOCUMENT_DOWNLOAD_TTL_SECONDS * 1000) : null,
+          file_name: document.file.name,
+          mime_type: document.file.mime_type,
+          size: document.file.size
+        }
+      });
+    } catch (error) {
+      console.error('Get document download URL error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      });
+    }
+  }
+
+  /**
+   * The file itself - streamed from local storage, redirected to a presigned URL for S3
+   */
+  static async getContent(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const document = await PatientDocument.findOne(getTenantScopedFilter(req, { _id: req.params.id, clinic_id: req.clinic_id }));
+
+      if (!document || !DocumentStorageService.canAccess(document, req.user)) {
+        res.status(404).json({
+          success: false,
+          message: 'Document not found'
+        });
+        return;
+      }
+
+      const backend = DocumentStorageService.getBackend(document.file.storage);
+      const presigned = await backend.getDownloadUrl(document.file.key, DOCUMENT_DOWNLOAD_TTL_SECONDS, document.file.name);
+      if (presigned) {
+        res.redirect(presigned);
+        return;
+      }
+
+      const stream = await backend.read(document.file.key).catch(() => null);
+      if (!stream) {
+        res.status(404).json({
+          success: false,
+          message: 'Document file is missing from storage'
+        });
+        return;
+      }
+
+      res.setHeader('Content-Type', document.file.mime_type);
+      res.setHeader('Content-Length', document.file.size);
+      res.setHeader('Content-Disposition', `attachment; filename*=UTF-8''${encodeURIComponent(document.file.name)}`);
+      stream.pipe(res);
+    } catch (error) {
+      console.error('Get document content error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      });
+    }
+  }
+
+  static async deleteDocument(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation failed',
+          errors: errors.array()
+        });
+        return;
+      }
+
+      const document = await PatientDocument.findOne(getTenantScopedFilter(req, { _id: req.params.id, clinic_id: req.clinic_id }));
+
+      if (!document || !DocumentStorageService.canAccess(document, req.user)) {
+        res.status(404).json({
+          success: false,
+          message: 'Document not found'
+        });
+        return;
+      }
+
+      if (!DocumentStorageService.canManage(document, req.user)) {
+        res.status(403).json({
+          success: false,
+          message: 'Only the uploader or an administrator can delete this document'
+        });
+        return;
+      }
+
+      // The file stays in storage until the archived record is purged
+      await document.softDelete(req.user?._id as any, req.body?.reason);
+
+      res.json({
+        success: true,
+        message: 'Document archived successfully'
+      });
+    } catch (error) {
+      console.error('Delete document error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      });
+    }
+  }
+}
+
+export default DocumentController;
@@ -0,0 +1,116 @@
+import { Response } from 'express';
+import { AuthRequest } from '../types/express';
+import { getUserPermissions } from '../middleware/permission';
+import {
+  DomainEvent,
+  DomainEventService,
+  DomainEventSubscriber,
+  DomainEventType,
+  DOMAIN_EVENT_PERMISSIONS,
+  DOMAIN_EVENT_TYPES
+} from '../utils/domainEvents';
+
+// Comment line sent when nothing else happened, so proxies keep idle streams open
+const HEARTBEAT_MS = 25 * 1000;
+// How long the browser waits before reconnecting a dropped stream
+const RETRY_MS = 5000;
+
+export class EventController {
+  /**
+   * Server-Sent Events stream of the current clinic's domain events (appointments, check-ins, lab reports,
+   * payments, low stock, queue). Only event types the user's permissions allow are sent, and doctors and
+   * nurses only get events about their own appointments. Narrow it with ?types=appointment.created,payment.received.
+   * Send Last-Event-ID on reconnect to receive what was missed; a `resync` event means the gap was too
+   * long and the screen should refetch.
+   */
+  static async stream(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const requested = typeof req.query.types === 'string'
+        ? req.query.types.split(',').map(type => type.trim()).filter(Boolean)
+        : DOMAIN_EVENT_TYPES;
+
+      const unknown = requested.filter(type => !DOMAIN_EVENT_TYPES.includes(type as DomainEventType));
+      if (unknown.length > 0) {
+        res.status(400).json({
+          success: false,
+          message: `Unknown event types: ${unknown.join(', ')}`,
+          data: { types: DOMAIN_EVENT_TYPES }
+        });
+        return;
+      }
+
+      const types = await EventController.getAllowedTypes(req, requested as DomainEventType[]);
+      if (types.size === 0) {
+        res.status(403).json({
+          success: false,
+          message: 'You do not have permission to receive any of these events'
+        });
+        return;
+      }
+
+      const subscriber: DomainEventSubscriber = {
+        tenant_id: req.tenant_id!,
+        clinic_id: req.clinic_id!,
+        user_id: req.user!._id as any,
+        role: req.user!.role,
+        types
+      };
+
+      res.set({
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        Connection: 'keep-alive',
+        'X-Accel-Buffering': 'no' // Don't let a proxy hold the events back
+      });
+      res.flushHeaders();
+
+      const send = (event: DomainEvent) => {
+        res.write(`id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+      };
+
+      res.write(`retry: ${RETRY_MS}\nevent: ready\ndata: ${JSON.stringify({ types: Array.from(types) })}\n\n`);
+
+      const lastEventId = req.header('Last-Event-ID');
+      if (lastEventId) {
+        const missed = DomainEventService.getEventsSince(lastEventId, subscriber);
+        if (missed) {
+          missed.forEach(send);
+        } else {
+          res.write('event: resync\ndata: {}\n\n');
+        }
+      }
+
+      const unsubscribe = DomainEventService.subscribe(event => {
+        if (DomainEventService.isVisibleTo(event, subscriber)) send(event);
+      });
+      const heartbeat = setInterval(() => res.write(': heartbeat\n\n'), HEARTBEAT_MS);
+
+      req.on('close', () => {
+        unsubscribe();
+        clearInterval(heartbeat);
+      });
+    } catch (error) {
+      console.error('Event stream error:', error);
+      if (!res.headersSent) {
+        res.status(500).json({
+          success: false,
+          message: 'Internal server error'
+        });
+      } else {
+        res.end();
+      }
+    }
+  }
+
+  // Admins receive everything; everyone else the events whose REST data they may view in this clinic
+  private static async getAllowedTypes(req: AuthRequest, requested: DomainEventType[]): Promise<Set<DomainEventType>> {
+    if (req.user?.role === 'super_admin' || req.user?.role === 'admin') {
+      return new Set(requested);
+    }
+
+    const permissions = new Set(await getUserPermissions(req.user!._id!.toString(), req.clinic_id!.toString()));
+    return new Set(requested.filter(type => permissions.has(DOMAIN_EVENT_PERMISSIONS[type])));
+  }
+}
+
+export default EventController;
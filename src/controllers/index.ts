@@ -2,7 +2,21 @@ export { UserController } from './userController';
 export { ClinicController } from './clinicController';
 export { UserClinicController } from './userClinicController';
 export { PatientController } from './patientController';
+export { PatientMergeController } from './patientMergeController';
+export { PatientRelationshipController } from './patientRelationshipController';
+export { ClinicalSummaryController } from './clinicalSummaryController';
+export { ConsentController } from './consentController';
+export { DocumentController } from './documentController';
+export { ArchiveController } from './archiveController';
 export { AppointmentController } from './appointmentController';
+export { ScheduleExceptionController } from './scheduleExceptionController';
+export { ResourceController } from './resourceController';
+export { CalendarController } from './calendarController';
+export { WaitlistController } from './waitlistController';
+export { QueueController } from './queueController';
+export { EventController } from './eventController';
+export { NotificationController } from './notificationController';
+export { PatientLinkController } from './patientLinkController';
 export { MedicalRecordController } from './medicalRecordController';
 export { InvoiceController } from './invoiceController';
 export { PaymentController } from './paymentController';
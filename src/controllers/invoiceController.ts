@@ -1,8 +1,13 @@
 import { Response } from 'express';
 import { validationResult } from 'express-validator';
-import { Invoice } from '../models';
+import { Appointment, Invoice, Patient } from '../models';
 import { AuthRequest } from '../types/express';
 import { getTenantScopedFilter, addTenantToData } from '../middleware/auth';
+import { SearchService } from '../utils/search';
+import { PatientRelationshipService } from '../utils/patientRelationships';
+import { StatusWorkflowService } from '../utils/statusWorkflow';
+
+const escapeRegex = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
 
 export class InvoiceController {
   static async createInvoice(req: AuthRequest, res: Response): Promise<void> {
@@ -17,9 +22,43 @@ export class InvoiceController {
         return;
       }
 
+      // An invoice for an appointment needs the appointment to be in a billable status
+      if (req.body.appointment_id) {
+        const appointment = await Appointment.findOne(getTenantScopedFilter(req, {
+          _id: req.body.appointment_id,
+          clinic_id: req.clinic_id
+        })).select('status tenant_id clinic_id');
+
+        if (!appointment) {
+          res.status(404).json({
+            success: false,
+            message: 'Appointment not found'
+          });
+          return;
+        }
+
+        const flags = await StatusWorkflowService.getFlags(appointment.tenant_id, appointment.clinic_id, appointment.status);
+        if (!flags.is_billable) {
+          res.status(409).json({
+            success: false,
+            message: `Appointments with status '${appointment.status}' cannot be invoiced`
+          });
+          return;
+        }
+      }
+
+      // A dependent's treatment is billed to their responsible party unless the invoice says otherwise
+      let billedTo = req.body.billed_to_patient_id;
+      if (billedTo === undefined) {
+        const patient = await Patient.findOne({ _id: req.body.patient_id, tenant_id: req.tenant_id }).select('responsible_party_id');
+        billedTo = patient?.responsible_party_id;
+      }
+      if (!(await InvoiceController.checkBilledTo(req, res, req.body.patient_id, billedTo))) return;
+
       // Add tenant_id to invoice data with validation
       const invoiceData = addTenantToData(req, {
         ...req.body,
+        billed_to_patient_id: billedTo || undefined,
         clinic_id: req.clinic_id
       });
 
@@ -27,6 +66,7 @@ export class InvoiceController {
       await invoice.save();
 
       await invoice.populate('patient_id', 'first_name last_name email phone');
+      await invoice.populate('billed_to_patient_id', 'first_name last_name email phone');
 
       res.status(201).json({
         success: true,
@@ -70,6 +110,27 @@ export class InvoiceController {
         filter.patient_id = req.query.patient_id;
       }
 
+      // Invoices a guardian or spouse pays for
+      if (req.query.billed_to_patient_id) {
+        filter.billed_to_patient_id = req.query.billed_to_patient_id;
+      }
+
+      // Patient name or phone (matched by SearchService), or the start of an invoice number
+      if (typeof req.query.search === 'string' && req.query.search.trim()) {
+        const search = req.query.search.trim();
+        const matches = await SearchService.search(Patient, { tenant_id: req.tenant_id, clinic_id: req.clinic_id }, search, { limit: 100 });
+        filter.$or = [
+          { patient_id: { $in: matches.map(match => match.document._id) } },
+          { invoice_number: { $regex: `^${escapeRegex(search)}`, $options: 'i' } }
+        ];
+      }
+
+      // Medical record number read out by the patient
+      if (req.query.mrn) {
+        const patient = await Patient.findOne({ tenant_id: req.tenant_id, mrn: String(req.query.mrn).trim().toUpperCase() }).select('_id');
+        filter.patient_id = patient ? patient._id : { $in: [] };
+      }
+
       if (req.query.start_date && req.query.end_date) {
         filter.created_at = {
           $gte: new Date(req.query.start_date as string),
@@ -78,7 +139,8 @@ export class InvoiceController {
       }
 
       const invoices = await Invoice.find(filter)
-        .populate('patient_id', 'first_name last_name email phone')
+        .populate('patient_id', 'first_name last_name email phone mrn')
+        .populate('billed_to_patient_id', 'first_name last_name phone')
         .skip(skip)
         .limit(limit)
         .sort({ created_at: -1 });
@@ -125,7 +187,8 @@ export class InvoiceController {
       });
       
       const invoice = await Invoice.findOne(invoiceFilter)
-        .populate('patient_id', 'first_name last_name email phone address');
+        .populate('patient_id', 'first_name last_name email phone address')
+        .populate('billed_to_patient_id', 'first_name last_name email phone address');
 
       if (!invoice) {
         res.status(404).json({
@@ -157,12 +220,16 @@ export class InvoiceController {
         clinic_id: req.clinic_id
       });
       
+      if (req.body.billed_to_patient_id &&
+        !(await InvoiceController.checkBilledTo(req, res, req.body.patient_id, req.body.billed_to_patient_id))) return;
+
       const invoice = await Invoice.findOneAndUpdate(
         updateFilter,
         req.body,
         { new: true, runValidators: true }
       )
-      .populate('patient_id', 'first_name last_name email phone');
+      .populate('patient_id', 'first_name last_name email phone')
+      .populate('billed_to_patient_id', 'first_name last_name email phone');
 
       if (!invoice) {
         res.status(404).json({
@@ -343,6 +410,16 @@ export class InvoiceController {
 
   static async deleteInvoice(req: AuthRequest, res: Response): Promise<void> {
     try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation failed',
+          errors: errors.array()
+        });
+        return;
+      }
+
       const { id } = req.params;
       const invoice = await Invoice.findOne({
         _id: id,
@@ -366,11 +443,12 @@ export class InvoiceController {
       //   return;
       // }
 
-      await Invoice.findByIdAndDelete(id);
+      // Financial records are archived for the retention period, never removed outright
+      await invoice.softDelete(req.user?._id as any, req.body?.reason);
 
       res.json({
         success: true,
-        message: 'Invoice deleted successfully'
+        message: 'Invoice archived successfully'
       });
     } catch (error) {
       console.error('Delete invoice error:', error);
@@ -380,4 +458,18 @@ export class InvoiceController {
       });
     }
   }
-} 
\ No newline at end of file
+
+  // The payer must be the patient or a guardian or spouse on record; answers 400 otherwise
+  private static async checkBilledTo(req: AuthRequest, res: Response, patientId: string, billedTo?: any): Promise<boolean> {
+    if (!billedTo || !patientId) return true;
+
+    if (!(await PatientRelationshipService.canBeResponsibleFor(req.tenant_id!, patientId, billedTo))) {
+      res.status(400).json({
+        success: false,
+        message: 'An invoice can only be billed to the patient or their guardian or spouse'
+      });
+      return false;
+    }
+    return true;
+  }
+}
\ No newline at end of file
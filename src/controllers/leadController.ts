@@ -3,6 +3,11 @@ import { validationResult } from 'express-validator';
 import { Lead, Patient } from '../models';
 import { AuthRequest } from '../types/express';
 import { addTenantToData } from '../middleware/auth';
+import { PatientMergeService } from '../utils/patientMerge';
+import { SearchService } from '../utils/search';
+
+// Converting a lead stops for confirmation only on strong matches (e.g. same phone and name)
+const LIKELY_DUPLICATE_SCORE = 65;
 
 export class LeadController {
   static async createLead(req: AuthRequest, res: Response): Promise<void> {
@@ -50,16 +55,6 @@ export class LeadController {
         clinic_id: req.clinic_id // CLINIC FILTER: Only get leads from current clinic
       };
 
-      // Search filter
-      if (req.query.search) {
-        filter.$or = [
-          { firstName: { $regex: req.query.search, $options: 'i' } },
-          { lastName: { $regex: req.query.search, $options: 'i' } },
-          { email: { $regex: req.query.search, $options: 'i' } },
-          { phone: { $regex: req.query.search, $options: 'i' } }
-        ];
-      }
-
       // Status filter
       if (req.query.status) {
         filter.status = req.query.status;
@@ -94,12 +89,27 @@ export class LeadController {
         sortOption = { [sortField]: sortOrder };
       }
 
-      const leads = await Lead.find(filter)
-        .skip(skip)
-        .limit(limit)
-        .sort(sortOption);
-
-      const totalLeads = await Lead.countDocuments(filter);
+      let leads: any[];
+      let totalLeads: number;
+
+      // Search ranks by how well leads match instead of the requested sort
+      const search = typeof req.query.search === 'string' ? req.query.search.trim() : '';
+      if (search) {
+        const matches = await SearchService.search(Lead, { ...filter, tenant_id: req.tenant_id }, search);
+        leads = matches.slice(skip, skip + limit).map(match => ({
+          ...match.document.toJSON(),
+          search_score: match.score,
+          matched_on: match.matched_on
+        }));
+        totalLeads = matches.length;
+      } else {
+        leads = await Lead.find(filter)
+          .skip(skip)
+          .limit(limit)
+          .sort(sortOption);
+
+        totalLeads = await Lead.countDocuments(filter);
+      }
 
       res.json({
         success: true,
@@ -332,8 +342,31 @@ export class LeadController {
       // Add tenant_id using the helper function (same as in patientController)
       const patientData = addTenantToData(req, basePatientData);
 
-      const patient = new Patient(patientData);
-      await patient.save();
+      let patient;
+      if (req.body.patient_id) {
+        // Converting to a patient already on file instead of registering them again
+        patient = await Patient.findOne({ _id: req.body.patient_id, tenant_id: req.tenant_id });
+        if (!patient) {
+          res.status(404).json({
+            success: false,
+            message: 'Patient not found'
+          });
+          return;
+        }
+      } else {
+        const duplicates = await PatientMergeService.findDuplicates(patientData, LIKELY_DUPLICATE_SCORE);
+        if (duplicates.length > 0 && !req.body.create_anyway) {
+          res.status(409).json({
+            success: false,
+            message: 'This lead looks like an existing patient. Convert to one of them with patient_id, or send create_anyway to register a new patient.',
+            data: { duplicates }
+          });
+          return;
+        }
+
+        patient = new Patient(patientData);
+        await patient.save();
+      }
 
       // Update lead status to converted
       lead.status = 'converted';
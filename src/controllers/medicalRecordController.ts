@@ -3,6 +3,7 @@ import { validationResult } from 'express-validator';
 import { MedicalRecord } from '../models';
 import { AuthRequest } from '../types/express';
 import { getTenantScopedFilter, addTenantToData } from '../middleware/auth';
+import { ClinicalSummaryService } from '../utils/clinicalSummary';
 
 export class MedicalRecordController {
   static async createMedicalRecord(req: AuthRequest, res: Response): Promise<void> {
@@ -25,6 +26,7 @@ export class MedicalRecordController {
 
       const medicalRecord = new MedicalRecord(medicalRecordData);
       await medicalRecord.save();
+      await ClinicalSummaryService.recordMedicalRecord(medicalRecord, req.user?._id as any);
 
       // Populate patient and doctor details
       await medicalRecord.populate([
@@ -141,6 +143,8 @@ export class MedicalRecordController {
         return;
       }
 
+      await ClinicalSummaryService.recordMedicalRecord(medicalRecord, req.user?._id as any);
+
       res.json({
         success: true,
         message: 'Medical record updated successfully',
@@ -157,8 +161,18 @@ export class MedicalRecordController {
 
   static async deleteMedicalRecord(req: AuthRequest, res: Response): Promise<void> {
     try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation failed',
+          errors: errors.array()
+        });
+        return;
+      }
+
       const { id } = req.params;
-      const medicalRecord = await MedicalRecord.findOneAndDelete({ 
+      const medicalRecord = await MedicalRecord.findOne({ 
         _id: id, 
         clinic_id: req.clinic_id // CLINIC FILTER: Only delete medical record from current clinic
       });
@@ -171,9 +185,12 @@ export class MedicalRecordController {
         return;
       }
 
+      // Kept archived for the retention period
+      await medicalRecord.softDelete(req.user?._id as any, req.body?.reason);
+
       res.json({
         success: true,
-        message: 'Medical record deleted successfully'
+        message: 'Medical record archived successfully'
       });
     } catch (error) {
       console.error('Delete medical record error:', error);
@@ -197,14 +214,16 @@ export class MedicalRecordController {
         .populate('doctor_id', 'first_name last_name role')
         .sort({ visit_date: -1 });
 
-      // Get chronic conditions
-      const chronicConditions = await MedicalRecord.aggregate([
-        { $match: filter },
-        { $unwind: '$diagnosis' },
-        { $group: { _id: '$diagnosis', count: { $sum: 1 } } },
-        { $match: { count: { $gte: 2 } } },
-        { $sort: { count: -1 } }
-      ]);
+      // Get chronic conditions - diagnoses seen at two visits or more, counted here as they are
+      // stored encrypted
+      const diagnosisCounts = new Map<string, number>();
+      medicalRecords.forEach(record => {
+        if (record.diagnosis) diagnosisCounts.set(record.diagnosis, (diagnosisCounts.get(record.diagnosis) || 0) + 1);
+      });
+      const chronicConditions = [...diagnosisCounts.entries()]
+        .filter(([, count]) => count >= 2)
+        .sort((a, b) => b[1] - a[1])
+        .map(([diagnosis]) => diagnosis);
 
       // Get allergies
       const allergies = await MedicalRecord.aggregate([
@@ -226,7 +245,7 @@ export class MedicalRecordController {
         success: true,
         data: {
           medicalRecords,
-          chronicConditions: chronicConditions.map(c => c._id),
+          chronicConditions,
           allergies: allergies.map(a => a._id),
           currentMedications: currentMedications.map(m => m.medication)
         }
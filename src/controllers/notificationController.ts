@@ -0,0 +1,328 @@
+import { Response } from 'express';
+import { validationResult } from 'express-validator';
+import {
+  Notification,
+  NotificationTemplate,
+  NotificationChannelType,
+  NotificationEvent,
+  NOTIFICATION_CHANNELS,
+  NOTIFICATION_EVENTS
+} from '../models';
+import { AuthRequest } from '../types/express';
+import { NotificationService } from '../utils/notifications';
+
+export class NotificationController {
+  /**
+   * Outbox for the current clinic - every queued, sent and failed message
+   */
+  static async getAllNotifications(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const page = parseInt(req.query.page as string) || 1;
+      const limit = parseInt(req.query.limit as string) || 20;
+      const skip = (page - 1) * limit;
+
+      const filter: any = {
+        tenant_id: req.tenant_id,
+        clinic_id: req.clinic_id
+      };
+
+      ['status', 'channel', 'event', 'appointment_id', 'patient_id'].forEach(field => {
+        if (req.query[field]) {
+          filter[field] = req.query[field];
+        }
+      });
+
+      const notifications = await Notification.find(filter)
+        .populate('patient_id', 'first_name last_name')
+        .populate('user_id', 'first_name last_name')
+        .skip(skip)
+        .limit(limit)
+        .sort({ created_at: -1 });
+
+      const totalNotifications = await Notification.countDocuments(filter);
+
+      res.json({
+        success: true,
+        data: {
+          notifications,
+          pagination: {
+            page,
+            limit,
+            total: totalNotifications,
+            pages: Math.ceil(totalNotifications / limit)
+          }
+        }
+      });
+    } catch (error) {
+      console.error('Get notifications error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      });
+    }
+  }
+
+  /**
+   * In-app notifications for the signed-in user
+   */
+  static async getMyNotifications(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const limit = parseInt(req.query.limit as string) || 20;
+
+      const filter: any = {
+        tenant_id: req.tenant_id,
+        user_id: req.user?._id,
+        channel: 'in_app',
+        status: 'sent'
+      };
+
+      if (req.query.unread === 'true') {
+        filter.read_at = null;
+      }
+
+      const notifications = await Notification.find(filter)
+        .limit(limit)
+        .sort({ created_at: -1 });
+
+      const unreadCount = await Notification.countDocuments({ ...filter, read_at: null });
+
+      res.json({
+        success: true,
+        data: {
+          notifications,
+          unread_count: unreadCount
+        }
+      });
+    } catch (error) {
+      console.error('Get my notifications error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      });
+    }
+  }
+
+  static async markAsRead(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const notification = await Notification.findOneAndUpdate(
+        {
+          _id: req.params.id,
+          tenant_id: req.tenant_id,
+          user_id: req.user?._id,
+          channel: 'in_app'
+        },
+        { read_at: new Date() },
+        { new: true }
+      );
+
+      if (!notification) {
+        res.status(404).json({
+          success: false,
+          message: 'Notification not found'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        message: 'Notification marked as read',
+        data: { notification }
+      });
+    } catch (error) {
+      console.error('Mark notification as read error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      });
+    }
+  }
+
+  /**
+   * Put a failed or cancelled message back in the outbox with a fresh set of attempts
+   */
+  static async retryNotification(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const notification = await Notification.findOne({
+        _id: req.params.id,
+        tenant_id: req.tenant_id,
+        clinic_id: req.clinic_id
+      });
+
+      if (!notification) {
+        res.status(404).json({
+          success: false,
+          message: 'Notification not found'
+        });
+        return;
+      }
+
+      if (!['failed', 'cancelled'].includes(notification.status)) {
+        res.status(409).json({
+          success: false,
+          message: `Only failed or cancelled notifications can be retried, this one is ${notification.status}`
+        });
+        return;
+      }
+
+      notification.status = 'pending';
+      notification.attempts = 0;
+      notification.next_attempt_at = new Date();
+      await notification.save();
+
+      res.json({
+        success: true,
+        message: 'Notification queued for delivery',
+        data: { notification }
+      });
+    } catch (error) {
+      console.error('Retry notification error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      });
+    }
+  }
+
+  /**
+   * Run reminder scheduling and outbox delivery now instead of waiting for the next tick
+   */
+  static async processOutbox(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const reminders = await NotificationService.enqueueDueReminders();
+      const delivery = await NotificationService.processOutbox();
+
+      res.json({
+        success: true,
+        message: 'Outbox processed',
+        data: { reminders_queued: reminders, ...delivery }
+      });
+    } catch (error) {
+      console.error('Process notification outbox error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      });
+    }
+  }
+
+  /**
+   * Effective template for every event and channel, marking which ones the clinic customised
+   */
+  static async getTemplates(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const customTemplates = await NotificationTemplate.find({
+        tenant_id: req.tenant_id,
+        clinic_id: req.clinic_id
+      });
+
+      const templates = NOTIFICATION_EVENTS.flatMap(event =>
+        NOTIFICATION_CHANNELS.map(channel => {
+          const custom = customTemplates.find(template => template.event === event && template.channel === channel);
+          return custom
+            ? { ...custom.toObject(), is_default: false }
+            : { event, channel, ...NotificationService.getDefaultTemplate(event, channel), is_active: true, is_default: true };
+        })
+      );
+
+      res.json({
+        success: true,
+        data: { templates }
+      });
+    } catch (error) {
+      console.error('Get notification templates error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      });
+    }
+  }
+
+  static async upsertTemplate(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation failed',
+          errors: errors.array()
+        });
+        return;
+      }
+
+      const { event, channel } = NotificationController.getTemplateKey(req, res) || {};
+      if (!event || !channel) return;
+
+      const { subject_en, subject_ar, body_en, body_ar, is_active } = req.body;
+
+      const template = await NotificationTemplate.findOneAndUpdate(
+        { tenant_id: req.tenant_id, clinic_id: req.clinic_id, event, channel },
+        { subject_en, subject_ar, body_en, body_ar, is_active: is_active ?? true },
+        { new: true, upsert: true, runValidators: true, setDefaultsOnInsert: true }
+      );
+
+      res.json({
+        success: true,
+        message: 'Notification template saved successfully',
+        data: { template }
+      });
+    } catch (error: any) {
+      console.error('Save notification template error:', error);
+
+      if (error.name === 'ValidationError') {
+        res.status(400).json({
+          success: false,
+          message: 'Validation failed',
+          errors: Object.values(error.errors).map((err: any) => ({
+            field: err.path,
+            message: err.message
+          }))
+        });
+        return;
+      }
+
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      });
+    }
+  }
+
+  /**
+   * Drop the clinic's customisation so the built-in wording is used again
+   */
+  static async resetTemplate(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const { event, channel } = NotificationController.getTemplateKey(req, res) || {};
+      if (!event || !channel) return;
+
+      await NotificationTemplate.deleteOne({ tenant_id: req.tenant_id, clinic_id: req.clinic_id, event, channel });
+
+      res.json({
+        success: true,
+        message: 'Notification template reset to default',
+        data: { template: { event, channel, ...NotificationService.getDefaultTemplate(event, channel), is_active: true, is_default: true } }
+      });
+    } catch (error) {
+      console.error('Reset notification template error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      });
+    }
+  }
+
+  private static getTemplateKey(req: AuthRequest, res: Response): { event: NotificationEvent; channel: NotificationChannelType } | null {
+    const event = req.params.event as NotificationEvent;
+    const channel = req.params.channel as NotificationChannelType;
+
+    if (!NOTIFICATION_EVENTS.includes(event) || !NOTIFICATION_CHANNELS.includes(channel)) {
+      res.status(400).json({
+        success: false,
+        message: `Event must be one of ${NOTIFICATION_EVENTS.join(', ')} and channel one of ${NOTIFICATION_CHANNELS.join(', ')}`
+      });
+      return null;
+    }
+
+    return { event, channel };
+  }
+}
@@ -1,8 +1,19 @@
 import { Request, Response } from 'express';
 import { validationResult } from 'express-validator';
-import { Patient, Appointment, Prescription } from '../models';
+import { Patient, PatientMerge, Appointment, Prescription, Invoice, TestReport, staffMemberFilter, normalizeIdentifierValue } from '../models';
 import { AuthRequest } from '../types/express';
 import { getRoleBasedFilter, getTenantScopedFilter, addTenantToData, canAccessTenant } from '../middleware/auth';
+import { PatientMergeService, DuplicateCandidateInput } from '../utils/patientMerge';
+import { SearchService } from '../utils/search';
+import { PatientTimelineService, TimelineEventType, TIMELINE_MAX_LIMIT } from '../utils/patientTimeline';
+
+// Field behind a duplicate key error - the unique indexes are compound with tenant_id
+const getDuplicateField = (error: any): string => {
+  const field = Object.keys(error.keyPattern || {}).find(key => key !== 'tenant_id') || 'value';
+  return field === 'identifier_keys' ? 'identifier' : field;
+};
+
+const escapeRegex = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
 
 export class PatientController {
   static async createPatient(req: AuthRequest, res: Response): Promise<void> {
@@ -62,10 +73,13 @@ export class PatientController {
       
       console.log('Patient saved successfully:', patient._id);
 
+      // Not blocking - the front desk decides whether to merge
+      const possibleDuplicates = await PatientMergeService.findDuplicates(patient.toObject() as DuplicateCandidateInput);
+
       res.status(201).json({
         success: true,
         message: 'Patient created successfully',
-        data: { patient }
+        data: { patient, possibleDuplicates }
       });
     } catch (error: any) {
       console.error('Create patient error:', error);
@@ -100,7 +114,7 @@ export class PatientController {
 
       // Handle duplicate key errors (e.g., duplicate phone or email)
       if (error.code === 11000) {
-        const field = Object.keys(error.keyPattern)[0];
+        const field = getDuplicateField(error);
         res.status(400).json({
           success: false,
           message: `Duplicate ${field} value`,
@@ -128,15 +142,29 @@ export class PatientController {
         clinic_id: req.clinic_id
       });
 
-      // Search filter
-      if (req.query.search) {
-        filter.$or = [
-          { first_name: { $regex: req.query.search, $options: 'i' } },
-          { last_name: { $regex: req.query.search, $options: 'i' } },
-          { email: { $regex: req.query.search, $options: 'i' } },
-          { phone: { $regex: req.query.search, $options: 'i' } }
-        ];
-      }
+      // Search ranks by how well patients match instead of listing newest first
+      const search = typeof req.query.search === 'string' ? req.query.search.trim() : '';
+      const findPatients = async (patientFilter: any): Promise<[any[], number]> => {
+        if (!search) {
+          return Promise.all([
+            Patient.find(patientFilter).skip(skip).limit(limit).sort({ created_at: -1 }),
+            Patient.countDocuments(patientFilter)
+          ]);
+        }
+
+        const matches = await SearchService.search(Patient, patientFilter, search, {
+          exact: [
+            { mrn: { $regex: `^${escapeRegex(search.toUpperCase())}` } },
+            { 'identifiers.value': normalizeIdentifierValue(search) }
+          ]
+        });
+        const page = matches.slice(skip, skip + limit).map(match => ({
+          ...match.document.toJSON(),
+          search_score: match.score,
+          matched_on: match.matched_on
+        }));
+        return [page, matches.length];
+      };
 
       // Gender filter
       if (req.query.gender) {
@@ -152,12 +180,7 @@ export class PatientController {
       if (roleFilter._requiresDoctorPatientFilter && req.user?.role === 'doctor') {
         // TEMPORARY: Allow doctors to see all patients for development
         // TODO: Restore role-based filtering for production
-        patients = await Patient.find(filter)
-          .skip(skip)
-          .limit(limit)
-          .sort({ created_at: -1 });
-
-        totalPatients = await Patient.countDocuments(filter);
+        [patients, totalPatients] = await findPatients(filter);
         
         // ORIGINAL CODE (commented out for development):
         // For doctors, find patients they have appointments or prescriptions with
@@ -191,8 +214,12 @@ export class PatientController {
         // For nurses, find patients they have appointments with (as assigned nurse)
         const nurseId = roleFilter._nurseId;
         
-        // Get patient IDs from appointments where nurse is assigned
-        const appointmentPatients = await Appointment.distinct('patient_id', { nurse_id: nurseId });
+        // Get patient IDs from appointments where nurse is assigned or takes part (group sessions included)
+        const nurseAppointments = staffMemberFilter(nurseId);
+        const appointmentPatients = [
+          ...await Appointment.distinct('patient_id', nurseAppointments),
+          ...await Appointment.distinct('additional_patient_ids', nurseAppointments)
+        ];
         
         if (appointmentPatients.length === 0) {
           // Nurse has no patients assigned
@@ -202,21 +229,11 @@ export class PatientController {
           // Add patient ID filter to existing filters
           filter._id = { $in: appointmentPatients };
           
-          patients = await Patient.find(filter)
-            .skip(skip)
-            .limit(limit)
-            .sort({ created_at: -1 });
-
-          totalPatients = await Patient.countDocuments(filter);
+          [patients, totalPatients] = await findPatients(filter);
         }
       } else {
         // Admin and other roles can see all patients
-        patients = await Patient.find(filter)
-          .skip(skip)
-          .limit(limit)
-          .sort({ created_at: -1 });
-
-        totalPatients = await Patient.countDocuments(filter);
+        [patients, totalPatients] = await findPatients(filter);
       }
 
       // Calculate and populate last_visit for each patient
@@ -267,6 +284,97 @@ export class PatientController {
     }
   }
 
+  /**
+   * Find a patient by MRN (?mrn) or external identifier (?identifier_value, optionally
+   * identifier_type and issuer), with their latest invoices and test reports
+   */
+  static async lookupPatient(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation failed',
+          errors: errors.array()
+        });
+        return;
+      }
+
+      const { mrn, identifier_type, identifier_value, issuer } = req.query as Record<string, string | undefined>;
+
+      if (!mrn && !identifier_value) {
+        res.status(400).json({
+          success: false,
+          message: 'Either mrn or identifier_value is required'
+        });
+        return;
+      }
+
+      const filter: any = { tenant_id: req.tenant_id };
+      if (mrn) {
+        filter.mrn = mrn.trim().toUpperCase();
+      } else {
+        filter.identifiers = {
+          $elemMatch: {
+            value: normalizeIdentifierValue(identifier_value!),
+            ...(identifier_type && { type: identifier_type }),
+            ...(issuer && { issuer: { $regex: `^${escapeRegex(issuer.trim())}$`, $options: 'i' } })
+          }
+        };
+      }
+
+      const patients = await Patient.find(filter).limit(10);
+
+      if (patients.length === 0) {
+        // A number of a merged-away record still leads to the patient it was merged into
+        const merge = mrn && await PatientMerge.findOne({
+          tenant_id: req.tenant_id,
+          'merged_snapshot.mrn': filter.mrn,
+          status: 'completed'
+        }).sort({ created_at: -1 }).select('survivor_id');
+
+        res.status(404).json({
+          success: false,
+          message: merge ? 'Patient was merged into another record' : 'Patient not found',
+          ...(merge && { data: { merged_into: merge.survivor_id } })
+        });
+        return;
+      }
+
+      // The same value under different identifier types or issuers can match several patients
+      if (patients.length > 1) {
+        res.json({
+          success: true,
+          data: { patients }
+        });
+        return;
+      }
+
+      const patient = patients[0];
+      const [invoices, reports] = await Promise.all([
+        Invoice.find({ tenant_id: req.tenant_id, patient_id: patient._id })
+          .select('invoice_number status total_amount issue_date due_date created_at')
+          .sort({ created_at: -1 })
+          .limit(5),
+        TestReport.find({ tenant_id: req.tenant_id, patientId: patient._id })
+          .select('reportNumber testName status testDate created_at')
+          .sort({ testDate: -1 })
+          .limit(5)
+      ]);
+
+      res.json({
+        success: true,
+        data: { patient, invoices, reports }
+      });
+    } catch (error) {
+      console.error('Lookup patient error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      });
+    }
+  }
+
   static async getPatientById(req: AuthRequest, res: Response): Promise<void> {
     try {
       const { id } = req.params;
@@ -325,9 +433,15 @@ export class PatientController {
       const patient = await Patient.findOne(patientFilter);
 
       if (!patient) {
+        // Point links to a merged-away record at the patient it was merged into
+        const merge = await PatientMerge.findOne({ tenant_id: req.tenant_id, merged_id: id, status: 'completed' })
+          .sort({ created_at: -1 })
+          .select('survivor_id');
+
         res.status(404).json({
           success: false,
-          message: 'Patient not found'
+          message: merge ? 'Patient was merged into another record' : 'Patient not found',
+          ...(merge && { data: { merged_into: merge.survivor_id } })
         });
         return;
       }
@@ -370,6 +484,85 @@ export class PatientController {
     }
   }
 
+  /**
+   * The patient's whole history - visits, notes, prescriptions, results, charts and billing - as one
+   * chronological feed. Only event types the caller may view are included.
+   */
+  static async getPatientTimeline(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation failed',
+          errors: errors.array()
+        });
+        return;
+      }
+
+      const patient = await Patient.findOne(getTenantScopedFilter(req, {
+        _id: req.params.id,
+        clinic_id: req.clinic_id
+      })).select('first_name last_name mrn');
+
+      if (!patient) {
+        res.status(404).json({
+          success: false,
+          message: 'Patient not found'
+        });
+        return;
+      }
+
+      if (!(await PatientTimelineService.canViewPatient(req.user!, req.tenant_id!, patient._id as any))) {
+        res.status(403).json({
+          success: false,
+          message: 'Access denied. You can only view patients assigned to you.'
+        });
+        return;
+      }
+
+      const page = parseInt(req.query.page as string) || 1;
+      const limit = Math.min(parseInt(req.query.limit as string) || 20, TIMELINE_MAX_LIMIT);
+      const types = req.query.types
+        ? String(req.query.types).split(',').map(type => type.trim()).filter(Boolean) as TimelineEventType[]
+        : undefined;
+
+      const { events, total, counts, types: included } = await PatientTimelineService.getTimeline({
+        user: req.user!,
+        tenant_id: req.tenant_id!,
+        clinic_id: req.clinic_id!,
+        patient_id: patient._id as any,
+        types,
+        date_from: req.query.date_from ? new Date(req.query.date_from as string) : undefined,
+        date_to: req.query.date_to ? new Date(req.query.date_to as string) : undefined,
+        page,
+        limit
+      });
+
+      res.json({
+        success: true,
+        data: {
+          patient,
+          events,
+          counts,
+          types: included,
+          pagination: {
+            page,
+            limit,
+            total,
+            pages: Math.ceil(total / limit)
+          }
+        }
+      });
+    } catch (error) {
+      console.error('Get patient timeline error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      });
+    }
+  }
+
   static async updatePatient(req: AuthRequest, res: Response): Promise<void> {
     try {
       const { id } = req.params;
@@ -425,9 +618,13 @@ export class PatientController {
         clinic_id: req.clinic_id
       });
       
+      // The MRN is assigned once and never edited, identifier keys are derived, and the responsible
+      // party is checked against the patient's relationships on its own endpoint, as is the clinical summary
+      const { mrn, identifier_keys, responsible_party_id, clinical_summary, ...updates } = req.body;
+
       const patient = await Patient.findOneAndUpdate(
         updateFilter,
-        req.body,
+        updates,
         { new: true, runValidators: true }
       );
 
@@ -454,6 +651,16 @@ export class PatientController {
         });
         return;
       }
+
+      if (error.code === 11000) {
+        const field = getDuplicateField(error);
+        res.status(400).json({
+          success: false,
+          message: `Duplicate ${field} value`,
+          field: field
+        });
+        return;
+      }
       
       res.status(500).json({
         success: false,
@@ -464,6 +671,16 @@ export class PatientController {
 
   static async deletePatient(req: AuthRequest, res: Response): Promise<void> {
     try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation failed',
+          errors: errors.array()
+        });
+        return;
+      }
+
       const { id } = req.params;
       
       // Only admin can delete patients
@@ -481,7 +698,7 @@ export class PatientController {
         clinic_id: req.clinic_id
       });
       
-      const patient = await Patient.findOneAndDelete(deleteFilter);
+      const patient = await Patient.findOne(deleteFilter);
 
       if (!patient) {
         res.status(404).json({
@@ -491,9 +708,12 @@ export class PatientController {
         return;
       }
 
+      // Patients are archived, not removed - see ArchiveService for restore and purge
+      await patient.softDelete(req.user?._id as any, req.body?.reason);
+
       res.json({
         success: true,
-        message: 'Patient deleted successfully'
+        message: 'Patient archived successfully'
       });
     } catch (error) {
       console.error('Delete patient error:', error);
@@ -519,12 +739,16 @@ export class PatientController {
         // Apply tenant filtering to doctor's patient queries
         const tenantFilter = { tenant_id: req.tenant_id };
         
-        // Get patient IDs from appointments
-        const appointmentPatients = await Appointment.distinct('patient_id', { 
+        // Get patient IDs from appointments they are booked on or take part in (group sessions included)
+        const doctorAppointments = {
           ...tenantFilter,
-          doctor_id: doctorId, 
-          clinic_id: req.clinic_id 
-        });
+          ...staffMemberFilter(doctorId),
+          clinic_id: req.clinic_id
+        };
+        const appointmentPatients = [
+          ...await Appointment.distinct('patient_id', doctorAppointments),
+          ...await Appointment.distinct('additional_patient_ids', doctorAppointments)
+        ];
         
         // Get patient IDs from prescriptions
         const prescriptionPatients = await Prescription.distinct('patient_id', { 
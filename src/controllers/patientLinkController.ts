@@ -0,0 +1,486 @@
+import { Request, Response } from 'express';
+import { validationResult } from 'express-validator';
+import mongoose from 'mongoose';
+import { Appointment, Clinic, IAppointment, PatientLinkAction } from '../models';
+import { AppointmentLinkService, AppointmentLinkPayload } from '../utils/appointmentLinks';
+import { AvailabilityService } from '../utils/availability';
+import { ResourceService } from '../utils/resources';
+import { TimezoneService } from '../utils/timezone';
+import { StatusWorkflowService, TransitionRejectionResult } from '../utils/statusWorkflow';
+import { NotificationService } from '../utils/notifications';
+import { WaitlistService } from '../utils/waitlist';
+import { AppointmentController } from './appointmentController';
+
+// AppointmentStatus code each patient action moves the appointment to - cancel uses the clinic's cancelled status
+const ACTION_STATUS: Record<Exclude<PatientLinkAction, 'view' | 'cancel'>, string> = {
+  confirm: 'confirmed',
+  reschedule: 'scheduled'
+};
+
+const PATIENT_CANCELLATION_REASON = 'Cancelled by the patient';
+
+const CANCELLATION_WINDOW_MESSAGE = 'Appointments can only be changed online at least 24 hours in advance. Please contact the clinic.';
+
+// recordAction result when a concurrent request used the same link first
+const LINK_ALREADY_USED = 'link_already_used';
+
+interface LinkContext {
+  payload: AppointmentLinkPayload;
+  appointment: IAppointment;
+}
+
+/**
+ * Public endpoints behind signed patient links - no login, the token is the credential
+ */
+export class PatientLinkController {
+  static async getAppointment(req: Request, res: Response): Promise<void> {
+    try {
+      const context = await PatientLinkController.resolveLink(req, res);
+      if (!context) return;
+
+      const { payload, appointment } = context;
+      const clinic = await Clinic.findById(appointment.clinic_id).select('name address contact settings.timezone');
+      await appointment.populate([
+        { path: 'doctor_id', select: 'first_name last_name' },
+        { path: 'patient_id', select: 'first_name last_name' }
+      ]);
+
+      const isActive = !appointment.frees_slot && appointment.appointment_date > new Date();
+      const canChange = isActive && await appointment.canBeCancelled();
+
+      res.json({
+        success: true,
+        data: {
+          appointment: {
+            id: appointment._id,
+            appointment_date: appointment.appointment_date,
+            local_time: TimezoneService.localize(appointment.appointment_date, TimezoneService.forClinic(clinic)),
+            duration: appointment.duration,
+            type: appointment.type,
+            status: appointment.status,
+            doctor: appointment.doctor_id,
+            patient: appointment.patient_id
+          },
+          clinic,
+          action: payload.act,
+          allowed: {
+            confirm: payload.act === 'confirm' && isActive && appointment.status !== 'confirmed',
+            cancel: payload.act === 'cancel' && canChange,
+            reschedule: payload.act === 'reschedule' && canChange
+          },
+          expires_at: new Date(payload.exp * 1000)
+        }
+      });
+    } catch (error) {
+      console.error('Get linked appointment error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      });
+    }
+  }
+
+  static async confirmAppointment(req: Request, res: Response): Promise<void> {
+    try {
+      const context = await PatientLinkController.resolveLink(req, res, 'confirm');
+      if (!context) return;
+
+      const { appointment } = context;
+
+      if (appointment.status === 'confirmed') {
+        res.json({
+          success: true,
+          message: 'Appointment is already confirmed',
+          data: { status: appointment.status }
+        });
+        return;
+      }
+
+      const rejection = await PatientLinkController.recordAction(req, context, 'confirm');
+      if (rejection) {
+        PatientLinkController.sendActionRejection(res, rejection);
+        return;
+      }
+
+      res.json({
+        success: true,
+        message: 'Appointment confirmed successfully',
+        data: { status: appointment.status, appointment_date: appointment.appointment_date }
+      });
+    } catch (error) {
+      console.error('Confirm linked appointment error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      });
+    }
+  }
+
+  static async cancelAppointment(req: Request, res: Response): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation failed',
+          errors: errors.array()
+        });
+        return;
+      }
+
+      const context = await PatientLinkController.resolveLink(req, res, 'cancel');
+      if (!context) return;
+
+      const { appointment } = context;
+
+      if (!(await appointment.canBeCancelled())) {
+        res.status(409).json({
+          success: false,
+          message: CANCELLATION_WINDOW_MESSAGE
+        });
+        return;
+      }
+
+      // The freed slot is offered from the pre-cancellation snapshot
+      const freed = appointment.toObject() as IAppointment;
+      const rejection = await PatientLinkController.recordAction(req, context, 'cancel');
+      if (rejection) {
+        PatientLinkController.sendActionRejection(res, rejection);
+        return;
+      }
+
+      await NotificationService.notifyAppointment(appointment, 'appointment_cancelled');
+      await WaitlistService.offerFreedAppointment(freed);
+
+      res.json({
+        success: true,
+        message: 'Appointment cancelled successfully',
+        data: { status: appointment.status }
+      });
+    } catch (error) {
+      console.error('Cancel linked appointment error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      });
+    }
+  }
+
+  /**
+   * Free slots with the same doctor and duration, for picking a new time
+   */
+  static async getRescheduleSlots(req: Request, res: Response): Promise<void> {
+    try {
+      const context = await PatientLinkController.resolveLink(req, res, 'reschedule');
+      if (!context) return;
+
+      const { appointment } = context;
+      const date = req.query.date as string;
+
+      if (!date || !/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+        res.status(400).json({
+          success: false,
+          message: 'Date parameter is required in YYYY-MM-DD format'
+        });
+        return;
+      }
+
+      const { timezone, working_window, slots } = await AvailabilityService.getAvailableSlots({
+        tenant_id: appointment.tenant_id,
+        clinic_id: appointment.clinic_id,
+        doctor_id: appointment.doctor_id,
+        date,
+        duration: appointment.duration,
+        service_id: appointment.service_id
+      });
+
+      res.json({
+        success: true,
+        data: {
+          date,
+          duration: appointment.duration,
+          timezone,
+          is_working: !!working_window,
+          slots: slots.map((slot) => ({ ...slot, local_time: TimezoneService.formatTime(slot.start, timezone) }))
+        }
+      });
+    } catch (error) {
+      console.error('Get reschedule slots error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      });
+    }
+  }
+
+  static async rescheduleAppointment(req: Request, res: Response): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation failed',
+          errors: errors.array()
+        });
+        return;
+      }
+
+      const context = await PatientLinkController.resolveLink(req, res, 'reschedule');
+      if (!context) return;
+
+      const { appointment } = context;
+      const newDate = new Date(req.body.appointment_date);
+
+      if (newDate <= new Date()) {
+        res.status(400).json({
+          success: false,
+          message: 'A valid future appointment_date is required'
+        });
+        return;
+      }
+
+      if (!(await appointment.canBeCancelled())) {
+        res.status(409).json({
+          success: false,
+          message: CANCELLATION_WINDOW_MESSAGE
+        });
+        return;
+      }
+
+      const availability = await AvailabilityService.checkAvailability({
+        tenant_id: appointment.tenant_id,
+        clinic_id: appointment.clinic_id,
+        doctor_id: appointment.doctor_id,
+        start: newDate,
+        duration: appointment.duration,
+        exclude_appointment_id: appointment._id as mongoose.Types.ObjectId,
+        service_id: appointment.service_id,
+        participants: appointment.participants
+      });
+
+      if (!availability.available) {
+        res.status(409).json({
+          success: false,
+          message: 'The selected time is no longer available',
+          reason: availability.reason
+        });
+        return;
+      }
+
+      const freed = appointment.toObject() as IAppointment;
+      const reservation = await ResourceService.reserve({
+        tenant_id: appointment.tenant_id,
+        clinic_id: appointment.clinic_id,
+        start: newDate,
+        duration: appointment.duration,
+        resource_ids: availability.resource_ids,
+        staff_ids: AvailabilityService.getStaffIds(appointment.doctor_id, appointment.participants),
+        exclude_appointment_id: appointment._id as mongoose.Types.ObjectId
+      }, () => PatientLinkController.recordAction(req, context, 'reschedule', newDate, availability.resource_ids));
+
+      if (!reservation.reserved) {
+        res.status(409).json({
+          success: false,
+          message: 'The selected time is no longer available',
+          reason: AvailabilityService.fromResourceAllocation(reservation.allocation).reason
+        });
+        return;
+      }
+
+      const rejection = reservation.result;
+      if (rejection) {
+        PatientLinkController.sendActionRejection(res, rejection);
+        return;
+      }
+
+      await NotificationService.notifyAppointment(appointment, 'appointment_rescheduled');
+      await WaitlistService.offerFreedAppointment(freed);
+
+      res.json({
+        success: true,
+        message: 'Appointment rescheduled successfully',
+        data: {
+          status: appointment.status,
+          appointment_date: appointment.appointment_date,
+          links: AppointmentLinkService.createLinks(appointment)
+        }
+      });
+    } catch (error: any) {
+      console.error('Reschedule linked appointment error:', error);
+
+      if (error.code === 11000) {
+        res.status(409).json({
+          success: false,
+          message: 'The selected time is no longer available'
+        });
+        return;
+      }
+
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      });
+    }
+  }
+
+  /**
+   * Verify the token and load its appointment, enforcing the link's purpose and single use.
+   * Sends the error response and returns null when the link cannot be used.
+   */
+  private static async resolveLink(req: Request, res: Response, action?: PatientLinkAction): Promise<LinkContext | null> {
+    let payload: AppointmentLinkPayload;
+
+    try {
+      payload = AppointmentLinkService.verifyToken(req.params.token);
+    } catch (error: any) {
+      res.status(error.name === 'TokenExpiredError' ? 410 : 401).json({
+        success: false,
+        message: error.name === 'TokenExpiredError' ? 'This link has expired' : 'Invalid link'
+      });
+      return null;
+    }
+
+    if (action && payload.act !== action) {
+      res.status(403).json({
+        success: false,
+        message: `This link cannot be used to ${action} the appointment`
+      });
+      return null;
+    }
+
+    const appointment = await Appointment.findOne({
+      _id: payload.sub,
+      tenant_id: payload.tid,
+      patient_id: payload.pid
+    });
+
+    if (!appointment) {
+      res.status(404).json({
+        success: false,
+        message: 'Appointment not found'
+      });
+      return null;
+    }
+
+    if (appointment.appointment_date.getTime() !== payload.ad) {
+      res.status(410).json({
+        success: false,
+        message: 'This link is for a previous appointment time'
+      });
+      return null;
+    }
+
+    if (action && appointment.patient_actions.some(entry => entry.token_id === payload.jti)) {
+      res.status(410).json({
+        success: false,
+        message: 'This link has already been used'
+      });
+      return null;
+    }
+
+    if (action && appointment.frees_slot) {
+      res.status(409).json({
+        success: false,
+        message: `Appointment is already ${appointment.status}`
+      });
+      return null;
+    }
+
+    return { payload, appointment };
+  }
+
+  /**
+   * Apply the action's status (and new time) and log it against the appointment.
+   * Returns the rejection when the clinic's workflow does not allow the status change,
+   * or LINK_ALREADY_USED when another request used the link first.
+   */
+  private static async recordAction(
+    req: Request,
+    context: LinkContext,
+    action: Exclude<PatientLinkAction, 'view'>,
+    newDate?: Date,
+    resourceIds?: mongoose.Types.ObjectId[]
+  ): Promise<TransitionRejectionResult | typeof LINK_ALREADY_USED | null> {
+    const { payload, appointment } = context;
+    const tenantId = appointment.tenant_id.toString();
+    const clinicId = appointment.clinic_id.toString();
+
+    // Fall back to the clinic default when a clinic has no status with the matching code
+    const toStatus = action === 'cancel'
+      ? await StatusWorkflowService.getCancelledStatusCode(tenantId, clinicId)
+      : (await AppointmentController.resolveStatusCode(tenantId, clinicId, ACTION_STATUS[action])) ||
+        (await AppointmentController.resolveStatusCode(tenantId, clinicId));
+
+    const cancellationReason = action === 'cancel'
+      ? (req.body && req.body.cancellation_reason) || PATIENT_CANCELLATION_REASON
+      : undefined;
+
+    const transition = await StatusWorkflowService.checkTransition({
+      tenant_id: tenantId,
+      clinic_id: clinicId,
+      from: appointment.status,
+      to: toStatus!,
+      data: { ...req.body, cancellation_reason: cancellationReason }
+    });
+
+    if (!transition.allowed) {
+      return transition;
+    }
+
+    // Claim the link atomically - of two concurrent requests with the same link only one gets past here
+    const claimed = await Appointment.updateOne(
+      { _id: appointment._id, 'patient_actions.token_id': { $ne: payload.jti } },
+      {
+        $push: {
+          patient_actions: {
+            action,
+            token_id: payload.jti,
+            from_status: appointment.status,
+            to_status: toStatus!,
+            previous_date: newDate ? appointment.appointment_date : undefined,
+            new_date: newDate,
+            ip: req.ip,
+            user_agent: req.get('user-agent'),
+            created_at: new Date()
+          }
+        }
+      }
+    );
+    if (claimed.modifiedCount === 0) {
+      return LINK_ALREADY_USED;
+    }
+
+    appointment.status = toStatus!;
+    if (cancellationReason) {
+      appointment.cancellation_reason = cancellationReason;
+    }
+    if (newDate) {
+      appointment.appointment_date = newDate;
+    }
+    if (resourceIds) {
+      appointment.resource_ids = resourceIds;
+    }
+
+    appointment.$locals.status_change = { reason: cancellationReason, source: 'patient' };
+    try {
+      await appointment.save();
+    } catch (error) {
+      // Nothing changed - the link stays usable
+      await Appointment.updateOne({ _id: appointment._id }, { $pull: { patient_actions: { token_id: payload.jti } } });
+      throw error;
+    }
+    return null;
+  }
+
+  private static sendActionRejection(res: Response, rejection: TransitionRejectionResult | typeof LINK_ALREADY_USED): void {
+    if (rejection === LINK_ALREADY_USED) {
+      res.status(410).json({
+        success: false,
+        message: 'This link has already been used'
+      });
+      return;
+    }
+
+    AppointmentController.sendTransitionRejection(res, rejection);
+  }
+}
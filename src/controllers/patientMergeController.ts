@@ -0,0 +1,268 @@
+import { Response } from 'express';
+import { validationResult } from 'express-validator';
+import mongoose from 'mongoose';
+import { Patient, PatientMerge } from '../models';
+import { AuthRequest } from '../types/express';
+import { PatientMergeService, DuplicateCandidateInput, DEFAULT_DUPLICATE_THRESHOLD } from '../utils/patientMerge';
+
+const DEFAULT_SCAN_SIZE = 50;
+
+export class PatientMergeController {
+  /**
+   * Possible duplicates of a patient (?patient_id) or of details about to be registered
+   * (?first_name, last_name, phone, email, date_of_birth)
+   */
+  static async findDuplicates(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation failed',
+          errors: errors.array()
+        });
+        return;
+      }
+
+      let details: any = {
+        first_name: req.query.first_name,
+        last_name: req.query.last_name,
+        phone: req.query.phone,
+        email: req.query.email,
+        date_of_birth: req.query.date_of_birth
+      };
+
+      if (req.query.patient_id) {
+        const patient = await Patient.findOne({ _id: req.query.patient_id, tenant_id: req.tenant_id });
+        if (!patient) {
+          res.status(404).json({
+            success: false,
+            message: 'Patient not found'
+          });
+          return;
+        }
+        details = patient.toObject();
+      }
+
+      const matches = await PatientMergeService.findDuplicates(
+        { ...details, tenant_id: req.tenant_id! },
+        parseInt(req.query.threshold as string) || DEFAULT_DUPLICATE_THRESHOLD,
+        parseInt(req.query.limit as string) || 10
+      );
+
+      res.json({
+        success: true,
+        data: { duplicates: matches }
+      });
+    } catch (error) {
+      console.error('Find duplicate patients error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      });
+    }
+  }
+
+  /**
+   * Likely duplicate pairs among the clinic's most recently registered patients
+   */
+  static async scanDuplicates(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation failed',
+          errors: errors.array()
+        });
+        return;
+      }
+
+      const threshold = parseInt(req.query.threshold as string) || DEFAULT_DUPLICATE_THRESHOLD;
+      const recent = await Patient.find({ tenant_id: req.tenant_id, clinic_id: req.clinic_id })
+        .sort({ created_at: -1 })
+        .limit(parseInt(req.query.limit as string) || DEFAULT_SCAN_SIZE);
+
+      const pairs = new Map<string, any>();
+      for (const patient of recent) {
+        const matches = await PatientMergeService.findDuplicates(patient.toObject() as DuplicateCandidateInput, threshold, 5);
+        for (const match of matches) {
+          const ids = [String(patient._id), String(match.patient._id)].sort();
+          const key = ids.join(':');
+          if (!pairs.has(key)) {
+            pairs.set(key, { patient, duplicate: match.patient, score: match.score, reasons: match.reasons });
+          }
+        }
+      }
+
+      res.json({
+        success: true,
+        data: {
+          scanned: recent.length,
+          pairs: Array.from(pairs.values()).sort((a, b) => b.score - a.score)
+        }
+      });
+    } catch (error) {
+      console.error('Scan duplicate patients error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      });
+    }
+  }
+
+  /**
+   * Merge a duplicate into the surviving patient. Can be undone until undo_until.
+   */
+  static async mergePatients(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation failed',
+          errors: errors.array()
+        });
+        return;
+      }
+
+      const { survivor_id, duplicate_id, reason } = req.body;
+
+      if (survivor_id === duplicate_id) {
+        res.status(400).json({
+          success: false,
+          message: 'A patient cannot be merged into itself'
+        });
+        return;
+      }
+
+      const [survivor, duplicate] = await Promise.all([
+        Patient.findOne({ _id: survivor_id, tenant_id: req.tenant_id }),
+        Patient.findOne({ _id: duplicate_id, tenant_id: req.tenant_id })
+      ]);
+
+      if (!survivor || !duplicate) {
+        res.status(404).json({
+          success: false,
+          message: `${!survivor ? 'Surviving' : 'Duplicate'} patient not found`
+        });
+        return;
+      }
+
+      const merge = await PatientMergeService.merge({
+        survivor,
+        duplicate,
+        merged_by: req.user?._id as mongoose.Types.ObjectId,
+        reason
+      });
+
+      res.json({
+        success: true,
+        message: 'Patients merged successfully',
+        data: {
+          patient: await Patient.findById(survivor._id),
+          merge
+        }
+      });
+    } catch (error) {
+      console.error('Merge patients error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      });
+    }
+  }
+
+  // Merge audit trail, newest first
+  static async getMerges(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const page = parseInt(req.query.page as string) || 1;
+      const limit = parseInt(req.query.limit as string) || 20;
+
+      const filter: any = { tenant_id: req.tenant_id };
+      if (req.query.patient_id) {
+        filter.$or = [{ survivor_id: req.query.patient_id }, { merged_id: req.query.patient_id }];
+      }
+      if (req.query.status) {
+        filter.status = req.query.status;
+      }
+
+      const [merges, total] = await Promise.all([
+        PatientMerge.find(filter)
+          .select('-merged_snapshot')
+          .populate('survivor_id', 'first_name last_name phone')
+          .populate('merged_by', 'first_name last_name')
+          .populate('undone_by', 'first_name last_name')
+          .sort({ created_at: -1 })
+          .skip((page - 1) * limit)
+          .limit(limit),
+        PatientMerge.countDocuments(filter)
+      ]);
+
+      res.json({
+        success: true,
+        data: {
+          merges,
+          pagination: {
+            page,
+            limit,
+            total,
+            pages: Math.ceil(total / limit)
+          }
+        }
+      });
+    } catch (error) {
+      console.error('Get patient merges error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      });
+    }
+  }
+
+  static async undoMerge(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const merge = await PatientMerge.findOne({ _id: req.params.id, tenant_id: req.tenant_id });
+
+      if (!merge) {
+        res.status(404).json({
+          success: false,
+          message: 'Merge not found'
+        });
+        return;
+      }
+
+      if (merge.status === 'undone') {
+        res.status(409).json({
+          success: false,
+          message: 'This merge has already been undone'
+        });
+        return;
+      }
+
+      if (merge.undo_until < new Date()) {
+        res.status(409).json({
+          success: false,
+          message: 'The undo window for this merge has passed'
+        });
+        return;
+      }
+
+      const patient = await PatientMergeService.undo(merge, req.user?._id as mongoose.Types.ObjectId);
+
+      res.json({
+        success: true,
+        message: 'Merge undone successfully',
+        data: { patient, merge }
+      });
+    } catch (error) {
+      console.error('Undo patient merge error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      });
+    }
+  }
+}
+
+export default PatientMergeController;
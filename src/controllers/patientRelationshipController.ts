@@ -0,0 +1,252 @@
+import { Response } from 'express';
+import { validationResult } from 'express-validator';
+import { Patient, PatientRelationship, RESPONSIBLE_RELATIONSHIPS } from '../models';
+import { AuthRequest } from '../types/express';
+import { getTenantScopedFilter } from '../middleware/auth';
+import { PatientRelationshipService } from '../utils/patientRelationships';
+
+export class PatientRelationshipController {
+  static async getRelationships(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const patient = await Patient.findOne(getTenantScopedFilter(req, { _id: req.params.id, clinic_id: req.clinic_id }));
+
+      if (!patient) {
+        res.status(404).json({
+          success: false,
+          message: 'Patient not found'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: {
+          relationships: await PatientRelationshipService.getRelatedPatients(patient),
+          responsible_party_id: patient.responsible_party_id || null
+        }
+      });
+    } catch (error) {
+      console.error('Get patient relationships error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      });
+    }
+  }
+
+  /**
+   * Link a relative. `relationship` is what the related patient is to this patient; with
+   * is_responsible_party the guardian or spouse becomes the one who signs consent and is billed.
+   */
+  static async addRelationship(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation failed',
+          errors: errors.array()
+        });
+        return;
+      }
+
+      const { related_patient_id, relationship, label, notes, is_responsible_party } = req.body;
+
+      if (related_patient_id === req.params.id) {
+        res.status(400).json({
+          success: false,
+          message: 'A patient cannot be related to themselves'
+        });
+        return;
+      }
+
+      const [patient, related] = await Promise.all([
+        Patient.findOne(getTenantScopedFilter(req, { _id: req.params.id, clinic_id: req.clinic_id })),
+        Patient.findOne(getTenantScopedFilter(req, { _id: related_patient_id, clinic_id: req.clinic_id }))
+      ]);
+
+      if (!patient || !related) {
+        res.status(404).json({
+          success: false,
+          message: `${!patient ? 'Patient' : 'Related patient'} not found`
+        });
+        return;
+      }
+
+      const existing = await PatientRelationshipService.getRelationship(req.tenant_id!, patient._id as any, related._id as any);
+      if (existing) {
+        res.status(409).json({
+          success: false,
+          message: `These patients are already linked (${existing})`
+        });
+        return;
+      }
+
+      if (relationship === 'spouse') {
+        const married = await PatientRelationship.exists({
+          tenant_id: req.tenant_id,
+          relationship: 'spouse',
+          $or: [
+            { patient_id: { $in: [patient._id, related._id] } },
+            { related_patient_id: { $in: [patient._id, related._id] } }
+          ]
+        });
+        if (married) {
+          res.status(409).json({
+            success: false,
+            message: 'One of these patients already has a spouse on record'
+          });
+          return;
+        }
+      }
+
+      const link = await PatientRelationshipService.link({
+        tenant_id: req.tenant_id!,
+        clinic_id: req.clinic_id!,
+        patient_id: patient._id as any,
+        related_patient_id: related._id as any,
+        relationship,
+        label,
+        notes,
+        created_by: req.user?._id as any
+      });
+
+      if (is_responsible_party) {
+        // The responsible party is set on whoever is looked after
+        const dependent = relationship === 'dependent' ? related : patient;
+        dependent.responsible_party_id = (relationship === 'dependent' ? patient._id : related._id) as any;
+        await dependent.save();
+      }
+
+      res.status(201).json({
+        success: true,
+        message: 'Relationship added successfully',
+        data: {
+          relationship: link,
+          relationships: await PatientRelationshipService.getRelatedPatients(patient)
+        }
+      });
+    } catch (error) {
+      console.error('Add patient relationship error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      });
+    }
+  }
+
+  static async removeRelationship(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const link = await PatientRelationship.findOne(getTenantScopedFilter(req, {
+        _id: req.params.relationshipId,
+        clinic_id: req.clinic_id,
+        $or: [{ patient_id: req.params.id }, { related_patient_id: req.params.id }]
+      }));
+
+      if (!link) {
+        res.status(404).json({
+          success: false,
+          message: 'Relationship not found'
+        });
+        return;
+      }
+
+      await PatientRelationshipService.unlink(link);
+
+      res.json({
+        success: true,
+        message: 'Relationship removed successfully'
+      });
+    } catch (error) {
+      console.error('Remove patient relationship error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      });
+    }
+  }
+
+  /**
+   * Designate (or clear, with null) the relative who signs consent and is billed for the patient
+   */
+  static async setResponsibleParty(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation failed',
+          errors: errors.array()
+        });
+        return;
+      }
+
+      const patient = await Patient.findOne(getTenantScopedFilter(req, { _id: req.params.id, clinic_id: req.clinic_id }));
+
+      if (!patient) {
+        res.status(404).json({
+          success: false,
+          message: 'Patient not found'
+        });
+        return;
+      }
+
+      const { responsible_party_id } = req.body;
+
+      if (responsible_party_id && responsible_party_id !== req.params.id &&
+        !(await PatientRelationshipService.canBeResponsibleFor(req.tenant_id!, patient._id as any, responsible_party_id))) {
+        res.status(400).json({
+          success: false,
+          message: `The responsible party must be linked to the patient as ${RESPONSIBLE_RELATIONSHIPS.join(' or ')}`
+        });
+        return;
+      }
+
+      // Patients responsible for themselves have no responsible party
+      patient.responsible_party_id = responsible_party_id && responsible_party_id !== req.params.id ? responsible_party_id : undefined;
+      await patient.save();
+
+      res.json({
+        success: true,
+        message: patient.responsible_party_id ? 'Responsible party updated successfully' : 'Responsible party cleared',
+        data: { patient }
+      });
+    } catch (error) {
+      console.error('Set responsible party error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      });
+    }
+  }
+
+  /**
+   * Family view: relatives with their upcoming appointments and outstanding balances
+   */
+  static async getFamily(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const patient = await Patient.findOne(getTenantScopedFilter(req, { _id: req.params.id, clinic_id: req.clinic_id }));
+
+      if (!patient) {
+        res.status(404).json({
+          success: false,
+          message: 'Patient not found'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: await PatientRelationshipService.getFamilySummary(patient, req.clinic_id)
+      });
+    } catch (error) {
+      console.error('Get patient family error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      });
+    }
+  }
+}
+
+export default PatientRelationshipController;
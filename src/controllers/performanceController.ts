@@ -599,6 +599,22 @@ export class PerformanceController {
 
           const appointmentIds = appointments.map(apt => apt._id);
 
+          // Appointments of other doctors they took part in (assisting, anesthesia...) - counted, but the
+          // revenue stays with the booked doctor so it is never attributed twice
+          const participantAppointmentCount = await Appointment.countDocuments({
+            clinic_id: clinicObjectId,
+            doctor_id: { $ne: doctor._id },
+            'participants.user_id': doctor._id,
+            appointment_date: { $gte: startDate, $lte: endDate },
+            status: { $in: ['completed', 'confirmed'] }
+          });
+
+          // Group sessions count a visit for every attending patient
+          const patientVisits = appointments.reduce(
+            (total, apt) => total + 1 + (apt.additional_patient_ids?.length || 0),
+            0
+          );
+
           // Get revenue from invoices linked to these appointments
           const revenueData = await Invoice.aggregate([
             {
@@ -656,6 +672,8 @@ export class PerformanceController {
             revenue_generated: revenue,
             invoice_count: invoiceCount,
             appointment_count: appointments.length,
+            participant_appointment_count: participantAppointmentCount,
+            patient_visits: patientVisits,
             sales_incentive: salesIncentive,
             total_payout: totalPayout,
             payout_breakdown: {
@@ -676,6 +694,7 @@ export class PerformanceController {
           total_sales_incentive: acc.total_sales_incentive + doctor.sales_incentive,
           total_payout: acc.total_payout + doctor.total_payout,
           total_appointments: acc.total_appointments + doctor.appointment_count,
+          total_patient_visits: acc.total_patient_visits + doctor.patient_visits,
           total_invoices: acc.total_invoices + doctor.invoice_count
         }),
         {
@@ -685,6 +704,7 @@ export class PerformanceController {
           total_sales_incentive: 0,
           total_payout: 0,
           total_appointments: 0,
+          total_patient_visits: 0,
           total_invoices: 0
         }
       );
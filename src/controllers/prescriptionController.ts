@@ -1,8 +1,51 @@
 import { Request, Response } from 'express';
 import { validationResult } from 'express-validator';
-import { Prescription } from '../models';
+import { IPrescriptionAlert, Patient, Prescription } from '../models';
 import { AuthRequest } from '../types/express';
 import { getRoleBasedFilter, getTenantScopedFilter, addTenantToData } from '../middleware/auth';
+import { ClinicalAlert, ClinicalSummaryService } from '../utils/clinicalSummary';
+import { FieldEncryptionService } from '../utils/fieldEncryption';
+
+/**
+ * Every alert must be acknowledged by listing its code in `acknowledged_alerts`, and critical ones need an
+ * `alert_override_reason`. Sends the 409/400 and returns null otherwise; codes in `previously` were
+ * acknowledged on an earlier save.
+ */
+const reviewAlerts = (
+  req: AuthRequest,
+  res: Response,
+  alerts: ClinicalAlert[],
+  previously: IPrescriptionAlert[] = []
+): IPrescriptionAlert[] | null => {
+  const acknowledged: string[] = Array.isArray(req.body.acknowledged_alerts) ? req.body.acknowledged_alerts : [];
+  const fresh = alerts.filter(alert => !previously.some(earlier => earlier.code === alert.code));
+  const pending = fresh.filter(alert => !acknowledged.includes(alert.code));
+
+  if (pending.length > 0) {
+    res.status(409).json({
+      success: false,
+      message: 'The prescription raised clinical alerts that must be acknowledged',
+      reason: 'unacknowledged_alerts',
+      alerts
+    });
+    return null;
+  }
+
+  if (fresh.some(alert => alert.severity === 'critical') && !req.body.alert_override_reason?.trim()) {
+    res.status(400).json({
+      success: false,
+      message: 'A reason is required to prescribe despite a critical alert',
+      reason: 'override_reason_required',
+      alerts
+    });
+    return null;
+  }
+
+  return [
+    ...previously,
+    ...fresh.map(alert => ({ ...alert, acknowledged_by: req.user?._id as any, acknowledged_at: new Date() }))
+  ];
+};
 
 export class PrescriptionController {
   static async createPrescription(req: AuthRequest, res: Response): Promise<void> {
@@ -17,20 +60,36 @@ export class PrescriptionController {
         return;
       }
 
+      const patient = await Patient.findOne({ _id: req.body.patient_id, tenant_id: req.tenant_id });
+      if (!patient) {
+        res.status(404).json({
+          success: false,
+          message: 'Patient not found'
+        });
+        return;
+      }
+
+      const alerts = reviewAlerts(req, res, ClinicalSummaryService.checkPrescription(patient, req.body.medications));
+      if (!alerts) return;
+
       // Generate prescription ID if not provided
       if (!req.body.prescription_id) {
-        const count = await Prescription.countDocuments({ clinic_id: req.clinic_id });
+        const count = await Prescription.countDocuments({ clinic_id: req.clinic_id }).setOptions({ withDeleted: true });
         req.body.prescription_id = `RX-${String(count + 1).padStart(3, '0')}`;
       }
 
       // Add tenant_id to prescription data with validation
+      const { acknowledged_alerts, ...fields } = req.body;
       const prescriptionData = addTenantToData(req, {
-        ...req.body,
+        ...fields,
+        alerts,
+        alert_override_reason: alerts.some(alert => alert.severity === 'critical') ? fields.alert_override_reason : undefined,
         clinic_id: req.clinic_id
       });
 
       const prescription = new Prescription(prescriptionData);
       await prescription.save();
+      await ClinicalSummaryService.syncPrescription(prescription, req.user?._id as any);
 
       // Populate patient and doctor information
       await prescription.populate([
@@ -70,6 +129,46 @@ export class PrescriptionController {
     }
   }
 
+  /**
+   * Preview the alerts a prescription would raise, so they can be shown while it is being written
+   */
+  static async checkAlerts(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation failed',
+          errors: errors.array()
+        });
+        return;
+      }
+
+      const patient = await Patient.findOne({ _id: req.body.patient_id, tenant_id: req.tenant_id });
+      if (!patient) {
+        res.status(404).json({
+          success: false,
+          message: 'Patient not found'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: {
+          alerts: ClinicalSummaryService.checkPrescription(patient, req.body.medications, req.body.prescription_id),
+          clinical_summary: patient.clinical_summary
+        }
+      });
+    } catch (error) {
+      console.error('Check prescription alerts error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      });
+    }
+  }
+
   static async getAllPrescriptions(req: AuthRequest, res: Response): Promise<void> {
     try {
       const page = parseInt(req.query.page as string) || 1;
@@ -85,7 +184,10 @@ export class PrescriptionController {
       if (req.query.search) {
         filter.$or = [
           { prescription_id: { $regex: req.query.search, $options: 'i' } },
-          { diagnosis: { $regex: req.query.search, $options: 'i' } }
+          // An encrypted diagnosis cannot be matched by part
+          ...(FieldEncryptionService.isEncrypted(Prescription, 'diagnosis')
+            ? []
+            : [{ diagnosis: { $regex: req.query.search, $options: 'i' } }])
         ];
       }
 
@@ -263,9 +365,29 @@ export class PrescriptionController {
       const roleFilter = getRoleBasedFilter(req.user, 'prescription');
       filter = { ...filter, ...roleFilter };
 
+      // Alerts are only ever raised by the server
+      const { alerts: _alerts, acknowledged_alerts, alert_override_reason, ...updates } = req.body;
+
+      if (updates.medications) {
+        const existing = await Prescription.findOne(filter);
+        const patient = existing && await Patient.findOne({ _id: existing.patient_id, tenant_id: existing.tenant_id });
+        if (!existing || !patient) {
+          res.status(404).json({
+            success: false,
+            message: 'Prescription not found or access denied'
+          });
+          return;
+        }
+
+        const alerts = reviewAlerts(req, res, ClinicalSummaryService.checkPrescription(patient, updates.medications, existing._id as any), existing.alerts);
+        if (!alerts) return;
+        updates.alerts = alerts;
+        if (alert_override_reason) updates.alert_override_reason = alert_override_reason;
+      }
+
       const prescription = await Prescription.findOneAndUpdate(
         filter,
-        req.body,
+        updates,
         { new: true, runValidators: true }
       ).populate([
         { path: 'patient_id', select: 'first_name last_name date_of_birth gender' },
@@ -281,6 +403,10 @@ export class PrescriptionController {
         return;
       }
 
+      if (updates.medications || updates.status) {
+        await ClinicalSummaryService.syncPrescription(prescription, req.user?._id as any);
+      }
+
       res.json({
         success: true,
         message: 'Prescription updated successfully',
@@ -297,6 +423,16 @@ export class PrescriptionController {
 
   static async deletePrescription(req: AuthRequest, res: Response): Promise<void> {
     try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation failed',
+          errors: errors.array()
+        });
+        return;
+      }
+
       const { id } = req.params;
       
       // Only admin can delete prescriptions
@@ -308,7 +444,7 @@ export class PrescriptionController {
         return;
       }
 
-      const prescription = await Prescription.findByIdAndDelete(id);
+      const prescription = await Prescription.findOne({ _id: id, clinic_id: req.clinic_id });
 
       if (!prescription) {
         res.status(404).json({
@@ -318,9 +454,13 @@ export class PrescriptionController {
         return;
       }
 
+      // Kept archived for the retention period
+      await prescription.softDelete(req.user?._id as any, req.body?.reason);
+      await ClinicalSummaryService.stopPrescription(prescription);
+
       res.json({
         success: true,
-        message: 'Prescription deleted successfully'
+        message: 'Prescription archived successfully'
       });
     } catch (error) {
       console.error('Delete prescription error:', error);
@@ -368,6 +508,8 @@ export class PrescriptionController {
         return;
       }
 
+      await ClinicalSummaryService.syncPrescription(prescription, req.user?._id as any);
+
       res.json({
         success: true,
         message: 'Prescription status updated successfully',
@@ -487,18 +629,30 @@ export class PrescriptionController {
         { $limit: 10 }
       ]);
 
-      // Top diagnoses
-      const topDiagnoses = await Prescription.aggregate([
-        { $match: filter },
-        {
-          $group: {
-            _id: '$diagnosis',
-            count: { $sum: 1 }
-          }
-        },
-        { $sort: { count: -1 } },
-        { $limit: 10 }
-      ]);
+      // Top diagnoses - encrypted ones can only be grouped once decrypted
+      let topDiagnoses: { _id: string; count: number }[];
+      if (FieldEncryptionService.isEncrypted(Prescription, 'diagnosis')) {
+        const counts = new Map<string, number>();
+        (await Prescription.find(filter).select('diagnosis').lean()).forEach(prescription => {
+          counts.set(prescription.diagnosis, (counts.get(prescription.diagnosis) || 0) + 1);
+        });
+        topDiagnoses = [...counts.entries()]
+          .map(([diagnosis, count]) => ({ _id: diagnosis, count }))
+          .sort((a, b) => b.count - a.count)
+          .slice(0, 10);
+      } else {
+        topDiagnoses = await Prescription.aggregate([
+          { $match: filter },
+          {
+            $group: {
+              _id: '$diagnosis',
+              count: { $sum: 1 }
+            }
+          },
+          { $sort: { count: -1 } },
+          { $limit: 10 }
+        ]);
+      }
 
       const activePrescriptions = statusStats.find(s => s._id === 'active')?.count || 0;
       const pendingPrescriptions = statusStats.find(s => s._id === 'pending')?.count || 0;
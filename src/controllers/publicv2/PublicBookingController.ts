@@ -0,0 +1,783 @@
+import { Request, Response, NextFunction } from 'express';
+import { validationResult } from 'express-validator';
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+import {
+  Appointment,
+  BookingVerification,
+  IBookingVerification,
+  Clinic,
+  IClinic,
+  ITenant,
+  Lead,
+  Patient,
+  Service,
+  IService,
+  Tenant,
+  User,
+  UserClinic
+} from '../../models';
+import { AvailabilityService } from '../../utils/availability';
+import { ResourceService } from '../../utils/resources';
+import { TimezoneService } from '../../utils/timezone';
+import { NotificationService } from '../../utils/notifications';
+import { AppointmentLinkService } from '../../utils/appointmentLinks';
+import { AppointmentController } from '../appointmentController';
+
+const CODE_TTL_MINUTES = 10;
+const MAX_CODE_ATTEMPTS = 5;
+const MAX_CODES_PER_DESTINATION = 3; // Within DESTINATION_WINDOW_MINUTES
+const DESTINATION_WINDOW_MINUTES = 15;
+const VERIFIED_BOOKING_WINDOW_MINUTES = 30;
+
+const VERIFICATION_MESSAGES = {
+  en: { subject: 'Your booking verification code', body: 'Your verification code for {{clinic_name}} is {{code}}. It expires in {{minutes}} minutes.' },
+  ar: { subject: 'رمز التحقق للحجز', body: 'رمز التحقق الخاص بك لدى {{clinic_name}} هو {{code}}. ينتهي خلال {{minutes}} دقائق.' }
+};
+
+/**
+ * Public Booking Controller
+ * Online booking for new and returning patients (no auth required).
+ * All routes are scoped to a tenant resolved from the :subdomain parameter.
+ */
+export class PublicBookingController {
+  /**
+   * Resolve the active tenant for :subdomain into res.locals.tenant
+   */
+  static async loadTenant(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { subdomain } = req.params;
+
+      const tenant = await Tenant.findOne({
+        $or: [{ subdomain }, { slug: subdomain }],
+        status: 'active',
+        deleted_at: null
+      });
+
+      if (!tenant) {
+        res.status(404).json({
+          success: false,
+          message: 'Organization not found',
+          error: 'TENANT_NOT_FOUND'
+        });
+        return;
+      }
+
+      res.locals.tenant = tenant;
+      next();
+    } catch (error: any) {
+      console.error('Error resolving booking tenant:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to fetch organization',
+        error: process.env.NODE_ENV === 'development' ? error.message : undefined
+      });
+    }
+  }
+
+  /**
+   * List clinics that accept online bookings
+   * GET /api/publicv2/tenants/:subdomain/clinics
+   */
+  static async getClinics(req: Request, res: Response): Promise<void> {
+    try {
+      const tenant: ITenant = res.locals.tenant;
+
+      const clinics = await Clinic.find(
+        { tenant_id: tenant._id, is_active: true },
+        { name: 1, description: 1, address: 1, contact: 1, 'settings.timezone': 1, 'settings.language': 1, is_main_clinic: 1 }
+      ).sort({ is_main_clinic: -1, name: 1 });
+
+      res.json({
+        success: true,
+        data: { clinics }
+      });
+    } catch (error: any) {
+      console.error('Error fetching bookable clinics:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to fetch clinics',
+        error: process.env.NODE_ENV === 'development' ? error.message : undefined
+      });
+    }
+  }
+
+  /**
+   * List active services of a clinic
+   * GET /api/publicv2/tenants/:subdomain/clinics/:clinicId/services
+   */
+  static async getServices(req: Request, res: Response): Promise<void> {
+    try {
+      const clinic = await PublicBookingController.findClinic(req, res);
+      if (!clinic) return;
+
+      const services = await Service.find(
+        { tenant_id: clinic.tenant_id, clinic_id: clinic._id, isActive: true },
+        { name: 1, category: 1, description: 1, duration: 1, price: 1, department: 1, prerequisites: 1, specialInstructions: 1 }
+      ).sort({ category: 1, name: 1 });
+
+      res.json({
+        success: true,
+        data: { services }
+      });
+    } catch (error: any) {
+      console.error('Error fetching bookable services:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to fetch services',
+        error: process.env.NODE_ENV === 'development' ? error.message : undefined
+      });
+    }
+  }
+
+  /**
+   * List doctors working at a clinic, optionally narrowed to a department
+   * GET /api/publicv2/tenants/:subdomain/clinics/:clinicId/doctors
+   */
+  static async getDoctors(req: Request, res: Response): Promise<void> {
+    try {
+      const clinic = await PublicBookingController.findClinic(req, res);
+      if (!clinic) return;
+
+      const filter: any = {
+        _id: { $in: await PublicBookingController.getClinicDoctorIds(clinic) },
+        role: 'doctor',
+        is_active: true
+      };
+
+      if (req.query.department) {
+        filter.department = req.query.department;
+      }
+
+      const doctors = await User.find(filter, { first_name: 1, last_name: 1, specialization: 1, department: 1, avatar: 1, bio: 1 })
+        .sort({ first_name: 1 });
+
+      res.json({
+        success: true,
+        data: { doctors }
+      });
+    } catch (error: any) {
+      console.error('Error fetching bookable doctors:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to fetch doctors',
+        error: process.env.NODE_ENV === 'development' ? error.message : undefined
+      });
+    }
+  }
+
+  /**
+   * Open slots for a doctor on a date, sized to the chosen service
+   * GET /api/publicv2/tenants/:subdomain/clinics/:clinicId/slots?doctor_id=&date=YYYY-MM-DD&service_id=
+   */
+  static async getSlots(req: Request, res: Response): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation failed',
+          errors: errors.array()
+        });
+        return;
+      }
+
+      const clinic = await PublicBookingController.findClinic(req, res);
+      if (!clinic) return;
+
+      const doctorId = req.query.doctor_id as string;
+      const date = req.query.date as string;
+
+      if (!(await PublicBookingController.isClinicDoctor(clinic, doctorId))) {
+        res.status(404).json({
+          success: false,
+          message: 'Doctor not found'
+        });
+        return;
+      }
+
+      let service: IService | null = null;
+      if (req.query.service_id) {
+        service = await PublicBookingController.findService(req, res, clinic, req.query.service_id as string);
+        if (!service) return;
+      }
+
+      const duration = PublicBookingController.getDuration(service);
+
+      if (service && await PublicBookingController.isServiceFullyBooked(service, date, TimezoneService.forClinic(clinic))) {
+        res.json({
+          success: true,
+          data: { date, duration, fully_booked: true, slots: [] }
+        });
+        return;
+      }
+
+      const { timezone, working_window, slots } = await AvailabilityService.getAvailableSlots({
+        tenant_id: clinic.tenant_id,
+        clinic_id: clinic._id as mongoose.Types.ObjectId,
+        doctor_id: doctorId,
+        date,
+        duration,
+        service_id: service?._id as mongoose.Types.ObjectId | undefined
+      });
+
+      res.json({
+        success: true,
+        data: {
+          date,
+          duration,
+          timezone,
+          is_working: !!working_window,
+          fully_booked: false,
+          slots: slots.map((slot) => ({ ...slot, local_time: TimezoneService.formatTime(slot.start, timezone) }))
+        }
+      });
+    } catch (error: any) {
+      console.error('Error fetching bookable slots:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to fetch available slots',
+        error: process.env.NODE_ENV === 'development' ? error.message : undefined
+      });
+    }
+  }
+
+  /**
+   * Send a one-time code to the patient's phone or email
+   * POST /api/publicv2/tenants/:subdomain/clinics/:clinicId/verifications
+   */
+  static async requestVerification(req: Request, res: Response): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation failed',
+          errors: errors.array()
+        });
+        return;
+      }
+
+      const clinic = await PublicBookingController.findClinic(req, res);
+      if (!clinic) return;
+
+      const channel: 'sms' | 'email' = req.body.channel;
+      const destination = PublicBookingController.normalizeDestination(channel, req.body.destination);
+
+      const recentCodes = await BookingVerification.countDocuments({
+        tenant_id: clinic.tenant_id,
+        destination,
+        created_at: { $gte: new Date(Date.now() - DESTINATION_WINDOW_MINUTES * 60000) }
+      });
+
+      if (recentCodes >= MAX_CODES_PER_DESTINATION) {
+        res.status(429).json({
+          success: false,
+          message: 'Too many verification codes requested. Please try again later.'
+        });
+        return;
+      }
+
+      const code = crypto.randomInt(0, 1000000).toString().padStart(6, '0');
+      const verification = await BookingVerification.create({
+        tenant_id: clinic.tenant_id,
+        clinic_id: clinic._id,
+        channel,
+        destination,
+        code_hash: PublicBookingController.hashCode(destination, code),
+        expires_at: new Date(Date.now() + CODE_TTL_MINUTES * 60000),
+        ip: req.ip
+      });
+
+      const language = clinic.settings?.language === 'ar' ? 'ar' : 'en';
+      const message = VERIFICATION_MESSAGES[language];
+      const variables = { clinic_name: clinic.name, code, minutes: String(CODE_TTL_MINUTES) };
+
+      // Sent directly rather than through the outbox - the patient is waiting for it
+      await NotificationService.getChannel(channel).send({
+        notification_id: (verification._id as mongoose.Types.ObjectId).toString(),
+        to: destination,
+        subject: NotificationService.render(message.subject, variables),
+        body: NotificationService.render(message.body, variables),
+        language
+      });
+
+      res.status(201).json({
+        success: true,
+        message: `Verification code sent by ${channel === 'sms' ? 'SMS' : 'email'}`,
+        data: {
+          verification_id: verification._id,
+          expires_at: verification.expires_at
+        }
+      });
+    } catch (error: any) {
+      console.error('Error sending booking verification:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to send verification code',
+        error: process.env.NODE_ENV === 'development' ? error.message : undefined
+      });
+    }
+  }
+
+  /**
+   * Check the one-time code
+   * POST /api/publicv2/tenants/:subdomain/clinics/:clinicId/verifications/:verificationId/verify
+   */
+  static async confirmVerification(req: Request, res: Response): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation failed',
+          errors: errors.array()
+        });
+        return;
+      }
+
+      const tenant: ITenant = res.locals.tenant;
+      const verification = await BookingVerification.findOne({
+        _id: req.params.verificationId,
+        tenant_id: tenant._id,
+        clinic_id: req.params.clinicId
+      });
+
+      if (!verification || verification.consumed_at) {
+        res.status(404).json({
+          success: false,
+          message: 'Verification not found'
+        });
+        return;
+      }
+
+      if (verification.verified_at) {
+        res.json({
+          success: true,
+          message: 'Already verified',
+          data: { verification_id: verification._id, verified: true }
+        });
+        return;
+      }
+
+      // The attempt is counted atomically before comparing, so parallel guesses cannot exceed the limit
+      const attempt = verification.expires_at > new Date()
+        ? await BookingVerification.findOneAndUpdate(
+            { _id: verification._id, attempts: { $lt: MAX_CODE_ATTEMPTS } },
+            { $inc: { attempts: 1 } },
+            { new: true }
+          )
+        : null;
+
+      if (!attempt) {
+        res.status(410).json({
+          success: false,
+          message: 'Verification code has expired. Please request a new one.'
+        });
+        return;
+      }
+
+      const expected = Buffer.from(attempt.code_hash, 'hex');
+      const actual = Buffer.from(PublicBookingController.hashCode(attempt.destination, String(req.body.code)), 'hex');
+
+      if (!crypto.timingSafeEqual(expected, actual)) {
+        res.status(400).json({
+          success: false,
+          message: 'Invalid verification code',
+          data: { attempts_left: Math.max(0, MAX_CODE_ATTEMPTS - attempt.attempts) }
+        });
+        return;
+      }
+
+      await BookingVerification.updateOne({ _id: attempt._id, verified_at: null }, { verified_at: new Date() });
+
+      res.json({
+        success: true,
+        message: 'Verification successful',
+        data: { verification_id: verification._id, verified: true }
+      });
+    } catch (error: any) {
+      if (error.name === 'CastError') {
+        res.status(404).json({
+          success: false,
+          message: 'Verification not found'
+        });
+        return;
+      }
+
+      console.error('Error checking booking verification:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to verify code',
+        error: process.env.NODE_ENV === 'development' ? error.message : undefined
+      });
+    }
+  }
+
+  /**
+   * Book a pending appointment with a verified phone/email.
+   * Returning patients are matched on the phone or email they verified; new visitors get a Patient
+   * record and a website Lead.
+   * POST /api/publicv2/tenants/:subdomain/clinics/:clinicId/bookings
+   */
+  static async createBooking(req: Request, res: Response): Promise<void> {
+    let claimed: IBookingVerification | null = null;
+
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation failed',
+          errors: errors.array()
+        });
+        return;
+      }
+
+      const clinic = await PublicBookingController.findClinic(req, res);
+      if (!clinic) return;
+
+      const tenantId = clinic.tenant_id;
+      const clinicId = clinic._id as mongoose.Types.ObjectId;
+      const phone = PublicBookingController.normalizeDestination('sms', req.body.phone);
+      const email = req.body.email ? PublicBookingController.normalizeDestination('email', req.body.email) : undefined;
+
+      const verification = await BookingVerification.findOne({
+        _id: req.body.verification_id,
+        tenant_id: tenantId,
+        clinic_id: clinicId,
+        verified_at: { $gte: new Date(Date.now() - VERIFIED_BOOKING_WINDOW_MINUTES * 60000) },
+        consumed_at: null
+      });
+
+      if (!verification || verification.destination !== (verification.channel === 'sms' ? phone : email)) {
+        res.status(403).json({
+          success: false,
+          message: 'Please verify your phone number or email before booking'
+        });
+        return;
+      }
+
+      if (!(await PublicBookingController.isClinicDoctor(clinic, req.body.doctor_id))) {
+        res.status(404).json({
+          success: false,
+          message: 'Doctor not found'
+        });
+        return;
+      }
+
+      let service: IService | null = null;
+      if (req.body.service_id) {
+        service = await PublicBookingController.findService(req, res, clinic, req.body.service_id);
+        if (!service) return;
+      }
+
+      const appointmentDate = new Date(req.body.appointment_date);
+      if (appointmentDate <= new Date()) {
+        res.status(400).json({
+          success: false,
+          message: 'Appointment date must be in the future'
+        });
+        return;
+      }
+
+      const timezone = TimezoneService.forClinic(clinic);
+      if (service && await PublicBookingController.isServiceFullyBooked(service, appointmentDate, timezone)) {
+        res.status(409).json({
+          success: false,
+          message: `${service.name} is fully booked on this day`
+        });
+        return;
+      }
+
+      const duration = PublicBookingController.getDuration(service);
+      const availability = await AvailabilityService.checkAvailability({
+        tenant_id: tenantId,
+        clinic_id: clinicId,
+        doctor_id: req.body.doctor_id,
+        start: appointmentDate,
+        duration,
+        service_id: service?._id as mongoose.Types.ObjectId | undefined
+      });
+
+      if (!availability.available) {
+        res.status(409).json({
+          success: false,
+          message: 'The selected time is no longer available',
+          reason: availability.reason
+        });
+        return;
+      }
+
+      // Only the verified destination identifies a returning patient - an unverified phone number
+      // must not attach the booking to someone else's record
+      let patient = await Patient.findOne({
+        tenant_id: tenantId,
+        clinic_id: clinicId,
+        ...(verification.channel === 'sms' ? { phone } : { email })
+      });
+      const isNewPatient = !patient;
+
+      if (!patient && !req.body.gender) {
+        res.status(400).json({
+          success: false,
+          message: 'Gender is required for new patients'
+        });
+        return;
+      }
+
+      // Claimed before anything is written, so one verification cannot book twice
+      claimed = await BookingVerification.findOneAndUpdate(
+        { _id: verification._id, consumed_at: null },
+        { consumed_at: new Date() },
+        { new: true }
+      );
+      if (!claimed) {
+        res.status(403).json({
+          success: false,
+          message: 'Please verify your phone number or email before booking'
+        });
+        return;
+      }
+
+      if (!patient) {
+        patient = await Patient.create({
+          tenant_id: tenantId,
+          clinic_id: clinicId,
+          first_name: req.body.first_name,
+          last_name: req.body.last_name,
+          phone,
+          email,
+          gender: req.body.gender,
+          date_of_birth: req.body.date_of_birth
+        });
+      }
+
+      // 'pending' when the clinic defines it, otherwise the clinic's default status
+      const statusCode =
+        (await AppointmentController.resolveStatusCode(tenantId.toString(), clinicId.toString(), 'pending')) ||
+        (await AppointmentController.resolveStatusCode(tenantId.toString(), clinicId.toString()));
+
+      const appointment = new Appointment({
+        tenant_id: tenantId,
+        clinic_id: clinicId,
+        patient_id: patient._id,
+        doctor_id: req.body.doctor_id,
+        service_id: service?._id,
+        resource_ids: availability.resource_ids || [],
+        appointment_date: appointmentDate,
+        duration,
+        type: 'consultation',
+        reason: service ? service.name : 'Online booking',
+        notes: req.body.notes,
+        status: statusCode,
+        source: 'online'
+      });
+      appointment.$locals.status_change = { source: 'online' };
+
+      const book = () => ResourceService.reserve({
+        tenant_id: tenantId,
+        clinic_id: clinicId,
+        start: appointmentDate,
+        duration,
+        resource_ids: availability.resource_ids,
+        staff_ids: [req.body.doctor_id]
+      }, () => appointment.save());
+
+      // The daily limit is checked again under a lease on the service, so concurrent bookings cannot exceed it
+      const booking = service
+        ? await ResourceService.withLease(service._id as mongoose.Types.ObjectId, async () =>
+            (await PublicBookingController.isServiceFullyBooked(service!, appointmentDate, timezone)) ? null : book()
+          )
+        : { result: await book() };
+
+      if (!booking?.result) {
+        await PublicBookingController.releaseVerification(claimed);
+        res.status(409).json({
+          success: false,
+          message: booking
+            ? `${service!.name} is fully booked on this day`
+            : 'The service is being booked by someone else, please try again'
+        });
+        return;
+      }
+
+      const reservation = booking.result;
+      if (!reservation.reserved) {
+        await PublicBookingController.releaseVerification(claimed);
+        res.status(409).json({
+          success: false,
+          message: 'The selected time is no longer available',
+          reason: AvailabilityService.fromResourceAllocation(reservation.allocation).reason
+        });
+        return;
+      }
+
+      // Booked - the verification stays used whatever happens next
+      claimed = null;
+
+      if (isNewPatient) {
+        // Track the website as the acquisition source for front-desk follow-up
+        await Lead.create({
+          tenant_id: tenantId,
+          clinic_id: clinicId,
+          firstName: req.body.first_name,
+          lastName: req.body.last_name,
+          phone,
+          email,
+          source: 'website',
+          serviceInterest: service ? service.name : 'Online booking',
+          status: 'converted',
+          notes: `Booked online for ${appointmentDate.toISOString()}`
+        });
+      }
+
+      await NotificationService.notifyAppointment(appointment, 'appointment_booked');
+
+      res.status(201).json({
+        success: true,
+        message: 'Appointment requested successfully',
+        data: {
+          appointment: {
+            id: appointment._id,
+            appointment_date: appointment.appointment_date,
+            duration: appointment.duration,
+            status: appointment.status,
+            service: service ? { id: service._id, name: service.name } : null
+          },
+          is_new_patient: isNewPatient,
+          links: AppointmentLinkService.createLinks(appointment)
+        }
+      });
+    } catch (error: any) {
+      if (claimed) {
+        await PublicBookingController.releaseVerification(claimed).catch(() => undefined);
+      }
+
+      if (error.code === 11000) {
+        res.status(409).json({
+          success: false,
+          message: 'The selected time is no longer available'
+        });
+        return;
+      }
+
+      if (error.name === 'ValidationError') {
+        res.status(400).json({
+          success: false,
+          message: 'Validation failed',
+          errors: Object.values(error.errors).map((err: any) => ({
+            field: err.path,
+            message: err.message
+          }))
+        });
+        return;
+      }
+
+      console.error('Error creating online booking:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to create booking',
+        error: process.env.NODE_ENV === 'development' ? error.message : undefined
+      });
+    }
+  }
+
+  // A booking that did not go through leaves its verification usable for another attempt
+  private static async releaseVerification(verification: IBookingVerification): Promise<void> {
+    await BookingVerification.updateOne(
+      { _id: verification._id, consumed_at: verification.consumed_at },
+      { consumed_at: null }
+    );
+  }
+
+  private static async findClinic(req: Request, res: Response): Promise<IClinic | null> {
+    const tenant: ITenant = res.locals.tenant;
+
+    const clinic = mongoose.isValidObjectId(req.params.clinicId)
+      ? await Clinic.findOne({ _id: req.params.clinicId, tenant_id: tenant._id, is_active: true })
+      : null;
+
+    if (!clinic) {
+      res.status(404).json({
+        success: false,
+        message: 'Clinic not found'
+      });
+      return null;
+    }
+
+    return clinic;
+  }
+
+  private static async findService(req: Request, res: Response, clinic: IClinic, serviceId: string): Promise<IService | null> {
+    const service = mongoose.isValidObjectId(serviceId)
+      ? await Service.findOne({ _id: serviceId, tenant_id: clinic.tenant_id, clinic_id: clinic._id, isActive: true })
+      : null;
+
+    if (!service) {
+      res.status(404).json({
+        success: false,
+        message: 'Service not found'
+      });
+      return null;
+    }
+
+    return service;
+  }
+
+  private static async getClinicDoctorIds(clinic: IClinic): Promise<mongoose.Types.ObjectId[]> {
+    return UserClinic.distinct('user_id', {
+      tenant_id: clinic.tenant_id,
+      clinic_id: clinic._id,
+      is_active: true
+    });
+  }
+
+  private static async isClinicDoctor(clinic: IClinic, doctorId: string): Promise<boolean> {
+    if (!mongoose.isValidObjectId(doctorId)) return false;
+
+    const doctorIds = await PublicBookingController.getClinicDoctorIds(clinic);
+    if (!doctorIds.some(id => id.toString() === doctorId.toString())) return false;
+
+    return !!(await User.exists({ _id: doctorId, role: 'doctor', is_active: true }));
+  }
+
+  /**
+   * Whether a service has reached maxBookingsPerDay on the given day
+   */
+  private static async isServiceFullyBooked(service: IService, date: string | Date, timezone: string): Promise<boolean> {
+    const { start: day, end: nextDay } = TimezoneService.getDayRange(date, timezone);
+
+    const bookings = await Appointment.countDocuments({
+      tenant_id: service.tenant_id,
+      clinic_id: service.clinic_id,
+      service_id: service._id,
+      appointment_date: { $gte: day, $lt: nextDay },
+      frees_slot: { $ne: true }
+    });
+
+    return bookings >= service.maxBookingsPerDay;
+  }
+
+  /**
+   * Service duration clamped to what an appointment allows (15-240 minutes)
+   */
+  private static getDuration(service: IService | null): number {
+    return service ? Math.min(Math.max(service.duration, 15), 240) : 30;
+  }
+
+  private static normalizeDestination(channel: 'sms' | 'email', value: string): string {
+    return channel === 'sms'
+      ? String(value).replace(/[\s\-()]/g, '')
+      : String(value).trim().toLowerCase();
+  }
+
+  private static hashCode(destination: string, code: string): string {
+    return crypto
+      .createHmac('sha256', process.env.APPOINTMENT_LINK_SECRET || process.env.JWT_SECRET || 'your-secret-key')
+      .update(`${destination}:${code}`)
+      .digest('hex');
+  }
+}
+
+export default PublicBookingController;
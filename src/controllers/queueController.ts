@@ -0,0 +1,428 @@
+import { Request, Response } from 'express';
+import { validationResult } from 'express-validator';
+import jwt from 'jsonwebtoken';
+import { Patient, QueueTicket, QueueTicketAction, IQueueTicket } from '../models';
+import { AuthRequest } from '../types/express';
+import { QueueService, QueueScope, QueueChange, QueueDisplayTokenPayload } from '../utils/queue';
+import { TimezoneService } from '../utils/timezone';
+
+// How often an open display stream gets a fresh snapshot even without changes (wait estimates move with time)
+const DISPLAY_REFRESH_MS = 30 * 1000;
+// Changes arriving together (call next + complete) are sent as one snapshot
+const DISPLAY_DEBOUNCE_MS = 250;
+const DEFAULT_DISPLAY_TOKEN_DAYS = 365;
+
+export class QueueController {
+  /**
+   * Issue a ticket for a patient, a walk-in or an arriving appointment
+   */
+  static async issueTicket(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation failed',
+          errors: errors.array()
+        });
+        return;
+      }
+
+      let name = req.body.name;
+      let phone = req.body.phone;
+      let dateOfBirth: Date | undefined;
+
+      if (req.body.patient_id) {
+        const patient = await Patient.findOne({ _id: req.body.patient_id, tenant_id: req.tenant_id, clinic_id: req.clinic_id })
+          .select('first_name last_name phone date_of_birth');
+
+        if (!patient) {
+          res.status(404).json({
+            success: false,
+            message: 'Patient not found'
+          });
+          return;
+        }
+
+        name = name || `${patient.first_name} ${patient.last_name}`;
+        phone = phone || patient.phone;
+        dateOfBirth = patient.date_of_birth;
+      }
+
+      if (!name) {
+        res.status(400).json({
+          success: false,
+          message: 'A patient or a name is required'
+        });
+        return;
+      }
+
+      const ticket = await QueueService.issueTicket({
+        tenant_id: req.tenant_id!,
+        clinic_id: req.clinic_id!,
+        department_id: req.body.department_id,
+        timezone: TimezoneService.forClinic(req.currentClinic),
+        name,
+        phone,
+        patient_id: req.body.patient_id,
+        appointment_id: req.body.appointment_id,
+        service_id: req.body.service_id,
+        doctor_id: req.body.doctor_id,
+        priority: req.body.priority,
+        date_of_birth: dateOfBirth,
+        notes: req.body.notes,
+        created_by: req.user?._id as any
+      });
+
+      res.status(201).json({
+        success: true,
+        message: `Ticket ${ticket.ticket_number} issued`,
+        data: { ticket }
+      });
+    } catch (error) {
+      console.error('Issue queue ticket error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      });
+    }
+  }
+
+  /**
+   * Today's queue - every queue of the clinic, or one department's with ?department_id
+   */
+  static async getQueue(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const snapshot = await QueueService.getQueue({
+        ...QueueController.getScope(req, req.query.department_id as string | undefined),
+        timezone: TimezoneService.forClinic(req.currentClinic)
+      });
+
+      res.json({
+        success: true,
+        data: { queue: snapshot }
+      });
+    } catch (error) {
+      console.error('Get queue error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      });
+    }
+  }
+
+  static async callNext(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation failed',
+          errors: errors.array()
+        });
+        return;
+      }
+
+      const ticket = await QueueService.callNext({
+        ...QueueController.getScope(req, req.body.department_id),
+        timezone: TimezoneService.forClinic(req.currentClinic),
+        counter: req.body.counter,
+        doctor_id: req.body.doctor_id,
+        by: req.user?._id as any
+      });
+
+      if (!ticket) {
+        res.status(404).json({
+          success: false,
+          message: 'Nobody is waiting in this queue'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        message: `Ticket ${ticket.ticket_number} called`,
+        data: { ticket }
+      });
+    } catch (error) {
+      console.error('Call next ticket error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      });
+    }
+  }
+
+  static async callTicket(req: AuthRequest, res: Response): Promise<void> {
+    await QueueController.applyAction(req, res, 'called', 'called');
+  }
+
+  static async startService(req: AuthRequest, res: Response): Promise<void> {
+    await QueueController.applyAction(req, res, 'serving', 'being served');
+  }
+
+  static async completeTicket(req: AuthRequest, res: Response): Promise<void> {
+    await QueueController.applyAction(req, res, 'completed', 'completed');
+  }
+
+  // Called but not there - leaves the queue until put back
+  static async skipTicket(req: AuthRequest, res: Response): Promise<void> {
+    await QueueController.applyAction(req, res, 'skipped', 'skipped');
+  }
+
+  static async requeueTicket(req: AuthRequest, res: Response): Promise<void> {
+    await QueueController.applyAction(req, res, 'requeued', 'back in the queue');
+  }
+
+  static async transferTicket(req: AuthRequest, res: Response): Promise<void> {
+    await QueueController.applyAction(req, res, 'transferred', 'transferred');
+  }
+
+  static async cancelTicket(req: AuthRequest, res: Response): Promise<void> {
+    await QueueController.applyAction(req, res, 'cancelled', 'cancelled');
+  }
+
+  /**
+   * Change the priority (e.g. escalate to emergency) or notes of a ticket still in the queue
+   */
+  static async updateTicket(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation failed',
+          errors: errors.array()
+        });
+        return;
+      }
+
+      const ticket = await QueueTicket.findOne({ _id: req.params.id, tenant_id: req.tenant_id, clinic_id: req.clinic_id });
+
+      if (!ticket) {
+        res.status(404).json({
+          success: false,
+          message: 'Ticket not found'
+        });
+        return;
+      }
+
+      if (!QueueService.isActive(ticket)) {
+        res.status(409).json({
+          success: false,
+          message: `Ticket is already ${ticket.status}`
+        });
+        return;
+      }
+
+      if (req.body.priority !== undefined) ticket.priority = req.body.priority;
+      if (req.body.notes !== undefined) ticket.notes = req.body.notes;
+      await ticket.save();
+      QueueService.emitChange(ticket, 'requeued');
+
+      res.json({
+        success: true,
+        message: 'Ticket updated successfully',
+        data: { ticket }
+      });
+    } catch (error) {
+      console.error('Update queue ticket error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      });
+    }
+  }
+
+  /**
+   * Read-only token for a waiting-room screen - the screen opens the display URLs without logging in
+   */
+  static async createDisplayToken(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation failed',
+          errors: errors.array()
+        });
+        return;
+      }
+
+      const days = parseInt(req.body.expires_in_days) || DEFAULT_DISPLAY_TOKEN_DAYS;
+      const token = QueueService.createDisplayToken(QueueController.getScope(req, req.body.department_id), days);
+      const base = (process.env.API_PUBLIC_URL || `${req.protocol}://${req.get('host')}`).replace(/\/$/, '');
+
+      res.status(201).json({
+        success: true,
+        message: 'Display token created',
+        data: {
+          token,
+          expires_at: new Date(Date.now() + days * 24 * 60 * 60 * 1000),
+          display_url: `${base}/public/queue-display/${token}`,
+          stream_url: `${base}/public/queue-display/${token}/stream`
+        }
+      });
+    } catch (error) {
+      console.error('Create queue display token error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      });
+    }
+  }
+
+  /**
+   * Public snapshot for a waiting-room screen - ticket numbers and counters only
+   */
+  static async getDisplay(req: Request, res: Response): Promise<void> {
+    try {
+      const payload = QueueController.verifyDisplayToken(req, res);
+      if (!payload) return;
+
+      res.json({
+        success: true,
+        data: { display: await QueueController.buildDisplay(payload) }
+      });
+    } catch (error) {
+      console.error('Get queue display error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      });
+    }
+  }
+
+  /**
+   * Server-Sent Events stream of the display: a snapshot on connect, after every change to the queue and periodically
+   */
+  static async streamDisplay(req: Request, res: Response): Promise<void> {
+    const payload = QueueController.verifyDisplayToken(req, res);
+    if (!payload) return;
+
+    res.set({
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no' // Don't let a proxy hold the events back
+    });
+    res.flushHeaders();
+
+    let closed = false;
+    let debounce: NodeJS.Timeout | null = null;
+
+    const send = async () => {
+      try {
+        const display = await QueueController.buildDisplay(payload);
+        if (!closed) {
+          res.write(`event: queue\ndata: ${JSON.stringify(display)}\n\n`);
+        }
+      } catch (error) {
+        console.error('Stream queue display error:', error);
+      }
+    };
+
+    const unsubscribe = QueueService.subscribe((change: QueueChange) => {
+      if (change.tenant_id !== payload.tid || change.clinic_id !== payload.cid) return;
+      if (payload.did && change.department_id !== payload.did) return;
+
+      if (debounce) clearTimeout(debounce);
+      debounce = setTimeout(send, DISPLAY_DEBOUNCE_MS);
+    });
+    const refresh = setInterval(send, DISPLAY_REFRESH_MS);
+
+    req.on('close', () => {
+      closed = true;
+      unsubscribe();
+      clearInterval(refresh);
+      if (debounce) clearTimeout(debounce);
+    });
+
+    await send();
+  }
+
+  private static getScope(req: AuthRequest, departmentId?: string): QueueScope {
+    return {
+      tenant_id: req.tenant_id!,
+      clinic_id: req.clinic_id!,
+      ...(departmentId !== undefined && { department_id: departmentId || null })
+    };
+  }
+
+  private static async applyAction(
+    req: AuthRequest,
+    res: Response,
+    action: Exclude<QueueTicketAction, 'issued'>,
+    outcome: string
+  ): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation failed',
+          errors: errors.array()
+        });
+        return;
+      }
+
+      const ticket: IQueueTicket | null = await QueueService.applyAction(req.params.id, QueueController.getScope(req), action, {
+        by: req.user?._id as any,
+        counter: req.body.counter,
+        note: req.body.note,
+        ...(action === 'transferred' && {
+          to_department_id: req.body.department_id,
+          to_doctor_id: req.body.doctor_id
+        })
+      });
+
+      if (!ticket) {
+        const existing = await QueueTicket.findOne({ _id: req.params.id, tenant_id: req.tenant_id, clinic_id: req.clinic_id })
+          .select('status');
+
+        res.status(existing ? 409 : 404).json({
+          success: false,
+          message: existing ? `Ticket is ${existing.status} and cannot be ${outcome}` : 'Ticket not found'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        message: `Ticket ${ticket.ticket_number} ${outcome}`,
+        data: { ticket }
+      });
+    } catch (error) {
+      console.error(`Queue ticket ${action} error:`, error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      });
+    }
+  }
+
+  private static verifyDisplayToken(req: Request, res: Response): QueueDisplayTokenPayload | null {
+    try {
+      return QueueService.verifyDisplayToken(req.params.token);
+    } catch (error) {
+      const expired = error instanceof jwt.TokenExpiredError;
+      res.status(401).json({
+        success: false,
+        message: expired ? 'This display link has expired' : 'Invalid display link'
+      });
+      return null;
+    }
+  }
+
+  private static async buildDisplay(payload: QueueDisplayTokenPayload) {
+    const snapshot = await QueueService.getQueue({
+      tenant_id: payload.tid,
+      clinic_id: payload.cid,
+      ...(payload.did && { department_id: payload.did }),
+      timezone: await TimezoneService.getClinicTimezone(payload.cid)
+    });
+    return QueueService.toDisplay(snapshot);
+  }
+}
+
+export default QueueController;
@@ -1,7 +1,15 @@
 import { Request, Response } from 'express';
-import { Patient, Appointment, User, Lead } from '../models';
+import { validationResult } from 'express-validator';
+import { Patient, Appointment, User, Lead, Service, IWaitlistOffer, AppointmentStatus, resolveVisitStage } from '../models';
 import { AuthRequest } from '../types/express';
-import AppointmentStatus from '../models/AppointmentStatus';
+import { AvailabilityService } from '../utils/availability';
+import { TimezoneService } from '../utils/timezone';
+import { StatusWorkflowService } from '../utils/statusWorkflow';
+import { WaitlistService } from '../utils/waitlist';
+import { NotificationService } from '../utils/notifications';
+import { VisitMetricsService, VisitStageCodes } from '../utils/visitMetrics';
+import { QueueService } from '../utils/queue';
+import { AppointmentController } from './appointmentController';
 
 export class ReceptionistController {
   
@@ -9,8 +17,7 @@ export class ReceptionistController {
   static async getDashboardStats(req: AuthRequest, res: Response): Promise<void> {
     try {
       const now = new Date();
-      const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
-      const tomorrow = new Date(today.getTime() + 24 * 60 * 60 * 1000);
+      const { today, tomorrow } = ReceptionistController.getToday(req);
 
       // Get today's appointments
       const todayAppointments = await Appointment.countDocuments({
@@ -29,13 +36,15 @@ export class ReceptionistController {
         }
       });
 
-      // Get pending check-ins (scheduled/confirmed appointments for today)
+      // Get pending check-ins (today's appointments still open and not yet at any visit stage)
+      const stageCodes = await ReceptionistController.getStageCodes(req);
+      const statusGroups = await ReceptionistController.getStatusGroups(req);
       const pendingCheckIns = await Appointment.countDocuments({
         appointment_date: {
           $gte: today,
           $lt: tomorrow
         },
-        status: { $in: ['scheduled', 'confirmed'] }
+        status: { $nin: [...statusGroups.closed, ...stageCodes.arrived, ...stageCodes.in_chair, ...stageCodes.finished] }
       });
 
       // Mock calls today (this would be tracked in a separate call log system)
@@ -47,20 +56,20 @@ export class ReceptionistController {
           $gte: now,
           $lt: tomorrow
         },
-        status: { $nin: ['cancelled', 'completed', 'no-show'] }
+        status: { $nin: statusGroups.closed }
       })
       .populate('patient_id', 'first_name last_name phone')
       .populate('doctor_id', 'first_name last_name')
       .sort({ appointment_date: 1 })
       .limit(10);
 
-      // Get current patients (checked-in patients - appointments in progress)
+      // Get current patients (checked-in patients - waiting or in the chair)
       const currentPatients = await Appointment.find({
         appointment_date: {
           $gte: today,
           $lt: tomorrow
         },
-        status: 'in-progress'
+        status: { $in: [...stageCodes.arrived, ...stageCodes.in_chair] }
       })
       .populate('patient_id', 'first_name last_name')
       .populate('doctor_id', 'first_name last_name')
@@ -95,14 +104,18 @@ export class ReceptionistController {
             status: apt.status,
             duration: apt.duration
           })),
-          currentPatients: currentPatients.map(apt => ({
-            id: apt._id,
-            name: (apt.patient_id as any) ? `${(apt.patient_id as any).first_name} ${(apt.patient_id as any).last_name}` : 'Unknown Patient',
-            checkedIn: apt.appointment_date,
-            doctor: (apt.doctor_id as any) ? `${(apt.doctor_id as any).first_name} ${(apt.doctor_id as any).last_name}` : 'Unknown Doctor',
-            status: 'in-consultation',
-            waitTime: Math.floor((now.getTime() - apt.appointment_date.getTime()) / (1000 * 60)) // minutes
-          })),
+          currentPatients: currentPatients.map(apt => {
+            const metrics = VisitMetricsService.compute(apt, stageCodes, now);
+            return {
+              id: apt._id,
+              name: (apt.patient_id as any) ? `${(apt.patient_id as any).first_name} ${(apt.patient_id as any).last_name}` : 'Unknown Patient',
+              checkedIn: metrics.arrived_at || metrics.started_at || apt.appointment_date,
+              doctor: (apt.doctor_id as any) ? `${(apt.doctor_id as any).first_name} ${(apt.doctor_id as any).last_name}` : 'Unknown Doctor',
+              status: stageCodes.in_chair.includes(apt.status) ? 'in-consultation' : 'waiting',
+              waitTime: metrics.wait_minutes ?? 0, // minutes
+              chairTime: metrics.chair_minutes // minutes, null until seated
+            };
+          }),
           pendingTasks: pendingTasks.map(lead => ({
             id: lead._id,
             task: `Follow up with ${(lead as any).firstName} ${(lead as any).lastName}`,
@@ -137,8 +150,23 @@ export class ReceptionistController {
         return;
       }
 
+      const transition = await StatusWorkflowService.checkTransition({
+        tenant_id: appointment.tenant_id,
+        clinic_id: appointment.clinic_id,
+        from: appointment.status,
+        to: await ReceptionistController.getCheckInStatusCode(appointment.tenant_id, appointment.clinic_id),
+        user: req.user,
+        data: req.body
+      });
+
+      if (!transition.allowed) {
+        AppointmentController.sendTransitionRejection(res, transition);
+        return;
+      }
+
       // Update appointment status to checked-in or in-progress
-      appointment.status = 'in-progress';
+      appointment.status = transition.status.code;
+      appointment.$locals.status_change = AppointmentController.getStatusChangeContext(req);
       await appointment.save();
 
       res.json({
@@ -158,11 +186,11 @@ export class ReceptionistController {
   // Get walk-in leads for today
   static async getTodayWalkIns(req: AuthRequest, res: Response): Promise<void> {
     try {
-      const today = new Date();
-      today.setHours(0, 0, 0, 0);
-      const tomorrow = new Date(today.getTime() + 24 * 60 * 60 * 1000);
+      const { today, tomorrow } = ReceptionistController.getToday(req);
 
       const walkIns = await Lead.find({
+        tenant_id: req.tenant_id,
+        clinic_id: req.clinic_id,
         source: 'walk-in',
         created_at: {
           $gte: today,
@@ -183,28 +211,60 @@ export class ReceptionistController {
     }
   }
 
-  // Create walk-in lead
+  // Create walk-in lead and give it a queue ticket
   static async createWalkIn(req: AuthRequest, res: Response): Promise<void> {
     try {
-      const { first_name, last_name, phone, email, notes } = req.body;
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation failed',
+          errors: errors.array()
+        });
+        return;
+      }
+
+      const { first_name, last_name, phone, email, notes, department_id, service_id, doctor_id, priority } = req.body;
+
+      const service = service_id
+        ? await Service.findOne({ _id: service_id, tenant_id: req.tenant_id }).select('name')
+        : null;
 
       const walkIn = new Lead({
+        tenant_id: req.tenant_id,
+        clinic_id: req.clinic_id,
         firstName: first_name,
         lastName: last_name,
         phone,
         email,
         source: 'walk-in',
+        serviceInterest: service?.name || 'Walk-in visit',
         status: 'new',
         notes: notes || 'Walk-in patient',
-        assigned_to: req.user?._id // Assign to current receptionist
+        assignedTo: req.user?._id // Assign to current receptionist
       });
 
       await walkIn.save();
 
+      const ticket = await QueueService.issueTicket({
+        tenant_id: req.tenant_id!,
+        clinic_id: req.clinic_id!,
+        department_id,
+        timezone: TimezoneService.forClinic(req.currentClinic),
+        name: [first_name, last_name].filter(Boolean).join(' '),
+        phone,
+        lead_id: walkIn._id as any,
+        service_id: service?._id as any,
+        doctor_id,
+        priority,
+        notes,
+        created_by: req.user?._id as any
+      });
+
       res.status(201).json({
         success: true,
-        message: 'Walk-in registered successfully',
-        data: { walkIn }
+        message: `Walk-in registered successfully with ticket ${ticket.ticket_number}`,
+        data: { walkIn, ticket }
       });
     } catch (error) {
       console.error('Create walk-in error:', error);
@@ -218,11 +278,11 @@ export class ReceptionistController {
   // Get appointment queue (appointments for today by status)
   static async getAppointmentQueue(req: AuthRequest, res: Response): Promise<void> {
     try {
-      const today = new Date();
-      today.setHours(0, 0, 0, 0);
-      const tomorrow = new Date(today.getTime() + 24 * 60 * 60 * 1000);
+      const { today, tomorrow, timezone } = ReceptionistController.getToday(req);
 
       const appointments = await Appointment.find({
+        tenant_id: req.tenant_id,
+        clinic_id: req.clinic_id,
         appointment_date: {
           $gte: today,
           $lt: tomorrow
@@ -232,18 +292,81 @@ export class ReceptionistController {
       .populate('doctor_id', 'first_name last_name')
       .sort({ appointment_date: 1 });
 
-      // Group by status
+      // Group by status, with the wait and chair time of each visit so far
+      const stageCodes = await ReceptionistController.getStageCodes(req);
+      const statusGroups = await ReceptionistController.getStatusGroups(req);
+      const now = new Date();
+      const withVisitTimes = (list: typeof appointments) => list.map(apt => {
+        const metrics = VisitMetricsService.compute(apt, stageCodes, now);
+        return {
+          ...apt.toObject(),
+          localTime: TimezoneService.formatTime(apt.appointment_date, timezone),
+          waitMinutes: metrics.wait_minutes,
+          chairMinutes: metrics.chair_minutes
+        };
+      });
+
       const queue = {
-        waiting: appointments.filter(apt => apt.status === 'scheduled' || apt.status === 'confirmed'),
-        inProgress: appointments.filter(apt => apt.status === 'in-progress'),
-        completed: appointments.filter(apt => apt.status === 'completed'),
-        cancelled: appointments.filter(apt => apt.status === 'cancelled'),
-        noShow: appointments.filter(apt => apt.status === 'no-show')
+        // Booked or arrived - anything still open that has not reached the chair
+        waiting: withVisitTimes(appointments.filter(apt =>
+          !statusGroups.closed.includes(apt.status) &&
+          !stageCodes.in_chair.includes(apt.status) &&
+          !stageCodes.finished.includes(apt.status)
+        )),
+        inProgress: withVisitTimes(appointments.filter(apt => stageCodes.in_chair.includes(apt.status))),
+        completed: withVisitTimes(appointments.filter(apt => stageCodes.finished.includes(apt.status))),
+        cancelled: withVisitTimes(appointments.filter(apt => statusGroups.cancelled.includes(apt.status))),
+        // Slot given up without counting as a cancellation
+        noShow: withVisitTimes(appointments.filter(apt =>
+          statusGroups.freesSlot.includes(apt.status) && !statusGroups.cancelled.includes(apt.status)
+        ))
       };
 
+      // Leave, holidays and closures affecting today's bookings
+      const timeOff = req.tenant_id && req.clinic_id
+        ? await AvailabilityService.findExceptions({
+            tenant_id: req.tenant_id,
+            clinic_id: req.clinic_id,
+            start: today,
+            end: tomorrow
+          })
+        : [];
+      const blocked = AvailabilityService.getBlockedIntervals(timeOff);
+
+      const scheduleConflicts = appointments
+        .filter(apt => !apt.frees_slot && !statusGroups.terminal.includes(apt.status))
+        .flatMap(apt => {
+          const doctorId = ((apt.doctor_id as any)?._id || apt.doctor_id)?.toString();
+          const appointmentEnd = apt.appointment_date.getTime() + apt.duration * 60000;
+
+          return blocked
+            .filter(interval =>
+              (interval.clinic_wide || interval.user_id?.toString() === doctorId) &&
+              interval.start.getTime() < appointmentEnd &&
+              interval.end.getTime() > apt.appointment_date.getTime()
+            )
+            .map(interval => ({
+              appointment_id: apt._id,
+              exception_id: interval.exception_id,
+              type: interval.type,
+              title: interval.title
+            }));
+        });
+
+      // Walk-in and arrival tickets across the clinic's queues
+      const tickets = req.tenant_id && req.clinic_id
+        ? await QueueService.getQueue({ tenant_id: req.tenant_id, clinic_id: req.clinic_id, timezone })
+        : null;
+
       res.json({
         success: true,
-        data: { queue }
+        data: {
+          timezone,
+          queue,
+          tickets,
+          timeOff,
+          scheduleConflicts
+        }
       });
     } catch (error) {
       console.error('Get appointment queue error:', error);
@@ -270,29 +393,39 @@ export class ReceptionistController {
         return;
       }
 
-      // Validate status dynamically from AppointmentStatus collection
-      const statusExists = await AppointmentStatus.findOne({
+      const previousAppointment = await Appointment.findOne({ _id: appointmentId, tenant_id, clinic_id });
+
+      if (!previousAppointment) {
+        res.status(404).json({
+          success: false,
+          message: 'Appointment not found'
+        });
+        return;
+      }
+
+      // The clinic's workflow decides which statuses may follow the current one
+      const transition = await StatusWorkflowService.checkTransition({
         tenant_id,
         clinic_id,
-        code: status.toLowerCase(),
-        is_active: true
+        from: previousAppointment.status,
+        to: status.toLowerCase(),
+        user: req.user,
+        data: req.body,
+        appointment: previousAppointment
       });
 
-      if (!statusExists) {
-        res.status(400).json({
-          success: false,
-          message: `Status '${status}' does not exist or is not active for this clinic`
-        });
+      if (!transition.allowed) {
+        AppointmentController.sendTransitionRejection(res, transition);
         return;
       }
 
       // Use the code from the database (in case of case differences)
-      const statusCode = statusExists.code;
+      const statusCode = transition.status.code;
 
       const appointment = await Appointment.findByIdAndUpdate(
         appointmentId,
-        { status: statusCode },
-        { new: true, runValidators: true }
+        { status: statusCode, cancellation_reason: req.body.cancellation_reason },
+        { new: true, runValidators: true, status_change: AppointmentController.getStatusChangeContext(req) }
       ).populate('patient_id', 'first_name last_name')
        .populate('doctor_id', 'first_name last_name');
 
@@ -304,10 +437,20 @@ export class ReceptionistController {
         return;
       }
 
+      // A status that frees the slot (cancellation, no-show) offers it to the waitlist
+      let waitlistOffer: IWaitlistOffer | null = null;
+      if (!previousAppointment.frees_slot && transition.flags.frees_slot) {
+        waitlistOffer = await WaitlistService.offerFreedAppointment(previousAppointment);
+      }
+
+      if (transition.flags.counts_as_cancelled && statusCode !== previousAppointment.status) {
+        await NotificationService.notifyAppointment(appointment, 'appointment_cancelled');
+      }
+
       res.json({
         success: true,
         message: 'Appointment status updated successfully',
-        data: { appointment }
+        data: { appointment, waitlistOffer }
       });
     } catch (error) {
       console.error('Update appointment status error:', error);
@@ -317,4 +460,107 @@ export class ReceptionistController {
       });
     }
   }
-} 
\ No newline at end of file
+
+  // Get average wait and chair time per doctor and day
+  static async getWaitTimes(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation failed',
+          errors: errors.array()
+        });
+        return;
+      }
+
+      const tenant_id = req.tenant_id;
+      const clinic_id = req.clinic_id;
+
+      if (!tenant_id || !clinic_id) {
+        res.status(400).json({
+          success: false,
+          message: 'Tenant and clinic context is required'
+        });
+        return;
+      }
+
+      // Defaults to the last 7 days including today
+      const { today, timezone } = ReceptionistController.getToday(req);
+      const from = req.query.from
+        ? TimezoneService.startOfDay(req.query.from as string, timezone)
+        : TimezoneService.addDays(today, -6, timezone);
+      const to = req.query.to ? TimezoneService.startOfDay(req.query.to as string, timezone) : today;
+      const toExclusive = TimezoneService.addDays(to, 1, timezone);
+
+      const days = await VisitMetricsService.averageWaitByDoctorDay({
+        tenant_id,
+        clinic_id,
+        from,
+        to: toExclusive,
+        doctor_id: req.query.doctor_id as string | undefined,
+        timezone
+      });
+
+      res.json({
+        success: true,
+        data: {
+          from,
+          to,
+          waitTimes: days.map(day => ({
+            doctorId: day.doctor_id,
+            doctorName: day.doctor_name,
+            date: day.date,
+            visits: day.visits,
+            averageWaitMinutes: day.average_wait_minutes,
+            averageChairMinutes: day.average_chair_minutes
+          }))
+        }
+      });
+    } catch (error) {
+      console.error('Get wait times error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      });
+    }
+  }
+
+  // Today's bounds in the clinic's timezone - the front desk works on the clinic's calendar, not the server's
+  private static getToday(req: AuthRequest): { today: Date; tomorrow: Date; timezone: string } {
+    const timezone = TimezoneService.forClinic(req.currentClinic);
+    const { start, end } = TimezoneService.getDayRange(new Date(), timezone);
+    return { today: start, tomorrow: end, timezone };
+  }
+
+  private static async getStageCodes(req: AuthRequest): Promise<VisitStageCodes> {
+    if (!req.tenant_id || !req.clinic_id) {
+      return { arrived: [], in_chair: ['in-progress'], finished: ['completed'] };
+    }
+    return VisitMetricsService.getStageCodes(req.tenant_id, req.clinic_id);
+  }
+
+  // Status codes grouped by the clinic's workflow flags; closed ones no longer need the front desk
+  private static async getStatusGroups(req: AuthRequest): Promise<{ cancelled: string[]; freesSlot: string[]; terminal: string[]; closed: string[] }> {
+    const [cancelled, freesSlot, terminal] = req.tenant_id && req.clinic_id
+      ? await Promise.all([
+          StatusWorkflowService.getCodesWithFlag(req.tenant_id, req.clinic_id, 'counts_as_cancelled'),
+          StatusWorkflowService.getCodesWithFlag(req.tenant_id, req.clinic_id, 'frees_slot'),
+          StatusWorkflowService.getCodesWithFlag(req.tenant_id, req.clinic_id, 'is_terminal')
+        ])
+      : [['cancelled'], ['cancelled', 'no-show'], ['completed']];
+
+    return { cancelled, freesSlot, terminal, closed: [...new Set([...cancelled, ...freesSlot, ...terminal])] };
+  }
+
+  // Check-in moves to the first status marking arrival, or straight into the chair when there is none
+  private static async getCheckInStatusCode(tenant_id: any, clinic_id: any): Promise<string> {
+    const statuses = await AppointmentStatus.find({ tenant_id, clinic_id, is_active: true })
+      .sort({ order: 1 })
+      .lean();
+
+    const arrived = statuses.find(status => resolveVisitStage(status.code, status) === 'arrived');
+    const inChair = statuses.find(status => resolveVisitStage(status.code, status) === 'in_chair');
+    return (arrived || inChair)?.code || 'in-progress';
+  }
+}
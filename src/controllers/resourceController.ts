@@ -0,0 +1,269 @@
+import { Response } from 'express';
+import { validationResult } from 'express-validator';
+import { Appointment, Resource, ResourceKind } from '../models';
+import { AuthRequest } from '../types/express';
+import { ResourceService } from '../utils/resources';
+import { TimezoneService } from '../utils/timezone';
+
+export class ResourceController {
+  static async createResource(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation failed',
+          errors: errors.array()
+        });
+        return;
+      }
+
+      const resource = new Resource({
+        ...ResourceController.pickResourceFields(req.body),
+        tenant_id: req.tenant_id,
+        clinic_id: req.clinic_id
+      });
+      await resource.save();
+
+      res.status(201).json({
+        success: true,
+        message: 'Resource created successfully',
+        data: { resource }
+      });
+    } catch (error: any) {
+      console.error('Create resource error:', error);
+      ResourceController.sendSaveError(res, error);
+    }
+  }
+
+  static async getAllResources(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const filter: any = {
+        tenant_id: req.tenant_id,
+        clinic_id: req.clinic_id
+      };
+
+      if (req.query.type) {
+        filter.type = req.query.type;
+      }
+
+      if (req.query.kind) {
+        filter.kind = req.query.kind;
+      }
+
+      if (req.query.is_active) {
+        filter.is_active = req.query.is_active === 'true';
+      }
+
+      const resources = await Resource.find(filter).sort({ kind: 1, name: 1 });
+
+      res.json({
+        success: true,
+        data: { resources }
+      });
+    } catch (error) {
+      console.error('Get resources error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      });
+    }
+  }
+
+  static async getResourceById(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const resource = await Resource.findOne({
+        _id: req.params.id,
+        tenant_id: req.tenant_id,
+        clinic_id: req.clinic_id
+      });
+
+      if (!resource) {
+        res.status(404).json({
+          success: false,
+          message: 'Resource not found'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: { resource }
+      });
+    } catch (error) {
+      console.error('Get resource error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      });
+    }
+  }
+
+  static async updateResource(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation failed',
+          errors: errors.array()
+        });
+        return;
+      }
+
+      const resource = await Resource.findOne({
+        _id: req.params.id,
+        tenant_id: req.tenant_id,
+        clinic_id: req.clinic_id
+      });
+
+      if (!resource) {
+        res.status(404).json({
+          success: false,
+          message: 'Resource not found'
+        });
+        return;
+      }
+
+      Object.assign(resource, ResourceController.pickResourceFields(req.body));
+      await resource.save();
+
+      res.json({
+        success: true,
+        message: 'Resource updated successfully',
+        data: { resource }
+      });
+    } catch (error: any) {
+      console.error('Update resource error:', error);
+      ResourceController.sendSaveError(res, error);
+    }
+  }
+
+  static async deleteResource(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const resource = await Resource.findOne({
+        _id: req.params.id,
+        tenant_id: req.tenant_id,
+        clinic_id: req.clinic_id
+      });
+
+      if (!resource) {
+        res.status(404).json({
+          success: false,
+          message: 'Resource not found'
+        });
+        return;
+      }
+
+      // Upcoming bookings keep their allocation - the resource can only be deactivated until they are moved
+      const upcoming = await Appointment.countDocuments({
+        tenant_id: resource.tenant_id,
+        clinic_id: resource.clinic_id,
+        resource_ids: resource._id,
+        frees_slot: { $ne: true },
+        appointment_date: { $gte: new Date() }
+      });
+
+      if (upcoming > 0) {
+        res.status(409).json({
+          success: false,
+          message: `Resource is allocated to ${upcoming} upcoming appointment(s). Deactivate it instead.`
+        });
+        return;
+      }
+
+      await Resource.deleteOne({ _id: resource._id });
+
+      res.json({
+        success: true,
+        message: 'Resource deleted successfully'
+      });
+    } catch (error) {
+      console.error('Delete resource error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      });
+    }
+  }
+
+  // Bookings of each resource on one day
+  static async getDayView(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation failed',
+          errors: errors.array()
+        });
+        return;
+      }
+
+      const timezone = TimezoneService.forClinic(req.currentClinic);
+      const day = TimezoneService.startOfDay((req.query.date as string) || new Date(), timezone);
+      const resources = await ResourceService.getDayView({
+        tenant_id: req.tenant_id!,
+        clinic_id: req.clinic_id!,
+        day,
+        timezone,
+        type: req.query.type as string | undefined,
+        kind: req.query.kind as ResourceKind | undefined
+      });
+
+      res.json({
+        success: true,
+        data: {
+          date: day,
+          timezone,
+          resources
+        }
+      });
+    } catch (error) {
+      console.error('Get resource day view error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      });
+    }
+  }
+
+  private static sendSaveError(res: Response, error: any): void {
+    if (error.name === 'ValidationError') {
+      res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: Object.values(error.errors).map((err: any) => ({
+          field: err.path,
+          message: err.message
+        }))
+      });
+      return;
+    }
+
+    if (error.code === 11000) {
+      res.status(409).json({
+        success: false,
+        message: 'A resource with this name already exists in the clinic'
+      });
+      return;
+    }
+
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+
+  private static pickResourceFields(body: any): any {
+    const fields: any = {};
+    for (const field of ['name', 'kind', 'type', 'capacity', 'working_hours', 'is_active', 'notes']) {
+      if (body[field] !== undefined) {
+        fields[field] = body[field];
+      }
+    }
+    return fields;
+  }
+}
+
+export default ResourceController;
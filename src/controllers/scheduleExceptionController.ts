@@ -0,0 +1,417 @@
+import { Response } from 'express';
+import { validationResult } from 'express-validator';
+import { ScheduleException, User, IScheduleException } from '../models';
+import { AuthRequest } from '../types/express';
+import { AvailabilityService } from '../utils/availability';
+import { TimezoneService } from '../utils/timezone';
+
+// Roles that may record exceptions for other staff members
+const SCHEDULE_MANAGER_ROLES = ['super_admin', 'admin', 'receptionist', 'staff'];
+
+export class ScheduleExceptionController {
+  static async createException(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation failed',
+          errors: errors.array()
+        });
+        return;
+      }
+
+      const userId = req.body.user_id || null;
+      const accessError = await ScheduleExceptionController.checkManageAccess(req, userId);
+      if (accessError) {
+        res.status(accessError.status).json({
+          success: false,
+          message: accessError.message
+        });
+        return;
+      }
+
+      const exception = new ScheduleException({
+        ...ScheduleExceptionController.pickExceptionFields(req.body),
+        user_id: userId,
+        tenant_id: req.tenant_id,
+        clinic_id: req.clinic_id,
+        created_by: req.user?._id
+      });
+      ScheduleExceptionController.normalizeDates(exception, req.body, TimezoneService.forClinic(req.currentClinic));
+      await exception.save();
+
+      const conflictingAppointments = await AvailabilityService.findAppointmentsAffectedBy(exception);
+
+      res.status(201).json({
+        success: true,
+        message: conflictingAppointments.length > 0
+          ? `Schedule exception created. ${conflictingAppointments.length} booked appointment(s) now conflict with it`
+          : 'Schedule exception created successfully',
+        data: {
+          exception,
+          conflicting_appointments: conflictingAppointments
+        }
+      });
+    } catch (error: any) {
+      console.error('Create schedule exception error:', error);
+
+      if (error.name === 'ValidationError') {
+        res.status(400).json({
+          success: false,
+          message: 'Validation failed',
+          errors: Object.values(error.errors).map((err: any) => ({
+            field: err.path,
+            message: err.message
+          }))
+        });
+        return;
+      }
+
+      if (error.message === 'Override exceptions require override_hours with start and end') {
+        res.status(400).json({
+          success: false,
+          message: error.message
+        });
+        return;
+      }
+
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      });
+    }
+  }
+
+  static async getAllExceptions(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const page = parseInt(req.query.page as string) || 1;
+      const limit = parseInt(req.query.limit as string) || 20;
+      const skip = (page - 1) * limit;
+
+      const filter: any = {
+        tenant_id: req.tenant_id,
+        clinic_id: req.clinic_id
+      };
+
+      // User filter - include clinic-wide closures that also apply to that user
+      if (req.query.user_id) {
+        filter.$or = req.query.include_clinic_wide === 'false'
+          ? [{ user_id: req.query.user_id }]
+          : [{ user_id: req.query.user_id }, { user_id: null }];
+      }
+
+      if (req.query.clinic_wide === 'true') {
+        filter.user_id = null;
+      }
+
+      if (req.query.type) {
+        filter.type = req.query.type;
+      }
+
+      if (req.query.source) {
+        filter.source = req.query.source;
+      }
+
+      if (req.query.is_active) {
+        filter.is_active = req.query.is_active === 'true';
+      }
+
+      // Date range filter - any exception overlapping the range
+      if (req.query.start_date) {
+        filter.end_date = { $gt: new Date(req.query.start_date as string) };
+      }
+      if (req.query.end_date) {
+        filter.start_date = { $lt: new Date(req.query.end_date as string) };
+      }
+
+      const exceptions = await ScheduleException.find(filter)
+        .populate('user_id', 'first_name last_name role')
+        .populate('created_by', 'first_name last_name')
+        .skip(skip)
+        .limit(limit)
+        .sort({ start_date: 1 });
+
+      const totalExceptions = await ScheduleException.countDocuments(filter);
+
+      res.json({
+        success: true,
+        data: {
+          exceptions,
+          pagination: {
+            page,
+            limit,
+            total: totalExceptions,
+            pages: Math.ceil(totalExceptions / limit)
+          }
+        }
+      });
+    } catch (error) {
+      console.error('Get schedule exceptions error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      });
+    }
+  }
+
+  static async getExceptionById(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      const exception = await ScheduleException.findOne({
+        _id: id,
+        tenant_id: req.tenant_id,
+        clinic_id: req.clinic_id
+      })
+        .populate('user_id', 'first_name last_name role')
+        .populate('created_by', 'first_name last_name');
+
+      if (!exception) {
+        res.status(404).json({
+          success: false,
+          message: 'Schedule exception not found'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: { exception }
+      });
+    } catch (error) {
+      console.error('Get schedule exception error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      });
+    }
+  }
+
+  static async getExceptionConflicts(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      const exception = await ScheduleException.findOne({
+        _id: id,
+        tenant_id: req.tenant_id,
+        clinic_id: req.clinic_id
+      });
+
+      if (!exception) {
+        res.status(404).json({
+          success: false,
+          message: 'Schedule exception not found'
+        });
+        return;
+      }
+
+      const conflictingAppointments = exception.is_active
+        ? await AvailabilityService.findAppointmentsAffectedBy(exception)
+        : [];
+
+      res.json({
+        success: true,
+        data: {
+          exception,
+          conflicting_appointments: conflictingAppointments
+        }
+      });
+    } catch (error) {
+      console.error('Get schedule exception conflicts error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      });
+    }
+  }
+
+  static async updateException(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation failed',
+          errors: errors.array()
+        });
+        return;
+      }
+
+      const { id } = req.params;
+
+      const exception = await ScheduleException.findOne({
+        _id: id,
+        tenant_id: req.tenant_id,
+        clinic_id: req.clinic_id
+      });
+
+      if (!exception) {
+        res.status(404).json({
+          success: false,
+          message: 'Schedule exception not found'
+        });
+        return;
+      }
+
+      const userId = req.body.user_id !== undefined ? (req.body.user_id || null) : exception.user_id;
+      const accessError = await ScheduleExceptionController.checkManageAccess(req, userId, exception);
+      if (accessError) {
+        res.status(accessError.status).json({
+          success: false,
+          message: accessError.message
+        });
+        return;
+      }
+
+      Object.assign(exception, ScheduleExceptionController.pickExceptionFields(req.body), { user_id: userId });
+      ScheduleExceptionController.normalizeDates(exception, req.body, TimezoneService.forClinic(req.currentClinic));
+      await exception.save();
+
+      const conflictingAppointments = exception.is_active
+        ? await AvailabilityService.findAppointmentsAffectedBy(exception)
+        : [];
+
+      res.json({
+        success: true,
+        message: conflictingAppointments.length > 0
+          ? `Schedule exception updated. ${conflictingAppointments.length} booked appointment(s) now conflict with it`
+          : 'Schedule exception updated successfully',
+        data: {
+          exception,
+          conflicting_appointments: conflictingAppointments
+        }
+      });
+    } catch (error: any) {
+      console.error('Update schedule exception error:', error);
+
+      if (error.name === 'ValidationError') {
+        res.status(400).json({
+          success: false,
+          message: 'Validation failed',
+          errors: Object.values(error.errors).map((err: any) => ({
+            field: err.path,
+            message: err.message
+          }))
+        });
+        return;
+      }
+
+      if (error.message === 'Override exceptions require override_hours with start and end') {
+        res.status(400).json({
+          success: false,
+          message: error.message
+        });
+        return;
+      }
+
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      });
+    }
+  }
+
+  static async deleteException(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      const exception = await ScheduleException.findOne({
+        _id: id,
+        tenant_id: req.tenant_id,
+        clinic_id: req.clinic_id
+      });
+
+      if (!exception) {
+        res.status(404).json({
+          success: false,
+          message: 'Schedule exception not found'
+        });
+        return;
+      }
+
+      const accessError = await ScheduleExceptionController.checkManageAccess(req, exception.user_id || null, exception);
+      if (accessError) {
+        res.status(accessError.status).json({
+          success: false,
+          message: accessError.message
+        });
+        return;
+      }
+
+      await ScheduleException.deleteOne({ _id: exception._id });
+
+      res.json({
+        success: true,
+        message: 'Schedule exception deleted successfully'
+      });
+    } catch (error) {
+      console.error('Delete schedule exception error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      });
+    }
+  }
+
+  /**
+   * Doctors and nurses manage only their own time off; clinic-wide closures are admin-only
+   */
+  private static async checkManageAccess(
+    req: AuthRequest,
+    userId: any,
+    existing?: IScheduleException
+  ): Promise<{ status: number; message: string } | null> {
+    const role = req.user?.role as string;
+    const isManager = SCHEDULE_MANAGER_ROLES.includes(role);
+    const isAdmin = role === 'super_admin' || role === 'admin';
+
+    const touchesClinicWide = !userId || (existing && !existing.user_id);
+    if (touchesClinicWide && !isAdmin) {
+      return { status: 403, message: 'Only administrators can manage clinic-wide closures' };
+    }
+
+    const currentUserId = req.user?._id?.toString();
+    const ownsTarget = !!userId && userId.toString() === currentUserId;
+    const ownsExisting = !existing || !existing.user_id || existing.user_id.toString() === currentUserId;
+    if (!isManager && (!ownsTarget || !ownsExisting)) {
+      return { status: 403, message: 'Access denied. You can only manage your own schedule exceptions.' };
+    }
+
+    if (userId) {
+      const staffMember = await User.findOne({ _id: userId, tenant_id: req.tenant_id });
+      if (!staffMember) {
+        return { status: 404, message: 'Staff member not found' };
+      }
+    }
+
+    return null;
+  }
+
+  private static pickExceptionFields(body: any): any {
+    const fields: any = {};
+    for (const field of ['type', 'title', 'start_date', 'end_date', 'all_day', 'override_hours', 'reason', 'is_active']) {
+      if (body[field] !== undefined) {
+        fields[field] = body[field];
+      }
+    }
+    return fields;
+  }
+
+  /**
+   * All-day exceptions cover whole days: midnight of the start date until the end of the end date.
+   * Dates from the request are treated as inclusive calendar days in the clinic's timezone;
+   * stored dates are already normalized.
+   */
+  private static normalizeDates(exception: IScheduleException, body: any, timezone: string): void {
+    if (!exception.all_day) return;
+
+    exception.start_date = TimezoneService.startOfDay(body.start_date || exception.start_date, timezone);
+
+    const storedEnd = exception.end_date;
+    const alreadyNormalized = !body.end_date && storedEnd.getTime() === TimezoneService.startOfDay(storedEnd, timezone).getTime();
+    if (!alreadyNormalized) {
+      exception.end_date = TimezoneService.addDays(body.end_date || storedEnd, 1, timezone);
+    }
+  }
+}
@@ -76,6 +76,11 @@ import { AuthRequest } from '../types/express';
  *               type: boolean
  *             systemAlerts:
  *               type: boolean
+ *             reminderOffsets:
+ *               type: array
+ *               items:
+ *                 type: integer
+ *               description: Minutes before an appointment to send reminders
  *         security:
  *           type: object
  *           properties:
@@ -292,7 +297,8 @@ export const getSettings = async (req: AuthRequest, res: Response) => {
           appointmentReminders: true,
           paymentReminders: true,
           lowStockAlerts: true,
-          systemAlerts: true
+          systemAlerts: true,
+          reminderOffsets: [1440, 120]
         },
 
         security: {
@@ -141,6 +141,12 @@ export class TestReportController {
         ];
       }
 
+      // Patient medical record number filter
+      if (req.query.mrn) {
+        const patient = await Patient.findOne({ tenant_id: req.tenant_id, mrn: String(req.query.mrn).trim().toUpperCase() }).select('_id');
+        filter.patientId = patient ? patient._id : { $in: [] };
+      }
+
       // Status filter
       if (req.query.status && req.query.status !== 'all') {
         filter.status = req.query.status;
@@ -168,7 +174,7 @@ export class TestReportController {
       }
 
       const reports = await TestReport.find(filter)
-        .populate('patientId', 'first_name last_name email phone')
+        .populate('patientId', 'first_name last_name email phone mrn')
         .populate('testId', 'name code category normalRange units')
         .skip(skip)
         .limit(limit)
@@ -0,0 +1,662 @@
+import { Response } from 'express';
+import { validationResult } from 'express-validator';
+import mongoose from 'mongoose';
+import {
+  Appointment,
+  Patient,
+  WaitlistEntry,
+  WaitlistOffer,
+  IWaitlistEntry,
+  IWaitlistOffer,
+  WAITLIST_PRIORITIES
+} from '../models';
+import { AuthRequest } from '../types/express';
+import { AvailabilityService } from '../utils/availability';
+import { ResourceService } from '../utils/resources';
+import { TimezoneService } from '../utils/timezone';
+import { StatusWorkflowService } from '../utils/statusWorkflow';
+import { WaitlistService } from '../utils/waitlist';
+import { NotificationService } from '../utils/notifications';
+import { AppointmentController } from './appointmentController';
+
+// Statuses that still count as "on the waitlist"
+const OPEN_ENTRY_STATUSES = ['waiting', 'offered'];
+
+export class WaitlistController {
+  static async createEntry(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation failed',
+          errors: errors.array()
+        });
+        return;
+      }
+
+      const patient = await Patient.findOne({
+        _id: req.body.patient_id,
+        tenant_id: req.tenant_id,
+        clinic_id: req.clinic_id
+      });
+
+      if (!patient) {
+        res.status(404).json({
+          success: false,
+          message: 'Patient not found'
+        });
+        return;
+      }
+
+      const entry = new WaitlistEntry({
+        ...WaitlistController.pickEntryFields(req.body),
+        earliest_date: AvailabilityService.startOfDay(req.body.earliest_date || new Date(), TimezoneService.forClinic(req.currentClinic)),
+        latest_date: AvailabilityService.startOfDay(req.body.latest_date, TimezoneService.forClinic(req.currentClinic)),
+        tenant_id: req.tenant_id,
+        clinic_id: req.clinic_id,
+        created_by: req.user?._id
+      });
+      await entry.save();
+
+      await entry.populate([
+        { path: 'patient_id', select: 'first_name last_name phone email' },
+        { path: 'doctor_id', select: 'first_name last_name' }
+      ]);
+
+      res.status(201).json({
+        success: true,
+        message: 'Patient added to the waitlist successfully',
+        data: { entry }
+      });
+    } catch (error: any) {
+      console.error('Create waitlist entry error:', error);
+
+      if (error.name === 'ValidationError') {
+        res.status(400).json({
+          success: false,
+          message: 'Validation failed',
+          errors: Object.values(error.errors).map((err: any) => ({
+            field: err.path,
+            message: err.message
+          }))
+        });
+        return;
+      }
+
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      });
+    }
+  }
+
+  static async getAllEntries(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const page = parseInt(req.query.page as string) || 1;
+      const limit = parseInt(req.query.limit as string) || 20;
+      const skip = (page - 1) * limit;
+
+      // Lapsed offers go back to the queue before anything is listed
+      await WaitlistService.expireStale({ tenant_id: req.tenant_id, clinic_id: req.clinic_id });
+
+      const filter: any = {
+        tenant_id: req.tenant_id,
+        clinic_id: req.clinic_id,
+        status: req.query.status ? req.query.status : { $in: OPEN_ENTRY_STATUSES }
+      };
+
+      if (req.query.doctor_id) {
+        filter.doctor_id = req.query.doctor_id;
+      }
+
+      if (req.query.patient_id) {
+        filter.patient_id = req.query.patient_id;
+      }
+
+      if (req.query.priority) {
+        filter.priority = req.query.priority;
+      }
+
+      const entries = await WaitlistEntry.find(filter)
+        .populate('patient_id', 'first_name last_name phone email')
+        .populate('doctor_id', 'first_name last_name')
+        .sort({ created_at: 1 });
+
+      // Ranked the same way the matcher picks candidates for a freed slot
+      const ranked = entries
+        .map(entry => ({
+          entry,
+          score: WaitlistService.scoreEntry(entry, (entry.doctor_id as any)?._id || '')
+        }))
+        .sort((a, b) => b.score - a.score)
+        .map(({ entry, score }, index) => ({
+          ...entry.toObject(),
+          rank: index + 1,
+          score: Math.round(score * 100) / 100
+        }));
+
+      res.json({
+        success: true,
+        data: {
+          entries: ranked.slice(skip, skip + limit),
+          pagination: {
+            page,
+            limit,
+            total: ranked.length,
+            pages: Math.ceil(ranked.length / limit)
+          }
+        }
+      });
+    } catch (error) {
+      console.error('Get waitlist entries error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      });
+    }
+  }
+
+  static async getEntryById(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      const entry = await WaitlistEntry.findOne({
+        _id: id,
+        tenant_id: req.tenant_id,
+        clinic_id: req.clinic_id
+      })
+      .populate('patient_id', 'first_name last_name phone email')
+      .populate('doctor_id', 'first_name last_name')
+      .populate('appointment_id');
+
+      if (!entry) {
+        res.status(404).json({
+          success: false,
+          message: 'Waitlist entry not found'
+        });
+        return;
+      }
+
+      const offers = await WaitlistOffer.find({ waitlist_entry_id: entry._id })
+        .populate('doctor_id', 'first_name last_name')
+        .sort({ created_at: -1 });
+
+      res.json({
+        success: true,
+        data: { entry, offers }
+      });
+    } catch (error: any) {
+      console.error('Get waitlist entry error:', error);
+
+      if (error.name === 'CastError') {
+        res.status(400).json({
+          success: false,
+          message: 'Invalid waitlist entry ID format'
+        });
+        return;
+      }
+
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      });
+    }
+  }
+
+  static async updateEntry(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation failed',
+          errors: errors.array()
+        });
+        return;
+      }
+
+      const entry = await WaitlistController.findOpenEntry(req, res);
+      if (!entry) return;
+
+      // The patient of an entry cannot change - cancel and re-add instead
+      delete req.body.patient_id;
+      entry.set(WaitlistController.pickEntryFields(req.body));
+      if (req.body.earliest_date) {
+        entry.earliest_date = AvailabilityService.startOfDay(req.body.earliest_date, TimezoneService.forClinic(req.currentClinic));
+      }
+      if (req.body.latest_date) {
+        entry.latest_date = AvailabilityService.startOfDay(req.body.latest_date, TimezoneService.forClinic(req.currentClinic));
+      }
+      await entry.save();
+
+      res.json({
+        success: true,
+        message: 'Waitlist entry updated successfully',
+        data: { entry }
+      });
+    } catch (error: any) {
+      console.error('Update waitlist entry error:', error);
+
+      if (error.name === 'ValidationError') {
+        res.status(400).json({
+          success: false,
+          message: 'Validation failed',
+          errors: Object.values(error.errors).map((err: any) => ({
+            field: err.path,
+            message: err.message
+          }))
+        });
+        return;
+      }
+
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      });
+    }
+  }
+
+  /**
+   * Raise an entry's priority - to the requested level, or one step up by default
+   */
+  static async promoteEntry(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation failed',
+          errors: errors.array()
+        });
+        return;
+      }
+
+      const entry = await WaitlistController.findOpenEntry(req, res);
+      if (!entry) return;
+
+      const currentIndex = WAITLIST_PRIORITIES.indexOf(entry.priority);
+      const priority = req.body.priority || WAITLIST_PRIORITIES[Math.min(currentIndex + 1, WAITLIST_PRIORITIES.length - 1)];
+
+      if (WAITLIST_PRIORITIES.indexOf(priority) <= currentIndex) {
+        res.status(400).json({
+          success: false,
+          message: `Entry already has ${entry.priority} priority`
+        });
+        return;
+      }
+
+      entry.priority = priority;
+      entry.promoted_at = new Date();
+      await entry.save();
+
+      res.json({
+        success: true,
+        message: `Waitlist entry promoted to ${priority} priority`,
+        data: { entry }
+      });
+    } catch (error) {
+      console.error('Promote waitlist entry error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      });
+    }
+  }
+
+  /**
+   * Book a waitlist entry into a real appointment at a slot chosen by staff
+   */
+  static async convertEntry(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation failed',
+          errors: errors.array()
+        });
+        return;
+      }
+
+      const entry = await WaitlistController.findOpenEntry(req, res);
+      if (!entry) return;
+
+      const doctorId = req.body.doctor_id || entry.doctor_id;
+      if (!doctorId) {
+        res.status(400).json({
+          success: false,
+          message: 'Doctor is required when the entry has no preferred doctor'
+        });
+        return;
+      }
+
+      const pendingOffer = await WaitlistOffer.findOne({ waitlist_entry_id: entry._id, status: 'pending' });
+
+      await WaitlistController.bookEntry(req, res, entry, {
+        doctor_id: doctorId,
+        appointment_date: new Date(req.body.appointment_date),
+        duration: parseInt(req.body.duration) || entry.duration
+      }, pendingOffer);
+    } catch (error: any) {
+      console.error('Convert waitlist entry error:', error);
+
+      if (error.code === 11000) {
+        res.status(409).json({
+          success: false,
+          message: 'Doctor is already booked at this time'
+        });
+        return;
+      }
+
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      });
+    }
+  }
+
+  static async cancelEntry(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const entry = await WaitlistController.findOpenEntry(req, res);
+      if (!entry) return;
+
+      entry.status = 'cancelled';
+      await entry.save();
+
+      // Any slot held for this patient goes to the next candidate
+      await WaitlistService.withdrawOffers(entry._id as mongoose.Types.ObjectId);
+
+      res.json({
+        success: true,
+        message: 'Waitlist entry cancelled successfully',
+        data: { entry }
+      });
+    } catch (error) {
+      console.error('Cancel waitlist entry error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      });
+    }
+  }
+
+  static async getOffers(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      await WaitlistService.expireStale({ tenant_id: req.tenant_id, clinic_id: req.clinic_id });
+
+      const filter: any = {
+        tenant_id: req.tenant_id,
+        clinic_id: req.clinic_id,
+        status: req.query.status || 'pending'
+      };
+
+      if (req.query.doctor_id) {
+        filter.doctor_id = req.query.doctor_id;
+      }
+
+      if (req.query.patient_id) {
+        filter.patient_id = req.query.patient_id;
+      }
+
+      const offers = await WaitlistOffer.find(filter)
+        .populate('patient_id', 'first_name last_name phone email')
+        .populate('doctor_id', 'first_name last_name')
+        .populate('waitlist_entry_id', 'priority time_of_day earliest_date latest_date')
+        .sort({ expires_at: 1 });
+
+      res.json({
+        success: true,
+        data: { offers }
+      });
+    } catch (error) {
+      console.error('Get waitlist offers error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      });
+    }
+  }
+
+  static async acceptOffer(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation failed',
+          errors: errors.array()
+        });
+        return;
+      }
+
+      const offer = await WaitlistController.findPendingOffer(req, res);
+      if (!offer) return;
+
+      const entry = await WaitlistEntry.findById(offer.waitlist_entry_id);
+      if (!entry || !OPEN_ENTRY_STATUSES.includes(entry.status)) {
+        res.status(409).json({
+          success: false,
+          message: 'Waitlist entry is no longer open'
+        });
+        return;
+      }
+
+      await WaitlistController.bookEntry(req, res, entry, {
+        doctor_id: offer.doctor_id,
+        appointment_date: offer.slot_start,
+        duration: offer.duration
+      }, offer);
+    } catch (error: any) {
+      console.error('Accept waitlist offer error:', error);
+
+      if (error.code === 11000) {
+        res.status(409).json({
+          success: false,
+          message: 'Doctor is already booked at this time'
+        });
+        return;
+      }
+
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      });
+    }
+  }
+
+  static async declineOffer(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const offer = await WaitlistController.findPendingOffer(req, res);
+      if (!offer) return;
+
+      const nextOffer = await WaitlistService.declineOffer(offer, req.user?._id as mongoose.Types.ObjectId);
+
+      res.json({
+        success: true,
+        message: nextOffer
+          ? 'Offer declined. The slot was offered to the next patient on the waitlist'
+          : 'Offer declined',
+        data: { offer, next_offer: nextOffer }
+      });
+    } catch (error) {
+      console.error('Decline waitlist offer error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      });
+    }
+  }
+
+  private static async findOpenEntry(req: AuthRequest, res: Response): Promise<IWaitlistEntry | null> {
+    const entry = await WaitlistEntry.findOne({
+      _id: req.params.id,
+      tenant_id: req.tenant_id,
+      clinic_id: req.clinic_id
+    });
+
+    if (!entry) {
+      res.status(404).json({
+        success: false,
+        message: 'Waitlist entry not found'
+      });
+      return null;
+    }
+
+    if (!OPEN_ENTRY_STATUSES.includes(entry.status)) {
+      res.status(409).json({
+        success: false,
+        message: `Waitlist entry is already ${entry.status}`
+      });
+      return null;
+    }
+
+    return entry;
+  }
+
+  private static async findPendingOffer(req: AuthRequest, res: Response): Promise<IWaitlistOffer | null> {
+    const offer = await WaitlistOffer.findOne({
+      _id: req.params.offerId,
+      tenant_id: req.tenant_id,
+      clinic_id: req.clinic_id
+    });
+
+    if (!offer) {
+      res.status(404).json({
+        success: false,
+        message: 'Waitlist offer not found'
+      });
+      return null;
+    }
+
+    if (offer.status === 'pending' && offer.expires_at <= new Date()) {
+      await WaitlistService.expireStale({ tenant_id: req.tenant_id, clinic_id: req.clinic_id });
+      res.status(410).json({
+        success: false,
+        message: 'Waitlist offer has expired'
+      });
+      return null;
+    }
+
+    if (offer.status !== 'pending') {
+      res.status(409).json({
+        success: false,
+        message: `Waitlist offer is already ${offer.status}`
+      });
+      return null;
+    }
+
+    return offer;
+  }
+
+  /**
+   * Create the appointment for an entry and close it, settling the entry's pending offer.
+   * The offer's own hold is ignored so accepting does not collide with itself.
+   */
+  private static async bookEntry(
+    req: AuthRequest,
+    res: Response,
+    entry: IWaitlistEntry,
+    slot: { doctor_id: string | mongoose.Types.ObjectId; appointment_date: Date; duration: number },
+    pendingOffer: IWaitlistOffer | null
+  ): Promise<void> {
+    const statusCode = await AppointmentController.resolveStatusCode(req.tenant_id, req.clinic_id, req.body.status);
+    if (!statusCode || (await StatusWorkflowService.getFlags(entry.tenant_id, entry.clinic_id, statusCode)).frees_slot) {
+      res.status(400).json({
+        success: false,
+        message: `Status '${req.body.status}' does not exist or is not active for this clinic`
+      });
+      return;
+    }
+
+    const availability = await AvailabilityService.checkAvailability({
+      tenant_id: entry.tenant_id,
+      clinic_id: entry.clinic_id,
+      doctor_id: slot.doctor_id,
+      start: slot.appointment_date,
+      duration: slot.duration,
+      exclude_hold_id: pendingOffer?._id as mongoose.Types.ObjectId | undefined,
+      service_id: req.body.service_id,
+      resource_ids: req.body.resource_ids
+    });
+
+    if (!availability.available) {
+      AppointmentController.sendAvailabilityConflict(res, availability);
+      return;
+    }
+
+    const appointment = new Appointment({
+      tenant_id: entry.tenant_id,
+      clinic_id: entry.clinic_id,
+      patient_id: entry.patient_id,
+      doctor_id: slot.doctor_id,
+      service_id: req.body.service_id,
+      resource_ids: availability.resource_ids || [],
+      appointment_date: slot.appointment_date,
+      duration: slot.duration,
+      type: entry.appointment_type,
+      reason: req.body.reason || 'Booked from waitlist',
+      notes: req.body.notes || entry.notes,
+      status: statusCode
+    });
+    appointment.$locals.status_change = AppointmentController.getStatusChangeContext(req);
+
+    const reservation = await ResourceService.reserve({
+      tenant_id: entry.tenant_id,
+      clinic_id: entry.clinic_id,
+      start: slot.appointment_date,
+      duration: slot.duration,
+      resource_ids: availability.resource_ids,
+      staff_ids: [slot.doctor_id]
+    }, () => appointment.save());
+
+    if (!reservation.reserved) {
+      AppointmentController.sendAvailabilityConflict(res, AvailabilityService.fromResourceAllocation(reservation.allocation));
+      return;
+    }
+
+    await NotificationService.notifyAppointment(appointment, 'appointment_booked');
+
+    entry.status = 'booked';
+    entry.appointment_id = appointment._id as mongoose.Types.ObjectId;
+    await entry.save();
+
+    if (pendingOffer) {
+      const acceptsOffer =
+        pendingOffer.doctor_id.toString() === slot.doctor_id.toString() &&
+        pendingOffer.slot_start.getTime() === slot.appointment_date.getTime();
+
+      if (acceptsOffer) {
+        pendingOffer.status = 'accepted';
+        pendingOffer.appointment_id = appointment._id as mongoose.Types.ObjectId;
+        pendingOffer.responded_at = new Date();
+        pendingOffer.responded_by = req.user?._id as mongoose.Types.ObjectId;
+        await pendingOffer.save();
+      } else {
+        // Booked elsewhere - release the held slot to the next candidate
+        await WaitlistService.withdrawOffers(entry._id as mongoose.Types.ObjectId);
+      }
+    }
+
+    await appointment.populate(['patient_id', 'doctor_id']);
+
+    res.status(201).json({
+      success: true,
+      message: 'Waitlist entry booked successfully',
+      data: { appointment, entry, offer: pendingOffer }
+    });
+  }
+
+  private static pickEntryFields(body: any): Partial<IWaitlistEntry> {
+    const fields = ['patient_id', 'doctor_id', 'service_id', 'appointment_type', 'duration', 'time_of_day', 'priority', 'notes'];
+    const picked: any = {};
+
+    fields.forEach(field => {
+      if (body[field] !== undefined) {
+        picked[field] = body[field];
+      }
+    });
+
+    return picked;
+  }
+}
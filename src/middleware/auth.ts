@@ -1,6 +1,6 @@
 import { Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
-import { User } from '../models';
+import { User, staffMemberFilter } from '../models';
 import { AuthRequest } from '../types/express';
 
 interface JWTPayload {
@@ -165,7 +165,8 @@ export const applyRoleBasedFilter = (req: AuthRequest, filter: any = {}) => {
  * Helper function to get role-based query filter
  * 
  * This function generates appropriate filters for different entity types:
- * - For appointments/prescriptions: Doctors can only see their own, Nurses can only see their assigned
+ * - For appointments: Doctors and Nurses can only see the ones they are booked on or take part in
+ * - For prescriptions: Doctors can only see their own, Nurses can only see their assigned
  * - For patients: Doctors can only see patients they have appointments/prescriptions with, Nurses can only see patients they're assigned to
  * 
  * @param user User object containing role and ID
@@ -182,7 +183,10 @@ export const getRoleBasedFilter = (user: any, entityType: 'appointment' | 'presc
 
   // Doctors can only see their assigned data
   if (user.role === 'doctor') {
-    if (entityType === 'appointment' || entityType === 'prescription' || entityType === 'odontogram') {
+    if (entityType === 'appointment') {
+      // Includes appointments they take part in as a participant (e.g. anesthetist of another doctor's surgery)
+      Object.assign(filter, staffMemberFilter(user._id));
+    } else if (entityType === 'prescription' || entityType === 'odontogram') {
       filter.doctor_id = user._id;
     } else if (entityType === 'patient') {
       // For patients, doctors can only see patients they have appointments/prescriptions with
@@ -196,7 +200,7 @@ export const getRoleBasedFilter = (user: any, entityType: 'appointment' | 'presc
   // Nurses can only see their assigned data
   if (user.role === 'nurse') {
     if (entityType === 'appointment') {
-      filter.nurse_id = user._id;
+      Object.assign(filter, staffMemberFilter(user._id));
     } else if (entityType === 'patient') {
       // For patients, nurses can only see patients they have appointments with (as assigned nurse)
       // This will be handled in the controller with a more complex query
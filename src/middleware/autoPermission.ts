@@ -9,7 +9,13 @@ const resourceMap: Record<string, string> = {
   users: 'users',
   clinics: 'clinics',
   patients: 'patients',
+  consents: 'patients',
+  documents: 'patients',
   appointments: 'appointments',
+  'schedule-exceptions': 'appointments',
+  resources: 'appointments',
+  waitlist: 'appointments',
+  queue: 'appointments',
   'medical-records': 'medical_records',
   prescriptions: 'prescriptions',
   invoices: 'invoices',
@@ -0,0 +1,83 @@
+import { Request, Response, NextFunction } from 'express';
+
+export type CaptchaVerifier = (token: string, ip?: string) => Promise<boolean>;
+
+// siteverify endpoints of the supported providers - all accept secret/response/remoteip form posts
+const PROVIDER_ENDPOINTS: Record<string, string> = {
+  recaptcha: 'https://www.google.com/recaptcha/api/siteverify',
+  hcaptcha: 'https://hcaptcha.com/siteverify',
+  turnstile: 'https://challenges.cloudflare.com/turnstile/v0/siteverify'
+};
+
+let customVerifier: CaptchaVerifier | null = null;
+
+/**
+ * Plug in a custom CAPTCHA check (e.g. a fake in tests) instead of the CAPTCHA_PROVIDER setting
+ */
+export const registerCaptchaVerifier = (verifier: CaptchaVerifier | null): void => {
+  customVerifier = verifier;
+};
+
+const verifyWithProvider = async (token: string, ip?: string): Promise<boolean> => {
+  const endpoint = PROVIDER_ENDPOINTS[process.env.CAPTCHA_PROVIDER || ''];
+  if (!endpoint || !process.env.CAPTCHA_SECRET) {
+    throw new Error('CAPTCHA provider is not configured');
+  }
+
+  const response = await fetch(endpoint, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: new URLSearchParams({
+      secret: process.env.CAPTCHA_SECRET,
+      response: token,
+      ...(ip ? { remoteip: ip } : {})
+    })
+  });
+
+  const result: any = await response.json();
+  return !!result.success;
+};
+
+/**
+ * Require a solved CAPTCHA (body captcha_token or X-Captcha-Token header) on abuse-prone public endpoints.
+ * A no-op until CAPTCHA_PROVIDER is set or a custom verifier is registered.
+ */
+export const verifyCaptcha = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  if (!customVerifier && !process.env.CAPTCHA_PROVIDER) {
+    next();
+    return;
+  }
+
+  const token = (req.body && req.body.captcha_token) || req.header('X-Captcha-Token');
+  if (!token) {
+    res.status(400).json({
+      success: false,
+      message: 'CAPTCHA verification is required'
+    });
+    return;
+  }
+
+  try {
+    const passed = customVerifier
+      ? await customVerifier(token, req.ip)
+      : await verifyWithProvider(token, req.ip);
+
+    if (!passed) {
+      res.status(403).json({
+        success: false,
+        message: 'CAPTCHA verification failed'
+      });
+      return;
+    }
+
+    next();
+  } catch (error) {
+    console.error('CAPTCHA verification error:', error);
+    res.status(503).json({
+      success: false,
+      message: 'CAPTCHA verification is temporarily unavailable'
+    });
+  }
+};
+
+export default verifyCaptcha;
@@ -0,0 +1,56 @@
+import mongoose from 'mongoose';
+import { Patient } from '../models';
+import { MrnService } from '../utils/mrn';
+
+/**
+ * Migration script for patient medical record numbers:
+ * - gives every patient without an MRN the next number of their clinic, oldest registrations first
+ *   so the numbering follows the order patients joined
+ */
+export const addPatientMrn = async (): Promise<void> => {
+  try {
+    console.log('🔄 Starting migration: Adding patient medical record numbers...');
+
+    const patients = await Patient.find({ $or: [{ mrn: { $exists: false } }, { mrn: null }, { mrn: '' }] })
+      .select('_id tenant_id clinic_id')
+      .sort({ created_at: 1 })
+      .lean();
+
+    console.log(`📊 Found ${patients.length} patients without an MRN`);
+
+    let assigned = 0;
+    for (const patient of patients) {
+      const mrn = await MrnService.next(patient.tenant_id, patient.clinic_id, async candidate =>
+        !!(await Patient.exists({ tenant_id: patient.tenant_id, mrn: candidate }))
+      );
+      await Patient.updateOne({ _id: patient._id }, { $set: { mrn } });
+      assigned++;
+    }
+
+    await Patient.syncIndexes();
+
+    console.log(`📊 Assigned ${assigned} medical record numbers`);
+    console.log('✅ Migration completed!');
+  } catch (error) {
+    console.error('❌ Error during migration:', error);
+    throw error;
+  }
+};
+
+// Run migration if called directly
+if (require.main === module) {
+  mongoose
+    .connect(process.env.MONGODB_URI || 'mongodb://localhost:27017/clinic-management')
+    .then(async () => {
+      console.log('📦 Connected to MongoDB');
+      await addPatientMrn();
+      await mongoose.disconnect();
+      process.exit(0);
+    })
+    .catch((error) => {
+      console.error('❌ Migration failed:', error);
+      process.exit(1);
+    });
+}
+
+export default addPatientMrn;
@@ -0,0 +1,77 @@
+import mongoose from 'mongoose';
+import { Patient, Lead } from '../models';
+import { SearchService } from '../utils/search';
+
+const BATCH_SIZE = 500;
+
+const SEARCHABLE: mongoose.Model<any>[] = [Patient, Lead];
+
+/**
+ * Migration script for patient and lead search:
+ * - builds the search tokens of records saved before SearchService (re-run after changing the tokenization)
+ * - drops the old text indexes the search no longer uses
+ */
+export const addSearchTokens = async (): Promise<void> => {
+  try {
+    console.log('🔄 Starting migration: Adding search tokens...');
+
+    for (const model of SEARCHABLE) {
+      const fields = SearchService.getTokenFields(model)!;
+      let updated = 0;
+      let batch: any[] = [];
+
+      const cursor = model.find({}).select([...fields.names, ...(fields.phones || [])].join(' ')).lean().cursor();
+      for await (const doc of cursor) {
+        batch.push({
+          updateOne: {
+            filter: { _id: doc._id },
+            update: { $set: { search_tokens: SearchService.buildTokens(doc, fields) } }
+          }
+        });
+        if (batch.length === BATCH_SIZE) {
+          await model.collection.bulkWrite(batch);
+          updated += batch.length;
+          batch = [];
+        }
+      }
+      if (batch.length > 0) {
+        await model.collection.bulkWrite(batch);
+        updated += batch.length;
+      }
+
+      const indexes = await model.collection.indexes();
+      for (const index of indexes) {
+        if (index.name && Object.values(index.key).includes('text')) {
+          await model.collection.dropIndex(index.name);
+          console.log(`🗑️  Dropped text index ${index.name} of ${model.modelName}`);
+        }
+      }
+      await model.syncIndexes();
+
+      console.log(`📊 Built search tokens for ${updated} ${model.modelName} records`);
+    }
+
+    console.log('✅ Migration completed!');
+  } catch (error) {
+    console.error('❌ Error during migration:', error);
+    throw error;
+  }
+};
+
+// Run migration if called directly
+if (require.main === module) {
+  mongoose
+    .connect(process.env.MONGODB_URI || 'mongodb://localhost:27017/clinic-management')
+    .then(async () => {
+      console.log('📦 Connected to MongoDB');
+      await addSearchTokens();
+      await mongoose.disconnect();
+      process.exit(0);
+    })
+    .catch((error) => {
+      console.error('❌ Migration failed:', error);
+      process.exit(1);
+    });
+}
+
+export default addSearchTokens;
@@ -0,0 +1,50 @@
+import mongoose from 'mongoose';
+import { Appointment } from '../models';
+
+/**
+ * Migration script for the appointment status timeline:
+ * - gives appointments created before status history was recorded a single entry for their current status,
+ *   dated at their last update since the actual change time is unknown
+ */
+export const addStatusHistory = async (): Promise<void> => {
+  try {
+    console.log('🔄 Starting migration: Adding appointment status history...');
+
+    const result = await Appointment.collection.updateMany(
+      { $or: [{ status_history: { $exists: false } }, { status_history: { $size: 0 } }] },
+      [{
+        $set: {
+          status_history: [{
+            to_status: '$status',
+            changed_at: { $ifNull: ['$updated_at', '$created_at'] },
+            source: 'system'
+          }]
+        }
+      }]
+    );
+
+    console.log(`📊 Added status history to ${result.modifiedCount} appointments`);
+    console.log('✅ Migration completed!');
+  } catch (error) {
+    console.error('❌ Error during migration:', error);
+    throw error;
+  }
+};
+
+// Run migration if called directly
+if (require.main === module) {
+  mongoose
+    .connect(process.env.MONGODB_URI || 'mongodb://localhost:27017/clinic-management')
+    .then(async () => {
+      console.log('📦 Connected to MongoDB');
+      await addStatusHistory();
+      await mongoose.disconnect();
+      process.exit(0);
+    })
+    .catch((error) => {
+      console.error('❌ Migration failed:', error);
+      process.exit(1);
+    });
+}
+
+export default addStatusHistory;
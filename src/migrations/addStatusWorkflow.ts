@@ -0,0 +1,86 @@
+import mongoose from 'mongoose';
+import { Appointment, AppointmentStatus, LEGACY_STATUS_FLAGS, resolveStatusFlags } from '../models';
+import { DEFAULT_STATUSES } from './createDefaultAppointmentStatuses';
+
+// Double-booking index before it keyed on frees_slot instead of hard-coded status codes
+const LEGACY_SLOT_INDEX = 'tenant_id_1_clinic_id_1_doctor_id_1_appointment_date_1';
+
+/**
+ * Migration script for the configurable status workflow:
+ * - gives the built-in statuses of existing clinics their flags and default transitions
+ * - copies each status's frees_slot flag onto its appointments
+ * - replaces the old double-booking index with the frees_slot based one
+ */
+export const addStatusWorkflow = async (): Promise<void> => {
+  try {
+    console.log('🔄 Starting migration: Adding appointment status workflow...');
+
+    let statusCount = 0;
+    for (const defaults of DEFAULT_STATUSES) {
+      const { is_terminal, counts_as_cancelled, frees_slot, is_billable, transitions } = defaults;
+
+      // Only statuses that were never configured - a clinic's own choices are kept
+      const result = await AppointmentStatus.updateMany(
+        { code: defaults.code, frees_slot: { $exists: false } },
+        { $set: { is_terminal, counts_as_cancelled, frees_slot, is_billable } }
+      );
+      await AppointmentStatus.updateMany(
+        { code: defaults.code, $or: [{ transitions: { $exists: false } }, { transitions: { $size: 0 } }] },
+        { $set: { transitions } }
+      );
+      statusCount += result.modifiedCount;
+    }
+
+    console.log(`📊 Configured ${statusCount} built-in statuses`);
+
+    let appointmentCount = 0;
+    const statuses = await AppointmentStatus.find({}).lean();
+    for (const status of statuses) {
+      const result = await Appointment.collection.updateMany(
+        { tenant_id: status.tenant_id, clinic_id: status.clinic_id, status: status.code },
+        { $set: { frees_slot: resolveStatusFlags(status.code, status).frees_slot } }
+      );
+      appointmentCount += result.modifiedCount;
+    }
+
+    // Appointments whose status no longer exists keep the built-in meaning of their code
+    const legacyFreeingCodes = Object.keys(LEGACY_STATUS_FLAGS).filter(code => LEGACY_STATUS_FLAGS[code].frees_slot);
+    const orphaned = await Appointment.collection.updateMany(
+      { frees_slot: { $exists: false } },
+      [{ $set: { frees_slot: { $in: ['$status', legacyFreeingCodes] } } }]
+    );
+    appointmentCount += orphaned.modifiedCount;
+
+    console.log(`📊 Updated frees_slot on ${appointmentCount} appointments`);
+
+    const indexes = await Appointment.collection.indexes();
+    if (indexes.some(index => index.name === LEGACY_SLOT_INDEX)) {
+      await Appointment.collection.dropIndex(LEGACY_SLOT_INDEX);
+      console.log(`🗑️  Dropped legacy index ${LEGACY_SLOT_INDEX}`);
+    }
+    await Appointment.createIndexes();
+
+    console.log('✅ Migration completed!');
+  } catch (error) {
+    console.error('❌ Error during migration:', error);
+    throw error;
+  }
+};
+
+// Run migration if called directly
+if (require.main === module) {
+  mongoose
+    .connect(process.env.MONGODB_URI || 'mongodb://localhost:27017/clinic-management')
+    .then(async () => {
+      console.log('📦 Connected to MongoDB');
+      await addStatusWorkflow();
+      await mongoose.disconnect();
+      process.exit(0);
+    })
+    .catch((error) => {
+      console.error('❌ Migration failed:', error);
+      process.exit(1);
+    });
+}
+
+export default addStatusWorkflow;
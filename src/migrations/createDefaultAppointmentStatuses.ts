@@ -2,8 +2,12 @@ import mongoose from 'mongoose';
 import AppointmentStatus from '../models/AppointmentStatus';
 import Clinic from '../models/Clinic';
 
-// Default appointment statuses
-const DEFAULT_STATUSES = [
+const CANCEL_TRANSITION = { to: 'cancelled', roles: [], required_fields: [] };
+const NO_SHOW_TRANSITION = { to: 'no-show', roles: [], required_fields: [] };
+const REOPEN_TRANSITION = { to: 'scheduled', roles: ['super_admin', 'admin', 'receptionist'], required_fields: [] };
+
+// Default appointment statuses with their workflow flags, visit stages and allowed transitions
+export const DEFAULT_STATUSES = [
   {
     code: 'scheduled',
     name_en: 'Scheduled',
@@ -14,6 +18,17 @@ const DEFAULT_STATUSES = [
     show_in_calendar: true,
     is_active: true,
     is_default: true,
+    is_terminal: false,
+    counts_as_cancelled: false,
+    frees_slot: false,
+    is_billable: false,
+    visit_stage: null,
+    transitions: [
+      { to: 'confirmed', roles: [], required_fields: [] },
+      { to: 'in-progress', roles: [], required_fields: [] },
+      CANCEL_TRANSITION,
+      NO_SHOW_TRANSITION
+    ],
   },
   {
     code: 'confirmed',
@@ -25,6 +40,17 @@ const DEFAULT_STATUSES = [
     show_in_calendar: true,
     is_active: true,
     is_default: false,
+    is_terminal: false,
+    counts_as_cancelled: false,
+    frees_slot: false,
+    is_billable: false,
+    visit_stage: null,
+    transitions: [
+      { to: 'scheduled', roles: [], required_fields: [] },
+      { to: 'in-progress', roles: [], required_fields: [] },
+      CANCEL_TRANSITION,
+      NO_SHOW_TRANSITION
+    ],
   },
   {
     code: 'in-progress',
@@ -36,6 +62,14 @@ const DEFAULT_STATUSES = [
     show_in_calendar: true,
     is_active: true,
     is_default: false,
+    is_terminal: false,
+    counts_as_cancelled: false,
+    frees_slot: false,
+    is_billable: false,
+    visit_stage: 'in_chair',
+    transitions: [
+      { to: 'completed', roles: [], required_fields: [] }
+    ],
   },
   {
     code: 'completed',
@@ -47,6 +81,12 @@ const DEFAULT_STATUSES = [
     show_in_calendar: true,
     is_active: true,
     is_default: false,
+    is_terminal: true,
+    counts_as_cancelled: false,
+    frees_slot: false,
+    is_billable: true,
+    visit_stage: 'finished',
+    transitions: [],
   },
   {
     code: 'cancelled',
@@ -58,6 +98,12 @@ const DEFAULT_STATUSES = [
     show_in_calendar: false,
     is_active: true,
     is_default: false,
+    is_terminal: false,
+    counts_as_cancelled: true,
+    frees_slot: true,
+    is_billable: false,
+    visit_stage: null,
+    transitions: [REOPEN_TRANSITION],
   },
   {
     code: 'no-show',
@@ -69,6 +115,12 @@ const DEFAULT_STATUSES = [
     show_in_calendar: false,
     is_active: true,
     is_default: false,
+    is_terminal: false,
+    counts_as_cancelled: false,
+    frees_slot: true,
+    is_billable: false,
+    visit_stage: null,
+    transitions: [REOPEN_TRANSITION],
   },
 ];
 
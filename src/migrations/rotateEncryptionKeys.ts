@@ -0,0 +1,125 @@
+import mongoose from 'mongoose';
+import dotenv from 'dotenv';
+import { MedicalRecord, Patient, Prescription, TestReport, Tenant, getIdentifierKeys } from '../models';
+import { FieldEncryptionService } from '../utils/fieldEncryption';
+import { SearchService } from '../utils/search';
+
+// Load environment variables
+dotenv.config();
+
+const BATCH_SIZE = 500;
+
+const ENCRYPTED: mongoose.Model<any>[] = [Patient, MedicalRecord, Prescription, TestReport];
+
+export interface KeyRotationOptions {
+  tenant_id?: string;
+  rewrapOnly?: boolean; // Only move the data keys onto the current KEK
+  reencryptOnly?: boolean; // Keep the current data keys, e.g. to encrypt existing records after turning encryption on
+}
+
+// Copy of the stored values that are about to change - an update only lands if they are still the same
+const snapshotOf = (doc: any): any => mongoose.mongo.BSON.deserialize(mongoose.mongo.BSON.serialize(doc));
+
+const reencryptModel = async (model: mongoose.Model<any>, tenant_id: mongoose.Types.ObjectId): Promise<{ updated: number; skipped: number }> => {
+  let updated = 0;
+  let skipped = 0;
+  let batch: any[] = [];
+
+  const flush = async () => {
+    if (batch.length === 0) return;
+    const result = await model.collection.bulkWrite(batch, { ordered: false });
+    updated += result.modifiedCount;
+    skipped += batch.length - result.matchedCount;
+    batch = [];
+  };
+
+  // Raw documents, archived ones included, past the decrypting hooks
+  const cursor = model.collection.find({ tenant_id });
+  for await (const doc of cursor) {
+    const before = snapshotOf(doc);
+    const $set = await FieldEncryptionService.reencryptDocument(model, doc);
+    if (!$set) continue;
+
+    const filter = { _id: doc._id, ...Object.fromEntries(Object.keys($set).map(root => [root, before[root] ?? null])) };
+    if (model === Patient) {
+      // Uniqueness keys and search tokens carry blind indexes instead of plaintext once encryption is on
+      $set.identifier_keys = await getIdentifierKeys(tenant_id, doc.identifiers || []);
+      $set.search_tokens = SearchService.buildTokens(doc, SearchService.getTokenFields(Patient)!);
+    }
+
+    batch.push({ updateOne: { filter, update: { $set } } });
+    if (batch.length === BATCH_SIZE) await flush();
+  }
+  await flush();
+
+  return { updated, skipped };
+};
+
+/**
+ * Field encryption key rotation:
+ * - gives each tenant a new data key and retires the previous one (not with --reencrypt-only)
+ * - re-encrypts the tenant's encrypted fields with the current data key, encrypting values stored
+ *   before encryption was turned on and filling in their blind indexes (not with --rewrap-only)
+ * - wraps the data keys still under an older KEK with the current one
+ * Records changed while it runs are skipped and picked up by the next run.
+ */
+export const rotateEncryptionKeys = async (options: KeyRotationOptions = {}): Promise<void> => {
+  try {
+    console.log('🔄 Starting field encryption key rotation...');
+
+    if (!FieldEncryptionService.isEnabled()) {
+      throw new Error('FIELD_ENCRYPTION_KEY_FILE is not configured');
+    }
+
+    const tenantIds = options.tenant_id
+      ? [new mongoose.Types.ObjectId(options.tenant_id)]
+      : (await Tenant.find().select('_id').lean()).map(tenant => tenant._id as mongoose.Types.ObjectId);
+
+    if (!options.rewrapOnly) {
+      for (const tenant_id of tenantIds) {
+        if (!options.reencryptOnly) {
+          const version = await FieldEncryptionService.rotateDataKey(tenant_id);
+          console.log(`🔑 Tenant ${tenant_id}: now encrypting with data key v${version}`);
+        }
+
+        for (const model of ENCRYPTED) {
+          const { updated, skipped } = await reencryptModel(model, tenant_id);
+          console.log(`📊 Tenant ${tenant_id}: re-encrypted ${updated} ${model.modelName} records${skipped ? `, ${skipped} changed meanwhile - run again` : ''}`);
+        }
+      }
+    }
+
+    const rewrapped = await FieldEncryptionService.rewrapDataKeys(options.tenant_id);
+    console.log(`🔑 Re-wrapped ${rewrapped} data keys with key encryption key ${FieldEncryptionService.getKms().currentKeyId()}`);
+
+    console.log('✅ Key rotation completed!');
+  } catch (error) {
+    console.error('❌ Error during key rotation:', error);
+    throw error;
+  }
+};
+
+// Run rotation if called directly
+if (require.main === module) {
+  const args = process.argv.slice(2);
+  const tenant = args.find(arg => arg.startsWith('--tenant='));
+
+  mongoose
+    .connect(process.env.MONGODB_URI || 'mongodb://localhost:27017/clinic-management')
+    .then(async () => {
+      console.log('📦 Connected to MongoDB');
+      await rotateEncryptionKeys({
+        tenant_id: tenant?.slice('--tenant='.length),
+        rewrapOnly: args.includes('--rewrap-only'),
+        reencryptOnly: args.includes('--reencrypt-only')
+      });
+      await mongoose.disconnect();
+      process.exit(0);
+    })
+    .catch((error) => {
+      console.error('❌ Key rotation failed:', error);
+      process.exit(1);
+    });
+}
+
+export default rotateEncryptionKeys;
@@ -1,4 +1,51 @@
 import mongoose, { Document, Schema } from 'mongoose';
+import { resolveStatusFlags, resolveVisitStage, VisitStage } from './AppointmentStatus';
+import { TimezoneService } from '../utils/timezone';
+import { DomainEventService, onDocumentWrite } from '../utils/domainEvents';
+
+export type PatientLinkAction = 'view' | 'confirm' | 'cancel' | 'reschedule';
+
+// Action a patient took through a self-service link
+export interface IAppointmentPatientAction {
+  action: Exclude<PatientLinkAction, 'view'>;
+  token_id: string;
+  from_status: string;
+  to_status: string;
+  previous_date?: Date;
+  new_date?: Date;
+  ip?: string;
+  user_agent?: string;
+  created_at: Date;
+}
+
+// Roles of staff taking part in an appointment besides the booked doctor (doctor_id) and nurse (nurse_id)
+export const PARTICIPANT_ROLES = ['surgeon', 'anesthetist', 'assistant', 'hygienist', 'nurse', 'educator', 'other'] as const;
+
+export type ParticipantRole = typeof PARTICIPANT_ROLES[number];
+
+export interface IAppointmentParticipant {
+  user_id: mongoose.Types.ObjectId;
+  role: ParticipantRole;
+}
+
+export type StatusChangeSource = 'staff' | 'patient' | 'online' | 'system';
+
+// One entry of the status timeline - the first entry is the status the appointment was created with
+export interface IAppointmentStatusChange {
+  from_status?: string;
+  to_status: string;
+  changed_at: Date;
+  changed_by?: mongoose.Types.ObjectId;
+  reason?: string;
+  source: StatusChangeSource;
+}
+
+// Who and why a status changed - set on doc.$locals.status_change or the status_change query option
+export interface StatusChangeContext {
+  changed_by?: mongoose.Types.ObjectId | string;
+  reason?: string;
+  source?: StatusChangeSource;
+}
 
 export interface IAppointment extends Document {
   tenant_id: mongoose.Types.ObjectId;
@@ -6,17 +53,111 @@ export interface IAppointment extends Document {
   patient_id: mongoose.Types.ObjectId;
   doctor_id: mongoose.Types.ObjectId;
   nurse_id?: mongoose.Types.ObjectId;
+  participants: IAppointmentParticipant[]; // Further staff - each is checked for availability like the doctor
+  additional_patient_ids: mongoose.Types.ObjectId[]; // Group sessions: patients attending besides patient_id
   invoice_id?: mongoose.Types.ObjectId;
+  service_id?: mongoose.Types.ObjectId;
+  resource_ids: mongoose.Types.ObjectId[]; // Chairs, rooms and equipment allocated for the appointment
+  source: 'staff' | 'online';
+  series_id?: mongoose.Types.ObjectId;
+  series_index?: number;
   appointment_date: Date;
   duration: number;
   status: string; // Dynamic status code from AppointmentStatus collection
+  frees_slot: boolean; // Copied from the status flags - drives availability and the double-booking index
+  cancellation_reason?: string;
   type: string;
   reason?: string;
   notes: string;
+  patient_actions: IAppointmentPatientAction[];
+  status_history: IAppointmentStatusChange[];
   created_at: Date;
   updated_at: Date;
+  isUpcoming(): Promise<boolean>;
+  canBeCancelled(): Promise<boolean>;
 }
 
+const PatientActionSchema = new Schema({
+  action: {
+    type: String,
+    enum: ['confirm', 'cancel', 'reschedule'],
+    required: true
+  },
+  // JWT id of the link used - each action link works once
+  token_id: {
+    type: String,
+    required: true
+  },
+  from_status: {
+    type: String,
+    required: true
+  },
+  to_status: {
+    type: String,
+    required: true
+  },
+  previous_date: {
+    type: Date
+  },
+  new_date: {
+    type: Date
+  },
+  ip: {
+    type: String
+  },
+  user_agent: {
+    type: String
+  },
+  created_at: {
+    type: Date,
+    default: Date.now
+  }
+}, { _id: false });
+
+const ParticipantSchema = new Schema({
+  user_id: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'Participant user ID is required']
+  },
+  role: {
+    type: String,
+    enum: PARTICIPANT_ROLES,
+    required: [true, 'Participant role is required']
+  }
+}, { _id: false });
+
+const StatusChangeSchema = new Schema({
+  from_status: {
+    type: String
+  },
+  to_status: {
+    type: String,
+    required: true
+  },
+  changed_at: {
+    type: Date,
+    default: Date.now
+  },
+  changed_by: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  reason: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'Status change reason cannot exceed 500 characters']
+  },
+  source: {
+    type: String,
+    enum: ['staff', 'patient', 'online', 'system'],
+    default: 'system'
+  }
+}, { _id: false });
+
+// Largest group session (besides the booking patient)
+export const MAX_GROUP_PATIENTS = 50;
+
 const AppointmentSchema: Schema = new Schema({
   tenant_id: {
     type: Schema.Types.ObjectId,
@@ -43,6 +184,28 @@ const AppointmentSchema: Schema = new Schema({
   type: Schema.Types.ObjectId,
   ref: 'Invoice'
 },
+  service_id: {
+    type: Schema.Types.ObjectId,
+    ref: 'Service'
+  },
+  resource_ids: {
+    type: [{ type: Schema.Types.ObjectId, ref: 'Resource' }],
+    default: []
+  },
+  // Where the booking came from - online bookings arrive through the public booking API
+  source: {
+    type: String,
+    enum: ['staff', 'online'],
+    default: 'staff'
+  },
+  series_id: {
+    type: Schema.Types.ObjectId,
+    ref: 'AppointmentSeries'
+  },
+  series_index: {
+    type: Number,
+    min: 0
+  },
   nurse_id: {
     type: Schema.Types.ObjectId,
     ref: 'User',
@@ -57,16 +220,36 @@ const AppointmentSchema: Schema = new Schema({
       message: 'Selected user must be a nurse'
     }
   },
+  participants: {
+    type: [ParticipantSchema],
+    default: [],
+    validate: {
+      validator: (participants: IAppointmentParticipant[]) =>
+        new Set(participants.map(participant => String(participant.user_id))).size === participants.length,
+      message: 'A staff member can only take part in an appointment once'
+    }
+  },
+  additional_patient_ids: {
+    type: [{ type: Schema.Types.ObjectId, ref: 'Patient' }],
+    default: [],
+    validate: {
+      validator: (patientIds: mongoose.Types.ObjectId[]) =>
+        patientIds.length <= MAX_GROUP_PATIENTS &&
+        new Set(patientIds.map(id => id.toString())).size === patientIds.length,
+      message: `A group appointment can have at most ${MAX_GROUP_PATIENTS} additional patients, each listed once`
+    }
+  },
   appointment_date: {
     type: Date,
     required: [true, 'Appointment date is required'],
     validate: {
-      validator: function(value: Date) {
+      validator: async function(this: any, value: Date) {
         // For new appointments, require future dates
         // For updates, be more flexible - allow today or future dates
-        const today = new Date();
-        today.setHours(0, 0, 0, 0); // Start of today
-        return new Date(value) >= today;
+        // "Today" starts at midnight in the clinic's timezone
+        const clinicId = this instanceof mongoose.Document ? (this as any).clinic_id : undefined;
+        const timezone = clinicId ? await TimezoneService.getClinicTimezone(clinicId) : undefined;
+        return new Date(value) >= TimezoneService.startOfDay(new Date(), timezone);
       },
       message: 'Appointment date cannot be in the past'
     }
@@ -112,6 +295,15 @@ const AppointmentSchema: Schema = new Schema({
       message: 'Status code does not exist or is not active for this clinic'
     }
   },
+  frees_slot: {
+    type: Boolean,
+    default: false
+  },
+  cancellation_reason: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'Cancellation reason cannot exceed 500 characters']
+  },
   type: {
     type: String,
     required: [true, 'Appointment type is required'],
@@ -138,6 +330,14 @@ const AppointmentSchema: Schema = new Schema({
     type: String,
     trim: true,
     maxlength: [1000, 'Notes cannot exceed 1000 characters']
+  },
+  patient_actions: {
+    type: [PatientActionSchema],
+    default: []
+  },
+  status_history: {
+    type: [StatusChangeSchema],
+    default: []
   }
 }, {
   timestamps: { createdAt: 'created_at', updatedAt: 'updated_at' }
@@ -150,18 +350,157 @@ AppointmentSchema.index({ tenant_id: 1, clinic_id: 1, appointment_date: 1 });
 AppointmentSchema.index({ tenant_id: 1, clinic_id: 1, patient_id: 1, appointment_date: 1 });
 AppointmentSchema.index({ tenant_id: 1, clinic_id: 1, appointment_date: 1, status: 1 });
 AppointmentSchema.index({ tenant_id: 1, clinic_id: 1, nurse_id: 1, appointment_date: 1 });
+AppointmentSchema.index({ tenant_id: 1, series_id: 1, series_index: 1 });
+AppointmentSchema.index({ 'patient_actions.token_id': 1 }, { sparse: true });
+AppointmentSchema.index({ tenant_id: 1, clinic_id: 1, service_id: 1, appointment_date: 1 });
+AppointmentSchema.index({ tenant_id: 1, clinic_id: 1, resource_ids: 1, appointment_date: 1 });
+AppointmentSchema.index({ tenant_id: 1, clinic_id: 1, 'participants.user_id': 1, appointment_date: 1 });
+AppointmentSchema.index({ tenant_id: 1, clinic_id: 1, additional_patient_ids: 1, appointment_date: 1 });
 
 // Prevent double booking - same doctor at the same time within same tenant/clinic
 AppointmentSchema.index(
   { tenant_id: 1, clinic_id: 1, doctor_id: 1, appointment_date: 1 },
-  { 
+  {
     unique: true,
-    partialFilterExpression: { 
-      status: { $nin: ['cancelled', 'no-show'] } 
+    name: 'unique_doctor_slot',
+    partialFilterExpression: {
+      frees_slot: false
     }
   }
 );
 
+const getStatusFlags = async (tenant_id: any, clinic_id: any, code: string) => {
+  const AppointmentStatus = mongoose.model('AppointmentStatus');
+  const statusConfig = await AppointmentStatus.findOne({ tenant_id, clinic_id, code }).lean();
+  return resolveStatusFlags(code, statusConfig as any);
+};
+
+const buildStatusChange = (from: string | undefined, to: string, context: StatusChangeContext = {}): IAppointmentStatusChange => ({
+  from_status: from,
+  to_status: to,
+  changed_at: new Date(),
+  changed_by: context.changed_by ? new mongoose.Types.ObjectId(context.changed_by.toString()) : undefined,
+  reason: context.reason,
+  source: context.source || 'system'
+});
+
+// Remember the stored status so a save can tell where it moved from
+AppointmentSchema.post('init', function(this: IAppointment) {
+  this.$locals.loaded_status = this.status;
+});
+
+// Keep frees_slot in step with the status on every write that can change it, and record the change
+AppointmentSchema.pre('save', async function(this: IAppointment, next) {
+  try {
+    if (this.isNew || this.isModified('status')) {
+      this.frees_slot = (await getStatusFlags(this.tenant_id, this.clinic_id, this.status)).frees_slot;
+
+      const from = this.isNew ? undefined : this.$locals.loaded_status as string | undefined;
+      if (from !== this.status) {
+        this.status_history.push(buildStatusChange(from, this.status, this.$locals.status_change as StatusChangeContext));
+      }
+      this.$locals.loaded_status = this.status;
+    }
+    next();
+  } catch (error: any) {
+    next(error);
+  }
+});
+
+AppointmentSchema.pre(['findOneAndUpdate', 'updateOne', 'updateMany'], async function(next) {
+  try {
+    const update: any = this.getUpdate() || {};
+    const status = update.status ?? update.$set?.status;
+    if (!status) return next();
+
+    // Updates only ever target one clinic's appointments, so any matched document gives the status scope
+    const target: any = await this.model.findOne(this.getQuery()).select('tenant_id clinic_id status').lean();
+    if (target) {
+      const { frees_slot } = await getStatusFlags(target.tenant_id, target.clinic_id, status);
+      if (update.$set) {
+        update.$set.frees_slot = frees_slot;
+      } else {
+        update.frees_slot = frees_slot;
+      }
+
+      // Single-document updates record the change; bulk updates leave the history alone
+      if ((this as any).op !== 'updateMany' && target.status !== status) {
+        const entry = buildStatusChange(target.status, status, this.getOptions().status_change);
+        update.$push = { ...(update.$push || {}), status_history: entry };
+      }
+      this.setUpdate(update);
+    }
+    next();
+  } catch (error: any) {
+    next(error);
+  }
+});
+
+const getVisitStage = async (tenant_id: any, clinic_id: any, code: string): Promise<VisitStage | null> => {
+  const AppointmentStatus = mongoose.model('AppointmentStatus');
+  const statusConfig = await AppointmentStatus.findOne({ tenant_id, clinic_id, code }).select('visit_stage').lean();
+  return resolveVisitStage(code, statusConfig as any);
+};
+
+// Real-time events for front desk and doctor screens
+onDocumentWrite(AppointmentSchema, ['status'], async (appointment, before) => {
+  const scope = { tenant_id: appointment.tenant_id, clinic_id: appointment.clinic_id };
+  const staff = [
+    appointment.doctor_id,
+    appointment.nurse_id,
+    ...(appointment.participants || []).map((participant: IAppointmentParticipant) => participant.user_id)
+  ];
+  const data = {
+    appointment_id: appointment._id,
+    patient_id: appointment.patient_id,
+    doctor_id: appointment.doctor_id,
+    appointment_date: appointment.appointment_date,
+    duration: appointment.duration,
+    status: appointment.status
+  };
+
+  if (!before) {
+    DomainEventService.publish('appointment.created', scope, data, staff);
+    return;
+  }
+
+  if (before.status === appointment.status) {
+    DomainEventService.publish('appointment.updated', scope, data, staff);
+    return;
+  }
+
+  const change: IAppointmentStatusChange | undefined = appointment.status_history?.[appointment.status_history.length - 1];
+  DomainEventService.publish('appointment.status_changed', scope, {
+    ...data,
+    from_status: before.status,
+    changed_by: change?.changed_by,
+    source: change?.source
+  }, staff);
+
+  // Checked in: the visit got its first stage - the waiting room, or the chair where there is no waiting stage
+  const [fromStage, toStage] = await Promise.all([
+    getVisitStage(appointment.tenant_id, appointment.clinic_id, before.status),
+    getVisitStage(appointment.tenant_id, appointment.clinic_id, appointment.status)
+  ]);
+  if (!fromStage && (toStage === 'arrived' || toStage === 'in_chair')) {
+    DomainEventService.publish('patient.checked_in', scope, data, staff);
+  }
+});
+
+/**
+ * Filter matching appointments a staff member takes part in - as the doctor, the nurse or another participant
+ */
+export const staffMemberFilter = (user_id: string | mongoose.Types.ObjectId) => ({
+  $or: [{ doctor_id: user_id }, { nurse_id: user_id }, { 'participants.user_id': user_id }]
+});
+
+/**
+ * Filter matching appointments a patient attends, alone or as part of a group
+ */
+export const attendingPatientFilter = (patient_id: string | mongoose.Types.ObjectId) => ({
+  $or: [{ patient_id }, { additional_patient_ids: patient_id }]
+});
+
 // Virtual to calculate end time
 AppointmentSchema.virtual('end_time').get(function() {
   const appointmentDate = this.appointment_date as Date;
@@ -179,9 +518,8 @@ AppointmentSchema.methods.isUpcoming = async function(this: IAppointment) {
     is_active: true
   });
   
-  // Check if status is cancelled (fallback to hard-coded check if status config doesn't exist)
-  const isCancelled = statusConfig ? statusConfig.code === 'cancelled' : this.status === 'cancelled';
-  return this.appointment_date > new Date() && !isCancelled;
+  const flags = resolveStatusFlags(this.status, statusConfig);
+  return this.appointment_date > new Date() && !flags.counts_as_cancelled && !flags.frees_slot;
 };
 
 // Method to check if appointment can be cancelled
@@ -191,7 +529,10 @@ AppointmentSchema.methods.canBeCancelled = async function(this: IAppointment) {
   const timeDiff = appointmentTime.getTime() - now.getTime();
   const hoursDiff = timeDiff / (1000 * 3600);
   
-  // Check if status allows cancellation (scheduled or confirmed)
+  if (hoursDiff < 24) {
+    return false;
+  }
+
   const AppointmentStatus = mongoose.model('AppointmentStatus');
   const statusConfig = await AppointmentStatus.findOne({
     tenant_id: this.tenant_id,
@@ -199,10 +540,30 @@ AppointmentSchema.methods.canBeCancelled = async function(this: IAppointment) {
     code: this.status,
     is_active: true
   });
-  
-  // Allow cancellation for scheduled/confirmed statuses or if status config doesn't exist (fallback)
-  const cancellableStatuses = ['scheduled', 'confirmed'];
-  return hoursDiff >= 24 && (cancellableStatuses.includes(this.status) || !statusConfig);
+
+  // Unknown status (fallback) - nothing in the workflow forbids cancelling
+  if (!statusConfig) {
+    return true;
+  }
+
+  const flags = resolveStatusFlags(this.status, statusConfig);
+  if (flags.is_terminal || flags.counts_as_cancelled || flags.frees_slot) {
+    return false;
+  }
+
+  if (statusConfig.transitions.length === 0) {
+    return true;
+  }
+
+  // The workflow must lead from here to a cancelled status
+  const targets = await AppointmentStatus.find({
+    tenant_id: this.tenant_id,
+    clinic_id: this.clinic_id,
+    code: { $in: statusConfig.transitions.map((transition: any) => transition.to) },
+    is_active: true
+  });
+
+  return targets.some((target: any) => resolveStatusFlags(target.code, target).counts_as_cancelled);
 };
 
 export default mongoose.model<IAppointment>('Appointment', AppointmentSchema); 
\ No newline at end of file
@@ -0,0 +1,155 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { IAppointmentParticipant, PARTICIPANT_ROLES } from './Appointment';
+
+export interface IRecurrenceRule {
+  frequency: 'daily' | 'weekly' | 'monthly';
+  interval: number;
+  count?: number;
+  until?: Date;
+  weekdays?: number[];
+  rrule: string;
+}
+
+export interface IAppointmentSeries extends Document {
+  tenant_id: mongoose.Types.ObjectId;
+  clinic_id: mongoose.Types.ObjectId;
+  patient_id: mongoose.Types.ObjectId;
+  doctor_id: mongoose.Types.ObjectId;
+  nurse_id?: mongoose.Types.ObjectId;
+  participants: IAppointmentParticipant[];
+  additional_patient_ids: mongoose.Types.ObjectId[];
+  parent_series_id?: mongoose.Types.ObjectId; // Set when a series is split by "this and following" edits
+  start_date: Date;
+  duration: number;
+  type: string;
+  reason?: string;
+  notes?: string;
+  recurrence: IRecurrenceRule;
+  status: 'active' | 'cancelled';
+  created_by?: mongoose.Types.ObjectId;
+  created_at: Date;
+  updated_at: Date;
+}
+
+const RecurrenceRuleSchema = new Schema({
+  frequency: {
+    type: String,
+    required: [true, 'Recurrence frequency is required'],
+    enum: ['daily', 'weekly', 'monthly']
+  },
+  interval: {
+    type: Number,
+    required: true,
+    min: [1, 'Recurrence interval must be at least 1'],
+    max: [52, 'Recurrence interval cannot exceed 52'],
+    default: 1
+  },
+  count: {
+    type: Number,
+    min: [1, 'Recurrence count must be at least 1']
+  },
+  until: {
+    type: Date
+  },
+  weekdays: [{
+    type: Number,
+    min: 0,
+    max: 6
+  }],
+  rrule: {
+    type: String,
+    required: true,
+    trim: true
+  }
+}, { _id: false });
+
+const AppointmentSeriesSchema: Schema = new Schema({
+  tenant_id: {
+    type: Schema.Types.ObjectId,
+    ref: 'Tenant',
+    required: [true, 'Tenant ID is required'],
+    index: true
+  },
+  clinic_id: {
+    type: Schema.Types.ObjectId,
+    ref: 'Clinic',
+    required: [true, 'Clinic ID is required']
+  },
+  patient_id: {
+    type: Schema.Types.ObjectId,
+    ref: 'Patient',
+    required: [true, 'Patient ID is required']
+  },
+  doctor_id: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'Doctor ID is required']
+  },
+  nurse_id: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  participants: {
+    type: [{
+      _id: false,
+      user_id: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+      role: { type: String, enum: PARTICIPANT_ROLES, required: true }
+    }],
+    default: []
+  },
+  additional_patient_ids: {
+    type: [{ type: Schema.Types.ObjectId, ref: 'Patient' }],
+    default: []
+  },
+  parent_series_id: {
+    type: Schema.Types.ObjectId,
+    ref: 'AppointmentSeries'
+  },
+  start_date: {
+    type: Date,
+    required: [true, 'Series start date is required']
+  },
+  duration: {
+    type: Number,
+    required: [true, 'Appointment duration is required'],
+    min: [15, 'Appointment duration must be at least 15 minutes'],
+    max: [240, 'Appointment duration cannot exceed 4 hours'],
+    default: 30
+  },
+  type: {
+    type: String,
+    required: [true, 'Appointment type is required'],
+    trim: true
+  },
+  reason: {
+    type: String,
+    trim: true,
+    maxlength: [200, 'Reason cannot exceed 200 characters']
+  },
+  notes: {
+    type: String,
+    trim: true,
+    maxlength: [1000, 'Notes cannot exceed 1000 characters']
+  },
+  recurrence: {
+    type: RecurrenceRuleSchema,
+    required: [true, 'Recurrence rule is required']
+  },
+  status: {
+    type: String,
+    enum: ['active', 'cancelled'],
+    default: 'active'
+  },
+  created_by: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  }
+}, {
+  timestamps: { createdAt: 'created_at', updatedAt: 'updated_at' }
+});
+
+AppointmentSeriesSchema.index({ tenant_id: 1, clinic_id: 1 });
+AppointmentSeriesSchema.index({ tenant_id: 1, clinic_id: 1, patient_id: 1 });
+AppointmentSeriesSchema.index({ tenant_id: 1, clinic_id: 1, doctor_id: 1, status: 1 });
+
+export default mongoose.model<IAppointmentSeries>('AppointmentSeries', AppointmentSeriesSchema);
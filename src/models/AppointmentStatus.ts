@@ -1,5 +1,41 @@
 import mongoose, { Document, Schema } from 'mongoose';
 
+export type TransitionRequiredField = 'cancellation_reason' | 'notes' | 'reason';
+
+export const TRANSITION_REQUIRED_FIELDS: TransitionRequiredField[] = ['cancellation_reason', 'notes', 'reason'];
+
+// Allowed move from the owning status to another status code of the same clinic
+export interface IStatusTransition {
+  to: string;
+  roles: string[]; // Empty - any role
+  permission?: string; // e.g. 'appointments.cancel'
+  required_fields: TransitionRequiredField[];
+}
+
+// Point of the visit a status marks, used for wait and chair time
+export type VisitStage = 'arrived' | 'in_chair' | 'finished';
+
+export const VISIT_STAGES: VisitStage[] = ['arrived', 'in_chair', 'finished'];
+
+export interface StatusFlags {
+  is_terminal: boolean; // No transitions out of this status
+  counts_as_cancelled: boolean;
+  frees_slot: boolean; // The doctor's time is bookable again
+  is_billable: boolean;
+}
+
+// Semantics of the built-in codes, used while a status has no flags of its own (clinics created before the workflow)
+export const LEGACY_STATUS_FLAGS: Record<string, Partial<StatusFlags>> = {
+  completed: { is_terminal: true, is_billable: true },
+  cancelled: { counts_as_cancelled: true, frees_slot: true },
+  'no-show': { frees_slot: true }
+};
+
+export const LEGACY_VISIT_STAGES: Record<string, VisitStage> = {
+  'in-progress': 'in_chair',
+  completed: 'finished'
+};
+
 export interface IAppointmentStatus extends Document {
   tenant_id: mongoose.Types.ObjectId;
   clinic_id: mongoose.Types.ObjectId;
@@ -12,11 +48,40 @@ export interface IAppointmentStatus extends Document {
   show_in_calendar: boolean; // Whether to show appointments with this status in calendar
   is_active: boolean;
   is_default: boolean; // Default status for new appointments
+  is_terminal?: boolean;
+  counts_as_cancelled?: boolean;
+  frees_slot?: boolean;
+  is_billable?: boolean;
+  transitions: IStatusTransition[]; // Empty - any status can follow unless terminal
+  visit_stage?: VisitStage | null; // null - explicitly not a visit stage
   description?: string;
   created_at: Date;
   updated_at: Date;
 }
 
+const StatusTransitionSchema = new Schema({
+  to: {
+    type: String,
+    required: [true, 'Transition target status is required'],
+    trim: true,
+    lowercase: true
+  },
+  roles: {
+    type: [String],
+    enum: ['super_admin', 'admin', 'doctor', 'nurse', 'receptionist', 'accountant', 'staff'],
+    default: []
+  },
+  permission: {
+    type: String,
+    trim: true
+  },
+  required_fields: {
+    type: [String],
+    enum: TRANSITION_REQUIRED_FIELDS,
+    default: []
+  }
+}, { _id: false });
+
 const AppointmentStatusSchema: Schema = new Schema({
   tenant_id: {
     type: Schema.Types.ObjectId,
@@ -78,6 +143,27 @@ const AppointmentStatusSchema: Schema = new Schema({
     type: Boolean,
     default: false
   },
+  // Semantic flags - left unset on statuses created before the workflow, see resolveStatusFlags
+  is_terminal: {
+    type: Boolean
+  },
+  counts_as_cancelled: {
+    type: Boolean
+  },
+  frees_slot: {
+    type: Boolean
+  },
+  is_billable: {
+    type: Boolean
+  },
+  transitions: {
+    type: [StatusTransitionSchema],
+    default: []
+  },
+  visit_stage: {
+    type: String,
+    enum: [...VISIT_STAGES, null]
+  },
   description: {
     type: String,
     trim: true,
@@ -99,5 +185,25 @@ AppointmentStatusSchema.index(
   { unique: true, name: 'unique_status_code_per_clinic' }
 );
 
+/**
+ * Effective flags of a status code, falling back to the built-in semantics for unset flags
+ */
+export const resolveStatusFlags = (code: string, status?: Partial<StatusFlags> | null): StatusFlags => {
+  const legacy = LEGACY_STATUS_FLAGS[code] || {};
+  return {
+    is_terminal: status?.is_terminal ?? legacy.is_terminal ?? false,
+    counts_as_cancelled: status?.counts_as_cancelled ?? legacy.counts_as_cancelled ?? false,
+    frees_slot: status?.frees_slot ?? legacy.frees_slot ?? false,
+    is_billable: status?.is_billable ?? legacy.is_billable ?? false
+  };
+};
+
+/**
+ * Visit stage of a status code, falling back to the built-in codes while unset
+ */
+export const resolveVisitStage = (code: string, status?: { visit_stage?: VisitStage | null } | null): VisitStage | null => {
+  return status && status.visit_stage !== undefined ? status.visit_stage : LEGACY_VISIT_STAGES[code] || null;
+};
+
 export default mongoose.model<IAppointmentStatus>('AppointmentStatus', AppointmentStatusSchema);
 
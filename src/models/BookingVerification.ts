@@ -0,0 +1,71 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface IBookingVerification extends Document {
+  tenant_id: mongoose.Types.ObjectId;
+  clinic_id: mongoose.Types.ObjectId;
+  channel: 'sms' | 'email';
+  destination: string; // Phone number or email address the code was sent to
+  code_hash: string;
+  expires_at: Date;
+  attempts: number;
+  verified_at?: Date;
+  consumed_at?: Date; // Set once the verification has been used for a booking
+  ip?: string;
+  created_at: Date;
+  updated_at: Date;
+}
+
+const BookingVerificationSchema: Schema = new Schema({
+  tenant_id: {
+    type: Schema.Types.ObjectId,
+    ref: 'Tenant',
+    required: [true, 'Tenant ID is required'],
+    index: true
+  },
+  clinic_id: {
+    type: Schema.Types.ObjectId,
+    ref: 'Clinic',
+    required: [true, 'Clinic ID is required']
+  },
+  channel: {
+    type: String,
+    enum: ['sms', 'email'],
+    required: [true, 'Channel is required']
+  },
+  destination: {
+    type: String,
+    required: [true, 'Destination is required'],
+    trim: true,
+    lowercase: true
+  },
+  code_hash: {
+    type: String,
+    required: true
+  },
+  expires_at: {
+    type: Date,
+    required: true
+  },
+  attempts: {
+    type: Number,
+    default: 0,
+    min: 0
+  },
+  verified_at: {
+    type: Date
+  },
+  consumed_at: {
+    type: Date
+  },
+  ip: {
+    type: String
+  }
+}, {
+  timestamps: { createdAt: 'created_at', updatedAt: 'updated_at' }
+});
+
+BookingVerificationSchema.index({ tenant_id: 1, destination: 1, created_at: -1 });
+// Drop verification records a day after they expire
+BookingVerificationSchema.index({ expires_at: 1 }, { expireAfterSeconds: 24 * 60 * 60 });
+
+export default mongoose.model<IBookingVerification>('BookingVerification', BookingVerificationSchema);
@@ -1,5 +1,15 @@
 import mongoose, { Document, Schema, Types } from 'mongoose';
 
+export type MrnScope = 'clinic' | 'tenant';
+
+// How medical record numbers are generated for new patients (see MrnService)
+export interface IMrnSettings {
+  scope: MrnScope; // Separate numbering per clinic, or one sequence shared by every clinic of the tenant
+  pattern: string; // Tokens: {prefix}, {clinic}, {yyyy}, {yy}, {seq} - numbering restarts yearly when the year is used
+  prefix: string;
+  padding: number; // Minimum digits of {seq}
+}
+
 export interface IClinic extends Document {
   _id: Types.ObjectId;
   tenant_id: Types.ObjectId;
@@ -33,6 +43,7 @@ export interface IClinic extends Document {
       saturday: { start: string; end: string; isWorking: boolean; };
       sunday: { start: string; end: string; isWorking: boolean; };
     };
+    mrn: IMrnSettings;
   };
   is_active: boolean;
   created_at: Date;
@@ -69,6 +80,37 @@ const WorkingHoursSchema = new Schema({
   sunday: { type: DayScheduleSchema, default: { start: "00:00", end: "00:00", isWorking: false } }
 }, { _id: false });
 
+const MrnSettingsSchema = new Schema({
+  scope: {
+    type: String,
+    enum: ['clinic', 'tenant'],
+    default: 'clinic'
+  },
+  pattern: {
+    type: String,
+    trim: true,
+    default: '{clinic}-{seq}',
+    maxlength: [50, 'MRN pattern cannot exceed 50 characters'],
+    validate: {
+      validator: (value: string) => value.includes('{seq}'),
+      message: 'MRN pattern must contain {seq}'
+    }
+  },
+  prefix: {
+    type: String,
+    trim: true,
+    uppercase: true,
+    default: 'MRN',
+    maxlength: [10, 'MRN prefix cannot exceed 10 characters']
+  },
+  padding: {
+    type: Number,
+    default: 6,
+    min: [1, 'MRN padding must be at least 1'],
+    max: [12, 'MRN padding cannot exceed 12']
+  }
+}, { _id: false });
+
 const ClinicSchema: Schema = new Schema({
   tenant_id: {
     type: Schema.Types.ObjectId,
@@ -203,6 +245,10 @@ const ClinicSchema: Schema = new Schema({
       type: WorkingHoursSchema,
       required: true,
       default: () => ({})
+    },
+    mrn: {
+      type: MrnSettingsSchema,
+      default: () => ({})
     }
   },
   is_active: {
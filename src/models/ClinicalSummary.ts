@@ -0,0 +1,210 @@
+import { Schema, Types } from 'mongoose';
+
+export const ALLERGY_CATEGORIES = ['drug', 'food', 'environmental', 'other'] as const;
+export const ALLERGY_SEVERITIES = ['mild', 'moderate', 'severe'] as const;
+export const SMOKING_STATUSES = ['never', 'former', 'current', 'unknown'] as const;
+export const PREGNANCY_STATUSES = ['not_applicable', 'not_pregnant', 'pregnant', 'breastfeeding', 'unknown'] as const;
+
+export type AllergyCategory = typeof ALLERGY_CATEGORIES[number];
+export type AllergySeverity = typeof ALLERGY_SEVERITIES[number];
+export type SmokingStatus = typeof SMOKING_STATUSES[number];
+export type PregnancyStatus = typeof PREGNANCY_STATUSES[number];
+
+// Where an entry came from - entered on the summary, or picked up from a visit or prescription
+export type ClinicalEntrySource = 'manual' | 'medical_record' | 'prescription';
+
+interface IClinicalEntry {
+  _id: Types.ObjectId;
+  source: ClinicalEntrySource;
+  recorded_by?: Types.ObjectId;
+  recorded_at: Date;
+}
+
+export interface IPatientAllergy extends IClinicalEntry {
+  allergen: string;
+  category: AllergyCategory;
+  severity: AllergySeverity;
+  reaction?: string;
+  status: 'active' | 'inactive'; // Inactive - refuted or outgrown, kept for the history
+}
+
+export interface IPatientCondition extends IClinicalEntry {
+  name: string;
+  code?: string; // e.g. ICD-10
+  status: 'active' | 'resolved';
+  onset_date?: Date;
+  notes?: string;
+}
+
+export interface IPatientMedication extends IClinicalEntry {
+  name: string;
+  dosage?: string;
+  frequency?: string;
+  status: 'active' | 'stopped';
+  started_at?: Date;
+  stopped_at?: Date;
+  prescription_id?: Types.ObjectId;
+  notes?: string;
+}
+
+/**
+ * What every prescriber should know about a patient, kept up to date across visits
+ */
+export interface IClinicalSummary {
+  allergies: IPatientAllergy[];
+  conditions: IPatientCondition[];
+  medications: IPatientMedication[];
+  smoking_status: SmokingStatus;
+  pregnancy_status: PregnancyStatus;
+  pregnancy_due_date?: Date;
+  reviewed_at?: Date; // Last time the whole summary was confirmed with the patient
+  reviewed_by?: Types.ObjectId;
+}
+
+const entryFields = {
+  source: {
+    type: String,
+    enum: ['manual', 'medical_record', 'prescription'],
+    default: 'manual'
+  },
+  recorded_by: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  recorded_at: {
+    type: Date,
+    default: Date.now
+  }
+};
+
+const AllergySchema = new Schema({
+  allergen: {
+    type: String,
+    required: [true, 'Allergen is required'],
+    trim: true,
+    maxlength: [100, 'Allergen cannot exceed 100 characters']
+  },
+  category: {
+    type: String,
+    enum: ALLERGY_CATEGORIES,
+    default: 'drug'
+  },
+  severity: {
+    type: String,
+    enum: ALLERGY_SEVERITIES,
+    required: [true, 'Allergy severity is required']
+  },
+  reaction: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'Reaction cannot exceed 500 characters']
+  },
+  status: {
+    type: String,
+    enum: ['active', 'inactive'],
+    default: 'active'
+  },
+  ...entryFields
+});
+
+const ConditionSchema = new Schema({
+  name: {
+    type: String,
+    required: [true, 'Condition name is required'],
+    trim: true,
+    maxlength: [200, 'Condition name cannot exceed 200 characters']
+  },
+  code: {
+    type: String,
+    trim: true,
+    uppercase: true,
+    maxlength: [20, 'Condition code cannot exceed 20 characters']
+  },
+  status: {
+    type: String,
+    enum: ['active', 'resolved'],
+    default: 'active'
+  },
+  onset_date: {
+    type: Date
+  },
+  notes: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'Notes cannot exceed 500 characters']
+  },
+  ...entryFields
+});
+
+const MedicationSchema = new Schema({
+  name: {
+    type: String,
+    required: [true, 'Medication name is required'],
+    trim: true,
+    maxlength: [200, 'Medication name cannot exceed 200 characters']
+  },
+  dosage: {
+    type: String,
+    trim: true
+  },
+  frequency: {
+    type: String,
+    trim: true
+  },
+  status: {
+    type: String,
+    enum: ['active', 'stopped'],
+    default: 'active'
+  },
+  started_at: {
+    type: Date
+  },
+  stopped_at: {
+    type: Date
+  },
+  prescription_id: {
+    type: Schema.Types.ObjectId,
+    ref: 'Prescription'
+  },
+  notes: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'Notes cannot exceed 500 characters']
+  },
+  ...entryFields
+});
+
+export const ClinicalSummarySchema = new Schema({
+  allergies: {
+    type: [AllergySchema],
+    default: []
+  },
+  conditions: {
+    type: [ConditionSchema],
+    default: []
+  },
+  medications: {
+    type: [MedicationSchema],
+    default: []
+  },
+  smoking_status: {
+    type: String,
+    enum: SMOKING_STATUSES,
+    default: 'unknown'
+  },
+  pregnancy_status: {
+    type: String,
+    enum: PREGNANCY_STATUSES,
+    default: 'unknown'
+  },
+  pregnancy_due_date: {
+    type: Date
+  },
+  reviewed_at: {
+    type: Date
+  },
+  reviewed_by: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  }
+}, { _id: false });
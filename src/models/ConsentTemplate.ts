@@ -0,0 +1,106 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export const CONSENT_LANGUAGES = ['en', 'ar'] as const;
+
+export type ConsentLanguage = typeof CONSENT_LANGUAGES[number];
+
+// Text of a consent form in each language - English is required, Arabic optional
+export interface IConsentText {
+  en: string;
+  ar?: string;
+}
+
+/**
+ * One version of a clinic's consent form. Editing a form adds a version with the same code;
+ * signed consents keep pointing at the version the patient actually read.
+ */
+export interface IConsentTemplate extends Document {
+  tenant_id: mongoose.Types.ObjectId;
+  clinic_id: mongoose.Types.ObjectId;
+  code: string; // Stable key across versions, referenced by services and treatment plans (e.g. "extraction")
+  version: number;
+  title: IConsentText;
+  body: IConsentText;
+  valid_for_days?: number; // Signed consent expires after this many days; unset - valid until revoked
+  is_current: boolean; // The version new signatures use
+  is_active: boolean;
+  created_by?: mongoose.Types.ObjectId;
+  created_at: Date;
+  updated_at: Date;
+}
+
+const ConsentTextSchema = (label: string, maxlength: number) => new Schema({
+  en: {
+    type: String,
+    required: [true, `English ${label} is required`],
+    trim: true,
+    maxlength: [maxlength, `${label} cannot exceed ${maxlength} characters`]
+  },
+  ar: {
+    type: String,
+    trim: true,
+    maxlength: [maxlength, `${label} cannot exceed ${maxlength} characters`]
+  }
+}, { _id: false });
+
+const ConsentTemplateSchema: Schema = new Schema({
+  tenant_id: {
+    type: Schema.Types.ObjectId,
+    ref: 'Tenant',
+    required: [true, 'Tenant ID is required'],
+    index: true
+  },
+  clinic_id: {
+    type: Schema.Types.ObjectId,
+    ref: 'Clinic',
+    required: [true, 'Clinic ID is required']
+  },
+  code: {
+    type: String,
+    required: [true, 'Consent code is required'],
+    trim: true,
+    lowercase: true,
+    match: [/^[a-z0-9_-]+$/, 'Consent code may only contain letters, digits, dashes and underscores'],
+    maxlength: [50, 'Consent code cannot exceed 50 characters']
+  },
+  version: {
+    type: Number,
+    required: true,
+    min: 1,
+    default: 1
+  },
+  title: {
+    type: ConsentTextSchema('Title', 200),
+    required: [true, 'Title is required']
+  },
+  body: {
+    type: ConsentTextSchema('Consent text', 20000),
+    required: [true, 'Consent text is required']
+  },
+  valid_for_days: {
+    type: Number,
+    min: [1, 'Validity must be at least 1 day']
+  },
+  is_current: {
+    type: Boolean,
+    default: true
+  },
+  is_active: {
+    type: Boolean,
+    default: true
+  },
+  created_by: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  }
+}, {
+  timestamps: { createdAt: 'created_at', updatedAt: 'updated_at' }
+});
+
+ConsentTemplateSchema.index({ tenant_id: 1, clinic_id: 1, code: 1, version: 1 }, { unique: true });
+ConsentTemplateSchema.index(
+  { tenant_id: 1, clinic_id: 1, code: 1 },
+  { unique: true, name: 'one_current_consent_version', partialFilterExpression: { is_current: true } }
+);
+
+export default mongoose.model<IConsentTemplate>('ConsentTemplate', ConsentTemplateSchema);
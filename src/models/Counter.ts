@@ -0,0 +1,41 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+// Named sequence, incremented atomically so concurrent requests never get the same number
+export interface ICounter extends Document {
+  key: string; // e.g. "mrn:<tenant_id>:<clinic_id>:2025"
+  seq: number;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface ICounterModel extends mongoose.Model<ICounter> {
+  next(key: string): Promise<number>;
+}
+
+const CounterSchema: Schema = new Schema({
+  key: {
+    type: String,
+    required: [true, 'Counter key is required'],
+    unique: true
+  },
+  seq: {
+    type: Number,
+    default: 0
+  }
+}, {
+  timestamps: { createdAt: 'created_at', updatedAt: 'updated_at' }
+});
+
+/**
+ * Next value of a sequence, starting at 1
+ */
+CounterSchema.statics.next = async function(key: string): Promise<number> {
+  const counter = await this.findOneAndUpdate(
+    { key },
+    { $inc: { seq: 1 } },
+    { new: true, upsert: true, setDefaultsOnInsert: true }
+  );
+  return counter.seq;
+};
+
+export default mongoose.model<ICounter, ICounterModel>('Counter', CounterSchema);
@@ -0,0 +1,63 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export type DataKeyPurpose = 'data' | 'blind_index';
+export type DataKeyStatus = 'active' | 'retired';
+
+export const DATA_KEY_PURPOSES: DataKeyPurpose[] = ['data', 'blind_index'];
+
+/**
+ * A tenant's data encryption key, stored wrapped by a key encryption key of the KMS
+ * (see FieldEncryptionService). Retired keys stay until nothing is encrypted with them any more.
+ */
+export interface IDataKey extends Document {
+  tenant_id: mongoose.Types.ObjectId;
+  purpose: DataKeyPurpose;
+  version: number;
+  wrapped_key: string;
+  kek_id: string; // Key encryption key the data key is wrapped with
+  status: DataKeyStatus;
+  retired_at?: Date;
+  created_at: Date;
+  updated_at: Date;
+}
+
+const DataKeySchema: Schema = new Schema({
+  tenant_id: {
+    type: Schema.Types.ObjectId,
+    ref: 'Tenant',
+    required: [true, 'Tenant ID is required']
+  },
+  purpose: {
+    type: String,
+    enum: DATA_KEY_PURPOSES,
+    required: [true, 'Key purpose is required']
+  },
+  version: {
+    type: Number,
+    required: [true, 'Key version is required'],
+    min: 1
+  },
+  wrapped_key: {
+    type: String,
+    required: [true, 'Wrapped key is required']
+  },
+  kek_id: {
+    type: String,
+    required: [true, 'Key encryption key ID is required']
+  },
+  status: {
+    type: String,
+    enum: ['active', 'retired'],
+    default: 'active'
+  },
+  retired_at: {
+    type: Date
+  }
+}, {
+  timestamps: { createdAt: 'created_at', updatedAt: 'updated_at' }
+});
+
+DataKeySchema.index({ tenant_id: 1, purpose: 1, version: 1 }, { unique: true });
+DataKeySchema.index({ kek_id: 1 });
+
+export default mongoose.model<IDataKey>('DataKey', DataKeySchema);
@@ -1,4 +1,5 @@
 import mongoose, { Document, Schema } from 'mongoose';
+import { DomainEventService, onDocumentWrite } from '../utils/domainEvents';
 
 export interface IInventory extends Document {
   tenant_id: mongoose.Types.ObjectId;
@@ -181,4 +182,18 @@ InventorySchema.statics.findExpiringWithinDays = function(days: number = 30) {
   });
 };
 
+// Raised once when an item drops to its minimum, not again on every later withdrawal
+onDocumentWrite(InventorySchema, ['current_stock', 'minimum_stock'], (item, before) => {
+  const isLow = (values: any) => values.current_stock <= values.minimum_stock;
+  if (!isLow(item) || (before && isLow(before))) return;
+
+  DomainEventService.publish('inventory.low_stock', item, {
+    item_id: item._id,
+    name: item.name,
+    sku: item.sku,
+    current_stock: item.current_stock,
+    minimum_stock: item.minimum_stock
+  });
+});
+
 export default mongoose.model<IInventory, IInventoryModel>('Inventory', InventorySchema); 
\ No newline at end of file
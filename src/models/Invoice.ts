@@ -1,9 +1,11 @@
 import mongoose, { Document, Schema } from 'mongoose';
+import { ISoftDeletable, softDeletePlugin } from './softDelete';
 
-export interface IInvoice extends Document {
+export interface IInvoice extends Document, ISoftDeletable {
   tenant_id: mongoose.Types.ObjectId;
   clinic_id: mongoose.Types.ObjectId;
   patient_id: mongoose.Types.ObjectId;
+  billed_to_patient_id?: mongoose.Types.ObjectId; // Guardian or spouse paying for the patient's treatment
   appointment_id?: mongoose.Types.ObjectId;
   invoice_number: string;
   total_amount: number;
@@ -60,6 +62,10 @@ const InvoiceSchema: Schema = new Schema({
     ref: 'Patient',
     required: [true, 'Patient ID is required']
   },
+  billed_to_patient_id: {
+    type: Schema.Types.ObjectId,
+    ref: 'Patient'
+  },
   appointment_id: {
     type: Schema.Types.ObjectId,
     ref: 'Appointment'
@@ -230,6 +236,7 @@ InvoiceSchema.index({ tenant_id: 1 });
 InvoiceSchema.index({ tenant_id: 1, clinic_id: 1 });
 InvoiceSchema.index({ tenant_id: 1, clinic_id: 1, patient_id: 1, created_at: -1 });
 InvoiceSchema.index({ tenant_id: 1, clinic_id: 1, status: 1, due_date: 1 });
+InvoiceSchema.index({ tenant_id: 1, billed_to_patient_id: 1, status: 1 });
 InvoiceSchema.index({ tenant_id: 1, clinic_id: 1, created_at: -1 });
 
 // Pre-save middleware to generate invoice number and calculate totals
@@ -237,12 +244,13 @@ InvoiceSchema.pre<IInvoice>('save', async function(next) {
   // Generate invoice number if not provided
   if (!this.invoice_number) {
     const year = new Date().getFullYear();
+    // Archived invoices keep their numbers
     const count = await mongoose.model('Invoice').countDocuments({
       created_at: {
         $gte: new Date(year, 0, 1),
         $lt: new Date(year + 1, 0, 1)
       }
-    });
+    }).setOptions({ withDeleted: true });
     this.invoice_number = `INV-${year}-${String(count + 1).padStart(4, '0')}`;
   }
 
@@ -330,4 +338,7 @@ InvoiceSchema.methods.getPaymentPercentage = function(this: IInvoice): number {
   return Math.round((this.total_paid_amount / this.total_amount) * 100);
 };
 
+// Deleted records are archived (see ArchiveService)
+InvoiceSchema.plugin(softDeletePlugin);
+
 export default mongoose.model<IInvoice>('Invoice', InvoiceSchema); 
\ No newline at end of file
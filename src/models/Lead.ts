@@ -1,4 +1,5 @@
 import mongoose, { Document, Schema } from 'mongoose';
+import { searchable } from '../utils/search';
 
 export interface ILead extends Document {
   tenant_id: mongoose.Types.ObjectId;
@@ -83,13 +84,8 @@ const LeadSchema: Schema = new Schema({
   timestamps: { createdAt: 'created_at', updatedAt: 'updated_at' }
 });
 
-// Create index for better search performance
-LeadSchema.index({ 
-  firstName: 'text', 
-  lastName: 'text', 
-  email: 'text',
-  phone: 'text'
-});
+// Name and phone search (see SearchService)
+searchable(LeadSchema, { names: ['firstName', 'lastName'], phones: ['phone'], emails: ['email'] });
 
 // Index for filtering by status and source with tenant awareness
 LeadSchema.index({ tenant_id: 1 });
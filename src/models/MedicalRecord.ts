@@ -1,6 +1,8 @@
 import mongoose, { Document, Schema } from 'mongoose';
+import { encrypted } from '../utils/fieldEncryption';
+import { ISoftDeletable, softDeletePlugin } from './softDelete';
 
-export interface IMedicalRecord extends Document {
+export interface IMedicalRecord extends Document, ISoftDeletable {
   tenant_id: mongoose.Types.ObjectId;
   patient_id: mongoose.Types.ObjectId;
   doctor_id: mongoose.Types.ObjectId;
@@ -173,4 +175,15 @@ MedicalRecordSchema.index({ tenant_id: 1, patient_id: 1, visit_date: -1 });
 MedicalRecordSchema.index({ tenant_id: 1, doctor_id: 1, visit_date: -1 });
 MedicalRecordSchema.index({ tenant_id: 1, visit_date: -1 });
 
+// Deleted records are archived (see ArchiveService)
+MedicalRecordSchema.plugin(softDeletePlugin);
+
+// Visit notes are encrypted at rest
+encrypted(MedicalRecordSchema, [
+  { path: 'chief_complaint' },
+  { path: 'diagnosis' },
+  { path: 'treatment' },
+  { path: 'medications.notes' }
+]);
+
 export default mongoose.model<IMedicalRecord>('MedicalRecord', MedicalRecordSchema); 
\ No newline at end of file
@@ -0,0 +1,169 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export type NotificationChannelType = 'email' | 'sms' | 'in_app';
+export type NotificationEvent =
+  | 'appointment_booked'
+  | 'appointment_reminder'
+  | 'appointment_cancelled'
+  | 'appointment_rescheduled'
+  | 'waitlist_offer';
+export type NotificationLanguage = 'en' | 'ar';
+
+export const NOTIFICATION_CHANNELS: NotificationChannelType[] = ['email', 'sms', 'in_app'];
+export const NOTIFICATION_EVENTS: NotificationEvent[] = [
+  'appointment_booked',
+  'appointment_reminder',
+  'appointment_cancelled',
+  'appointment_rescheduled',
+  'waitlist_offer'
+];
+
+export interface INotificationAttachment {
+  filename: string;
+  content_type: string;
+  content: string;
+}
+
+export interface INotification extends Document {
+  tenant_id: mongoose.Types.ObjectId;
+  clinic_id: mongoose.Types.ObjectId;
+  channel: NotificationChannelType;
+  event: NotificationEvent;
+  patient_id?: mongoose.Types.ObjectId;
+  user_id?: mongoose.Types.ObjectId; // Staff recipient of in-app notifications
+  to?: string; // Email address or phone number for external channels
+  language: NotificationLanguage;
+  subject?: string;
+  body: string;
+  attachments: INotificationAttachment[]; // Email only, e.g. the appointment's .ics invite
+  appointment_id?: mongoose.Types.ObjectId;
+  status: 'pending' | 'sending' | 'sent' | 'failed' | 'cancelled';
+  attempts: number;
+  max_attempts: number;
+  next_attempt_at: Date;
+  last_error?: string;
+  provider_message_id?: string;
+  dedupe_key?: string; // Prevents the same reminder from being queued twice
+  sent_at?: Date;
+  read_at?: Date;
+  created_at: Date;
+  updated_at: Date;
+}
+
+const NotificationAttachmentSchema = new Schema({
+  filename: {
+    type: String,
+    required: true
+  },
+  content_type: {
+    type: String,
+    required: true
+  },
+  content: {
+    type: String,
+    required: true
+  }
+}, { _id: false });
+
+const NotificationSchema: Schema = new Schema({
+  tenant_id: {
+    type: Schema.Types.ObjectId,
+    ref: 'Tenant',
+    required: [true, 'Tenant ID is required'],
+    index: true
+  },
+  clinic_id: {
+    type: Schema.Types.ObjectId,
+    ref: 'Clinic',
+    required: [true, 'Clinic ID is required']
+  },
+  channel: {
+    type: String,
+    enum: NOTIFICATION_CHANNELS,
+    required: [true, 'Channel is required']
+  },
+  event: {
+    type: String,
+    enum: NOTIFICATION_EVENTS,
+    required: [true, 'Event is required']
+  },
+  patient_id: {
+    type: Schema.Types.ObjectId,
+    ref: 'Patient'
+  },
+  user_id: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  to: {
+    type: String,
+    trim: true
+  },
+  language: {
+    type: String,
+    enum: ['en', 'ar'],
+    default: 'en'
+  },
+  subject: {
+    type: String,
+    trim: true,
+    maxlength: [300, 'Subject cannot exceed 300 characters']
+  },
+  body: {
+    type: String,
+    required: [true, 'Body is required'],
+    maxlength: [5000, 'Body cannot exceed 5000 characters']
+  },
+  attachments: {
+    type: [NotificationAttachmentSchema],
+    default: []
+  },
+  appointment_id: {
+    type: Schema.Types.ObjectId,
+    ref: 'Appointment'
+  },
+  status: {
+    type: String,
+    enum: ['pending', 'sending', 'sent', 'failed', 'cancelled'],
+    default: 'pending'
+  },
+  attempts: {
+    type: Number,
+    default: 0,
+    min: 0
+  },
+  max_attempts: {
+    type: Number,
+    default: 5,
+    min: 1
+  },
+  next_attempt_at: {
+    type: Date,
+    default: Date.now
+  },
+  last_error: {
+    type: String
+  },
+  provider_message_id: {
+    type: String
+  },
+  dedupe_key: {
+    type: String
+  },
+  sent_at: {
+    type: Date
+  },
+  read_at: {
+    type: Date
+  }
+}, {
+  timestamps: { createdAt: 'created_at', updatedAt: 'updated_at' }
+});
+
+NotificationSchema.index({ status: 1, next_attempt_at: 1 });
+NotificationSchema.index({ tenant_id: 1, clinic_id: 1, created_at: -1 });
+NotificationSchema.index({ tenant_id: 1, user_id: 1, channel: 1, read_at: 1 });
+NotificationSchema.index({ appointment_id: 1, status: 1 });
+NotificationSchema.index({ dedupe_key: 1 }, { unique: true, sparse: true });
+
+export default mongoose.model<INotification>('Notification', NotificationSchema);
@@ -0,0 +1,71 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { NOTIFICATION_CHANNELS, NOTIFICATION_EVENTS, NotificationChannelType, NotificationEvent } from './Notification';
+
+export interface INotificationTemplate extends Document {
+  tenant_id: mongoose.Types.ObjectId;
+  clinic_id: mongoose.Types.ObjectId;
+  event: NotificationEvent;
+  channel: NotificationChannelType;
+  subject_en?: string;
+  subject_ar?: string;
+  body_en: string;
+  body_ar: string;
+  is_active: boolean;
+  created_at: Date;
+  updated_at: Date;
+}
+
+const NotificationTemplateSchema: Schema = new Schema({
+  tenant_id: {
+    type: Schema.Types.ObjectId,
+    ref: 'Tenant',
+    required: [true, 'Tenant ID is required'],
+    index: true
+  },
+  clinic_id: {
+    type: Schema.Types.ObjectId,
+    ref: 'Clinic',
+    required: [true, 'Clinic ID is required']
+  },
+  event: {
+    type: String,
+    enum: NOTIFICATION_EVENTS,
+    required: [true, 'Event is required']
+  },
+  channel: {
+    type: String,
+    enum: NOTIFICATION_CHANNELS,
+    required: [true, 'Channel is required']
+  },
+  subject_en: {
+    type: String,
+    trim: true,
+    maxlength: [300, 'English subject cannot exceed 300 characters']
+  },
+  subject_ar: {
+    type: String,
+    trim: true,
+    maxlength: [300, 'Arabic subject cannot exceed 300 characters']
+  },
+  body_en: {
+    type: String,
+    required: [true, 'English body is required'],
+    maxlength: [5000, 'English body cannot exceed 5000 characters']
+  },
+  body_ar: {
+    type: String,
+    required: [true, 'Arabic body is required'],
+    maxlength: [5000, 'Arabic body cannot exceed 5000 characters']
+  },
+  is_active: {
+    type: Boolean,
+    default: true
+  }
+}, {
+  timestamps: { createdAt: 'created_at', updatedAt: 'updated_at' }
+});
+
+// One template per event and channel in each clinic
+NotificationTemplateSchema.index({ tenant_id: 1, clinic_id: 1, event: 1, channel: 1 }, { unique: true });
+
+export default mongoose.model<INotificationTemplate>('NotificationTemplate', NotificationTemplateSchema);
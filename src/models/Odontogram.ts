@@ -60,6 +60,7 @@ export interface IToothCondition {
     planned_date?: Date;
     completed_date?: Date;
     notes?: string;
+    required_consents?: string[]; // Consent template codes needed before treating this tooth
   };
   attachments?: {
     file_name: string;
@@ -226,7 +227,13 @@ const ToothConditionSchema: Schema = new Schema({
       type: String,
       trim: true,
       maxlength: [1000, 'Treatment notes cannot exceed 1000 characters']
-    }
+    },
+    required_consents: [{
+      type: String,
+      trim: true,
+      lowercase: true,
+      maxlength: 50
+    }]
   },
   attachments: [{
     file_name: {
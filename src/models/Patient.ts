@@ -1,8 +1,47 @@
 import mongoose, { Document, Schema, Types } from 'mongoose';
+import { FieldEncryptionService, encrypted } from '../utils/fieldEncryption';
+import { MrnService } from '../utils/mrn';
+import { searchable } from '../utils/search';
+import { ClinicalSummarySchema, IClinicalSummary } from './ClinicalSummary';
+import { ISoftDeletable, softDeletePlugin } from './softDelete';
 
-export interface IPatient extends Document {
+export const PATIENT_IDENTIFIER_TYPES = ['national_id', 'insurance_member_id', 'passport', 'other'] as const;
+
+export type PatientIdentifierType = typeof PATIENT_IDENTIFIER_TYPES[number];
+
+// Identifiers that belong to one person - unique within the tenant for the same issuer (country or insurer)
+export const UNIQUE_IDENTIFIER_TYPES: PatientIdentifierType[] = ['national_id', 'insurance_member_id', 'passport'];
+
+export interface IPatientIdentifier {
+  type: PatientIdentifierType;
+  value: string; // Stored normalized - uppercase, without spaces or dashes
+  issuer?: string; // Issuing country or insurer
+  expiry_date?: Date;
+}
+
+// Identifiers are compared without the formatting people type them with
+export const normalizeIdentifierValue = (value: string): string => (value || '').toUpperCase().replace(/[\s-]/g, '');
+
+// Phone numbers are matched on their last digits, whatever formatting or country prefix they were typed with
+const PHONE_INDEX_DIGITS = 9;
+
+const normalizePhone = (phone: string): string => phone.replace(/\D/g, '').slice(-PHONE_INDEX_DIGITS);
+
+// With field encryption on, the key carries the blind index of the value instead of the value
+const getIdentifierKey = async (tenant_id: Types.ObjectId | string, identifier: IPatientIdentifier): Promise<string> => {
+  const value = normalizeIdentifierValue(await FieldEncryptionService.decrypt(identifier.value));
+  const key = FieldEncryptionService.isEnabled()
+    ? await FieldEncryptionService.blindIndex(tenant_id, 'identifiers.value', value)
+    : value;
+  return `${identifier.type}:${(identifier.issuer || '').trim().toUpperCase()}:${key}`;
+};
+
+export interface IPatient extends Document, ISoftDeletable {
   tenant_id: Types.ObjectId;
   clinic_id: Types.ObjectId;
+  mrn?: string; // Medical record number, generated from the clinic's MRN settings
+  identifiers: IPatientIdentifier[];
+  identifier_keys?: string[]; // Uniqueness keys of the unique identifiers
   first_name: string;
   last_name?: string;
   date_of_birth?: Date;
@@ -23,12 +62,36 @@ export interface IPatient extends Document {
     expiry_date?: Date;
   };
   last_visit?: Date;
+  responsible_party_id?: Types.ObjectId; // Guardian or spouse who signs consent and is billed (see PatientRelationship)
+  clinical_summary: IClinicalSummary; // Current allergies, conditions and medications (see ClinicalSummaryService)
   age: number; // Virtual property
   full_name: string; // Virtual property
   created_at: Date;
   updated_at: Date;
 }
 
+const PatientIdentifierSchema = new Schema({
+  type: {
+    type: String,
+    enum: PATIENT_IDENTIFIER_TYPES,
+    required: [true, 'Identifier type is required']
+  },
+  value: {
+    type: String,
+    required: [true, 'Identifier value is required'],
+    set: normalizeIdentifierValue,
+    maxlength: [50, 'Identifier cannot exceed 50 characters']
+  },
+  issuer: {
+    type: String,
+    trim: true,
+    maxlength: [100, 'Issuer cannot exceed 100 characters']
+  },
+  expiry_date: {
+    type: Date
+  }
+}, { _id: false });
+
 const PatientSchema: Schema = new Schema({
   tenant_id: {
     type: Schema.Types.ObjectId,
@@ -41,6 +104,27 @@ const PatientSchema: Schema = new Schema({
     ref: 'Clinic',
     required: [true, 'Clinic ID is required']
   },
+  mrn: {
+    type: String,
+    trim: true,
+    uppercase: true,
+    maxlength: [50, 'MRN cannot exceed 50 characters']
+  },
+  identifiers: {
+    type: [PatientIdentifierSchema],
+    default: [],
+    validate: {
+      validator: (identifiers: IPatientIdentifier[]) => {
+        const keys = identifiers.map(identifier => `${identifier.type}:${(identifier.issuer || '').trim().toUpperCase()}`);
+        return new Set(keys).size === keys.length;
+      },
+      message: 'A patient can only have one identifier of each type per issuer'
+    }
+  },
+  identifier_keys: {
+    type: [String],
+    select: false
+  },
   first_name: {
     type: String,
     required: [true, 'First name is required'],
@@ -134,6 +218,14 @@ const PatientSchema: Schema = new Schema({
     message: "Last Visit Date cannot be in the future",
   },
 
+  },
+  responsible_party_id: {
+    type: Schema.Types.ObjectId,
+    ref: 'Patient'
+  },
+  clinical_summary: {
+    type: ClinicalSummarySchema,
+    default: () => ({})
   }
 }, {
   timestamps: { createdAt: 'created_at', updatedAt: 'updated_at' }
@@ -145,12 +237,67 @@ PatientSchema.index({ tenant_id: 1, clinic_id: 1 });
 PatientSchema.index({ tenant_id: 1, clinic_id: 1, created_at: -1 });
 PatientSchema.index({ tenant_id: 1, clinic_id: 1, email: 1 });
 PatientSchema.index({ tenant_id: 1, clinic_id: 1, phone: 1 });
-PatientSchema.index({ 
-  tenant_id: 1,
-  first_name: 'text', 
-  last_name: 'text', 
-  email: 'text',
-  phone: 'text'
+
+// Name and phone search (see SearchService)
+searchable(PatientSchema, { names: ['first_name', 'last_name'], phones: ['phone'], emails: ['email'] });
+
+// Deleted patients are archived (see ArchiveService)
+PatientSchema.plugin(softDeletePlugin);
+
+PatientSchema.index(
+  { tenant_id: 1, mrn: 1 },
+  { unique: true, name: 'unique_patient_mrn', partialFilterExpression: { mrn: { $type: 'string' } } }
+);
+PatientSchema.index(
+  { tenant_id: 1, identifier_keys: 1 },
+  { unique: true, name: 'unique_patient_identifier', partialFilterExpression: { identifier_keys: { $type: 'string' } } }
+);
+PatientSchema.index({ tenant_id: 1, 'identifiers.value': 1 });
+
+export const getIdentifierKeys = (tenant_id: Types.ObjectId | string, identifiers: IPatientIdentifier[] = []): Promise<string[]> =>
+  Promise.all(identifiers
+    .filter(identifier => UNIQUE_IDENTIFIER_TYPES.includes(identifier.type))
+    .map(identifier => getIdentifierKey(tenant_id, identifier)));
+
+// Keep the uniqueness keys in step with the identifiers
+PatientSchema.pre('validate', async function(this: IPatient) {
+  if (this.isNew || this.isModified('identifiers')) {
+    this.identifier_keys = await getIdentifierKeys(this.tenant_id, this.identifiers);
+  }
+});
+
+PatientSchema.pre(['findOneAndUpdate', 'updateOne'], async function() {
+  const update: any = this.getUpdate() || {};
+  const target = update.$set?.identifiers !== undefined ? update.$set : update.identifiers !== undefined ? update : null;
+  if (target) {
+    const tenant_id = FieldEncryptionService.isEnabled() ? await FieldEncryptionService.getUpdateTenant(this, update) : '';
+    target.identifier_keys = await getIdentifierKeys(tenant_id, target.identifiers || []);
+    this.setUpdate(update);
+  }
+});
+
+// National IDs, phone numbers and policy numbers are encrypted at rest. Applied after the hooks
+// above, which read the plaintext.
+encrypted(PatientSchema, [
+  { path: 'phone', blindIndex: normalizePhone },
+  { path: 'identifiers.value', blindIndex: normalizeIdentifierValue },
+  { path: 'insurance_info.policy_number' }
+]);
+
+// New patients get the next medical record number of their clinic unless one was given
+PatientSchema.pre('save', async function(this: IPatient, next) {
+  try {
+    if (this.isNew && !this.mrn) {
+      const model = this.constructor as mongoose.Model<IPatient>;
+      this.mrn = await MrnService.next(this.tenant_id, this.clinic_id, async mrn =>
+        // Archived patients keep their numbers
+        !!(await model.exists({ tenant_id: this.tenant_id, mrn }).setOptions({ withDeleted: true }))
+      );
+    }
+    next();
+  } catch (error: any) {
+    next(error);
+  }
 });
 
 // Virtual for full name
@@ -0,0 +1,166 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { ConsentLanguage, CONSENT_LANGUAGES } from './ConsentTemplate';
+
+export type ConsentSignatureType = 'drawn' | 'typed';
+
+export type PatientConsentStatus = 'signed' | 'revoked';
+
+/**
+ * A consent form signed by a patient (or their guardian), with the exact text they agreed to
+ */
+export interface IPatientConsent extends Document {
+  tenant_id: mongoose.Types.ObjectId;
+  clinic_id: mongoose.Types.ObjectId;
+  patient_id: mongoose.Types.ObjectId;
+  template_id: mongoose.Types.ObjectId;
+  template_code: string;
+  template_version: number;
+  appointment_id?: mongoose.Types.ObjectId;
+  language: ConsentLanguage;
+  title: string; // Snapshot in the signed language
+  body: string;
+  signer: {
+    name: string;
+    relationship: 'self' | 'guardian' | 'spouse';
+    patient_id?: mongoose.Types.ObjectId; // The guardian or spouse when not signed by the patient
+  };
+  signature: {
+    type: ConsentSignatureType;
+    image_url?: string; // Drawn signature stored in S3
+    typed_name?: string;
+  };
+  signed_at: Date;
+  ip?: string;
+  user_agent?: string;
+  witnessed_by?: mongoose.Types.ObjectId; // Staff member who took the signature
+  expires_at?: Date;
+  status: PatientConsentStatus;
+  revoked_at?: Date;
+  revoked_by?: mongoose.Types.ObjectId;
+  revocation_reason?: string;
+  created_at: Date;
+  updated_at: Date;
+}
+
+const PatientConsentSchema: Schema = new Schema({
+  tenant_id: {
+    type: Schema.Types.ObjectId,
+    ref: 'Tenant',
+    required: [true, 'Tenant ID is required'],
+    index: true
+  },
+  clinic_id: {
+    type: Schema.Types.ObjectId,
+    ref: 'Clinic',
+    required: [true, 'Clinic ID is required']
+  },
+  patient_id: {
+    type: Schema.Types.ObjectId,
+    ref: 'Patient',
+    required: [true, 'Patient is required']
+  },
+  template_id: {
+    type: Schema.Types.ObjectId,
+    ref: 'ConsentTemplate',
+    required: [true, 'Consent template is required']
+  },
+  template_code: {
+    type: String,
+    required: true
+  },
+  template_version: {
+    type: Number,
+    required: true
+  },
+  appointment_id: {
+    type: Schema.Types.ObjectId,
+    ref: 'Appointment'
+  },
+  language: {
+    type: String,
+    enum: CONSENT_LANGUAGES,
+    default: 'en'
+  },
+  title: {
+    type: String,
+    required: true
+  },
+  body: {
+    type: String,
+    required: true
+  },
+  signer: {
+    name: {
+      type: String,
+      required: [true, 'Signer name is required'],
+      trim: true,
+      maxlength: [200, 'Signer name cannot exceed 200 characters']
+    },
+    relationship: {
+      type: String,
+      enum: ['self', 'guardian', 'spouse'],
+      default: 'self'
+    },
+    patient_id: {
+      type: Schema.Types.ObjectId,
+      ref: 'Patient'
+    }
+  },
+  signature: {
+    type: {
+      type: String,
+      enum: ['drawn', 'typed'],
+      required: [true, 'Signature type is required']
+    },
+    image_url: {
+      type: String
+    },
+    typed_name: {
+      type: String,
+      trim: true,
+      maxlength: [200, 'Typed signature cannot exceed 200 characters']
+    }
+  },
+  signed_at: {
+    type: Date,
+    required: true,
+    default: Date.now
+  },
+  ip: {
+    type: String
+  },
+  user_agent: {
+    type: String
+  },
+  witnessed_by: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  expires_at: {
+    type: Date
+  },
+  status: {
+    type: String,
+    enum: ['signed', 'revoked'],
+    default: 'signed'
+  },
+  revoked_at: {
+    type: Date
+  },
+  revoked_by: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  revocation_reason: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'Revocation reason cannot exceed 500 characters']
+  }
+}, {
+  timestamps: { createdAt: 'created_at', updatedAt: 'updated_at' }
+});
+
+PatientConsentSchema.index({ tenant_id: 1, patient_id: 1, template_code: 1, status: 1 });
+PatientConsentSchema.index({ tenant_id: 1, appointment_id: 1 });
+
+export default mongoose.model<IPatientConsent>('PatientConsent', PatientConsentSchema);
@@ -0,0 +1,175 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { ISoftDeletable, softDeletePlugin } from './softDelete';
+
+export const DOCUMENT_CATEGORIES = [
+  'id_card',
+  'insurance_card',
+  'referral_letter',
+  'imaging',
+  'consent',
+  'lab_result',
+  'prescription',
+  'other'
+] as const;
+
+export type DocumentCategory = typeof DOCUMENT_CATEGORIES[number];
+
+export type DocumentStorageType = 's3' | 'local';
+
+// 'skipped' - no scanner is configured
+export type DocumentScanStatus = 'clean' | 'skipped';
+
+// 'clinic' - everyone who may see the patient; 'restricted' - only the listed roles and users
+export type DocumentAccessLevel = 'clinic' | 'restricted';
+
+/**
+ * A file kept in a patient's document vault
+ */
+export interface IPatientDocument extends Document, ISoftDeletable {
+  tenant_id: mongoose.Types.ObjectId;
+  clinic_id: mongoose.Types.ObjectId;
+  patient_id: mongoose.Types.ObjectId;
+  appointment_id?: mongoose.Types.ObjectId;
+  category: DocumentCategory;
+  title: string;
+  description?: string;
+  tags: string[];
+  file: {
+    storage: DocumentStorageType;
+    key: string; // Object key in S3, or path below the local storage directory
+    name: string; // Original file name
+    mime_type: string;
+    size: number;
+    checksum: string; // SHA-256 of the content
+  };
+  scan: {
+    status: DocumentScanStatus;
+    engine?: string;
+    scanned_at?: Date;
+  };
+  access: {
+    level: DocumentAccessLevel;
+    roles: string[];
+    user_ids: mongoose.Types.ObjectId[];
+  };
+  uploaded_by?: mongoose.Types.ObjectId;
+  created_at: Date;
+  updated_at: Date;
+}
+
+const PatientDocumentSchema: Schema = new Schema({
+  tenant_id: {
+    type: Schema.Types.ObjectId,
+    ref: 'Tenant',
+    required: [true, 'Tenant ID is required'],
+    index: true
+  },
+  clinic_id: {
+    type: Schema.Types.ObjectId,
+    ref: 'Clinic',
+    required: [true, 'Clinic ID is required']
+  },
+  patient_id: {
+    type: Schema.Types.ObjectId,
+    ref: 'Patient',
+    required: [true, 'Patient is required']
+  },
+  appointment_id: {
+    type: Schema.Types.ObjectId,
+    ref: 'Appointment'
+  },
+  category: {
+    type: String,
+    enum: DOCUMENT_CATEGORIES,
+    required: [true, 'Document category is required']
+  },
+  title: {
+    type: String,
+    required: [true, 'Document title is required'],
+    trim: true,
+    maxlength: [200, 'Title cannot exceed 200 characters']
+  },
+  description: {
+    type: String,
+    trim: true,
+    maxlength: [1000, 'Description cannot exceed 1000 characters']
+  },
+  tags: [{
+    type: String,
+    trim: true,
+    lowercase: true,
+    maxlength: [50, 'Tag cannot exceed 50 characters']
+  }],
+  file: {
+    storage: {
+      type: String,
+      enum: ['s3', 'local'],
+      required: true
+    },
+    key: {
+      type: String,
+      required: true
+    },
+    name: {
+      type: String,
+      required: true,
+      trim: true
+    },
+    mime_type: {
+      type: String,
+      required: true
+    },
+    size: {
+      type: Number,
+      required: true,
+      min: 0
+    },
+    checksum: {
+      type: String,
+      required: true
+    }
+  },
+  scan: {
+    status: {
+      type: String,
+      enum: ['clean', 'skipped'],
+      required: true
+    },
+    engine: {
+      type: String
+    },
+    scanned_at: {
+      type: Date
+    }
+  },
+  access: {
+    level: {
+      type: String,
+      enum: ['clinic', 'restricted'],
+      default: 'clinic'
+    },
+    roles: [{
+      type: String,
+      enum: ['super_admin', 'admin', 'doctor', 'nurse', 'receptionist', 'accountant', 'staff']
+    }],
+    user_ids: [{
+      type: Schema.Types.ObjectId,
+      ref: 'User'
+    }]
+  },
+  uploaded_by: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  }
+}, {
+  timestamps: { createdAt: 'created_at', updatedAt: 'updated_at' }
+});
+
+PatientDocumentSchema.index({ tenant_id: 1, patient_id: 1, category: 1, created_at: -1 });
+PatientDocumentSchema.index({ tenant_id: 1, patient_id: 1, tags: 1 });
+PatientDocumentSchema.index({ tenant_id: 1, 'file.checksum': 1 });
+
+// Deleted records are archived (see ArchiveService)
+PatientDocumentSchema.plugin(softDeletePlugin);
+
+export default mongoose.model<IPatientDocument>('PatientDocument', PatientDocumentSchema);
@@ -0,0 +1,127 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export type PatientMergeStatus = 'in_progress' | 'completed' | 'undone';
+
+// Documents of one model whose reference was moved from the duplicate to the survivor
+export interface IPatientMergeMove {
+  model: string;
+  field: string;
+  ids: mongoose.Types.ObjectId[]; // Reference replaced by the survivor
+  pulled_ids?: mongoose.Types.ObjectId[]; // Array references dropped because the survivor was already listed
+  deactivated_ids?: mongoose.Types.ObjectId[]; // Moved records switched off in favour of the survivor's own (odontograms)
+}
+
+export interface IPatientMerge extends Document {
+  tenant_id: mongoose.Types.ObjectId;
+  clinic_id: mongoose.Types.ObjectId;
+  survivor_id: mongoose.Types.ObjectId;
+  merged_id: mongoose.Types.ObjectId; // The duplicate - deleted by the merge, restored by undo
+  merged_snapshot: Record<string, any>; // Full duplicate document as it was
+  filled_fields: string[]; // Survivor fields that were empty and taken from the duplicate
+  match_score?: number;
+  match_reasons: string[];
+  moves: IPatientMergeMove[];
+  status: PatientMergeStatus;
+  reason?: string;
+  merged_by?: mongoose.Types.ObjectId;
+  undo_until: Date;
+  undone_at?: Date;
+  undone_by?: mongoose.Types.ObjectId;
+  created_at: Date;
+  updated_at: Date;
+}
+
+const PatientMergeMoveSchema = new Schema({
+  model: {
+    type: String,
+    required: true
+  },
+  field: {
+    type: String,
+    required: true
+  },
+  ids: [{
+    type: Schema.Types.ObjectId
+  }],
+  pulled_ids: [{
+    type: Schema.Types.ObjectId
+  }],
+  deactivated_ids: [{
+    type: Schema.Types.ObjectId
+  }]
+}, { _id: false });
+
+const PatientMergeSchema: Schema = new Schema({
+  tenant_id: {
+    type: Schema.Types.ObjectId,
+    ref: 'Tenant',
+    required: [true, 'Tenant ID is required'],
+    index: true
+  },
+  clinic_id: {
+    type: Schema.Types.ObjectId,
+    ref: 'Clinic',
+    required: [true, 'Clinic ID is required']
+  },
+  survivor_id: {
+    type: Schema.Types.ObjectId,
+    ref: 'Patient',
+    required: [true, 'Surviving patient is required']
+  },
+  merged_id: {
+    type: Schema.Types.ObjectId,
+    required: [true, 'Merged patient is required']
+  },
+  merged_snapshot: {
+    type: Schema.Types.Mixed,
+    required: true
+  },
+  filled_fields: [{
+    type: String
+  }],
+  match_score: {
+    type: Number,
+    min: 0,
+    max: 100
+  },
+  match_reasons: [{
+    type: String
+  }],
+  moves: {
+    type: [PatientMergeMoveSchema],
+    default: []
+  },
+  status: {
+    type: String,
+    enum: ['in_progress', 'completed', 'undone'],
+    default: 'in_progress'
+  },
+  reason: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'Reason cannot exceed 500 characters']
+  },
+  merged_by: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  undo_until: {
+    type: Date,
+    required: true
+  },
+  undone_at: {
+    type: Date
+  },
+  undone_by: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  }
+}, {
+  timestamps: { createdAt: 'created_at', updatedAt: 'updated_at' }
+});
+
+PatientMergeSchema.index({ tenant_id: 1, created_at: -1 });
+PatientMergeSchema.index({ tenant_id: 1, survivor_id: 1 });
+PatientMergeSchema.index({ tenant_id: 1, merged_id: 1 });
+
+export default mongoose.model<IPatientMerge>('PatientMerge', PatientMergeSchema);
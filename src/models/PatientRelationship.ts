@@ -0,0 +1,89 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export const PATIENT_RELATIONSHIP_TYPES = ['guardian', 'dependent', 'spouse'] as const;
+
+export type PatientRelationshipType = typeof PATIENT_RELATIONSHIP_TYPES[number];
+
+// The same link seen from the other patient
+export const INVERSE_RELATIONSHIP: Record<PatientRelationshipType, PatientRelationshipType> = {
+  guardian: 'dependent',
+  dependent: 'guardian',
+  spouse: 'spouse'
+};
+
+// Relatives who may sign consent and pay for a patient
+export const RESPONSIBLE_RELATIONSHIPS: PatientRelationshipType[] = ['guardian', 'spouse'];
+
+/**
+ * Link between two patients. `relationship` is what the related patient is to the patient:
+ * guardian links are always stored from the dependent (patient_id = child, related_patient_id = parent).
+ */
+export interface IPatientRelationship extends Document {
+  tenant_id: mongoose.Types.ObjectId;
+  clinic_id: mongoose.Types.ObjectId;
+  patient_id: mongoose.Types.ObjectId;
+  related_patient_id: mongoose.Types.ObjectId;
+  relationship: Exclude<PatientRelationshipType, 'dependent'>;
+  label?: string; // e.g. "mother", "legal guardian"
+  notes?: string;
+  created_by?: mongoose.Types.ObjectId;
+  created_at: Date;
+  updated_at: Date;
+}
+
+const PatientRelationshipSchema: Schema = new Schema({
+  tenant_id: {
+    type: Schema.Types.ObjectId,
+    ref: 'Tenant',
+    required: [true, 'Tenant ID is required'],
+    index: true
+  },
+  clinic_id: {
+    type: Schema.Types.ObjectId,
+    ref: 'Clinic',
+    required: [true, 'Clinic ID is required']
+  },
+  patient_id: {
+    type: Schema.Types.ObjectId,
+    ref: 'Patient',
+    required: [true, 'Patient is required']
+  },
+  related_patient_id: {
+    type: Schema.Types.ObjectId,
+    ref: 'Patient',
+    required: [true, 'Related patient is required'],
+    validate: {
+      validator: function(this: IPatientRelationship, value: mongoose.Types.ObjectId) {
+        return !this.patient_id || !value.equals(this.patient_id);
+      },
+      message: 'A patient cannot be related to themselves'
+    }
+  },
+  relationship: {
+    type: String,
+    enum: ['guardian', 'spouse'],
+    required: [true, 'Relationship is required']
+  },
+  label: {
+    type: String,
+    trim: true,
+    maxlength: [50, 'Label cannot exceed 50 characters']
+  },
+  notes: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'Notes cannot exceed 500 characters']
+  },
+  created_by: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  }
+}, {
+  timestamps: { createdAt: 'created_at', updatedAt: 'updated_at' }
+});
+
+// Not unique - a patient merge may briefly leave the same link twice
+PatientRelationshipSchema.index({ tenant_id: 1, patient_id: 1 });
+PatientRelationshipSchema.index({ tenant_id: 1, related_patient_id: 1 });
+
+export default mongoose.model<IPatientRelationship>('PatientRelationship', PatientRelationshipSchema);
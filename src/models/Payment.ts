@@ -1,4 +1,5 @@
 import mongoose, { Document, Schema } from 'mongoose';
+import { DomainEventService, onDocumentWrite } from '../utils/domainEvents';
 
 export interface IPayment extends Document {
   tenant_id: mongoose.Types.ObjectId;
@@ -202,4 +203,18 @@ PaymentSchema.virtual('payment_id').get(function() {
   return `PAY-${(this._id as any).toString().slice(-6).toUpperCase()}`;
 });
 
+// Payments count as received once completed - on creation or when a pending payment clears
+onDocumentWrite(PaymentSchema, ['status'], (payment, before) => {
+  if (payment.status !== 'completed' || before?.status === 'completed') return;
+
+  DomainEventService.publish('payment.received', payment, {
+    payment_id: payment._id,
+    invoice_id: payment.invoice_id,
+    patient_id: payment.patient_id,
+    amount: payment.amount,
+    currency: payment.currency,
+    method: payment.method
+  });
+});
+
 export default mongoose.model<IPayment>('Payment', PaymentSchema); 
\ No newline at end of file
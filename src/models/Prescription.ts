@@ -1,4 +1,6 @@
 import mongoose, { Document, Schema } from 'mongoose';
+import { encrypted } from '../utils/fieldEncryption';
+import { ISoftDeletable, softDeletePlugin } from './softDelete';
 
 export interface IMedication {
   name: string;
@@ -9,7 +11,22 @@ export interface IMedication {
   quantity: number;
 }
 
-export interface IPrescription extends Document {
+export type PrescriptionAlertType = 'allergy' | 'cross_reactivity' | 'duplicate_therapy';
+
+export type PrescriptionAlertSeverity = 'warning' | 'critical';
+
+// Clinical alert raised when the prescription was written, and who acknowledged it
+export interface IPrescriptionAlert {
+  code: string; // Stable per alert, e.g. "allergy:amoxicillin:penicillin" - sent back to acknowledge it
+  type: PrescriptionAlertType;
+  severity: PrescriptionAlertSeverity;
+  medication: string;
+  message: string;
+  acknowledged_by?: mongoose.Types.ObjectId;
+  acknowledged_at?: Date;
+}
+
+export interface IPrescription extends Document, ISoftDeletable {
   tenant_id: mongoose.Types.ObjectId;
   patient_id: mongoose.Types.ObjectId;
   doctor_id: mongoose.Types.ObjectId;
@@ -23,6 +40,8 @@ export interface IPrescription extends Document {
   follow_up_date?: Date;
   pharmacy_dispensed: boolean;
   dispensed_date?: Date;
+  alerts: IPrescriptionAlert[];
+  alert_override_reason?: string; // Required to prescribe despite a critical alert
   created_at: Date;
   updated_at: Date;
 }
@@ -126,6 +145,43 @@ const PrescriptionSchema: Schema = new Schema({
   },
   dispensed_date: {
     type: Date
+  },
+  alerts: [{
+    code: {
+      type: String,
+      required: true
+    },
+    type: {
+      type: String,
+      enum: ['allergy', 'cross_reactivity', 'duplicate_therapy'],
+      required: true
+    },
+    severity: {
+      type: String,
+      enum: ['warning', 'critical'],
+      required: true
+    },
+    medication: {
+      type: String,
+      required: true
+    },
+    message: {
+      type: String,
+      required: true
+    },
+    acknowledged_by: {
+      type: Schema.Types.ObjectId,
+      ref: 'User'
+    },
+    acknowledged_at: {
+      type: Date
+    },
+    _id: false
+  }],
+  alert_override_reason: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'Override reason cannot exceed 500 characters']
   }
 }, {
   timestamps: { createdAt: 'created_at', updatedAt: 'updated_at' }
@@ -148,4 +204,13 @@ PrescriptionSchema.index({ tenant_id: 1, clinic_id: 1, created_at: -1 });
 
 // Note: Prescription ID is now generated in the controller before saving
 
+// Deleted records are archived (see ArchiveService)
+PrescriptionSchema.plugin(softDeletePlugin);
+
+// Diagnosis and notes are encrypted at rest
+encrypted(PrescriptionSchema, [
+  { path: 'diagnosis' },
+  { path: 'notes' }
+]);
+
 export default mongoose.model<IPrescription>('Prescription', PrescriptionSchema); 
\ No newline at end of file
@@ -0,0 +1,239 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export type QueuePriority = 'normal' | 'elderly' | 'emergency';
+export type QueueTicketStatus = 'waiting' | 'called' | 'serving' | 'completed' | 'skipped' | 'cancelled';
+export type QueueTicketAction = 'issued' | 'called' | 'serving' | 'completed' | 'skipped' | 'requeued' | 'transferred' | 'cancelled';
+
+export const QUEUE_PRIORITIES: QueuePriority[] = ['normal', 'elderly', 'emergency'];
+
+// Lower rank is called first - emergencies, then elderly patients, then everyone else in arrival order
+export const QUEUE_PRIORITY_RANK: Record<QueuePriority, number> = {
+  emergency: 0,
+  elderly: 1,
+  normal: 2
+};
+
+// Tickets still waiting for (or at) a counter
+export const ACTIVE_QUEUE_STATUSES: QueueTicketStatus[] = ['waiting', 'called', 'serving'];
+
+export interface IQueueTicketEvent {
+  action: QueueTicketAction;
+  at: Date;
+  by?: mongoose.Types.ObjectId;
+  counter?: string;
+  from_department_id?: mongoose.Types.ObjectId;
+  to_department_id?: mongoose.Types.ObjectId;
+  from_doctor_id?: mongoose.Types.ObjectId;
+  to_doctor_id?: mongoose.Types.ObjectId;
+  note?: string;
+}
+
+export interface IQueueTicket extends Document {
+  tenant_id: mongoose.Types.ObjectId;
+  clinic_id: mongoose.Types.ObjectId;
+  department_id?: mongoose.Types.ObjectId; // Separate queue per department, the clinic's general queue when empty
+  numbering_department_id?: mongoose.Types.ObjectId; // Queue the number was issued in - kept when the ticket is transferred
+  queue_date: Date; // Midnight (clinic timezone) of the day the ticket was issued - numbering restarts daily
+  sequence: number;
+  ticket_number: string; // Shown on the waiting-room screen, e.g. "DEN-007"
+  patient_id?: mongoose.Types.ObjectId;
+  lead_id?: mongoose.Types.ObjectId; // Walk-in registered before becoming a patient
+  appointment_id?: mongoose.Types.ObjectId;
+  name: string;
+  phone?: string;
+  service_id?: mongoose.Types.ObjectId;
+  doctor_id?: mongoose.Types.ObjectId; // Requested or assigned doctor, any doctor when empty
+  priority: QueuePriority;
+  priority_rank: number;
+  status: QueueTicketStatus;
+  counter?: string; // Desk or room the ticket was called to
+  notes?: string;
+  queued_at: Date; // Position in the queue - reset when a skipped ticket is put back
+  called_at?: Date;
+  serving_at?: Date;
+  completed_at?: Date;
+  skip_count: number;
+  events: IQueueTicketEvent[];
+  created_by?: mongoose.Types.ObjectId;
+  created_at: Date;
+  updated_at: Date;
+}
+
+const QueueTicketEventSchema = new Schema({
+  action: {
+    type: String,
+    enum: ['issued', 'called', 'serving', 'completed', 'skipped', 'requeued', 'transferred', 'cancelled'],
+    required: true
+  },
+  at: {
+    type: Date,
+    default: Date.now
+  },
+  by: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  counter: {
+    type: String
+  },
+  from_department_id: {
+    type: Schema.Types.ObjectId,
+    ref: 'Department'
+  },
+  to_department_id: {
+    type: Schema.Types.ObjectId,
+    ref: 'Department'
+  },
+  from_doctor_id: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  to_doctor_id: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  note: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'Note cannot exceed 500 characters']
+  }
+}, { _id: false });
+
+const QueueTicketSchema: Schema = new Schema({
+  tenant_id: {
+    type: Schema.Types.ObjectId,
+    ref: 'Tenant',
+    required: [true, 'Tenant ID is required'],
+    index: true
+  },
+  clinic_id: {
+    type: Schema.Types.ObjectId,
+    ref: 'Clinic',
+    required: [true, 'Clinic ID is required']
+  },
+  department_id: {
+    type: Schema.Types.ObjectId,
+    ref: 'Department',
+    default: null
+  },
+  numbering_department_id: {
+    type: Schema.Types.ObjectId,
+    ref: 'Department',
+    default: null
+  },
+  queue_date: {
+    type: Date,
+    required: [true, 'Queue date is required']
+  },
+  sequence: {
+    type: Number,
+    required: true,
+    min: 1
+  },
+  ticket_number: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  patient_id: {
+    type: Schema.Types.ObjectId,
+    ref: 'Patient'
+  },
+  lead_id: {
+    type: Schema.Types.ObjectId,
+    ref: 'Lead'
+  },
+  appointment_id: {
+    type: Schema.Types.ObjectId,
+    ref: 'Appointment'
+  },
+  name: {
+    type: String,
+    required: [true, 'Name is required'],
+    trim: true,
+    maxlength: [200, 'Name cannot exceed 200 characters']
+  },
+  phone: {
+    type: String,
+    trim: true,
+    maxlength: [20, 'Phone number cannot exceed 20 characters']
+  },
+  service_id: {
+    type: Schema.Types.ObjectId,
+    ref: 'Service'
+  },
+  doctor_id: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  priority: {
+    type: String,
+    enum: QUEUE_PRIORITIES,
+    default: 'normal'
+  },
+  priority_rank: {
+    type: Number,
+    default: QUEUE_PRIORITY_RANK.normal
+  },
+  status: {
+    type: String,
+    enum: ['waiting', 'called', 'serving', 'completed', 'skipped', 'cancelled'],
+    default: 'waiting'
+  },
+  counter: {
+    type: String,
+    trim: true,
+    maxlength: [50, 'Counter cannot exceed 50 characters']
+  },
+  notes: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'Notes cannot exceed 500 characters']
+  },
+  queued_at: {
+    type: Date,
+    default: Date.now
+  },
+  called_at: {
+    type: Date
+  },
+  serving_at: {
+    type: Date
+  },
+  completed_at: {
+    type: Date
+  },
+  skip_count: {
+    type: Number,
+    default: 0
+  },
+  events: {
+    type: [QueueTicketEventSchema],
+    default: []
+  },
+  created_by: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  }
+}, {
+  timestamps: { createdAt: 'created_at', updatedAt: 'updated_at' }
+});
+
+// Rank always follows the priority
+QueueTicketSchema.pre('save', function(this: IQueueTicket, next) {
+  if (this.isModified('priority') || this.isNew) {
+    this.priority_rank = QUEUE_PRIORITY_RANK[this.priority] ?? QUEUE_PRIORITY_RANK.normal;
+  }
+  next();
+});
+
+// One number per ticket and day in each queue
+QueueTicketSchema.index(
+  { tenant_id: 1, clinic_id: 1, numbering_department_id: 1, queue_date: 1, sequence: 1 },
+  { unique: true, name: 'unique_ticket_sequence' }
+);
+QueueTicketSchema.index({ tenant_id: 1, clinic_id: 1, queue_date: 1, status: 1, priority_rank: 1, queued_at: 1 });
+QueueTicketSchema.index({ tenant_id: 1, clinic_id: 1, department_id: 1, status: 1, completed_at: 1 });
+QueueTicketSchema.index({ tenant_id: 1, clinic_id: 1, patient_id: 1, queue_date: 1 });
+
+export default mongoose.model<IQueueTicket>('QueueTicket', QueueTicketSchema);
@@ -0,0 +1,116 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export type ResourceKind = 'chair' | 'room' | 'equipment';
+
+export const RESOURCE_KINDS: ResourceKind[] = ['chair', 'room', 'equipment'];
+
+export interface IResourceDayHours {
+  start: string;
+  end: string;
+  isWorking: boolean;
+}
+
+export interface IResource extends Document {
+  tenant_id: mongoose.Types.ObjectId;
+  clinic_id: mongoose.Types.ObjectId;
+  name: string;
+  kind: ResourceKind;
+  type: string; // What services ask for, e.g. 'chair', 'cbct', 'laser'
+  capacity: number; // Appointments the resource can serve at the same time
+  // Days left unset follow the doctor and clinic hours only
+  working_hours?: Partial<Record<'monday' | 'tuesday' | 'wednesday' | 'thursday' | 'friday' | 'saturday' | 'sunday', IResourceDayHours>>;
+  is_active: boolean;
+  notes?: string;
+  created_at: Date;
+  updated_at: Date;
+}
+
+const timePattern = /^([01]?[0-9]|2[0-3]):[0-5][0-9]$/;
+
+const ResourceDayHoursSchema = new Schema({
+  start: {
+    type: String,
+    required: true,
+    match: timePattern
+  },
+  end: {
+    type: String,
+    required: true,
+    match: timePattern
+  },
+  isWorking: {
+    type: Boolean,
+    default: true
+  }
+}, { _id: false });
+
+const ResourceWorkingHoursSchema = new Schema({
+  monday: ResourceDayHoursSchema,
+  tuesday: ResourceDayHoursSchema,
+  wednesday: ResourceDayHoursSchema,
+  thursday: ResourceDayHoursSchema,
+  friday: ResourceDayHoursSchema,
+  saturday: ResourceDayHoursSchema,
+  sunday: ResourceDayHoursSchema
+}, { _id: false });
+
+const ResourceSchema: Schema = new Schema({
+  tenant_id: {
+    type: Schema.Types.ObjectId,
+    ref: 'Tenant',
+    required: [true, 'Tenant ID is required'],
+    index: true
+  },
+  clinic_id: {
+    type: Schema.Types.ObjectId,
+    ref: 'Clinic',
+    required: [true, 'Clinic ID is required']
+  },
+  name: {
+    type: String,
+    required: [true, 'Resource name is required'],
+    trim: true,
+    maxlength: [100, 'Resource name cannot exceed 100 characters']
+  },
+  kind: {
+    type: String,
+    required: [true, 'Resource kind is required'],
+    enum: {
+      values: RESOURCE_KINDS,
+      message: 'Resource kind must be chair, room or equipment'
+    }
+  },
+  type: {
+    type: String,
+    required: [true, 'Resource type is required'],
+    trim: true,
+    lowercase: true,
+    match: [/^[a-z0-9_-]+$/, 'Resource type can only contain lowercase letters, numbers, hyphens and underscores'],
+    maxlength: [50, 'Resource type cannot exceed 50 characters']
+  },
+  capacity: {
+    type: Number,
+    min: [1, 'Capacity must be at least 1'],
+    max: [50, 'Capacity cannot exceed 50'],
+    default: 1
+  },
+  working_hours: {
+    type: ResourceWorkingHoursSchema
+  },
+  is_active: {
+    type: Boolean,
+    default: true
+  },
+  notes: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'Notes cannot exceed 500 characters']
+  }
+}, {
+  timestamps: { createdAt: 'created_at', updatedAt: 'updated_at' }
+});
+
+ResourceSchema.index({ tenant_id: 1, clinic_id: 1, type: 1, is_active: 1 });
+ResourceSchema.index({ tenant_id: 1, clinic_id: 1, name: 1 }, { unique: true });
+
+export default mongoose.model<IResource>('Resource', ResourceSchema);
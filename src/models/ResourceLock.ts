@@ -0,0 +1,30 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+// Short lease on a resource (or a staff member) while an appointment is checked against its capacity and saved
+export interface IResourceLock extends Document {
+  resource_id: mongoose.Types.ObjectId;
+  owner: string;
+  expires_at: Date;
+}
+
+const ResourceLockSchema: Schema = new Schema({
+  resource_id: {
+    type: Schema.Types.ObjectId,
+    ref: 'Resource',
+    required: true,
+    unique: true
+  },
+  owner: {
+    type: String,
+    required: true
+  },
+  expires_at: {
+    type: Date,
+    required: true
+  }
+});
+
+// Leases are reclaimed on expiry by the next taker; the TTL index only tidies up abandoned ones
+ResourceLockSchema.index({ expires_at: 1 }, { expireAfterSeconds: 60 });
+
+export default mongoose.model<IResourceLock>('ResourceLock', ResourceLockSchema);
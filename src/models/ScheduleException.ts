@@ -0,0 +1,133 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export type ScheduleExceptionType = 'leave' | 'conference' | 'holiday' | 'closure' | 'override' | 'busy';
+export type ScheduleExceptionSource = 'manual' | 'ics';
+
+export interface IScheduleException extends Document {
+  tenant_id: mongoose.Types.ObjectId;
+  clinic_id: mongoose.Types.ObjectId;
+  user_id?: mongoose.Types.ObjectId | null; // null = applies to the whole clinic
+  type: ScheduleExceptionType;
+  title: string;
+  start_date: Date;
+  end_date: Date;
+  all_day: boolean;
+  // Only for 'override': replacement working hours on the covered days
+  override_hours?: {
+    start: string;
+    end: string;
+  };
+  reason?: string;
+  is_active: boolean;
+  source: ScheduleExceptionSource; // 'ics' = a busy block imported from an external calendar
+  external_uid?: string; // Occurrence UID in the imported calendar, used to update it on re-import
+  created_by?: mongoose.Types.ObjectId;
+  created_at: Date;
+  updated_at: Date;
+}
+
+// Exception types that make the covered period unavailable
+export const BLOCKING_EXCEPTION_TYPES: ScheduleExceptionType[] = ['leave', 'conference', 'holiday', 'closure', 'busy'];
+
+const ScheduleExceptionSchema: Schema = new Schema({
+  tenant_id: {
+    type: Schema.Types.ObjectId,
+    ref: 'Tenant',
+    required: [true, 'Tenant ID is required'],
+    index: true
+  },
+  clinic_id: {
+    type: Schema.Types.ObjectId,
+    ref: 'Clinic',
+    required: [true, 'Clinic ID is required']
+  },
+  user_id: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    default: null
+  },
+  type: {
+    type: String,
+    required: [true, 'Exception type is required'],
+    enum: {
+      values: ['leave', 'conference', 'holiday', 'closure', 'override', 'busy'],
+      message: 'Exception type must be leave, conference, holiday, closure, override or busy'
+    }
+  },
+  title: {
+    type: String,
+    required: [true, 'Title is required'],
+    trim: true,
+    maxlength: [200, 'Title cannot exceed 200 characters']
+  },
+  start_date: {
+    type: Date,
+    required: [true, 'Start date is required']
+  },
+  end_date: {
+    type: Date,
+    required: [true, 'End date is required'],
+    validate: {
+      validator: function(this: IScheduleException, value: Date) {
+        return !this.start_date || value > this.start_date;
+      },
+      message: 'End date must be after start date'
+    }
+  },
+  all_day: {
+    type: Boolean,
+    default: true
+  },
+  override_hours: {
+    start: {
+      type: String,
+      match: [/^([01]?[0-9]|2[0-3]):[0-5][0-9]$/, 'Start time must be in HH:mm format']
+    },
+    end: {
+      type: String,
+      match: [/^([01]?[0-9]|2[0-3]):[0-5][0-9]$/, 'End time must be in HH:mm format']
+    }
+  },
+  reason: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'Reason cannot exceed 500 characters']
+  },
+  is_active: {
+    type: Boolean,
+    default: true
+  },
+  source: {
+    type: String,
+    enum: ['manual', 'ics'],
+    default: 'manual'
+  },
+  external_uid: {
+    type: String,
+    maxlength: [500, 'External UID cannot exceed 500 characters']
+  },
+  created_by: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  }
+}, {
+  timestamps: { createdAt: 'created_at', updatedAt: 'updated_at' }
+});
+
+ScheduleExceptionSchema.index({ tenant_id: 1, clinic_id: 1, start_date: 1, end_date: 1 });
+ScheduleExceptionSchema.index({ tenant_id: 1, user_id: 1, start_date: 1, end_date: 1 });
+ScheduleExceptionSchema.index(
+  { tenant_id: 1, clinic_id: 1, user_id: 1, external_uid: 1 },
+  { unique: true, partialFilterExpression: { source: 'ics' } }
+);
+
+// Overrides must carry the replacement hours
+ScheduleExceptionSchema.pre('save', function(this: IScheduleException, next) {
+  if (this.type === 'override' && (!this.override_hours?.start || !this.override_hours?.end)) {
+    next(new Error('Override exceptions require override_hours with start and end'));
+    return;
+  }
+  next();
+});
+
+export default mongoose.model<IScheduleException>('ScheduleException', ScheduleExceptionSchema);
@@ -1,5 +1,11 @@
 import mongoose, { Document, Schema } from 'mongoose';
 
+// Resources a service occupies for the whole appointment, e.g. one 'chair' and one 'cbct'
+export interface IServiceResourceRequirement {
+  type: string;
+  quantity: number;
+}
+
 export interface IService extends Document {
   tenant_id: mongoose.Types.ObjectId;
   clinic_id: mongoose.Types.ObjectId;
@@ -14,6 +20,8 @@ export interface IService extends Document {
   followUpRequired: boolean;
   maxBookingsPerDay: number;
   specialInstructions?: string;
+  requiredResources: IServiceResourceRequirement[];
+  requiredConsents: string[]; // Consent template codes the patient must have signed before the visit is completed
   created_at: Date;
   updated_at: Date;
 }
@@ -88,6 +96,33 @@ const ServiceSchema: Schema = new Schema({
     type: String,
     trim: true,
     maxlength: 1000
+  },
+  requiredResources: {
+    type: [new Schema({
+      type: {
+        type: String,
+        required: true,
+        trim: true,
+        lowercase: true,
+        maxlength: 50
+      },
+      quantity: {
+        type: Number,
+        min: 1,
+        max: 10,
+        default: 1
+      }
+    }, { _id: false })],
+    default: []
+  },
+  requiredConsents: {
+    type: [{
+      type: String,
+      trim: true,
+      lowercase: true,
+      maxlength: 50
+    }],
+    default: []
   }
 }, {
   timestamps: { createdAt: 'created_at', updatedAt: 'updated_at' }
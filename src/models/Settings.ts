@@ -42,6 +42,7 @@ export interface ISettings extends Document {
     paymentReminders: boolean;
     lowStockAlerts: boolean;
     systemAlerts: boolean;
+    reminderOffsets: number[]; // Minutes before the appointment to send reminders
   };
   security: {
     twoFactorAuth: boolean;
@@ -212,6 +213,10 @@ const settingsSchema = new Schema<ISettings>({
     systemAlerts: {
       type: Boolean,
       default: true
+    },
+    reminderOffsets: {
+      type: [{ type: Number, min: 5, max: 10080 }],
+      default: [1440, 120]
     }
   },
   security: {
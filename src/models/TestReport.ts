@@ -1,4 +1,6 @@
 import mongoose, { Document, Schema } from 'mongoose';
+import { DomainEventService, onDocumentWrite } from '../utils/domainEvents';
+import { encrypted } from '../utils/fieldEncryption';
 
 export interface ITestReport extends Document {
   tenant_id: mongoose.Types.ObjectId;
@@ -261,4 +263,24 @@ TestReportSchema.methods.updateStatus = function(this: ITestReport, newStatus: '
   return this.save();
 };
 
+// Interpretation and notes are encrypted at rest
+encrypted(TestReportSchema, [
+  { path: 'interpretation' },
+  { path: 'notes' }
+]);
+
+// Tell the clinic when results are ready
+onDocumentWrite(TestReportSchema, ['status'], (report, before) => {
+  if (report.status !== 'verified' || before?.status === 'verified') return;
+
+  DomainEventService.publish('lab_report.verified', report, {
+    report_id: report._id,
+    report_number: report.reportNumber,
+    patient_id: report.patientId,
+    test_name: report.testName,
+    verified_by: report.verifiedBy,
+    verified_at: report.verifiedDate
+  });
+});
+
 export default mongoose.model<ITestReport>('TestReport', TestReportSchema); 
\ No newline at end of file
@@ -39,6 +39,8 @@ export interface IUser extends Document {
   avatar?: string;
   schedule?: WorkSchedule;
   sales_percentage?: number;
+  calendar_feed_token_hash?: string; // SHA-256 of the secret in the user's ICS feed URL
+  calendar_feed_created_at?: Date;
   created_at: Date;
   updated_at: Date;
   comparePassword(candidatePassword: string): Promise<boolean>;
@@ -186,6 +188,13 @@ const UserSchema: Schema = new Schema({
     min: [0, 'Sales percentage cannot be negative'],
     max: [100, 'Sales percentage cannot exceed 100%'],
     default: 0
+  },
+  calendar_feed_token_hash: {
+    type: String,
+    select: false
+  },
+  calendar_feed_created_at: {
+    type: Date
   }
 }, {
   timestamps: { createdAt: 'created_at', updatedAt: 'updated_at' }
@@ -200,6 +209,7 @@ UserSchema.index({ tenant_id: 1, clinic_id: 1, role: 1 });
 UserSchema.index({ tenant_id: 1, clinic_id: 1, is_active: 1 });
 UserSchema.index({ tenant_id: 1, clinic_id: 1, department: 1 });
 UserSchema.index({ tenant_id: 1, clinic_id: 1, first_name: 1, last_name: 1 });
+UserSchema.index({ calendar_feed_token_hash: 1 }, { unique: true, sparse: true });
 
 // Hash password before saving
 UserSchema.pre('save', async function(next) {
@@ -223,6 +233,7 @@ UserSchema.methods.comparePassword = async function(candidatePassword: string):
 UserSchema.methods.toJSON = function() {
   const userObject = this.toObject();
   delete userObject.password_hash;
+  delete userObject.calendar_feed_token_hash;
   return userObject;
 };
 
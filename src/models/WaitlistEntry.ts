@@ -0,0 +1,130 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export type WaitlistPriority = 'low' | 'normal' | 'high' | 'urgent';
+export type WaitlistTimeOfDay = 'any' | 'morning' | 'afternoon' | 'evening';
+
+export interface IWaitlistEntry extends Document {
+  tenant_id: mongoose.Types.ObjectId;
+  clinic_id: mongoose.Types.ObjectId;
+  patient_id: mongoose.Types.ObjectId;
+  doctor_id?: mongoose.Types.ObjectId; // Preferred doctor, any doctor when empty
+  service_id?: mongoose.Types.ObjectId;
+  appointment_type: string;
+  duration: number;
+  earliest_date: Date;
+  latest_date: Date;
+  time_of_day: WaitlistTimeOfDay;
+  priority: WaitlistPriority;
+  status: 'waiting' | 'offered' | 'booked' | 'cancelled' | 'expired';
+  notes?: string;
+  appointment_id?: mongoose.Types.ObjectId; // Appointment created when the entry is converted
+  promoted_at?: Date;
+  created_by?: mongoose.Types.ObjectId;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export const WAITLIST_PRIORITIES: WaitlistPriority[] = ['low', 'normal', 'high', 'urgent'];
+
+const WaitlistEntrySchema: Schema = new Schema({
+  tenant_id: {
+    type: Schema.Types.ObjectId,
+    ref: 'Tenant',
+    required: [true, 'Tenant ID is required'],
+    index: true
+  },
+  clinic_id: {
+    type: Schema.Types.ObjectId,
+    ref: 'Clinic',
+    required: [true, 'Clinic ID is required']
+  },
+  patient_id: {
+    type: Schema.Types.ObjectId,
+    ref: 'Patient',
+    required: [true, 'Patient ID is required']
+  },
+  doctor_id: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  service_id: {
+    type: Schema.Types.ObjectId,
+    ref: 'Service'
+  },
+  appointment_type: {
+    type: String,
+    required: [true, 'Appointment type is required'],
+    enum: [
+      'consultation',
+      'follow-up',
+      'check-up',
+      'vaccination',
+      'procedure',
+      'emergency',
+      'screening',
+      'therapy',
+      'other'
+    ],
+    default: 'consultation'
+  },
+  duration: {
+    type: Number,
+    required: [true, 'Duration is required'],
+    min: [15, 'Duration must be at least 15 minutes'],
+    max: [240, 'Duration cannot exceed 4 hours'],
+    default: 30
+  },
+  earliest_date: {
+    type: Date,
+    required: [true, 'Earliest date is required']
+  },
+  latest_date: {
+    type: Date,
+    required: [true, 'Latest date is required'],
+    validate: {
+      validator: function(this: IWaitlistEntry, value: Date) {
+        return !this.earliest_date || value >= this.earliest_date;
+      },
+      message: 'Latest date must be on or after the earliest date'
+    }
+  },
+  time_of_day: {
+    type: String,
+    enum: ['any', 'morning', 'afternoon', 'evening'],
+    default: 'any'
+  },
+  priority: {
+    type: String,
+    enum: WAITLIST_PRIORITIES,
+    default: 'normal'
+  },
+  status: {
+    type: String,
+    enum: ['waiting', 'offered', 'booked', 'cancelled', 'expired'],
+    default: 'waiting'
+  },
+  notes: {
+    type: String,
+    trim: true,
+    maxlength: [1000, 'Notes cannot exceed 1000 characters']
+  },
+  appointment_id: {
+    type: Schema.Types.ObjectId,
+    ref: 'Appointment'
+  },
+  promoted_at: {
+    type: Date
+  },
+  created_by: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  }
+}, {
+  timestamps: { createdAt: 'created_at', updatedAt: 'updated_at' }
+});
+
+WaitlistEntrySchema.index({ tenant_id: 1, clinic_id: 1, status: 1 });
+WaitlistEntrySchema.index({ tenant_id: 1, clinic_id: 1, doctor_id: 1, status: 1 });
+WaitlistEntrySchema.index({ tenant_id: 1, clinic_id: 1, patient_id: 1 });
+
+export default mongoose.model<IWaitlistEntry>('WaitlistEntry', WaitlistEntrySchema);
@@ -0,0 +1,95 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface IWaitlistOffer extends Document {
+  tenant_id: mongoose.Types.ObjectId;
+  clinic_id: mongoose.Types.ObjectId;
+  waitlist_entry_id: mongoose.Types.ObjectId;
+  patient_id: mongoose.Types.ObjectId;
+  doctor_id: mongoose.Types.ObjectId;
+  source_appointment_id?: mongoose.Types.ObjectId; // Cancelled / no-show appointment that freed the slot
+  slot_start: Date;
+  slot_end: Date; // End of the freed window, used to re-offer the slot to the next candidate
+  duration: number;
+  expires_at: Date;
+  status: 'pending' | 'accepted' | 'declined' | 'expired' | 'withdrawn';
+  appointment_id?: mongoose.Types.ObjectId;
+  responded_at?: Date;
+  responded_by?: mongoose.Types.ObjectId;
+  created_at: Date;
+  updated_at: Date;
+}
+
+const WaitlistOfferSchema: Schema = new Schema({
+  tenant_id: {
+    type: Schema.Types.ObjectId,
+    ref: 'Tenant',
+    required: [true, 'Tenant ID is required'],
+    index: true
+  },
+  clinic_id: {
+    type: Schema.Types.ObjectId,
+    ref: 'Clinic',
+    required: [true, 'Clinic ID is required']
+  },
+  waitlist_entry_id: {
+    type: Schema.Types.ObjectId,
+    ref: 'WaitlistEntry',
+    required: [true, 'Waitlist entry is required']
+  },
+  patient_id: {
+    type: Schema.Types.ObjectId,
+    ref: 'Patient',
+    required: [true, 'Patient ID is required']
+  },
+  doctor_id: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'Doctor ID is required']
+  },
+  source_appointment_id: {
+    type: Schema.Types.ObjectId,
+    ref: 'Appointment'
+  },
+  slot_start: {
+    type: Date,
+    required: [true, 'Slot start is required']
+  },
+  slot_end: {
+    type: Date,
+    required: [true, 'Slot end is required']
+  },
+  duration: {
+    type: Number,
+    required: [true, 'Duration is required'],
+    min: 15,
+    max: 240
+  },
+  expires_at: {
+    type: Date,
+    required: [true, 'Expiry is required']
+  },
+  status: {
+    type: String,
+    enum: ['pending', 'accepted', 'declined', 'expired', 'withdrawn'],
+    default: 'pending'
+  },
+  appointment_id: {
+    type: Schema.Types.ObjectId,
+    ref: 'Appointment'
+  },
+  responded_at: {
+    type: Date
+  },
+  responded_by: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  }
+}, {
+  timestamps: { createdAt: 'created_at', updatedAt: 'updated_at' }
+});
+
+WaitlistOfferSchema.index({ tenant_id: 1, clinic_id: 1, status: 1, expires_at: 1 });
+WaitlistOfferSchema.index({ tenant_id: 1, doctor_id: 1, slot_start: 1, status: 1 });
+WaitlistOfferSchema.index({ waitlist_entry_id: 1, status: 1 });
+
+export default mongoose.model<IWaitlistOffer>('WaitlistOffer', WaitlistOfferSchema);
@@ -1,20 +1,31 @@
 export { default as User, IUser } from './User';
 export { default as SuperAdmin, ISuperAdmin, ISuperAdminModel } from './SuperAdmin';
 export { default as Tenant, ITenant, ITenantModel } from './Tenant';
-export { default as Clinic, IClinic } from './Clinic';
+export { default as Clinic, IClinic, IMrnSettings, MrnScope } from './Clinic';
+export { default as Counter, ICounter, ICounterModel } from './Counter';
 export { default as UserClinic, IUserClinic } from './UserClinic';
 export { default as Permission, IPermission } from './Permission';
 export { default as Role, IRole } from './Role';
-export { default as Patient, IPatient } from './Patient';
-export { default as Appointment, IAppointment } from './Appointment';
+export { default as Patient, IPatient, IPatientIdentifier, PatientIdentifierType, PATIENT_IDENTIFIER_TYPES, UNIQUE_IDENTIFIER_TYPES, normalizeIdentifierValue, getIdentifierKeys } from './Patient';
+export { IClinicalSummary, IPatientAllergy, IPatientCondition, IPatientMedication, AllergyCategory, AllergySeverity, SmokingStatus, PregnancyStatus, ClinicalEntrySource, ALLERGY_CATEGORIES, ALLERGY_SEVERITIES, SMOKING_STATUSES, PREGNANCY_STATUSES } from './ClinicalSummary';
+export { default as PatientRelationship, IPatientRelationship, PatientRelationshipType, PATIENT_RELATIONSHIP_TYPES, INVERSE_RELATIONSHIP, RESPONSIBLE_RELATIONSHIPS } from './PatientRelationship';
+export { default as PatientMerge, IPatientMerge, IPatientMergeMove, PatientMergeStatus } from './PatientMerge';
+export { default as Appointment, IAppointment, IAppointmentParticipant, IAppointmentPatientAction, IAppointmentStatusChange, ParticipantRole, PARTICIPANT_ROLES, MAX_GROUP_PATIENTS, staffMemberFilter, attendingPatientFilter, PatientLinkAction, StatusChangeContext, StatusChangeSource } from './Appointment';
+export { default as AppointmentSeries, IAppointmentSeries, IRecurrenceRule } from './AppointmentSeries';
+export { default as WaitlistEntry, IWaitlistEntry, WaitlistPriority, WaitlistTimeOfDay, WAITLIST_PRIORITIES } from './WaitlistEntry';
+export { default as WaitlistOffer, IWaitlistOffer } from './WaitlistOffer';
+export { default as QueueTicket, IQueueTicket, IQueueTicketEvent, QueuePriority, QueueTicketStatus, QueueTicketAction, QUEUE_PRIORITIES, QUEUE_PRIORITY_RANK, ACTIVE_QUEUE_STATUSES } from './QueueTicket';
+export { default as ScheduleException, IScheduleException, ScheduleExceptionType, ScheduleExceptionSource, BLOCKING_EXCEPTION_TYPES } from './ScheduleException';
 export { default as MedicalRecord, IMedicalRecord } from './MedicalRecord';
 export { default as Invoice, IInvoice } from './Invoice';
 export { default as Payment, IPayment } from './Payment';
 export { default as Payroll, IPayroll } from './Payroll';
 export { default as Inventory, IInventory } from './Inventory';
 export { default as Lead, ILead } from './Lead';
-export { default as Prescription, IPrescription, IMedication } from './Prescription';
-export { default as Service, IService } from './Service';
+export { default as Prescription, IPrescription, IMedication, IPrescriptionAlert, PrescriptionAlertType, PrescriptionAlertSeverity } from './Prescription';
+export { default as Service, IService, IServiceResourceRequirement } from './Service';
+export { default as Resource, IResource, IResourceDayHours, ResourceKind, RESOURCE_KINDS } from './Resource';
+export { default as ResourceLock, IResourceLock } from './ResourceLock';
 export { default as TestCategory, ITestCategory } from './TestCategory';
 export { default as SampleType, ISampleType } from './SampleType';
 export { default as TestMethodology, ITestMethodology } from './TestMethodology';
@@ -30,6 +41,13 @@ export { default as XrayAnalysis, IXrayAnalysis } from './XrayAnalysis';
 export { default as AITestAnalysis, IAITestAnalysis } from './AITestAnalysis';
 export { default as AITestComparison, IAITestComparison } from './AITestComparison';
 export { default as Odontogram, IOdontogram, IToothCondition } from './Odontogram';
+export { default as ConsentTemplate, IConsentTemplate, IConsentText, ConsentLanguage, CONSENT_LANGUAGES } from './ConsentTemplate';
+export { default as PatientConsent, IPatientConsent, ConsentSignatureType, PatientConsentStatus } from './PatientConsent';
+export { default as PatientDocument, IPatientDocument, DocumentCategory, DocumentStorageType, DocumentScanStatus, DocumentAccessLevel, DOCUMENT_CATEGORIES } from './PatientDocument';
+export { default as DataKey, IDataKey, DataKeyPurpose, DataKeyStatus, DATA_KEY_PURPOSES } from './DataKey';
 export { default as Settings } from './Settings';
 export type { ISettings, IWorkingHours } from './Settings';
-export { default as AppointmentStatus, IAppointmentStatus } from './AppointmentStatus'; 
\ No newline at end of file
+export { default as AppointmentStatus, IAppointmentStatus, IStatusTransition, StatusFlags, TransitionRequiredField, TRANSITION_REQUIRED_FIELDS, LEGACY_STATUS_FLAGS, resolveStatusFlags, VisitStage, VISIT_STAGES, LEGACY_VISIT_STAGES, resolveVisitStage } from './AppointmentStatus';
+export { default as Notification, INotification, INotificationAttachment, NotificationChannelType, NotificationEvent, NotificationLanguage, NOTIFICATION_CHANNELS, NOTIFICATION_EVENTS } from './Notification';
+export { default as NotificationTemplate, INotificationTemplate } from './NotificationTemplate';
+export { default as BookingVerification, IBookingVerification } from './BookingVerification'; 
\ No newline at end of file
@@ -0,0 +1,100 @@
+import { Aggregate, Query, Schema, Types } from 'mongoose';
+
+/**
+ * Records under retention rules are archived rather than removed: they drop out of normal queries but
+ * stay in the collection until restored, or purged once the clinic's retention period has passed.
+ */
+export interface ISoftDeletable {
+  deleted_at?: Date | null;
+  deleted_by?: Types.ObjectId;
+  deletion_reason?: string;
+  softDelete(deleted_by?: Types.ObjectId | string, reason?: string): Promise<this>;
+  restore(): Promise<this>;
+}
+
+// Query options understood by the plugin, e.g. Model.find(filter).setOptions({ withDeleted: true })
+export interface SoftDeleteQueryOptions {
+  withDeleted?: boolean; // Archived and current records alike
+  onlyDeleted?: boolean; // Archived records only
+}
+
+// Deletes stay unfiltered so archived records can be purged
+const QUERY_HOOKS = [
+  'find',
+  'findOne',
+  'findOneAndUpdate',
+  'findOneAndReplace',
+  'countDocuments',
+  'distinct',
+  'updateOne',
+  'updateMany',
+  'replaceOne'
+] as const;
+
+/**
+ * A lookup of an explicit list of ids - which is how populate resolves references - still finds
+ * archived records, so an invoice of an archived patient keeps showing the patient's name
+ */
+const isIdListLookup = (filter: Record<string, any>): boolean =>
+  !!filter._id && typeof filter._id === 'object' && Array.isArray(filter._id.$in);
+
+function excludeDeleted(this: Query<unknown, unknown>): void {
+  const options = this.getOptions() as SoftDeleteQueryOptions;
+  if (options.withDeleted) return;
+
+  if (options.onlyDeleted) {
+    this.where({ deleted_at: { $ne: null } });
+    return;
+  }
+
+  const filter = this.getFilter();
+  if (filter.deleted_at !== undefined || isIdListLookup(filter)) return;
+  // Matches records created before the plugin was applied, which have no deleted_at at all
+  this.where({ deleted_at: null });
+}
+
+export function softDeletePlugin(schema: Schema): void {
+  schema.add({
+    deleted_at: {
+      type: Date,
+      default: null,
+      index: true
+    },
+    deleted_by: {
+      type: Schema.Types.ObjectId,
+      ref: 'User'
+    },
+    deletion_reason: {
+      type: String,
+      trim: true,
+      maxlength: [500, 'Deletion reason cannot exceed 500 characters']
+    }
+  });
+
+  for (const hook of QUERY_HOOKS) {
+    schema.pre(hook, excludeDeleted);
+  }
+
+  schema.pre('aggregate', function(this: Aggregate<unknown>) {
+    const options = this.options as SoftDeleteQueryOptions;
+    if (options?.withDeleted) return;
+
+    this.pipeline().unshift({ $match: options?.onlyDeleted ? { deleted_at: { $ne: null } } : { deleted_at: null } });
+  });
+
+  schema.methods.softDelete = async function(deleted_by?: Types.ObjectId | string, reason?: string) {
+    this.deleted_at = new Date();
+    this.deleted_by = deleted_by;
+    this.deletion_reason = reason;
+    return this.save({ validateModifiedOnly: true });
+  };
+
+  schema.methods.restore = async function() {
+    this.deleted_at = null;
+    this.deleted_by = undefined;
+    this.deletion_reason = undefined;
+    return this.save({ validateModifiedOnly: true });
+  };
+}
+
+export default softDeletePlugin;
@@ -1,9 +1,10 @@
 import { Router } from 'express';
-import { body, CustomValidator } from 'express-validator';
-import { AppointmentController } from '../controllers';
+import { body, query, CustomValidator } from 'express-validator';
+import { AppointmentController, CalendarController } from '../controllers';
 import { authenticate, requireMedicalStaff } from '../middleware/auth';
 import { clinicContext } from '../middleware/clinicContext';
 import AppointmentStatus from '../models/AppointmentStatus';
+import { PARTICIPANT_ROLES, MAX_GROUP_PATIENTS } from '../models/Appointment';
 
 const router = Router();
 
@@ -33,16 +34,48 @@ const validateAppointmentStatus: CustomValidator = async (value, { req }) => {
   return true;
 };
 
+// Further staff must not repeat each other or the booked doctor/nurse
+const validateParticipants: CustomValidator = (participants: any[], { req }) => {
+  const ids = participants.map(participant => String(participant?.user_id));
+  const booked = [req.body.doctor_id, req.body.nurse_id].filter(Boolean).map(String);
+
+  if (new Set(ids).size !== ids.length || ids.some(id => booked.includes(id))) {
+    throw new Error('Each staff member can only take part in an appointment once');
+  }
+  return true;
+};
+
+// Group session patients must not repeat each other or the booking patient
+const validateAdditionalPatients: CustomValidator = (patientIds: any[], { req }) => {
+  const ids = patientIds.map(String);
+  if (new Set(ids).size !== ids.length || (req.body.patient_id && ids.includes(String(req.body.patient_id)))) {
+    throw new Error('Each patient can only be listed once');
+  }
+  return true;
+};
+
+const groupValidation = [
+  body('participants').optional().isArray({ max: 10 }).withMessage('Participants must be an array of at most 10 staff members').bail().custom(validateParticipants),
+  body('participants.*.user_id').isMongoId().withMessage('Valid participant user ID is required'),
+  body('participants.*.role').isIn([...PARTICIPANT_ROLES]).withMessage(`Participant role must be one of ${PARTICIPANT_ROLES.join(', ')}`),
+  body('additional_patient_ids').optional().isArray({ max: MAX_GROUP_PATIENTS }).withMessage(`Additional patients must be an array of at most ${MAX_GROUP_PATIENTS} patient IDs`).bail().custom(validateAdditionalPatients),
+  body('additional_patient_ids.*').isMongoId().withMessage('Valid patient ID is required')
+];
+
 // Validation middleware for creating appointments (all fields required)
 const appointmentValidation = [
   body('patient_id').isMongoId().withMessage('Valid patient ID is required'),
   body('doctor_id').isMongoId().withMessage('Valid doctor ID is required'),
   body('nurse_id').optional().isMongoId().withMessage('Valid nurse ID is required if provided'),
+  body('service_id').optional().isMongoId().withMessage('Valid service ID is required if provided'),
+  body('resource_ids').optional().isArray({ max: 10 }).withMessage('Resource IDs must be an array'),
+  body('resource_ids.*').isMongoId().withMessage('Valid resource ID is required'),
   body('appointment_date').isISO8601().withMessage('Please provide a valid appointment date'),
   body('duration').isInt({ min: 15, max: 240 }).withMessage('Duration must be between 15 and 240 minutes'),
   body('type').isIn(['consultation', 'follow-up', 'check-up', 'vaccination', 'procedure', 'emergency', 'screening', 'therapy', 'other']).withMessage('Invalid appointment type'),
   body('status').optional().custom(validateAppointmentStatus),
-  body('notes').optional().isLength({ max: 1000 }).withMessage('Notes cannot exceed 1000 characters')
+  body('notes').optional().isLength({ max: 1000 }).withMessage('Notes cannot exceed 1000 characters'),
+  ...groupValidation
 ];
 
 // Validation middleware for updating appointments (all fields optional)
@@ -50,21 +83,63 @@ const appointmentUpdateValidation = [
   body('patient_id').optional().isMongoId().withMessage('Valid patient ID is required'),
   body('doctor_id').optional().isMongoId().withMessage('Valid doctor ID is required'),
   body('nurse_id').optional().isMongoId().withMessage('Valid nurse ID is required if provided'),
+  body('service_id').optional().isMongoId().withMessage('Valid service ID is required if provided'),
+  body('resource_ids').optional().isArray({ max: 10 }).withMessage('Resource IDs must be an array'),
+  body('resource_ids.*').isMongoId().withMessage('Valid resource ID is required'),
   body('appointment_date').optional().isISO8601().withMessage('Please provide a valid appointment date'),
   body('duration').optional().isInt({ min: 15, max: 240 }).withMessage('Duration must be between 15 and 240 minutes'),
   body('type').optional().isIn(['consultation', 'follow-up', 'check-up', 'vaccination', 'procedure', 'emergency', 'screening', 'therapy', 'other']).withMessage('Invalid appointment type'),
   body('status').optional().custom(validateAppointmentStatus),
-  body('notes').optional().isLength({ max: 1000 }).withMessage('Notes cannot exceed 1000 characters')
+  body('notes').optional().isLength({ max: 1000 }).withMessage('Notes cannot exceed 1000 characters'),
+  body('cancellation_reason').optional().trim().isLength({ max: 500 }).withMessage('Cancellation reason cannot exceed 500 characters'),
+  body('status_reason').optional().trim().isLength({ max: 500 }).withMessage('Status reason cannot exceed 500 characters'),
+  body('scope').optional().isIn(['this', 'following', 'series']).withMessage('Scope must be this, following or series'),
+  ...groupValidation
+];
+
+// Validation middleware for cancelling appointments
+const cancelValidation = [
+  body('cancellation_reason').optional().trim().isLength({ max: 500 }).withMessage('Cancellation reason cannot exceed 500 characters'),
+  body('scope').optional().isIn(['this', 'following', 'series']).withMessage('Scope must be this, following or series')
+];
+
+// Validation middleware for creating recurring appointment series
+const appointmentSeriesValidation = [
+  ...appointmentValidation,
+  body('recurrence').isObject().withMessage('Recurrence rule is required'),
+  body('recurrence.rrule').optional().isString().withMessage('RRULE must be a string'),
+  body('recurrence.frequency').optional().isIn(['daily', 'weekly', 'monthly']).withMessage('Frequency must be daily, weekly or monthly'),
+  body('recurrence.interval').optional().isInt({ min: 1, max: 52 }).withMessage('Interval must be between 1 and 52'),
+  body('recurrence.count').optional().isInt({ min: 1, max: 104 }).withMessage('Count must be between 1 and 104'),
+  body('recurrence.until').optional().isISO8601().withMessage('Until must be a valid date'),
+  body('recurrence.weekdays').optional().isArray().withMessage('Weekdays must be an array'),
+  body('recurrence.weekdays.*').optional().isInt({ min: 0, max: 6 }).withMessage('Weekdays must be between 0 (Sunday) and 6 (Saturday)'),
+  body('skip_conflicts').optional().isBoolean().withMessage('skip_conflicts must be a boolean')
+];
+
+// Validation middleware for availability lookups
+const availabilityValidation = [
+  query('doctor_id').isMongoId().withMessage('Valid doctor ID is required'),
+  query('date').isISO8601().withMessage('Please provide a valid date'),
+  query('duration').optional().isInt({ min: 15, max: 240 }).withMessage('Duration must be between 15 and 240 minutes'),
+  query('step').optional().isInt({ min: 5, max: 240 }).withMessage('Step must be between 5 and 240 minutes'),
+  query('service_id').optional().isMongoId().withMessage('Valid service ID is required if provided')
 ];
 
 // Routes - All appointment operations require authentication and clinic context
 router.post('/', authenticate, clinicContext, appointmentValidation, AppointmentController.createAppointment);
 router.get('/', authenticate, clinicContext, AppointmentController.getAllAppointments);
+router.post('/series', authenticate, clinicContext, appointmentSeriesValidation, AppointmentController.createAppointmentSeries);
+router.get('/series/:seriesId', authenticate, clinicContext, AppointmentController.getAppointmentSeries);
 router.get('/stats', authenticate, clinicContext, AppointmentController.getAppointmentStats);
+router.get('/availability', authenticate, clinicContext, availabilityValidation, AppointmentController.getAvailability);
 router.get('/upcoming', authenticate, clinicContext, AppointmentController.getUpcomingAppointments);
 router.get('/doctor/:doctorId/schedule', authenticate, clinicContext, AppointmentController.getDoctorSchedule);
 router.get('/:id', authenticate, clinicContext, AppointmentController.getAppointmentById);
+router.get('/:id/links', authenticate, clinicContext, AppointmentController.getPatientLinks);
+router.get('/:id/timeline', authenticate, clinicContext, AppointmentController.getTimeline);
+router.get('/:id/ics', authenticate, clinicContext, CalendarController.getAppointmentIcs);
 router.put('/:id', authenticate, clinicContext, appointmentUpdateValidation, AppointmentController.updateAppointment);
-router.patch('/:id/cancel', authenticate, clinicContext, AppointmentController.cancelAppointment);
+router.patch('/:id/cancel', authenticate, clinicContext, cancelValidation, AppointmentController.cancelAppointment);
 
 export default router; 
\ No newline at end of file
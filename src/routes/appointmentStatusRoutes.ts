@@ -4,6 +4,7 @@ import { validationResult } from 'express-validator';
 import { AppointmentStatusController } from '../controllers/appointmentStatusController';
 import { authenticate } from '../middleware/auth';
 import { clinicContext } from '../middleware/clinicContext';
+import { TRANSITION_REQUIRED_FIELDS, VISIT_STAGES } from '../models/AppointmentStatus';
 
 const router = Router();
 
@@ -24,6 +25,38 @@ const handleValidationErrors = (req: any, res: any, next: any) => {
 router.use(authenticate);
 router.use(clinicContext);
 
+// Workflow fields shared by create, update and batch (prefix '' or 'updates.*.')
+const workflowValidation = (prefix = '') => [
+  ...['is_terminal', 'counts_as_cancelled', 'frees_slot', 'is_billable'].map(flag =>
+    body(`${prefix}${flag}`)
+      .optional()
+      .isBoolean().withMessage(`${flag} must be a boolean`)
+  ),
+  body(`${prefix}visit_stage`)
+    .optional({ values: 'null' })
+    .isIn(VISIT_STAGES).withMessage(`Visit stage must be one of: ${VISIT_STAGES.join(', ')}`),
+  body(`${prefix}transitions`)
+    .optional()
+    .isArray().withMessage('Transitions must be an array'),
+  body(`${prefix}transitions.*.to`)
+    .trim()
+    .notEmpty().withMessage('Transition target status is required'),
+  body(`${prefix}transitions.*.roles`)
+    .optional()
+    .isArray().withMessage('Transition roles must be an array'),
+  body(`${prefix}transitions.*.roles.*`)
+    .isIn(['super_admin', 'admin', 'doctor', 'nurse', 'receptionist', 'accountant', 'staff']).withMessage('Invalid transition role'),
+  body(`${prefix}transitions.*.permission`)
+    .optional()
+    .trim()
+    .matches(/^[a-z_]+\.[a-z_]+$/).withMessage('Transition permission must look like module.action'),
+  body(`${prefix}transitions.*.required_fields`)
+    .optional()
+    .isArray().withMessage('Transition required fields must be an array'),
+  body(`${prefix}transitions.*.required_fields.*`)
+    .isIn(TRANSITION_REQUIRED_FIELDS).withMessage(`Required fields must be one of: ${TRANSITION_REQUIRED_FIELDS.join(', ')}`)
+];
+
 // Validation rules
 const createStatusValidation = [
   body('code')
@@ -58,7 +91,8 @@ const createStatusValidation = [
   body('description')
     .optional()
     .trim()
-    .isLength({ max: 500 }).withMessage('Description cannot exceed 500 characters')
+    .isLength({ max: 500 }).withMessage('Description cannot exceed 500 characters'),
+  ...workflowValidation()
 ];
 
 const updateStatusValidation = [
@@ -97,7 +131,8 @@ const updateStatusValidation = [
   body('description')
     .optional()
     .trim()
-    .isLength({ max: 500 }).withMessage('Description cannot exceed 500 characters')
+    .isLength({ max: 500 }).withMessage('Description cannot exceed 500 characters'),
+  ...workflowValidation()
 ];
 
 const batchUpdateValidation = [
@@ -115,7 +150,8 @@ const batchUpdateValidation = [
     .isBoolean().withMessage('is_active must be a boolean'),
   body('updates.*.show_in_calendar')
     .optional()
-    .isBoolean().withMessage('show_in_calendar must be a boolean')
+    .isBoolean().withMessage('show_in_calendar must be a boolean'),
+  ...workflowValidation('updates.*.')
 ];
 
 // Routes
@@ -0,0 +1,37 @@
+import { Router } from 'express';
+import { param, query } from 'express-validator';
+import { ArchiveController } from '../controllers';
+import { authenticate, authorize } from '../middleware/auth';
+import { clinicContext } from '../middleware/clinicContext';
+import { ARCHIVE_RECORD_TYPES } from '../utils/archive';
+
+const router = Router();
+
+// Archived records are only handled by administrators
+router.use(authenticate);
+router.use(clinicContext);
+router.use(authorize('super_admin', 'admin'));
+
+// Validation middleware
+const typeValidation = [
+  param('type').isIn(ARCHIVE_RECORD_TYPES).withMessage(`Record type must be one of: ${ARCHIVE_RECORD_TYPES.join(', ')}`)
+];
+
+const listValidation = [
+  ...typeValidation,
+  query('page').optional().isInt({ min: 1 }).withMessage('Page must be a positive integer'),
+  query('limit').optional().isInt({ min: 1, max: 100 }).withMessage('Limit must be between 1 and 100')
+];
+
+const restoreValidation = [
+  ...typeValidation,
+  param('id').isMongoId().withMessage('Invalid record ID')
+];
+
+// Routes
+router.get('/policies', ArchiveController.getPolicies);
+router.post('/purge', ArchiveController.purgeExpired);
+router.get('/:type', listValidation, ArchiveController.getArchivedRecords);
+router.post('/:type/:id/restore', restoreValidation, ArchiveController.restoreRecord);
+
+export default router;
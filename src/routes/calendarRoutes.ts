@@ -0,0 +1,26 @@
+import { Router } from 'express';
+import { body } from 'express-validator';
+import { CalendarController, icsUpload } from '../controllers/calendarController';
+import { authenticate, requireStaff } from '../middleware/auth';
+import { clinicContext } from '../middleware/clinicContext';
+
+const router = Router();
+
+router.use(authenticate);
+
+// Validation middleware for calendar import
+const importValidation = [
+  body('user_id').optional().isMongoId().withMessage('Valid user ID is required if provided'),
+  body('replace').optional().isBoolean().withMessage('replace must be a boolean'),
+  body('ics').optional().isString().withMessage('ics must be the calendar text')
+];
+
+// Personal subscription feed of the current user's appointments
+router.get('/feed', CalendarController.getFeedStatus);
+router.post('/feed', ...requireStaff, CalendarController.createFeed);
+router.delete('/feed', CalendarController.revokeFeed);
+
+// External calendars imported as busy blocks
+router.post('/import', clinicContext, ...requireStaff, icsUpload.single('file'), importValidation, CalendarController.importCalendar);
+
+export default router;
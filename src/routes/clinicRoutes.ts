@@ -3,6 +3,7 @@ import { body, param, query } from 'express-validator';
 import { ClinicController } from '../controllers/clinicController';
 import { authenticate } from '../middleware/auth';
 import { clinicContext, optionalClinicContext } from '../middleware/clinicContext';
+import { TimezoneService } from '../utils/timezone';
 
 const router = Router();
 
@@ -83,7 +84,9 @@ const createClinicValidation = [
   body('settings.timezone')
     .optional()
     .isString()
-    .withMessage('Timezone must be a string'),
+    .withMessage('Timezone must be a string')
+    .custom((value) => TimezoneService.isValid(value))
+    .withMessage('Timezone must be a valid IANA timezone, e.g. Asia/Riyadh'),
   
   body('settings.currency')
     .optional()
@@ -166,7 +169,9 @@ const updateClinicValidation = [
   body('settings.timezone')
     .optional()
     .isString()
-    .withMessage('Timezone must be a string'),
+    .withMessage('Timezone must be a string')
+    .custom((value) => TimezoneService.isValid(value))
+    .withMessage('Timezone must be a valid IANA timezone, e.g. Asia/Riyadh'),
   
   body('settings.currency')
     .optional()
@@ -176,9 +181,41 @@ const updateClinicValidation = [
   body('settings.language')
     .optional()
     .isIn(['en', 'es', 'fr', 'de', 'it', 'pt', 'ar', 'hi', 'zh', 'ja'])
-    .withMessage('Invalid language')
+    .withMessage('Invalid language'),
+
+  ...mrnSettingsValidation(body, 'settings.mrn.')
 ];
 
+/**
+ * Validation middleware for medical record number settings (body on update, query on preview)
+ */
+function mrnSettingsValidation(location: typeof body | typeof query, path = '') {
+  return [
+    location(`${path}scope`)
+      .optional()
+      .isIn(['clinic', 'tenant'])
+      .withMessage('MRN scope must be clinic or tenant'),
+
+    location(`${path}pattern`)
+      .optional()
+      .isString()
+      .isLength({ max: 50 })
+      .contains('{seq}')
+      .withMessage('MRN pattern must contain {seq} and cannot exceed 50 characters'),
+
+    location(`${path}prefix`)
+      .optional()
+      .isString()
+      .isLength({ max: 10 })
+      .withMessage('MRN prefix cannot exceed 10 characters'),
+
+    location(`${path}padding`)
+      .optional()
+      .isInt({ min: 1, max: 12 })
+      .withMessage('MRN padding must be between 1 and 12')
+  ];
+}
+
 /**
  * Validation middleware for user-clinic operations
  */
@@ -361,6 +398,19 @@ router.get(
   ClinicController.getClinicStats
 );
 
+/**
+ * @route GET /api/clinics/:id/mrn-preview
+ * @desc Preview the next medical record number, optionally with unsaved settings
+ * @access Private
+ */
+router.get(
+  '/:id/mrn-preview',
+  authenticate,
+  paramValidation,
+  mrnSettingsValidation(query),
+  ClinicController.getMrnPreview
+);
+
 // ============================================================================
 // USER-CLINIC MANAGEMENT ROUTES
 // ============================================================================
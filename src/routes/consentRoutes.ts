@@ -0,0 +1,73 @@
+import { Router } from 'express';
+import { body, query } from 'express-validator';
+import { ConsentController } from '../controllers';
+import { CONSENT_LANGUAGES } from '../models';
+import { authenticate, authorize } from '../middleware/auth';
+import { clinicContext } from '../middleware/clinicContext';
+
+const router = Router();
+
+// Validation middleware
+const templateTextValidation = [
+  body('title.en').optional().isString().isLength({ max: 200 }).withMessage('Title cannot exceed 200 characters'),
+  body('title.ar').optional().isString().isLength({ max: 200 }).withMessage('Title cannot exceed 200 characters'),
+  body('body.en').optional().isString().isLength({ max: 20000 }).withMessage('Consent text cannot exceed 20000 characters'),
+  body('body.ar').optional().isString().isLength({ max: 20000 }).withMessage('Consent text cannot exceed 20000 characters'),
+  body('valid_for_days')
+    .optional({ values: 'null' })
+    .isInt({ min: 1, max: 3650 })
+    .withMessage('Validity must be between 1 and 3650 days')
+];
+
+const createTemplateValidation = [
+  body('code')
+    .matches(/^[a-z0-9_-]{1,50}$/i)
+    .withMessage('Code can only contain letters, numbers, hyphens and underscores (max 50)'),
+  body('title.en').notEmpty().withMessage('English title is required'),
+  body('body.en').notEmpty().withMessage('English consent text is required'),
+  ...templateTextValidation
+];
+
+const signValidation = [
+  body('patient_id').isMongoId().withMessage('Valid patient ID is required'),
+  body('template_code').isString().notEmpty().withMessage('Consent template code is required'),
+  body('appointment_id').optional().isMongoId().withMessage('Invalid appointment ID'),
+  body('language').optional().isIn(CONSENT_LANGUAGES).withMessage(`Language must be one of: ${CONSENT_LANGUAGES.join(', ')}`),
+  body('signer.relationship').optional().isIn(['self', 'guardian', 'spouse']).withMessage('Signer must be the patient, a guardian or a spouse'),
+  body('signer.patient_id')
+    .if(body('signer.relationship').isIn(['guardian', 'spouse']))
+    .isMongoId()
+    .withMessage('The signing guardian or spouse is required'),
+  body('signer.name').optional().isString().isLength({ max: 200 }).withMessage('Signer name cannot exceed 200 characters'),
+  body('signature.type').isIn(['drawn', 'typed']).withMessage('Signature type must be drawn or typed'),
+  body('signature.image')
+    .if(body('signature.type').equals('drawn'))
+    .isString().notEmpty().withMessage('Signature image is required for a drawn signature'),
+  body('signature.typed_name')
+    .if(body('signature.type').equals('typed'))
+    .isString().trim().notEmpty().isLength({ max: 200 }).withMessage('Typed name is required for a typed signature')
+];
+
+const revokeValidation = [
+  body('reason').optional().isString().isLength({ max: 500 }).withMessage('Reason cannot exceed 500 characters')
+];
+
+const historyValidation = [
+  query('status').optional().isIn(['signed', 'revoked']).withMessage('Status must be signed or revoked')
+];
+
+// Templates - staff read them, admins manage them
+router.get('/templates', authenticate, clinicContext, ConsentController.getTemplates);
+router.post('/templates', authenticate, clinicContext, authorize('super_admin', 'admin'), createTemplateValidation, ConsentController.createTemplate);
+router.get('/templates/:code/versions', authenticate, clinicContext, ConsentController.getTemplateVersions);
+router.put('/templates/:code', authenticate, clinicContext, authorize('super_admin', 'admin'), templateTextValidation, ConsentController.updateTemplate);
+router.patch('/templates/:code/toggle-status', authenticate, clinicContext, authorize('super_admin', 'admin'), ConsentController.toggleTemplateStatus);
+
+// Signed consents
+router.post('/sign', authenticate, clinicContext, signValidation, ConsentController.signConsent);
+router.get('/patients/:patientId', authenticate, clinicContext, historyValidation, ConsentController.getPatientConsents);
+router.get('/appointments/:appointmentId', authenticate, clinicContext, ConsentController.getAppointmentConsents);
+router.get('/:id', authenticate, clinicContext, ConsentController.getConsentById);
+router.post('/:id/revoke', authenticate, clinicContext, revokeValidation, ConsentController.revokeConsent);
+
+export default router;
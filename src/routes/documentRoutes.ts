@@ -0,0 +1,71 @@
+import { Router } from 'express';
+import { body, query } from 'express-validator';
+import { DocumentController } from '../controllers';
+import { DOCUMENT_CATEGORIES } from '../models';
+import { authenticate } from '../middleware/auth';
+import { clinicContext } from '../middleware/clinicContext';
+import { documentUpload } from '../utils/documentStorage';
+
+const router = Router();
+
+const USER_ROLES = ['super_admin', 'admin', 'doctor', 'nurse', 'receptionist', 'accountant', 'staff'];
+
+// Lists may arrive as arrays (JSON) or comma-separated strings (multipart forms)
+const isList = (check: (item: string) => boolean) => (value: unknown) => {
+  const items = Array.isArray(value) ? value : String(value).split(',');
+  return items.map(item => String(item).trim()).filter(Boolean).every(check);
+};
+
+// Validation middleware
+const listValidation = [
+  query('patient_id').optional().isMongoId().withMessage('Invalid patient ID'),
+  query('appointment_id').optional().isMongoId().withMessage('Invalid appointment ID'),
+  query('category').optional().isIn(DOCUMENT_CATEGORIES).withMessage('Invalid document category')
+];
+
+const documentFieldsValidation = [
+  body('title').optional().isString().trim().isLength({ min: 1, max: 200 }).withMessage('Title must be 1-200 characters'),
+  body('description').optional().isString().isLength({ max: 1000 }).withMessage('Description cannot exceed 1000 characters'),
+  body('tags').optional().custom(isList(tag => tag.length <= 50)).withMessage('Tags cannot exceed 50 characters each')
+];
+
+const accessValidation = (prefix: string) => [
+  body(`${prefix}level`).optional().isIn(['clinic', 'restricted']).withMessage('Access level must be clinic or restricted'),
+  body(`${prefix}roles`).optional().custom(isList(role => USER_ROLES.includes(role))).withMessage('Invalid role in access list'),
+  body(`${prefix}user_ids`).optional().custom(isList(id => /^[a-f0-9]{24}$/i.test(id))).withMessage('Invalid user ID in access list')
+];
+
+const uploadValidation = [
+  body('patient_id').isMongoId().withMessage('Valid patient ID is required'),
+  body('appointment_id').optional({ checkFalsy: true }).isMongoId().withMessage('Invalid appointment ID'),
+  body('category').isIn(DOCUMENT_CATEGORIES).withMessage(`Category must be one of: ${DOCUMENT_CATEGORIES.join(', ')}`),
+  ...documentFieldsValidation,
+  ...accessValidation('access_')
+];
+
+const updateValidation = [
+  body('category').optional().isIn(DOCUMENT_CATEGORIES).withMessage(`Category must be one of: ${DOCUMENT_CATEGORIES.join(', ')}`),
+  ...documentFieldsValidation
+];
+
+const updateAccessValidation = [
+  body('level').isIn(['clinic', 'restricted']).withMessage('Access level must be clinic or restricted'),
+  ...accessValidation('')
+];
+
+// Deleted documents are archived with an optional reason
+const deletionValidation = [
+  body('reason').optional().isString().trim().isLength({ max: 500 }).withMessage('Reason cannot exceed 500 characters')
+];
+
+// Routes
+router.get('/', authenticate, clinicContext, listValidation, DocumentController.getDocuments);
+router.post('/', authenticate, clinicContext, documentUpload.single('file'), uploadValidation, DocumentController.uploadDocument);
+router.get('/:id', authenticate, clinicContext, DocumentController.getDocumentById);
+router.put('/:id', authenticate, clinicContext, updateValidation, DocumentController.updateDocument);
+router.put('/:id/access', authenticate, clinicContext, updateAccessValidation, DocumentController.updateAccess);
+router.get('/:id/download', authenticate, clinicContext, DocumentController.getDownloadUrl);
+router.get('/:id/content', authenticate, clinicContext, DocumentController.getContent);
+router.delete('/:id', authenticate, clinicContext, deletionValidation, DocumentController.deleteDocument);
+
+export default router;
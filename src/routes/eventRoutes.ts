@@ -0,0 +1,15 @@
+import { Router } from 'express';
+import { EventController } from '../controllers';
+import { authenticate } from '../middleware/auth';
+import { clinicContext } from '../middleware/clinicContext';
+
+const router = Router();
+
+// Apply authentication middleware first, then clinic context to all routes
+router.use(authenticate);
+router.use(clinicContext);
+
+// Real-time events for dashboards - Server-Sent Events
+router.get('/stream', EventController.stream);
+
+export default router;
@@ -4,12 +4,22 @@ import superAdminRoutes from './auth/superAdminRoutes';
 import superAdminTenantRoutes from './super-admin/tenantRoutes';
 import superAdminUserRoutes from './super-admin/superAdminUserRoutes';
 import publicTenantRoutes from './publicv2/publicTenantRoutes';
+import publicBookingRoutes from './publicv2/publicBookingRoutes';
 import userRoutes from './userRoutes';
 import clinicRoutes from './clinicRoutes';
 import userClinicRoutes from './userClinicRoutes';
 import patientRoutes from './patientRoutes';
+import consentRoutes from './consentRoutes';
+import documentRoutes from './documentRoutes';
 import appointmentRoutes from './appointmentRoutes';
 import appointmentStatusRoutes from './appointmentStatusRoutes';
+import scheduleExceptionRoutes from './scheduleExceptionRoutes';
+import resourceRoutes from './resourceRoutes';
+import calendarRoutes from './calendarRoutes';
+import waitlistRoutes from './waitlistRoutes';
+import queueRoutes from './queueRoutes';
+import eventRoutes from './eventRoutes';
+import notificationRoutes from './notificationRoutes';
 import medicalRecordRoutes from './medicalRecordRoutes';
 import invoiceRoutes from './invoiceRoutes';
 import paymentRoutes from './paymentRoutes';
@@ -39,6 +49,7 @@ import expenseRoutes from './expenseRoutes';
 import performanceRoutes from './performanceRoutes';
 import permissionRoutes from './permissionRoutes';
 import roleRoutes from './roleRoutes';
+import archiveRoutes from './archiveRoutes';
 import { getConnectionState, isConnectionHealthy } from '../config/database';
 import autoPermissionGuard from '../middleware/autoPermission';
 
@@ -56,6 +67,9 @@ router.get('/payments/verify-session/:session_id', (req: any, res: any) => {
 // Public tenant routes (for tenant selection and validation)
 router.use('/public/tenants', publicTenantRoutes);
 
+// Public online booking per tenant subdomain
+router.use('/publicv2/tenants/:subdomain', publicBookingRoutes);
+
 // Mount routes
 // Mount Super Admin routes first (before global permission guard)
 router.use('/super-admin/auth', superAdminRoutes);
@@ -69,8 +83,18 @@ router.use('/users', userRoutes);
 router.use('/clinics', clinicRoutes);
 router.use('/user', userClinicRoutes);
 router.use('/patients', patientRoutes);
+router.use('/consents', consentRoutes);
+router.use('/documents', documentRoutes);
+router.use('/archive', archiveRoutes);
 router.use('/appointments', appointmentRoutes);
 router.use('/appointment-statuses', appointmentStatusRoutes);
+router.use('/schedule-exceptions', scheduleExceptionRoutes);
+router.use('/resources', resourceRoutes);
+router.use('/calendar', calendarRoutes);
+router.use('/waitlist', waitlistRoutes);
+router.use('/queue', queueRoutes);
+router.use('/events', eventRoutes);
+router.use('/notifications', notificationRoutes);
 router.use('/medical-records', medicalRecordRoutes);
 router.use('/invoices', invoiceRoutes);
 router.use('/payments', paymentRoutes);
@@ -13,6 +13,8 @@ router.use(clinicContext);
 // Validation middleware
 const invoiceValidation = [
   body('patient_id').isMongoId().withMessage('Valid patient ID is required'),
+  body('billed_to_patient_id').optional({ values: 'null' }).isMongoId().withMessage('Valid billed-to patient ID is required'),
+  body('appointment_id').optional().isMongoId().withMessage('Valid appointment ID is required'),
   body('total_amount').optional().isFloat({ min: 0 }).withMessage('Total amount must be a positive number'),
   body('tax_amount').optional().isFloat({ min: 0 }).withMessage('Tax amount must be a positive number'),
   body('subtotal').optional().isFloat({ min: 0 }).withMessage('Subtotal must be a positive number'),
@@ -26,6 +28,11 @@ const invoiceValidation = [
   body('services.*.type').optional().isIn(['service', 'test', 'medication', 'procedure']).withMessage('Service type must be one of: service, test, medication, procedure')
 ];
 
+// Deleted records are archived with an optional reason
+const deletionValidation = [
+  body('reason').optional().isString().trim().isLength({ max: 500 }).withMessage('Reason cannot exceed 500 characters')
+];
+
 // Routes
 router.post('/', invoiceValidation, InvoiceController.createInvoice);
 router.get('/', InvoiceController.getAllInvoices);
@@ -33,7 +40,7 @@ router.get('/overdue', InvoiceController.getOverdueInvoices);
 router.get('/stats', InvoiceController.getInvoiceStats);
 router.get('/:id', InvoiceController.getInvoiceById);
 router.put('/:id', invoiceValidation, InvoiceController.updateInvoice);
-router.delete('/:id', InvoiceController.deleteInvoice);
+router.delete('/:id', deletionValidation, InvoiceController.deleteInvoice);
 router.patch('/:id/mark-paid', InvoiceController.markAsPaid);
 
 export default router; 
\ No newline at end of file
@@ -36,7 +36,9 @@ const conversionValidation = [
   body('emergency_contact.email').optional({ checkFalsy: true }).isEmail().withMessage('Please provide a valid emergency contact email'),
   body('insurance_info.provider').optional({ checkFalsy: true }).trim().isString().withMessage('Insurance provider must be a string'),
   body('insurance_info.policy_number').optional({ checkFalsy: true }).trim().isString().withMessage('Policy number must be a string'),
-  body('insurance_info.group_number').optional({ checkFalsy: true }).trim().isString().withMessage('Group number must be a string')
+  body('insurance_info.group_number').optional({ checkFalsy: true }).trim().isString().withMessage('Group number must be a string'),
+  body('patient_id').optional().isMongoId().withMessage('Valid patient ID is required if provided'),
+  body('create_anyway').optional().isBoolean().withMessage('create_anyway must be a boolean').toBoolean()
 ];
 
 // Basic CRUD routes (require authentication and clinic context)
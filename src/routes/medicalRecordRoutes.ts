@@ -24,12 +24,17 @@ const medicalRecordValidation = [
   body('vital_signs.height').optional().isFloat({ min: 30, max: 250 }).withMessage('Height must be between 30-250 cm')
 ];
 
+// Deleted records are archived with an optional reason
+const deletionValidation = [
+  body('reason').optional().isString().trim().isLength({ max: 500 }).withMessage('Reason cannot exceed 500 characters')
+];
+
 // Routes - All routes require authentication and clinic context
 router.post('/', authenticate, clinicContext, medicalRecordValidation, MedicalRecordController.createMedicalRecord);
 router.get('/patient/:patientId', authenticate, clinicContext, MedicalRecordController.getMedicalRecordsByPatient);
 router.get('/patient/:patientId/history', authenticate, clinicContext, MedicalRecordController.getPatientHistory);
 router.get('/:id', authenticate, clinicContext, MedicalRecordController.getMedicalRecordById);
 router.put('/:id', authenticate, clinicContext, medicalRecordValidation, MedicalRecordController.updateMedicalRecord);
-router.delete('/:id', authenticate, clinicContext, MedicalRecordController.deleteMedicalRecord);
+router.delete('/:id', authenticate, clinicContext, deletionValidation, MedicalRecordController.deleteMedicalRecord);
 
 export default router; 
\ No newline at end of file
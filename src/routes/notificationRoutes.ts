@@ -0,0 +1,38 @@
+import { Router } from 'express';
+import { body } from 'express-validator';
+import { NotificationController } from '../controllers';
+import { authenticate, authorize, requireAdmin } from '../middleware/auth';
+import { clinicContext } from '../middleware/clinicContext';
+
+const router = Router();
+
+// Apply authentication middleware first, then clinic context to all routes
+router.use(authenticate);
+router.use(clinicContext);
+
+const outboxRoles = authorize('super_admin', 'admin', 'receptionist', 'staff');
+
+// Validation middleware for clinic templates
+const templateValidation = [
+  body('subject_en').optional().isLength({ max: 300 }).withMessage('English subject cannot exceed 300 characters'),
+  body('subject_ar').optional().isLength({ max: 300 }).withMessage('Arabic subject cannot exceed 300 characters'),
+  body('body_en').notEmpty().withMessage('English body is required').isLength({ max: 5000 }).withMessage('English body cannot exceed 5000 characters'),
+  body('body_ar').notEmpty().withMessage('Arabic body is required').isLength({ max: 5000 }).withMessage('Arabic body cannot exceed 5000 characters'),
+  body('is_active').optional().isBoolean().withMessage('is_active must be a boolean')
+];
+
+// In-app notifications for the current user
+router.get('/me', NotificationController.getMyNotifications);
+router.patch('/:id/read', NotificationController.markAsRead);
+
+// Templates
+router.get('/templates', NotificationController.getTemplates);
+router.put('/templates/:event/:channel', requireAdmin, templateValidation, NotificationController.upsertTemplate);
+router.delete('/templates/:event/:channel', requireAdmin, NotificationController.resetTemplate);
+
+// Outbox
+router.get('/', outboxRoles, NotificationController.getAllNotifications);
+router.post('/process', requireAdmin, NotificationController.processOutbox);
+router.post('/:id/retry', outboxRoles, NotificationController.retryNotification);
+
+export default router;
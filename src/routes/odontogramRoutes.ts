@@ -58,6 +58,8 @@ const odontogramValidation = [
   body('teeth_conditions.*.treatment_plan.planned_date').optional().isISO8601().withMessage('Please provide a valid planned date'),
   body('teeth_conditions.*.treatment_plan.completed_date').optional().isISO8601().withMessage('Please provide a valid completed date'),
   body('teeth_conditions.*.treatment_plan.notes').optional().isString().isLength({ max: 1000 }).withMessage('Treatment notes cannot exceed 1000 characters'),
+  body('teeth_conditions.*.treatment_plan.required_consents').optional().isArray({ max: 20 }).withMessage('Required consents must be an array'),
+  body('teeth_conditions.*.treatment_plan.required_consents.*').matches(/^[a-z0-9_-]+$/i).withMessage('Invalid consent code'),
   
   // Periodontal pocket depth validation
   body('teeth_conditions.*.periodontal_pocket_depth.mesial').optional().isFloat({ min: 0, max: 20 }).withMessage('Mesial pocket depth must be between 0-20'),
@@ -110,6 +112,8 @@ const toothConditionValidation = [
   body('treatment_plan.planned_date').optional().isISO8601().withMessage('Please provide a valid planned date'),
   body('treatment_plan.completed_date').optional().isISO8601().withMessage('Please provide a valid completed date'),
   body('treatment_plan.notes').optional().isString().isLength({ max: 1000 }).withMessage('Treatment notes cannot exceed 1000 characters'),
+  body('treatment_plan.required_consents').optional().isArray({ max: 20 }).withMessage('Required consents must be an array'),
+  body('treatment_plan.required_consents.*').matches(/^[a-z0-9_-]+$/i).withMessage('Invalid consent code'),
   
   // Periodontal pocket depth validation
   body('periodontal_pocket_depth.mesial').optional().isFloat({ min: 0, max: 20 }).withMessage('Mesial pocket depth must be between 0-20'),
@@ -1,7 +1,16 @@
 import { Router } from 'express';
-import { body } from 'express-validator';
-import { PatientController } from '../controllers';
-import { authenticate, requireMedicalStaff } from '../middleware/auth';
+import { body, param, query } from 'express-validator';
+import { ClinicalSummaryController, PatientController, PatientMergeController, PatientRelationshipController } from '../controllers';
+import {
+  ALLERGY_CATEGORIES,
+  ALLERGY_SEVERITIES,
+  PATIENT_IDENTIFIER_TYPES,
+  PATIENT_RELATIONSHIP_TYPES,
+  PREGNANCY_STATUSES,
+  SMOKING_STATUSES
+} from '../models';
+import { TIMELINE_EVENT_TYPES } from '../utils/patientTimeline';
+import { authenticate, authorize, requireMedicalStaff } from '../middleware/auth';
 import { clinicContext } from '../middleware/clinicContext';
 
 const router = Router();
@@ -22,15 +31,133 @@ const patientValidation = [
   body('insurance_info.provider').optional().isString().withMessage('Insurance provider must be a string'),
   body('insurance_info.policy_number').optional().isString().withMessage('Policy number must be a string'),
   body('insurance_info.group_number').optional().isString().withMessage('Group number must be a string'),
-  body('insurance_info.expiry_date').optional().isISO8601().withMessage('Please provide a valid expiry date')
+  body('insurance_info.expiry_date').optional().isISO8601().withMessage('Please provide a valid expiry date'),
+  body('mrn').optional({ checkFalsy: true }).trim().isLength({ max: 50 }).withMessage('MRN cannot exceed 50 characters'),
+  body('identifiers').optional().isArray({ max: 10 }).withMessage('Identifiers must be an array of at most 10 entries'),
+  body('identifiers.*.type').isIn(PATIENT_IDENTIFIER_TYPES).withMessage(`Identifier type must be one of: ${PATIENT_IDENTIFIER_TYPES.join(', ')}`),
+  body('identifiers.*.value').notEmpty().trim().isLength({ max: 50 }).withMessage('Identifier value is required and cannot exceed 50 characters'),
+  body('identifiers.*.issuer').optional({ checkFalsy: true }).trim().isLength({ max: 100 }).withMessage('Issuer cannot exceed 100 characters'),
+  body('identifiers.*.expiry_date').optional({ checkFalsy: true }).isISO8601().withMessage('Please provide a valid identifier expiry date')
+];
+
+// Lookup by MRN or by an external identifier
+const lookupValidation = [
+  query('mrn').optional().trim().notEmpty().withMessage('MRN cannot be empty'),
+  query('identifier_type').optional().isIn(PATIENT_IDENTIFIER_TYPES).withMessage(`Identifier type must be one of: ${PATIENT_IDENTIFIER_TYPES.join(', ')}`),
+  query('identifier_value').optional().trim().notEmpty().withMessage('Identifier value cannot be empty'),
+  query('issuer').optional().trim()
+];
+
+// Duplicate lookup validation
+const duplicateQueryValidation = [
+  query('patient_id').optional().isMongoId().withMessage('Valid patient ID is required if provided'),
+  query('date_of_birth').optional({ checkFalsy: true }).isISO8601().withMessage('Please provide a valid date of birth'),
+  query('email').optional({ checkFalsy: true }).isEmail().withMessage('Please provide a valid email'),
+  query('threshold').optional().isInt({ min: 1, max: 100 }).withMessage('Threshold must be between 1 and 100'),
+  query('limit').optional().isInt({ min: 1, max: 200 }).withMessage('Limit must be between 1 and 200')
+];
+
+const mergeValidation = [
+  body('survivor_id').isMongoId().withMessage('Valid surviving patient ID is required'),
+  body('duplicate_id').isMongoId().withMessage('Valid duplicate patient ID is required'),
+  body('reason').optional().trim().isLength({ max: 500 }).withMessage('Reason cannot exceed 500 characters')
+];
+
+const relationshipValidation = [
+  body('related_patient_id').isMongoId().withMessage('Valid related patient ID is required'),
+  body('relationship').isIn(PATIENT_RELATIONSHIP_TYPES).withMessage(`Relationship must be one of: ${PATIENT_RELATIONSHIP_TYPES.join(', ')}`),
+  body('label').optional().trim().isLength({ max: 50 }).withMessage('Label cannot exceed 50 characters'),
+  body('notes').optional().trim().isLength({ max: 500 }).withMessage('Notes cannot exceed 500 characters'),
+  body('is_responsible_party').optional().isBoolean().withMessage('is_responsible_party must be a boolean')
+];
+
+const responsiblePartyValidation = [
+  body('responsible_party_id').optional({ values: 'null' }).isMongoId().withMessage('Valid responsible party ID is required')
+];
+
+const clinicalSummaryValidation = [
+  body('smoking_status').optional().isIn(SMOKING_STATUSES).withMessage(`Smoking status must be one of: ${SMOKING_STATUSES.join(', ')}`),
+  body('pregnancy_status').optional().isIn(PREGNANCY_STATUSES).withMessage(`Pregnancy status must be one of: ${PREGNANCY_STATUSES.join(', ')}`),
+  body('pregnancy_due_date').optional({ values: 'null' }).isISO8601().withMessage('Valid due date is required'),
+  body('reviewed').optional().isBoolean().withMessage('reviewed must be a boolean')
+];
+
+const clinicalListValidation = [
+  param('list').isIn(['allergies', 'conditions', 'medications']).withMessage('List must be allergies, conditions or medications'),
+  param('entryId').optional().isMongoId().withMessage('Invalid entry ID')
+];
+
+// Required fields are only enforced when adding an entry
+const clinicalEntryValidation = (adding: boolean) => {
+  const required = (field: string) => adding ? body(field) : body(field).optional();
+  return [
+    ...clinicalListValidation,
+    required('allergen').if(param('list').equals('allergies')).trim().isLength({ min: 1, max: 100 }).withMessage('Allergen is required (max 100 characters)'),
+    body('category').if(param('list').equals('allergies')).optional().isIn(ALLERGY_CATEGORIES).withMessage(`Category must be one of: ${ALLERGY_CATEGORIES.join(', ')}`),
+    required('severity').if(param('list').equals('allergies')).isIn(ALLERGY_SEVERITIES).withMessage(`Severity must be one of: ${ALLERGY_SEVERITIES.join(', ')}`),
+    body('reaction').optional().trim().isLength({ max: 500 }).withMessage('Reaction cannot exceed 500 characters'),
+    required('name').if(param('list').isIn(['conditions', 'medications'])).trim().isLength({ min: 1, max: 200 }).withMessage('Name is required (max 200 characters)'),
+    body('code').optional().trim().isLength({ max: 20 }).withMessage('Code cannot exceed 20 characters'),
+    body('status').optional().custom((status, { req }) => {
+      const statuses: Record<string, string[]> = {
+        allergies: ['active', 'inactive'],
+        conditions: ['active', 'resolved'],
+        medications: ['active', 'stopped']
+      };
+      return (statuses[req.params?.list] || []).includes(status);
+    }).withMessage('Invalid status for this list'),
+    body(['onset_date', 'started_at', 'stopped_at']).optional().isISO8601().withMessage('Dates must be valid ISO 8601 dates'),
+    body('notes').optional().trim().isLength({ max: 500 }).withMessage('Notes cannot exceed 500 characters')
+  ];
+};
+
+const timelineValidation = [
+  query('types').optional().custom((value: string) => String(value).split(',').map(type => type.trim()).filter(Boolean)
+    .every(type => (TIMELINE_EVENT_TYPES as readonly string[]).includes(type)))
+    .withMessage(`Types must be a comma-separated list of: ${TIMELINE_EVENT_TYPES.join(', ')}`),
+  query('date_from').optional().isISO8601().withMessage('Please provide a valid start date'),
+  query('date_to').optional().isISO8601().withMessage('Please provide a valid end date'),
+  query('page').optional().isInt({ min: 1 }).withMessage('Page must be a positive integer'),
+  query('limit').optional().isInt({ min: 1 }).withMessage('Limit must be a positive integer')
+];
+
+// Deleted patients are archived with an optional reason
+const deletionValidation = [
+  body('reason').optional().isString().trim().isLength({ max: 500 }).withMessage('Reason cannot exceed 500 characters')
 ];
 
 // Routes - All routes require authentication and clinic context
 router.post('/', authenticate, clinicContext, patientValidation, PatientController.createPatient);
 router.get('/', authenticate, clinicContext, PatientController.getAllPatients);
 router.get('/stats', authenticate, clinicContext, PatientController.getPatientStats);
+router.get('/lookup', authenticate, clinicContext, lookupValidation, PatientController.lookupPatient);
+
+// Duplicate detection and merging (must come before /:id)
+router.get('/duplicates', authenticate, clinicContext, duplicateQueryValidation, PatientMergeController.findDuplicates);
+router.get('/duplicates/scan', authenticate, clinicContext, duplicateQueryValidation, PatientMergeController.scanDuplicates);
+router.post('/merge', authenticate, clinicContext, authorize('super_admin', 'admin'), mergeValidation, PatientMergeController.mergePatients);
+router.get('/merges', authenticate, clinicContext, authorize('super_admin', 'admin'), PatientMergeController.getMerges);
+router.post('/merges/:id/undo', authenticate, clinicContext, authorize('super_admin', 'admin'), PatientMergeController.undoMerge);
+
+// Family and guardian relationships
+router.get('/:id/relationships', authenticate, clinicContext, PatientRelationshipController.getRelationships);
+router.post('/:id/relationships', authenticate, clinicContext, relationshipValidation, PatientRelationshipController.addRelationship);
+router.delete('/:id/relationships/:relationshipId', authenticate, clinicContext, PatientRelationshipController.removeRelationship);
+router.put('/:id/responsible-party', authenticate, clinicContext, responsiblePartyValidation, PatientRelationshipController.setResponsibleParty);
+router.get('/:id/family', authenticate, clinicContext, PatientRelationshipController.getFamily);
+
+// Everything that happened to the patient, newest first
+router.get('/:id/timeline', authenticate, clinicContext, timelineValidation, PatientController.getPatientTimeline);
+
+// Clinical summary - allergies, conditions, current medications
+router.get('/:id/clinical-summary', authenticate, clinicContext, ClinicalSummaryController.getClinicalSummary);
+router.put('/:id/clinical-summary', authenticate, clinicContext, clinicalSummaryValidation, ClinicalSummaryController.updateClinicalSummary);
+router.post('/:id/clinical-summary/:list', authenticate, clinicContext, clinicalEntryValidation(true), ClinicalSummaryController.addEntry);
+router.put('/:id/clinical-summary/:list/:entryId', authenticate, clinicContext, clinicalEntryValidation(false), ClinicalSummaryController.updateEntry);
+router.delete('/:id/clinical-summary/:list/:entryId', authenticate, clinicContext, clinicalListValidation, ClinicalSummaryController.removeEntry);
+
 router.get('/:id', authenticate, clinicContext, PatientController.getPatientById);
 router.put('/:id', authenticate, clinicContext, patientValidation, PatientController.updatePatient);
-router.delete('/:id', authenticate, clinicContext, PatientController.deletePatient);
+router.delete('/:id', authenticate, clinicContext, deletionValidation, PatientController.deletePatient);
 
 export default router; 
\ No newline at end of file
@@ -32,7 +32,17 @@ const prescriptionValidation = [
   body('status').optional().isIn(['active', 'completed', 'pending', 'cancelled', 'expired']).withMessage('Invalid status'),
   body('follow_up_date').optional().isISO8601().withMessage('Please provide a valid follow-up date'),
   body('pharmacy_dispensed').optional().isBoolean().withMessage('Pharmacy dispensed must be a boolean'),
-  body('dispensed_date').optional().isISO8601().withMessage('Please provide a valid dispensed date')
+  body('dispensed_date').optional().isISO8601().withMessage('Please provide a valid dispensed date'),
+  body('acknowledged_alerts').optional().isArray().withMessage('Acknowledged alerts must be an array of alert codes'),
+  body('alert_override_reason').optional().trim().isLength({ max: 500 }).withMessage('Override reason cannot exceed 500 characters')
+];
+
+// Alert preview validation
+const checkAlertsValidation = [
+  body('patient_id').isMongoId().withMessage('Valid patient ID is required'),
+  body('prescription_id').optional().isMongoId().withMessage('Valid prescription ID is required'),
+  body('medications').isArray({ min: 1 }).withMessage('At least one medication is required'),
+  body('medications.*.name').notEmpty().withMessage('Medication name is required')
 ];
 
 // Status update validation
@@ -40,8 +50,14 @@ const statusValidation = [
   body('status').isIn(['active', 'completed', 'pending', 'cancelled', 'expired']).withMessage('Invalid status')
 ];
 
+// Deleted records are archived with an optional reason
+const deletionValidation = [
+  body('reason').optional().isString().trim().isLength({ max: 500 }).withMessage('Reason cannot exceed 500 characters')
+];
+
 // Routes - All prescription operations require authentication and clinic context
 router.post('/', authenticate, clinicContext, prescriptionValidation, PrescriptionController.createPrescription);
+router.post('/check-alerts', authenticate, clinicContext, checkAlertsValidation, PrescriptionController.checkAlerts);
 router.get('/', authenticate, clinicContext, PrescriptionController.getAllPrescriptions);
 router.get('/stats', authenticate, clinicContext, PrescriptionController.getPrescriptionStats);
 router.get('/patient/:patientId', authenticate, clinicContext, PrescriptionController.getPrescriptionsByPatient);
@@ -50,6 +66,6 @@ router.get('/:id', authenticate, clinicContext, PrescriptionController.getPrescr
 router.put('/:id', authenticate, clinicContext, prescriptionValidation, PrescriptionController.updatePrescription);
 router.patch('/:id/status', authenticate, clinicContext, statusValidation, PrescriptionController.updatePrescriptionStatus);
 router.patch('/:id/send-to-pharmacy', authenticate, clinicContext, PrescriptionController.sendToPharmacy);
-router.delete('/:id', authenticate, clinicContext, PrescriptionController.deletePrescription);
+router.delete('/:id', authenticate, clinicContext, deletionValidation, PrescriptionController.deletePrescription);
 
 export default router; 
\ No newline at end of file
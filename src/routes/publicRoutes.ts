@@ -1,10 +1,51 @@
 import { Router } from 'express';
-import { AppointmentController } from '../controllers';
+import { body } from 'express-validator';
+import rateLimit from 'express-rate-limit';
+import { CalendarController, PatientLinkController, QueueController } from '../controllers';
 
 const router = Router();
 
+// Calendar apps poll feeds periodically; anything beyond that is guessing tokens
+const calendarFeedLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  max: 30,
+  message: {
+    success: false,
+    message: 'Too many requests from this IP, please try again later.'
+  }
+});
+
+// Waiting-room screens refresh or reconnect now and then; they don't need more
+const queueDisplayLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  max: 120,
+  message: {
+    success: false,
+    message: 'Too many requests from this IP, please try again later.'
+  }
+});
+
 // Public routes - No authentication required
-// Patient appointments access via public link
-router.get('/appointments/:patientId', AppointmentController.getPublicPatientAppointments);
+// Patient self-service via signed, expiring appointment links
+router.get('/appointment-links/:token', PatientLinkController.getAppointment);
+router.post('/appointment-links/:token/confirm', PatientLinkController.confirmAppointment);
+router.post(
+  '/appointment-links/:token/cancel',
+  [body('cancellation_reason').optional().trim().isLength({ max: 500 }).withMessage('Cancellation reason cannot exceed 500 characters')],
+  PatientLinkController.cancelAppointment
+);
+router.get('/appointment-links/:token/slots', PatientLinkController.getRescheduleSlots);
+router.post(
+  '/appointment-links/:token/reschedule',
+  [body('appointment_date').isISO8601().withMessage('Please provide a valid appointment date')],
+  PatientLinkController.rescheduleAppointment
+);
+
+// Secret-token ICS subscription feeds of staff appointments
+router.get('/calendar-feeds/:token', calendarFeedLimiter, CalendarController.getFeed);
+
+// Waiting-room queue display via signed display tokens - snapshot or live Server-Sent Events stream
+router.get('/queue-display/:token', queueDisplayLimiter, QueueController.getDisplay);
+router.get('/queue-display/:token/stream', queueDisplayLimiter, QueueController.streamDisplay);
 
-export default router; 
\ No newline at end of file
+export default router;
@@ -0,0 +1,121 @@
+import { Router } from 'express';
+import { body, query } from 'express-validator';
+import rateLimit from 'express-rate-limit';
+import PublicBookingController from '../../controllers/publicv2/PublicBookingController';
+import { verifyCaptcha } from '../../middleware/captcha';
+
+const router = Router({ mergeParams: true });
+
+/**
+ * Public Booking Routes
+ * These routes don't require authentication
+ * Used by the online booking widget of each tenant (/api/publicv2/tenants/:subdomain/...)
+ */
+
+const limitMessage = {
+  success: false,
+  message: 'Too many requests from this IP, please try again later.'
+};
+
+const browseLimiter = rateLimit({
+  windowMs: 1 * 60 * 1000, // 1 minute
+  max: 60,
+  message: limitMessage
+});
+
+const verificationLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  max: 5,
+  message: limitMessage
+});
+
+const bookingLimiter = rateLimit({
+  windowMs: 60 * 60 * 1000, // 1 hour
+  max: 10,
+  message: limitMessage
+});
+
+const slotsValidation = [
+  query('doctor_id').isMongoId().withMessage('Valid doctor ID is required'),
+  query('date').matches(/^\d{4}-\d{2}-\d{2}$/).withMessage('Date must be in YYYY-MM-DD format'),
+  query('service_id').optional().isMongoId().withMessage('Valid service ID is required')
+];
+
+const verificationValidation = [
+  body('channel').isIn(['sms', 'email']).withMessage('Channel must be sms or email'),
+  body('destination')
+    .if(body('channel').equals('email')).isEmail().withMessage('Valid email is required'),
+  body('destination')
+    .if(body('channel').equals('sms')).matches(/^\+?[\d\s\-()]{7,20}$/).withMessage('Valid phone number is required')
+];
+
+const verifyCodeValidation = [
+  body('code').matches(/^\d{6}$/).withMessage('Verification code must be 6 digits')
+];
+
+const bookingValidation = [
+  body('verification_id').isMongoId().withMessage('Valid verification ID is required'),
+  body('doctor_id').isMongoId().withMessage('Valid doctor ID is required'),
+  body('service_id').optional().isMongoId().withMessage('Valid service ID is required'),
+  body('appointment_date').isISO8601().withMessage('Valid appointment date is required'),
+  body('first_name').trim().isLength({ min: 1, max: 50 }).withMessage('First name is required and cannot exceed 50 characters'),
+  body('last_name').trim().isLength({ min: 1, max: 50 }).withMessage('Last name is required and cannot exceed 50 characters'),
+  body('phone').matches(/^\+?[\d\s\-()]{7,20}$/).withMessage('Valid phone number is required'),
+  body('email').optional().isEmail().withMessage('Valid email is required'),
+  body('gender').optional().isIn(['male', 'female']).withMessage('Gender must be male or female'),
+  body('date_of_birth').optional().isISO8601().withMessage('Valid date of birth is required'),
+  body('notes').optional().isLength({ max: 500 }).withMessage('Notes cannot exceed 500 characters')
+];
+
+router.use(browseLimiter, PublicBookingController.loadTenant);
+
+/**
+ * @route   GET /api/publicv2/tenants/:subdomain/clinics
+ * @desc    Get clinics accepting online bookings
+ * @access  Public
+ */
+router.get('/clinics', PublicBookingController.getClinics);
+
+/**
+ * @route   GET /api/publicv2/tenants/:subdomain/clinics/:clinicId/services
+ * @desc    Get active services of a clinic
+ * @access  Public
+ */
+router.get('/clinics/:clinicId/services', PublicBookingController.getServices);
+
+/**
+ * @route   GET /api/publicv2/tenants/:subdomain/clinics/:clinicId/doctors
+ * @desc    Get doctors of a clinic
+ * @access  Public
+ */
+router.get('/clinics/:clinicId/doctors', PublicBookingController.getDoctors);
+
+/**
+ * @route   GET /api/publicv2/tenants/:subdomain/clinics/:clinicId/slots
+ * @desc    Get open slots for a doctor and service on a date
+ * @access  Public
+ */
+router.get('/clinics/:clinicId/slots', slotsValidation, PublicBookingController.getSlots);
+
+/**
+ * @route   POST /api/publicv2/tenants/:subdomain/clinics/:clinicId/verifications
+ * @desc    Send a one-time code to a phone number or email
+ * @access  Public
+ */
+router.post('/clinics/:clinicId/verifications', verificationLimiter, verifyCaptcha, verificationValidation, PublicBookingController.requestVerification);
+
+/**
+ * @route   POST /api/publicv2/tenants/:subdomain/clinics/:clinicId/verifications/:verificationId/verify
+ * @desc    Check a one-time code
+ * @access  Public
+ */
+router.post('/clinics/:clinicId/verifications/:verificationId/verify', verificationLimiter, verifyCodeValidation, PublicBookingController.confirmVerification);
+
+/**
+ * @route   POST /api/publicv2/tenants/:subdomain/clinics/:clinicId/bookings
+ * @desc    Book a pending appointment with a verified phone or email
+ * @access  Public
+ */
+router.post('/clinics/:clinicId/bookings', bookingLimiter, verifyCaptcha, bookingValidation, PublicBookingController.createBooking);
+
+export default router;
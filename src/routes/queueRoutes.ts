@@ -0,0 +1,77 @@
+import { Router } from 'express';
+import { body, query } from 'express-validator';
+import { QueueController } from '../controllers';
+import { authenticate, requireStaff } from '../middleware/auth';
+import { clinicContext } from '../middleware/clinicContext';
+
+const router = Router();
+
+// Apply authentication middleware first, then clinic context to all routes
+router.use(authenticate);
+router.use(clinicContext);
+
+const queuePriorities = ['normal', 'elderly', 'emergency'];
+
+// Validation middleware for issuing tickets
+const ticketValidation = [
+  body('patient_id').optional().isMongoId().withMessage('Valid patient ID is required if provided'),
+  body('name').optional().trim().isLength({ min: 1, max: 200 }).withMessage('Name must be between 1 and 200 characters'),
+  body('phone').optional().trim().isLength({ max: 20 }).withMessage('Phone number cannot exceed 20 characters'),
+  body('department_id').optional({ nullable: true }).isMongoId().withMessage('Valid department ID is required if provided'),
+  body('service_id').optional({ nullable: true }).isMongoId().withMessage('Valid service ID is required if provided'),
+  body('doctor_id').optional({ nullable: true }).isMongoId().withMessage('Valid doctor ID is required if provided'),
+  body('appointment_id').optional().isMongoId().withMessage('Valid appointment ID is required if provided'),
+  body('priority').optional().isIn(queuePriorities).withMessage('Priority must be normal, elderly or emergency'),
+  body('notes').optional().isLength({ max: 500 }).withMessage('Notes cannot exceed 500 characters')
+];
+
+const ticketUpdateValidation = [
+  body('priority').optional().isIn(queuePriorities).withMessage('Priority must be normal, elderly or emergency'),
+  body('notes').optional().isLength({ max: 500 }).withMessage('Notes cannot exceed 500 characters')
+];
+
+const counterValidation = [
+  body('counter').optional().trim().isLength({ max: 50 }).withMessage('Counter cannot exceed 50 characters'),
+  body('note').optional().isLength({ max: 500 }).withMessage('Note cannot exceed 500 characters')
+];
+
+const callNextValidation = [
+  body('department_id').optional({ nullable: true }).isMongoId().withMessage('Valid department ID is required if provided'),
+  body('doctor_id').optional().isMongoId().withMessage('Valid doctor ID is required if provided'),
+  ...counterValidation
+];
+
+const transferValidation = [
+  body('department_id').optional({ nullable: true }).isMongoId().withMessage('Valid department ID is required if provided'),
+  body('doctor_id').optional({ nullable: true }).isMongoId().withMessage('Valid doctor ID is required if provided'),
+  body().custom(value => {
+    if (value?.department_id === undefined && value?.doctor_id === undefined) {
+      throw new Error('A department or doctor to transfer to is required');
+    }
+    return true;
+  }),
+  body('note').optional().isLength({ max: 500 }).withMessage('Note cannot exceed 500 characters')
+];
+
+const displayTokenValidation = [
+  body('department_id').optional({ nullable: true }).isMongoId().withMessage('Valid department ID is required if provided'),
+  body('expires_in_days').optional().isInt({ min: 1, max: 730 }).withMessage('Expiry must be between 1 and 730 days')
+];
+
+// Queue overview
+router.get('/', [query('department_id').optional().isMongoId().withMessage('Valid department ID is required')], QueueController.getQueue);
+router.post('/call-next', requireStaff, callNextValidation, QueueController.callNext);
+router.post('/display-tokens', requireStaff, displayTokenValidation, QueueController.createDisplayToken);
+
+// Ticket routes
+router.post('/tickets', requireStaff, ticketValidation, QueueController.issueTicket);
+router.patch('/tickets/:id', requireStaff, ticketUpdateValidation, QueueController.updateTicket);
+router.post('/tickets/:id/call', requireStaff, counterValidation, QueueController.callTicket);
+router.post('/tickets/:id/serve', requireStaff, counterValidation, QueueController.startService);
+router.post('/tickets/:id/complete', requireStaff, counterValidation, QueueController.completeTicket);
+router.post('/tickets/:id/skip', requireStaff, counterValidation, QueueController.skipTicket);
+router.post('/tickets/:id/requeue', requireStaff, counterValidation, QueueController.requeueTicket);
+router.post('/tickets/:id/transfer', requireStaff, transferValidation, QueueController.transferTicket);
+router.post('/tickets/:id/cancel', requireStaff, counterValidation, QueueController.cancelTicket);
+
+export default router;
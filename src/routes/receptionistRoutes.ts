@@ -1,5 +1,5 @@
 import { Router } from 'express';
-import { body, param, CustomValidator } from 'express-validator';
+import { body, param, query, CustomValidator } from 'express-validator';
 import { ReceptionistController } from '../controllers/receptionistController';
 import { authenticate, requireStaff } from '../middleware/auth';
 import { clinicContext } from '../middleware/clinicContext';
@@ -106,6 +106,11 @@ router.use(requireStaff);
  *                             type: string
  *                           waitTime:
  *                             type: number
+ *                             description: Minutes from the scheduled time (or later arrival) until seen, or until now while waiting
+ *                           chairTime:
+ *                             type: number
+ *                             nullable: true
+ *                             description: Minutes in the chair so far, null until seated
  *                     pendingTasks:
  *                       type: array
  *                       items:
@@ -189,7 +194,7 @@ router.get('/walkins', ReceptionistController.getTodayWalkIns);
  *     tags:
  *       - Receptionist
  *     summary: Register a walk-in patient
- *     description: Creates a new lead record for a walk-in patient
+ *     description: Creates a new lead record for a walk-in patient and issues a queue ticket
  *     security:
  *       - bearerAuth: []
  *     requestBody:
@@ -218,9 +223,22 @@ router.get('/walkins', ReceptionistController.getTodayWalkIns);
  *               notes:
  *                 type: string
  *                 example: "Walk-in patient with flu symptoms"
+ *               department_id:
+ *                 type: string
+ *                 description: Department queue to join, the clinic's general queue when omitted
+ *               service_id:
+ *                 type: string
+ *                 description: Requested service, used for the wait estimate
+ *               doctor_id:
+ *                 type: string
+ *                 description: Requested doctor, any doctor when omitted
+ *               priority:
+ *                 type: string
+ *                 enum: [normal, elderly, emergency]
+ *                 example: "normal"
  *     responses:
  *       201:
- *         description: Walk-in registered successfully
+ *         description: Walk-in registered successfully with a queue ticket
  *       400:
  *         description: Validation error
  *       401:
@@ -233,7 +251,11 @@ router.post('/walkins', [
   body('last_name').notEmpty().withMessage('Last name is required'),
   body('phone').notEmpty().withMessage('Phone number is required'),
   body('email').optional().isEmail().withMessage('Valid email is required'),
-  body('notes').optional().isLength({ max: 500 }).withMessage('Notes cannot exceed 500 characters')
+  body('notes').optional().isLength({ max: 500 }).withMessage('Notes cannot exceed 500 characters'),
+  body('department_id').optional({ nullable: true }).isMongoId().withMessage('Valid department ID is required if provided'),
+  body('service_id').optional({ nullable: true }).isMongoId().withMessage('Valid service ID is required if provided'),
+  body('doctor_id').optional({ nullable: true }).isMongoId().withMessage('Valid doctor ID is required if provided'),
+  body('priority').optional().isIn(['normal', 'elderly', 'emergency']).withMessage('Priority must be normal, elderly or emergency')
 ], ReceptionistController.createWalkIn);
 
 /**
@@ -283,6 +305,9 @@ router.post('/walkins', [
  *                           type: array
  *                           items:
  *                             $ref: '#/components/schemas/Appointment'
+ *                     tickets:
+ *                       type: object
+ *                       description: Today's walk-in and arrival tickets with positions and estimated waits
  *       401:
  *         description: Unauthorized
  *       500:
@@ -320,11 +345,21 @@ router.get('/queue', ReceptionistController.getAppointmentQueue);
  *                 type: string
  *                 enum: [scheduled, confirmed, in-progress, completed, cancelled, no-show]
  *                 example: "in-progress"
+ *               cancellation_reason:
+ *                 type: string
+ *                 description: Required when the clinic's workflow asks for it on this transition
+ *               status_reason:
+ *                 type: string
+ *                 description: Why the status changed, kept in the appointment's status history
  *     responses:
  *       200:
  *         description: Appointment status updated successfully
  *       400:
- *         description: Invalid status
+ *         description: Invalid status or missing fields required by the transition
+ *       403:
+ *         description: Role or permission required by the transition is missing
+ *       409:
+ *         description: Transition not allowed by the clinic's status workflow
  *       404:
  *         description: Appointment not found
  *       401:
@@ -334,7 +369,83 @@ router.get('/queue', ReceptionistController.getAppointmentQueue);
  */
 router.put('/appointments/:appointmentId/status', [
   param('appointmentId').isMongoId().withMessage('Valid appointment ID is required'),
-  body('status').custom(validateAppointmentStatus)
+  body('status').custom(validateAppointmentStatus),
+  body('cancellation_reason').optional().trim().isLength({ max: 500 }).withMessage('Cancellation reason cannot exceed 500 characters'),
+  body('status_reason').optional().trim().isLength({ max: 500 }).withMessage('Status reason cannot exceed 500 characters')
 ], ReceptionistController.updateAppointmentStatus);
 
+/**
+ * @swagger
+ * /api/receptionist/wait-times:
+ *   get:
+ *     tags:
+ *       - Receptionist
+ *     summary: Get average patient wait and chair time
+ *     description: Averages the wait and chair time of seen visits per doctor and day, from each appointment's status history
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - name: from
+ *         in: query
+ *         description: First day (defaults to 6 days ago)
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - name: to
+ *         in: query
+ *         description: Last day, inclusive (defaults to today)
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - name: doctor_id
+ *         in: query
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Wait times retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     waitTimes:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           doctorId:
+ *                             type: string
+ *                           doctorName:
+ *                             type: string
+ *                           date:
+ *                             type: string
+ *                             example: "2024-05-14"
+ *                           visits:
+ *                             type: number
+ *                           averageWaitMinutes:
+ *                             type: number
+ *                             nullable: true
+ *                           averageChairMinutes:
+ *                             type: number
+ *                             nullable: true
+ *       400:
+ *         description: Validation error
+ *       401:
+ *         description: Unauthorized
+ *       500:
+ *         description: Internal server error
+ */
+router.get('/wait-times', [
+  query('from').optional().isISO8601().withMessage('From must be a valid date'),
+  query('to').optional().isISO8601().withMessage('To must be a valid date'),
+  query('doctor_id').optional().isMongoId().withMessage('Valid doctor ID is required')
+], ReceptionistController.getWaitTimes);
+
 export default router; 
\ No newline at end of file
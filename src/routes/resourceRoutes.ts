@@ -0,0 +1,59 @@
+import { Router } from 'express';
+import { body, query } from 'express-validator';
+import { ResourceController } from '../controllers';
+import { authenticate, requireStaff } from '../middleware/auth';
+import { clinicContext } from '../middleware/clinicContext';
+import { RESOURCE_KINDS } from '../models';
+
+const router = Router();
+
+// Apply authentication middleware first, then clinic context to all routes
+router.use(authenticate);
+router.use(clinicContext);
+
+const timePattern = /^([01]?[0-9]|2[0-3]):[0-5][0-9]$/;
+const typePattern = /^[a-z0-9_-]+$/;
+
+const workingHoursValidation = [
+  body('working_hours').optional().isObject().withMessage('working_hours must be an object'),
+  body('working_hours.*.start').optional().matches(timePattern).withMessage('Working hours start must be in HH:mm format'),
+  body('working_hours.*.end').optional().matches(timePattern).withMessage('Working hours end must be in HH:mm format'),
+  body('working_hours.*.isWorking').optional().isBoolean().withMessage('isWorking must be a boolean')
+];
+
+// Validation middleware for creating resources
+const resourceValidation = [
+  body('name').trim().notEmpty().withMessage('Name is required').isLength({ max: 100 }).withMessage('Name cannot exceed 100 characters'),
+  body('kind').isIn(RESOURCE_KINDS).withMessage('Kind must be chair, room or equipment'),
+  body('type').trim().toLowerCase().matches(typePattern).withMessage('Type can only contain lowercase letters, numbers, hyphens and underscores'),
+  body('capacity').optional().isInt({ min: 1, max: 50 }).withMessage('Capacity must be between 1 and 50'),
+  ...workingHoursValidation,
+  body('is_active').optional().isBoolean().withMessage('is_active must be a boolean'),
+  body('notes').optional().isLength({ max: 500 }).withMessage('Notes cannot exceed 500 characters')
+];
+
+// Validation middleware for updating resources (all fields optional)
+const resourceUpdateValidation = [
+  body('name').optional().trim().notEmpty().withMessage('Name cannot be empty').isLength({ max: 100 }).withMessage('Name cannot exceed 100 characters'),
+  body('kind').optional().isIn(RESOURCE_KINDS).withMessage('Kind must be chair, room or equipment'),
+  body('type').optional().trim().toLowerCase().matches(typePattern).withMessage('Type can only contain lowercase letters, numbers, hyphens and underscores'),
+  body('capacity').optional().isInt({ min: 1, max: 50 }).withMessage('Capacity must be between 1 and 50'),
+  ...workingHoursValidation,
+  body('is_active').optional().isBoolean().withMessage('is_active must be a boolean'),
+  body('notes').optional().isLength({ max: 500 }).withMessage('Notes cannot exceed 500 characters')
+];
+
+const dayViewValidation = [
+  query('date').optional().isISO8601().withMessage('Please provide a valid date'),
+  query('kind').optional().isIn(RESOURCE_KINDS).withMessage('Kind must be chair, room or equipment')
+];
+
+// Routes
+router.get('/', ResourceController.getAllResources);
+router.get('/day-view', dayViewValidation, ResourceController.getDayView);
+router.get('/:id', ResourceController.getResourceById);
+router.post('/', requireStaff, resourceValidation, ResourceController.createResource);
+router.put('/:id', requireStaff, resourceUpdateValidation, ResourceController.updateResource);
+router.delete('/:id', requireStaff, ResourceController.deleteResource);
+
+export default router;
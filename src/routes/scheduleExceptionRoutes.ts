@@ -0,0 +1,50 @@
+import { Router } from 'express';
+import { body } from 'express-validator';
+import { ScheduleExceptionController } from '../controllers';
+import { authenticate, requireStaff } from '../middleware/auth';
+import { clinicContext } from '../middleware/clinicContext';
+
+const router = Router();
+
+// Apply authentication middleware first, then clinic context to all routes
+router.use(authenticate);
+router.use(clinicContext);
+
+const timePattern = /^([01]?[0-9]|2[0-3]):[0-5][0-9]$/;
+
+// Validation middleware for creating exceptions
+const exceptionValidation = [
+  body('user_id').optional({ nullable: true }).isMongoId().withMessage('Valid user ID is required if provided'),
+  body('type').isIn(['leave', 'conference', 'holiday', 'closure', 'override', 'busy']).withMessage('Type must be leave, conference, holiday, closure, override or busy'),
+  body('title').notEmpty().withMessage('Title is required').isLength({ max: 200 }).withMessage('Title cannot exceed 200 characters'),
+  body('start_date').isISO8601().withMessage('Please provide a valid start date'),
+  body('end_date').isISO8601().withMessage('Please provide a valid end date'),
+  body('all_day').optional().isBoolean().withMessage('all_day must be a boolean'),
+  body('override_hours.start').optional().matches(timePattern).withMessage('Override start must be in HH:mm format'),
+  body('override_hours.end').optional().matches(timePattern).withMessage('Override end must be in HH:mm format'),
+  body('reason').optional().isLength({ max: 500 }).withMessage('Reason cannot exceed 500 characters')
+];
+
+// Validation middleware for updating exceptions (all fields optional)
+const exceptionUpdateValidation = [
+  body('user_id').optional({ nullable: true }).isMongoId().withMessage('Valid user ID is required if provided'),
+  body('type').optional().isIn(['leave', 'conference', 'holiday', 'closure', 'override', 'busy']).withMessage('Type must be leave, conference, holiday, closure, override or busy'),
+  body('title').optional().notEmpty().withMessage('Title cannot be empty').isLength({ max: 200 }).withMessage('Title cannot exceed 200 characters'),
+  body('start_date').optional().isISO8601().withMessage('Please provide a valid start date'),
+  body('end_date').optional().isISO8601().withMessage('Please provide a valid end date'),
+  body('all_day').optional().isBoolean().withMessage('all_day must be a boolean'),
+  body('override_hours.start').optional().matches(timePattern).withMessage('Override start must be in HH:mm format'),
+  body('override_hours.end').optional().matches(timePattern).withMessage('Override end must be in HH:mm format'),
+  body('reason').optional().isLength({ max: 500 }).withMessage('Reason cannot exceed 500 characters'),
+  body('is_active').optional().isBoolean().withMessage('is_active must be a boolean')
+];
+
+// Routes
+router.get('/', ScheduleExceptionController.getAllExceptions);
+router.get('/:id', ScheduleExceptionController.getExceptionById);
+router.get('/:id/conflicts', ScheduleExceptionController.getExceptionConflicts);
+router.post('/', requireStaff, exceptionValidation, ScheduleExceptionController.createException);
+router.put('/:id', requireStaff, exceptionUpdateValidation, ScheduleExceptionController.updateException);
+router.delete('/:id', requireStaff, ScheduleExceptionController.deleteException);
+
+export default router;
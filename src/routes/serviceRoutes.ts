@@ -64,7 +64,25 @@ const serviceValidation = [
   body('isActive')
     .optional()
     .isBoolean()
-    .withMessage('Active status must be a boolean')
+    .withMessage('Active status must be a boolean'),
+  body('requiredResources')
+    .optional()
+    .isArray({ max: 10 })
+    .withMessage('Required resources must be an array'),
+  body('requiredResources.*.type')
+    .matches(/^[a-z0-9_-]+$/)
+    .withMessage('Resource type can only contain lowercase letters, numbers, hyphens and underscores'),
+  body('requiredResources.*.quantity')
+    .optional()
+    .isInt({ min: 1, max: 10 })
+    .withMessage('Resource quantity must be between 1 and 10'),
+  body('requiredConsents')
+    .optional()
+    .isArray({ max: 20 })
+    .withMessage('Required consents must be an array'),
+  body('requiredConsents.*')
+    .matches(/^[a-z0-9_-]+$/i)
+    .withMessage('Consent code can only contain letters, numbers, hyphens and underscores')
 ];
 
 // Routes
@@ -0,0 +1,76 @@
+import { Router } from 'express';
+import { body } from 'express-validator';
+import { WaitlistController } from '../controllers';
+import { authenticate, requireStaff } from '../middleware/auth';
+import { clinicContext } from '../middleware/clinicContext';
+
+const router = Router();
+
+// Apply authentication middleware first, then clinic context to all routes
+router.use(authenticate);
+router.use(clinicContext);
+
+const appointmentTypes = ['consultation', 'follow-up', 'check-up', 'vaccination', 'procedure', 'emergency', 'screening', 'therapy', 'other'];
+
+// Validation middleware for adding a patient to the waitlist
+const entryValidation = [
+  body('patient_id').isMongoId().withMessage('Valid patient ID is required'),
+  body('doctor_id').optional({ nullable: true }).isMongoId().withMessage('Valid doctor ID is required if provided'),
+  body('service_id').optional({ nullable: true }).isMongoId().withMessage('Valid service ID is required if provided'),
+  body('appointment_type').optional().isIn(appointmentTypes).withMessage('Invalid appointment type'),
+  body('duration').optional().isInt({ min: 15, max: 240 }).withMessage('Duration must be between 15 and 240 minutes'),
+  body('earliest_date').optional().isISO8601().withMessage('Please provide a valid earliest date'),
+  body('latest_date').isISO8601().withMessage('Please provide a valid latest date'),
+  body('time_of_day').optional().isIn(['any', 'morning', 'afternoon', 'evening']).withMessage('Time of day must be any, morning, afternoon or evening'),
+  body('priority').optional().isIn(['low', 'normal', 'high', 'urgent']).withMessage('Priority must be low, normal, high or urgent'),
+  body('notes').optional().isLength({ max: 1000 }).withMessage('Notes cannot exceed 1000 characters')
+];
+
+// Validation middleware for updating waitlist entries (all fields optional)
+const entryUpdateValidation = [
+  body('doctor_id').optional({ nullable: true }).isMongoId().withMessage('Valid doctor ID is required if provided'),
+  body('service_id').optional({ nullable: true }).isMongoId().withMessage('Valid service ID is required if provided'),
+  body('appointment_type').optional().isIn(appointmentTypes).withMessage('Invalid appointment type'),
+  body('duration').optional().isInt({ min: 15, max: 240 }).withMessage('Duration must be between 15 and 240 minutes'),
+  body('earliest_date').optional().isISO8601().withMessage('Please provide a valid earliest date'),
+  body('latest_date').optional().isISO8601().withMessage('Please provide a valid latest date'),
+  body('time_of_day').optional().isIn(['any', 'morning', 'afternoon', 'evening']).withMessage('Time of day must be any, morning, afternoon or evening'),
+  body('priority').optional().isIn(['low', 'normal', 'high', 'urgent']).withMessage('Priority must be low, normal, high or urgent'),
+  body('notes').optional().isLength({ max: 1000 }).withMessage('Notes cannot exceed 1000 characters')
+];
+
+const promoteValidation = [
+  body('priority').optional().isIn(['low', 'normal', 'high', 'urgent']).withMessage('Priority must be low, normal, high or urgent')
+];
+
+// Service and explicitly chosen resources of the booked appointment
+const bookingResourceValidation = [
+  body('service_id').optional().isMongoId().withMessage('Valid service ID is required if provided'),
+  body('resource_ids').optional().isArray({ max: 10 }).withMessage('Resource IDs must be an array'),
+  body('resource_ids.*').isMongoId().withMessage('Valid resource ID is required')
+];
+
+const convertValidation = [
+  body('appointment_date').isISO8601().withMessage('Please provide a valid appointment date'),
+  body('doctor_id').optional().isMongoId().withMessage('Valid doctor ID is required if provided'),
+  body('duration').optional().isInt({ min: 15, max: 240 }).withMessage('Duration must be between 15 and 240 minutes'),
+  body('reason').optional().isLength({ max: 500 }).withMessage('Reason cannot exceed 500 characters'),
+  body('notes').optional().isLength({ max: 1000 }).withMessage('Notes cannot exceed 1000 characters'),
+  ...bookingResourceValidation
+];
+
+// Offer routes (must come before /:id)
+router.get('/offers', WaitlistController.getOffers);
+router.post('/offers/:offerId/accept', requireStaff, bookingResourceValidation, WaitlistController.acceptOffer);
+router.post('/offers/:offerId/decline', requireStaff, WaitlistController.declineOffer);
+
+// Entry routes
+router.get('/', WaitlistController.getAllEntries);
+router.get('/:id', WaitlistController.getEntryById);
+router.post('/', requireStaff, entryValidation, WaitlistController.createEntry);
+router.put('/:id', requireStaff, entryUpdateValidation, WaitlistController.updateEntry);
+router.patch('/:id/promote', requireStaff, promoteValidation, WaitlistController.promoteEntry);
+router.post('/:id/convert', requireStaff, convertValidation, WaitlistController.convertEntry);
+router.delete('/:id', requireStaff, WaitlistController.cancelEntry);
+
+export default router;
@@ -430,6 +430,7 @@ async function seedAppointments(clinicId: mongoose.Types.ObjectId, tenantId: mon
   for (let i = 0; i < 10; i++) {
     const patient = faker.helpers.arrayElement(patients);
     const doctor = faker.helpers.arrayElement(doctors);
+    const status = faker.helpers.arrayElement(['scheduled', 'confirmed', 'completed', 'cancelled']);
     
     appointments.push({
       tenant_id: tenantId,
@@ -438,7 +439,9 @@ async function seedAppointments(clinicId: mongoose.Types.ObjectId, tenantId: mon
       doctor_id: doctor._id,
       appointment_date: faker.date.soon({ days: 30 }),
       duration: faker.helpers.arrayElement([30, 45, 60]),
-      status: faker.helpers.arrayElement(['scheduled', 'confirmed', 'completed', 'cancelled']),
+      status,
+      frees_slot: status === 'cancelled', // insertMany skips the save hook that derives it
+      status_history: [{ to_status: status, changed_at: new Date(), source: 'system' }], // ...and the one recording the initial status
       type: faker.helpers.arrayElement(['consultation', 'follow-up', 'check-up', 'procedure']),
       reason: faker.lorem.sentence(),
       notes: faker.lorem.paragraph()
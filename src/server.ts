@@ -11,6 +11,9 @@ import connectDB from './config/database';
 import routes from './routes';
 import publicRoutes from './routes/publicRoutes';
 import swaggerSpecs from './config/swagger';
+import { NotificationService } from './utils/notifications';
+import { ArchiveService } from './utils/archive';
+import { WaitlistService } from './utils/waitlist';
 
 const app = express();
 const PORT = process.env.PORT || 3000;
@@ -266,6 +269,22 @@ async function initializeServer() {
       console.log('===================================');
     });
 
+    // Appointment reminders and outbox delivery
+    if (process.env.NOTIFICATIONS_ENABLED !== 'false') {
+      NotificationService.startScheduler();
+      console.log('📨 Notification scheduler started');
+    }
+
+    // Lapsed waitlist offers are passed on to the next patient
+    if (process.env.WAITLIST_EXPIRY_ENABLED !== 'false') {
+      WaitlistService.startExpiryScheduler();
+    }
+
+    // Purge of archived records past their retention period
+    if (process.env.ARCHIVE_PURGE_ENABLED !== 'false') {
+      ArchiveService.startPurgeScheduler();
+    }
+
     // Handle server errors
     server.on('error', (error: any) => {
       if (error.code === 'EADDRINUSE') {
@@ -0,0 +1,107 @@
+import jwt from 'jsonwebtoken';
+import crypto from 'crypto';
+import { IAppointment, PatientLinkAction } from '../models';
+
+export interface AppointmentLinkPayload {
+  sub: string; // Appointment ID
+  pid: string; // Patient ID
+  tid: string; // Tenant ID
+  act: PatientLinkAction;
+  ad: number; // Appointment time the link was issued for - rescheduling voids older links
+  jti: string;
+  exp: number;
+}
+
+export type AppointmentLinks = Record<PatientLinkAction, string>;
+
+const LINK_AUDIENCE = 'appointment-link';
+const LINK_ACTIONS: PatientLinkAction[] = ['view', 'confirm', 'cancel', 'reschedule'];
+
+// The view link stays usable for a day after the visit; action links stop at the appointment time
+const VIEW_GRACE_SECONDS = 24 * 60 * 60;
+
+export class AppointmentLinkService {
+  // Links act on appointments without a login, so there is no fallback secret
+  private static getSecret(): string | null {
+    return process.env.APPOINTMENT_LINK_SECRET || process.env.JWT_SECRET || null;
+  }
+
+  /**
+   * Sign a single-purpose link token for one appointment.
+   * Returns null when the appointment has already started - there is nothing left to act on -
+   * or when no link secret is configured.
+   */
+  static createToken(appointment: IAppointment, action: PatientLinkAction): string | null {
+    const secret = AppointmentLinkService.getSecret();
+    if (!secret) {
+      return null;
+    }
+
+    const appointmentTime = Math.floor(appointment.appointment_date.getTime() / 1000);
+    const now = Math.floor(Date.now() / 1000);
+    const expiresAt = action === 'view' ? appointmentTime + VIEW_GRACE_SECONDS : appointmentTime;
+
+    if (expiresAt <= now) {
+      return null;
+    }
+
+    const refId = (value: any) => (value?._id || value).toString();
+
+    return jwt.sign(
+      {
+        pid: refId(appointment.patient_id),
+        tid: refId(appointment.tenant_id),
+        act: action,
+        ad: appointment.appointment_date.getTime()
+      },
+      secret,
+      {
+        subject: refId(appointment._id),
+        audience: LINK_AUDIENCE,
+        jwtid: crypto.randomUUID(),
+        expiresIn: expiresAt - now
+      }
+    );
+  }
+
+  /**
+   * Throws JsonWebTokenError / TokenExpiredError like any other JWT check
+   */
+  static verifyToken(token: string): AppointmentLinkPayload {
+    const secret = AppointmentLinkService.getSecret();
+    if (!secret) {
+      throw new jwt.JsonWebTokenError('Appointment links are not configured');
+    }
+
+    const payload = jwt.verify(token, secret, { audience: LINK_AUDIENCE }) as AppointmentLinkPayload;
+
+    if (!LINK_ACTIONS.includes(payload.act) || !payload.sub || !payload.jti) {
+      throw new jwt.JsonWebTokenError('Malformed appointment link');
+    }
+
+    return payload;
+  }
+
+  static buildUrl(token: string): string {
+    const base = (process.env.PATIENT_PORTAL_URL || process.env.FRONTEND_URL || 'http://localhost:5174').replace(/\/$/, '');
+    return `${base}/appointments/manage?token=${encodeURIComponent(token)}`;
+  }
+
+  /**
+   * URLs for every action the patient can take, keyed by action
+   */
+  static createLinks(appointment: IAppointment): Partial<AppointmentLinks> {
+    const links: Partial<AppointmentLinks> = {};
+
+    LINK_ACTIONS.forEach(action => {
+      const token = AppointmentLinkService.createToken(appointment, action);
+      if (token) {
+        links[action] = AppointmentLinkService.buildUrl(token);
+      }
+    });
+
+    return links;
+  }
+}
+
+export default AppointmentLinkService;
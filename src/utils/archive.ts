@@ -0,0 +1,253 @@
+import mongoose, { Model } from 'mongoose';
+import {
+  Invoice,
+  MedicalRecord,
+  Patient,
+  PatientDocument,
+  Prescription
+} from '../models';
+import { ClinicalSummaryService } from './clinicalSummary';
+import { DocumentStorageService } from './documentStorage';
+import { FieldEncryptionService } from './fieldEncryption';
+
+type Id = string | mongoose.Types.ObjectId;
+
+export const ARCHIVE_RECORD_TYPES = ['patients', 'medical_records', 'prescriptions', 'invoices', 'documents'] as const;
+
+export type ArchiveRecordType = typeof ARCHIVE_RECORD_TYPES[number];
+
+// Patients go last, once the records that reference them have been purged
+const PURGE_ORDER: ArchiveRecordType[] = ['documents', 'invoices', 'prescriptions', 'medical_records', 'patients'];
+
+interface ArchiveRecordConfig {
+  model: Model<any>;
+  clinicScoped: boolean; // Medical records only carry a tenant
+  searchFields: string[]; // Encrypted ones are left out while encryption is on
+  populate?: { path: string; select: string }[];
+  isPurgeBlocked?: (doc: any) => Promise<boolean>; // Kept past its retention period, e.g. while still referenced
+  onPurge?: (doc: any) => Promise<void>;
+  onRestore?: (doc: any) => Promise<void>;
+}
+
+const PATIENT = { path: 'patient_id', select: 'first_name last_name mrn' };
+const DELETED_BY = { path: 'deleted_by', select: 'first_name last_name' };
+
+const RECORDS: Record<ArchiveRecordType, ArchiveRecordConfig> = {
+  patients: {
+    model: Patient,
+    clinicScoped: true,
+    searchFields: ['first_name', 'last_name', 'mrn', 'phone', 'email'],
+    populate: [DELETED_BY],
+    // A patient is only purged once their records have been
+    isPurgeBlocked: async patient => {
+      const options = { withDeleted: true };
+      const [records, prescriptions, invoices, documents] = await Promise.all([
+        MedicalRecord.exists({ patient_id: patient._id }).setOptions(options),
+        Prescription.exists({ patient_id: patient._id }).setOptions(options),
+        Invoice.exists({ patient_id: patient._id }).setOptions(options),
+        PatientDocument.exists({ patient_id: patient._id }).setOptions(options)
+      ]);
+      return !!(records || prescriptions || invoices || documents);
+    }
+  },
+  medical_records: {
+    model: MedicalRecord,
+    clinicScoped: false,
+    searchFields: ['chief_complaint', 'diagnosis'],
+    populate: [PATIENT, DELETED_BY]
+  },
+  prescriptions: {
+    model: Prescription,
+    clinicScoped: true,
+    searchFields: ['prescription_id', 'diagnosis'],
+    populate: [PATIENT, DELETED_BY],
+    onRestore: prescription => ClinicalSummaryService.syncPrescription(prescription)
+  },
+  invoices: {
+    model: Invoice,
+    clinicScoped: true,
+    searchFields: ['invoice_number'],
+    populate: [PATIENT, DELETED_BY]
+  },
+  documents: {
+    model: PatientDocument,
+    clinicScoped: true,
+    searchFields: ['title', 'file.name'],
+    populate: [PATIENT, DELETED_BY],
+    // The file is kept while the record is archived
+    onPurge: document => DocumentStorageService.remove(document)
+  }
+};
+
+export interface ArchivePolicy {
+  type: ArchiveRecordType;
+  purge_after_days: number | null; // null - archived records are kept indefinitely
+}
+
+export interface PurgeResult {
+  type: ArchiveRecordType;
+  purged: number;
+  blocked: number;
+  failed: number;
+}
+
+const escapeRegex = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+let purgeTimer: NodeJS.Timeout | null = null;
+let purgeRunning = false;
+
+/**
+ * Archived (soft-deleted) records: listing, restoring and purging them under the retention policy
+ */
+export class ArchiveService {
+  static isRecordType(type: string): type is ArchiveRecordType {
+    return (ARCHIVE_RECORD_TYPES as readonly string[]).includes(type);
+  }
+
+  /**
+   * Days an archived record is kept before it may be purged, from ARCHIVE_PURGE_AFTER_DAYS_<TYPE>
+   * (e.g. ARCHIVE_PURGE_AFTER_DAYS_MEDICAL_RECORDS=3650). Unset means never purged.
+   */
+  static getPolicy(type: ArchiveRecordType): ArchivePolicy {
+    const days = parseInt(process.env[`ARCHIVE_PURGE_AFTER_DAYS_${type.toUpperCase()}`] || '', 10);
+    return { type, purge_after_days: days > 0 ? days : null };
+  }
+
+  static getPolicies(): ArchivePolicy[] {
+    return ARCHIVE_RECORD_TYPES.map(type => ArchiveService.getPolicy(type));
+  }
+
+  static getPurgeDate(type: ArchiveRecordType, deleted_at: Date): Date | null {
+    const { purge_after_days } = ArchiveService.getPolicy(type);
+    return purge_after_days ? new Date(deleted_at.getTime() + purge_after_days * 24 * 60 * 60 * 1000) : null;
+  }
+
+  private static scopeFilter(type: ArchiveRecordType, tenant_id: Id, clinic_id?: Id): Record<string, any> {
+    const filter: Record<string, any> = { tenant_id };
+    if (RECORDS[type].clinicScoped && clinic_id) filter.clinic_id = clinic_id;
+    return filter;
+  }
+
+  static async list(params: {
+    type: ArchiveRecordType;
+    tenant_id: Id;
+    clinic_id?: Id;
+    search?: string;
+    page: number;
+    limit: number;
+  }): Promise<{ records: any[]; total: number }> {
+    const config = RECORDS[params.type];
+    const filter = ArchiveService.scopeFilter(params.type, params.tenant_id, params.clinic_id);
+    if (params.search) {
+      const pattern = { $regex: escapeRegex(params.search), $options: 'i' };
+      const fields = config.searchFields.filter(field => !FieldEncryptionService.isEncrypted(config.model, field));
+      // Nothing left to search in matches nothing
+      filter.$or = fields.length > 0 ? fields.map(field => ({ [field]: pattern })) : [{ _id: null }];
+    }
+
+    const [records, total] = await Promise.all([
+      config.model.find(filter)
+        .setOptions({ onlyDeleted: true })
+        .populate(config.populate || [])
+        .sort({ deleted_at: -1 })
+        .skip((params.page - 1) * params.limit)
+        .limit(params.limit),
+      config.model.countDocuments(filter).setOptions({ onlyDeleted: true })
+    ]);
+
+    return {
+      records: records.map(record => ({
+        ...record.toObject(),
+        purge_after: ArchiveService.getPurgeDate(params.type, record.deleted_at)
+      })),
+      total
+    };
+  }
+
+  static async findArchived(type: ArchiveRecordType, id: Id, tenant_id: Id, clinic_id?: Id): Promise<any | null> {
+    if (!mongoose.isValidObjectId(id)) return null;
+    return RECORDS[type].model.findOne({ ...ArchiveService.scopeFilter(type, tenant_id, clinic_id), _id: id })
+      .setOptions({ onlyDeleted: true });
+  }
+
+  static async restore(type: ArchiveRecordType, record: any): Promise<any> {
+    await record.restore();
+    await RECORDS[type].onRestore?.(record);
+    return record;
+  }
+
+  /**
+   * Permanently remove archived records whose retention period has passed. Without a policy for a
+   * type nothing of it is removed.
+   */
+  static async purgeExpired(params: { tenant_id?: Id; clinic_id?: Id } = {}): Promise<PurgeResult[]> {
+    const results: PurgeResult[] = [];
+
+    for (const type of PURGE_ORDER) {
+      const { purge_after_days } = ArchiveService.getPolicy(type);
+      if (!purge_after_days) continue;
+
+      const config = RECORDS[type];
+      const result: PurgeResult = { type, purged: 0, blocked: 0, failed: 0 };
+      const filter: Record<string, any> = {
+        deleted_at: { $lte: new Date(Date.now() - purge_after_days * 24 * 60 * 60 * 1000) }
+      };
+      if (params.tenant_id) Object.assign(filter, ArchiveService.scopeFilter(type, params.tenant_id, params.clinic_id));
+
+      const cursor = config.model.find(filter).setOptions({ withDeleted: true }).cursor();
+      for await (const record of cursor) {
+        try {
+          if (config.isPurgeBlocked && await config.isPurgeBlocked(record)) {
+            result.blocked++;
+            continue;
+          }
+          await config.model.deleteOne({ _id: record._id });
+          await config.onPurge?.(record);
+          result.purged++;
+        } catch (error) {
+          console.error(`Purge archived ${type} error:`, error);
+          result.failed++;
+        }
+      }
+
+      results.push(result);
+    }
+
+    return results;
+  }
+
+  /**
+   * Purge expired records on an interval (ARCHIVE_PURGE_INTERVAL_MS, default daily)
+   */
+  static startPurgeScheduler(): void {
+    if (purgeTimer) return;
+
+    const interval = parseInt(process.env.ARCHIVE_PURGE_INTERVAL_MS || '', 10) || 24 * 60 * 60 * 1000;
+
+    purgeTimer = setInterval(async () => {
+      if (purgeRunning) return;
+      purgeRunning = true;
+
+      try {
+        const results = await ArchiveService.purgeExpired();
+        const purged = results.reduce((sum, result) => sum + result.purged, 0);
+        if (purged > 0) console.log(`Archive purge removed ${purged} expired records`);
+      } catch (error) {
+        console.error('Archive purge scheduler error:', error);
+      } finally {
+        purgeRunning = false;
+      }
+    }, interval);
+
+    purgeTimer.unref();
+  }
+
+  static stopPurgeScheduler(): void {
+    if (purgeTimer) {
+      clearInterval(purgeTimer);
+      purgeTimer = null;
+    }
+  }
+}
+
+export default ArchiveService;
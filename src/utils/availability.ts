@@ -0,0 +1,647 @@
+import mongoose from 'mongoose';
+import {
+  Appointment,
+  Clinic,
+  User,
+  IAppointment,
+  ScheduleException,
+  IScheduleException,
+  BLOCKING_EXCEPTION_TYPES,
+  WaitlistOffer,
+  IWaitlistOffer,
+  staffMemberFilter
+} from '../models';
+import { ResourceService, ResourceConflict, ResourceAllocationResult } from './resources';
+import { TimezoneService } from './timezone';
+
+export interface TimeSlot {
+  start: Date;
+  end: Date;
+}
+
+export interface WorkingWindow extends TimeSlot {
+  source: 'doctor' | 'clinic' | 'both';
+}
+
+export interface BlockedInterval extends TimeSlot {
+  exception_id: mongoose.Types.ObjectId;
+  user_id: mongoose.Types.ObjectId | null;
+  type: string;
+  title: string;
+  clinic_wide: boolean;
+}
+
+export interface ParticipantParams {
+  user_id: string | mongoose.Types.ObjectId;
+  role: string;
+}
+
+export interface AvailabilityCheckParams {
+  tenant_id: string | mongoose.Types.ObjectId;
+  clinic_id: string | mongoose.Types.ObjectId;
+  doctor_id: string | mongoose.Types.ObjectId;
+  start: Date;
+  duration: number;
+  exclude_appointment_id?: string | mongoose.Types.ObjectId | Array<string | mongoose.Types.ObjectId>;
+  exclude_hold_id?: string | mongoose.Types.ObjectId;
+  service_id?: string | mongoose.Types.ObjectId; // Its required resources are allocated as well
+  resource_ids?: Array<string | mongoose.Types.ObjectId>;
+  participants?: ParticipantParams[]; // Further staff who must be free as well
+}
+
+export interface AvailabilityCheckResult {
+  available: boolean;
+  reason?: 'doctor_not_found' | 'participant_not_found' | 'clinic_not_found' | 'not_working' | 'outside_working_hours' | 'time_off' | 'overlap' | 'held' | 'resource_unavailable';
+  message?: string;
+  conflicts: IAppointment[];
+  blocked_by?: BlockedInterval[];
+  held_by?: IWaitlistOffer[];
+  resource_conflicts?: ResourceConflict[];
+  resource_ids?: mongoose.Types.ObjectId[]; // Resources allocated when available
+  working_window?: WorkingWindow | null;
+  participant?: ParticipantParams; // The participant who is not available (unset when it is the doctor)
+}
+
+export interface SlotSearchParams {
+  tenant_id: string | mongoose.Types.ObjectId;
+  clinic_id: string | mongoose.Types.ObjectId;
+  doctor_id: string | mongoose.Types.ObjectId;
+  date: string | Date;
+  duration: number;
+  step?: number;
+  service_id?: string | mongoose.Types.ObjectId;
+}
+
+// Longest appointment the schema allows, used to bound overlap lookups
+const MAX_APPOINTMENT_DURATION = 240;
+
+const WEEK_DAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'] as const;
+
+export class AvailabilityService {
+  /**
+   * Convert an "HH:mm" string into minutes since midnight
+   */
+  static parseTime(value: string): number {
+    const [hours, minutes] = (value || '00:00').split(':').map((part) => parseInt(part, 10) || 0);
+    return hours * 60 + minutes;
+  }
+
+  /**
+   * Resolve a date or "YYYY-MM-DD" string to midnight of that day in the clinic's timezone
+   */
+  static startOfDay(date: string | Date, timezone?: string): Date {
+    return TimezoneService.startOfDay(date, timezone);
+  }
+
+  static getWeekDay(date: Date, timezone?: string): typeof WEEK_DAYS[number] {
+    return WEEK_DAYS[TimezoneService.getWeekDayIndex(date, timezone)];
+  }
+
+  /**
+   * Intersect the doctor's weekly schedule with the clinic working hours for one day.
+   * Active 'override' exceptions replace the doctor's (user-level) or clinic's (clinic-wide)
+   * hours for the days they cover. Returns null when either side is not working that day.
+   * Hours are wall-clock times in the clinic's timezone.
+   */
+  static getWorkingWindow(doctor: any, clinic: any, date: Date, exceptions: IScheduleException[] = []): WorkingWindow | null {
+    const timezone = TimezoneService.forClinic(clinic);
+    const { start: day, end: dayEnd } = TimezoneService.getDayRange(date, timezone);
+    const weekDay = AvailabilityService.getWeekDay(day, timezone);
+
+    let doctorDay = doctor?.schedule?.[weekDay];
+    let clinicDay = clinic?.settings?.working_hours?.[weekDay];
+
+    for (const exception of exceptions) {
+      if (exception.type !== 'override' || !exception.override_hours) continue;
+      if (exception.start_date >= dayEnd || exception.end_date <= day) continue;
+
+      const hours = { start: exception.override_hours.start, end: exception.override_hours.end, isWorking: true };
+      if (exception.user_id) {
+        doctorDay = hours;
+      } else {
+        clinicDay = hours;
+      }
+    }
+
+    if ((doctorDay && !doctorDay.isWorking) || (clinicDay && !clinicDay.isWorking)) {
+      return null;
+    }
+
+    const ranges = [doctorDay, clinicDay]
+      .filter(Boolean)
+      .map((range: any) => ({
+        start: AvailabilityService.parseTime(range.start),
+        end: AvailabilityService.parseTime(range.end)
+      }));
+
+    // Neither side has a schedule configured - treat the whole day as open
+    if (ranges.length === 0) {
+      return {
+        start: day,
+        end: dayEnd,
+        source: 'both'
+      };
+    }
+
+    const startMinutes = Math.max(...ranges.map((range) => range.start));
+    const endMinutes = Math.min(...ranges.map((range) => range.end));
+
+    if (endMinutes <= startMinutes) {
+      return null;
+    }
+
+    return {
+      start: TimezoneService.atMinutes(day, startMinutes, timezone),
+      end: TimezoneService.atMinutes(day, endMinutes, timezone),
+      source: doctorDay && clinicDay ? 'both' : doctorDay ? 'doctor' : 'clinic'
+    };
+  }
+
+  /**
+   * Active schedule exceptions overlapping [start, end).
+   * With user_ids, returns those users' exceptions in any clinic of the tenant (staff on leave are away
+   * from all of them) plus the clinic-wide ones; without, every exception in the clinic.
+   */
+  static async findExceptions(params: {
+    tenant_id: string | mongoose.Types.ObjectId;
+    clinic_id: string | mongoose.Types.ObjectId;
+    user_ids?: Array<string | mongoose.Types.ObjectId>;
+    start: Date;
+    end: Date;
+  }): Promise<IScheduleException[]> {
+    const filter: any = {
+      tenant_id: params.tenant_id,
+      is_active: true,
+      start_date: { $lt: params.end },
+      end_date: { $gt: params.start }
+    };
+
+    if (params.user_ids) {
+      filter.$or = [{ clinic_id: params.clinic_id, user_id: null }, { user_id: { $in: params.user_ids } }];
+    } else {
+      filter.clinic_id = params.clinic_id;
+    }
+
+    return ScheduleException.find(filter).sort({ start_date: 1 });
+  }
+
+  /**
+   * Time-off periods (leave, holidays, closures...) as blocked intervals
+   */
+  static getBlockedIntervals(exceptions: IScheduleException[]): BlockedInterval[] {
+    return exceptions
+      .filter((exception) => BLOCKING_EXCEPTION_TYPES.includes(exception.type))
+      .map((exception) => ({
+        start: exception.start_date,
+        end: exception.end_date,
+        exception_id: exception._id as mongoose.Types.ObjectId,
+        user_id: exception.user_id || null,
+        type: exception.type,
+        title: exception.title,
+        clinic_wide: !exception.user_id
+      }));
+  }
+
+  /**
+   * Already-booked appointments that a schedule exception now conflicts with:
+   * anything overlapping a blocking period, or booked outside the replacement hours of an override.
+   * A staff member's exception applies at every clinic of the tenant, a clinic-wide one only there.
+   */
+  static async findAppointmentsAffectedBy(exception: IScheduleException): Promise<IAppointment[]> {
+    const filter: any = {
+      tenant_id: exception.tenant_id,
+      frees_slot: { $ne: true },
+      appointment_date: {
+        $gt: new Date(exception.start_date.getTime() - MAX_APPOINTMENT_DURATION * 60000),
+        $lt: exception.end_date
+      }
+    };
+
+    if (exception.user_id) {
+      Object.assign(filter, staffMemberFilter(exception.user_id));
+    } else {
+      filter.clinic_id = exception.clinic_id;
+    }
+
+    const candidates = await Appointment.find(filter)
+      .populate('patient_id', 'first_name last_name phone')
+      .populate('doctor_id', 'first_name last_name')
+      .sort({ appointment_date: 1 });
+
+    if (BLOCKING_EXCEPTION_TYPES.includes(exception.type)) {
+      return candidates.filter((appointment) =>
+        appointment.appointment_date.getTime() + appointment.duration * 60000 > exception.start_date.getTime()
+      );
+    }
+
+    if (exception.type === 'override' && exception.override_hours) {
+      const timezone = await TimezoneService.getClinicTimezone(exception.clinic_id);
+      const overrideStart = AvailabilityService.parseTime(exception.override_hours.start);
+      const overrideEnd = AvailabilityService.parseTime(exception.override_hours.end);
+
+      return candidates.filter((appointment) => {
+        if (appointment.appointment_date < exception.start_date) return false;
+        const startMinutes = TimezoneService.getMinutesOfDay(appointment.appointment_date, timezone);
+        return startMinutes < overrideStart || startMinutes + appointment.duration > overrideEnd;
+      });
+    }
+
+    return [];
+  }
+
+  /**
+   * Working window and exceptions of a doctor for one day
+   */
+  static async getDaySchedule(params: {
+    tenant_id: string | mongoose.Types.ObjectId;
+    clinic_id: string | mongoose.Types.ObjectId;
+    doctor_id: string | mongoose.Types.ObjectId;
+    date: string | Date;
+  }): Promise<{
+    doctor: any;
+    clinic: any;
+    timezone: string;
+    working_window: WorkingWindow | null;
+    exceptions: IScheduleException[];
+    blocked: BlockedInterval[];
+  }> {
+    const [doctor, clinic] = await Promise.all([
+      User.findOne({ _id: params.doctor_id, tenant_id: params.tenant_id }).select('schedule first_name last_name'),
+      Clinic.findOne({ _id: params.clinic_id, tenant_id: params.tenant_id }).select('settings')
+    ]);
+
+    // The day runs midnight to midnight in the clinic's timezone
+    const timezone = TimezoneService.forClinic(clinic);
+    const { start: day, end: dayEnd } = TimezoneService.getDayRange(params.date, timezone);
+
+    const exceptions = await AvailabilityService.findExceptions({
+      tenant_id: params.tenant_id,
+      clinic_id: params.clinic_id,
+      user_ids: [params.doctor_id],
+      start: day,
+      end: dayEnd
+    });
+
+    return {
+      doctor,
+      clinic,
+      timezone,
+      working_window: doctor && clinic ? AvailabilityService.getWorkingWindow(doctor, clinic, day, exceptions) : null,
+      exceptions,
+      blocked: AvailabilityService.getBlockedIntervals(exceptions)
+    };
+  }
+
+  /**
+   * Find active appointments a staff member takes part in (as doctor, nurse or participant) whose interval overlaps [start, end).
+   * Staff can work at several clinics of a tenant, so their bookings at all of them count.
+   */
+  static async findOverlappingAppointments(params: {
+    tenant_id: string | mongoose.Types.ObjectId;
+    user_id: string | mongoose.Types.ObjectId;
+    start: Date;
+    end: Date;
+    exclude_appointment_id?: string | mongoose.Types.ObjectId | Array<string | mongoose.Types.ObjectId>;
+  }): Promise<IAppointment[]> {
+    const filter: any = {
+      tenant_id: params.tenant_id,
+      ...staffMemberFilter(params.user_id),
+      frees_slot: { $ne: true },
+      appointment_date: {
+        $gt: new Date(params.start.getTime() - MAX_APPOINTMENT_DURATION * 60000),
+        $lt: params.end
+      }
+    };
+
+    if (Array.isArray(params.exclude_appointment_id)) {
+      filter._id = { $nin: params.exclude_appointment_id };
+    } else if (params.exclude_appointment_id) {
+      filter._id = { $ne: params.exclude_appointment_id };
+    }
+
+    const candidates = await Appointment.find(filter).sort({ appointment_date: 1 });
+
+    return candidates.filter((appointment) => {
+      const appointmentEnd = appointment.appointment_date.getTime() + appointment.duration * 60000;
+      return appointmentEnd > params.start.getTime();
+    });
+  }
+
+  /**
+   * Pending, unexpired waitlist offers that tentatively hold part of [start, end) for a doctor
+   */
+  static async findActiveHolds(params: {
+    tenant_id: string | mongoose.Types.ObjectId;
+    doctor_id: string | mongoose.Types.ObjectId;
+    start: Date;
+    end: Date;
+    exclude_hold_id?: string | mongoose.Types.ObjectId;
+  }): Promise<IWaitlistOffer[]> {
+    const filter: any = {
+      tenant_id: params.tenant_id,
+      doctor_id: params.doctor_id,
+      status: 'pending',
+      expires_at: { $gt: new Date() },
+      slot_start: {
+        $gt: new Date(params.start.getTime() - MAX_APPOINTMENT_DURATION * 60000),
+        $lt: params.end
+      }
+    };
+
+    if (params.exclude_hold_id) {
+      filter._id = { $ne: params.exclude_hold_id };
+    }
+
+    const holds = await WaitlistOffer.find(filter);
+
+    return holds.filter((hold) => hold.slot_start.getTime() + hold.duration * 60000 > params.start.getTime());
+  }
+
+  /**
+   * Everyone an appointment books - the doctor and each further participant
+   */
+  static getStaffIds(
+    doctor_id: string | mongoose.Types.ObjectId,
+    participants: ParticipantParams[] = []
+  ): Array<string | mongoose.Types.ObjectId> {
+    return [doctor_id, ...participants.map((participant) => participant.user_id)];
+  }
+
+  /**
+   * Check whether one staff member is working and free for [start, end) - their bookings and
+   * waitlist holds at every clinic of the tenant count.
+   * `label` names them in messages - "Doctor" for the booked doctor, the participant role otherwise.
+   */
+  static async checkStaffMember(params: {
+    tenant_id: string | mongoose.Types.ObjectId;
+    clinic_id: string | mongoose.Types.ObjectId;
+    user_id: string | mongoose.Types.ObjectId;
+    label: string;
+    start: Date;
+    end: Date;
+    exclude_appointment_id?: AvailabilityCheckParams['exclude_appointment_id'];
+    exclude_hold_id?: AvailabilityCheckParams['exclude_hold_id'];
+  }): Promise<AvailabilityCheckResult> {
+    const { start, end, label } = params;
+
+    const { doctor: user, clinic, working_window: workingWindow, blocked } = await AvailabilityService.getDaySchedule({
+      tenant_id: params.tenant_id,
+      clinic_id: params.clinic_id,
+      doctor_id: params.user_id,
+      date: start
+    });
+
+    if (!user) {
+      return {
+        available: false,
+        reason: label === 'Doctor' ? 'doctor_not_found' : 'participant_not_found',
+        message: `${label} not found`,
+        conflicts: []
+      };
+    }
+
+    if (!clinic) {
+      return { available: false, reason: 'clinic_not_found', message: 'Clinic not found', conflicts: [] };
+    }
+
+    const blockedBy = blocked.filter((interval) => interval.start < end && interval.end > start);
+    if (blockedBy.length > 0) {
+      return {
+        available: false,
+        reason: 'time_off',
+        message: `${label} is unavailable at this time (${blockedBy.map((interval) => interval.title).join(', ')})`,
+        conflicts: [],
+        blocked_by: blockedBy,
+        working_window: workingWindow
+      };
+    }
+
+    if (!workingWindow) {
+      return {
+        available: false,
+        reason: 'not_working',
+        message: `${label} is not working on the selected day`,
+        conflicts: [],
+        working_window: null
+      };
+    }
+
+    if (start < workingWindow.start || end > workingWindow.end) {
+      return {
+        available: false,
+        reason: 'outside_working_hours',
+        message: `Appointment falls outside the ${label.toLowerCase()}'s working hours`,
+        conflicts: [],
+        working_window: workingWindow
+      };
+    }
+
+    const conflicts = await AvailabilityService.findOverlappingAppointments({
+      tenant_id: params.tenant_id,
+      user_id: params.user_id,
+      start,
+      end,
+      exclude_appointment_id: params.exclude_appointment_id
+    });
+
+    if (conflicts.length > 0) {
+      return {
+        available: false,
+        reason: 'overlap',
+        message: `${label} already has an appointment that overlaps this time`,
+        conflicts,
+        working_window: workingWindow
+      };
+    }
+
+    const holds = await AvailabilityService.findActiveHolds({
+      tenant_id: params.tenant_id,
+      doctor_id: params.user_id,
+      start,
+      end,
+      exclude_hold_id: params.exclude_hold_id
+    });
+
+    if (holds.length > 0) {
+      return {
+        available: false,
+        reason: 'held',
+        message: label === 'Doctor'
+          ? 'This time is temporarily held for a waitlisted patient'
+          : `${label}'s time is temporarily held for a waitlisted patient`,
+        conflicts: [],
+        held_by: holds,
+        working_window: workingWindow
+      };
+    }
+
+    return { available: true, conflicts: [], working_window: workingWindow };
+  }
+
+  /**
+   * Check whether a doctor - and every further participant - can take an appointment of the given duration at the given time
+   */
+  static async checkAvailability(params: AvailabilityCheckParams): Promise<AvailabilityCheckResult> {
+    const start = new Date(params.start);
+    const end = new Date(start.getTime() + params.duration * 60000);
+
+    const doctorCheck = await AvailabilityService.checkStaffMember({
+      tenant_id: params.tenant_id,
+      clinic_id: params.clinic_id,
+      user_id: params.doctor_id,
+      label: 'Doctor',
+      start,
+      end,
+      exclude_appointment_id: params.exclude_appointment_id,
+      exclude_hold_id: params.exclude_hold_id
+    });
+
+    if (!doctorCheck.available) {
+      return doctorCheck;
+    }
+    const workingWindow = doctorCheck.working_window;
+
+    for (const participant of params.participants || []) {
+      if (participant.user_id.toString() === params.doctor_id.toString()) continue;
+
+      const participantCheck = await AvailabilityService.checkStaffMember({
+        tenant_id: params.tenant_id,
+        clinic_id: params.clinic_id,
+        user_id: participant.user_id,
+        label: participant.role.charAt(0).toUpperCase() + participant.role.slice(1),
+        start,
+        end,
+        exclude_appointment_id: params.exclude_appointment_id
+      });
+
+      if (!participantCheck.available) {
+        return { ...participantCheck, participant };
+      }
+    }
+
+    const allocation = await ResourceService.allocate({
+      tenant_id: params.tenant_id,
+      clinic_id: params.clinic_id,
+      start,
+      duration: params.duration,
+      service_id: params.service_id,
+      resource_ids: params.resource_ids,
+      exclude_appointment_id: params.exclude_appointment_id
+    });
+
+    if (!allocation.available) {
+      return { ...AvailabilityService.fromResourceAllocation(allocation), working_window: workingWindow };
+    }
+
+    return { available: true, conflicts: [], resource_ids: allocation.resource_ids, working_window: workingWindow };
+  }
+
+  /**
+   * Report a failed resource allocation (or reservation) like any other availability conflict
+   */
+  static fromResourceAllocation(allocation: ResourceAllocationResult): AvailabilityCheckResult {
+    return {
+      available: false,
+      reason: allocation.conflicts.some((conflict) => conflict.reason === 'overlap') ? 'overlap' : 'resource_unavailable',
+      message: allocation.message,
+      conflicts: [],
+      resource_conflicts: allocation.conflicts
+    };
+  }
+
+  /**
+   * List bookable slots for a doctor on a given day
+   */
+  static async getAvailableSlots(params: SlotSearchParams): Promise<{
+    timezone: string;
+    working_window: WorkingWindow | null;
+    slots: TimeSlot[];
+    booked: TimeSlot[];
+    blocked: BlockedInterval[];
+    held: TimeSlot[];
+  }> {
+    const step = params.step || 15;
+
+    const { timezone, working_window: workingWindow, blocked } = await AvailabilityService.getDaySchedule({
+      tenant_id: params.tenant_id,
+      clinic_id: params.clinic_id,
+      doctor_id: params.doctor_id,
+      date: params.date
+    });
+
+    if (!workingWindow) {
+      return { timezone, working_window: null, slots: [], booked: [], blocked, held: [] };
+    }
+
+    const appointments = await AvailabilityService.findOverlappingAppointments({
+      tenant_id: params.tenant_id,
+      user_id: params.doctor_id,
+      start: workingWindow.start,
+      end: workingWindow.end
+    });
+
+    const booked: TimeSlot[] = appointments.map((appointment) => ({
+      start: appointment.appointment_date,
+      end: new Date(appointment.appointment_date.getTime() + appointment.duration * 60000)
+    }));
+
+    const holds = await AvailabilityService.findActiveHolds({
+      tenant_id: params.tenant_id,
+      doctor_id: params.doctor_id,
+      start: workingWindow.start,
+      end: workingWindow.end
+    });
+
+    const held: TimeSlot[] = holds.map((hold) => ({
+      start: hold.slot_start,
+      end: new Date(hold.slot_start.getTime() + hold.duration * 60000)
+    }));
+
+    const unavailable: TimeSlot[] = [...booked, ...blocked, ...held];
+    const now = Date.now();
+    const slots: TimeSlot[] = [];
+
+    // Resources the service needs are loaded once for the whole window
+    const requirements = await ResourceService.getRequirements(params.tenant_id, params.clinic_id, params.service_id);
+    const resourceContext = requirements.length > 0
+      ? await ResourceService.loadContext({
+          tenant_id: params.tenant_id,
+          clinic_id: params.clinic_id,
+          start: workingWindow.start,
+          end: workingWindow.end,
+          types: requirements.map((requirement) => requirement.type)
+        })
+      : null;
+
+    for (
+      let cursor = workingWindow.start.getTime();
+      cursor + params.duration * 60000 <= workingWindow.end.getTime();
+      cursor += step * 60000
+    ) {
+      const slotStart = cursor;
+      const slotEnd = cursor + params.duration * 60000;
+
+      if (slotStart < now) continue;
+
+      const overlaps = unavailable.some((interval) =>
+        interval.start.getTime() < slotEnd && interval.end.getTime() > slotStart
+      );
+
+      if (overlaps) continue;
+
+      if (resourceContext && !ResourceService.allocateFrom(resourceContext, {
+        start: new Date(slotStart),
+        end: new Date(slotEnd),
+        requirements
+      }).available) {
+        continue;
+      }
+
+      slots.push({ start: new Date(slotStart), end: new Date(slotEnd) });
+    }
+
+    return { timezone, working_window: workingWindow, slots, booked, blocked, held };
+  }
+}
+
+export default AvailabilityService;
@@ -0,0 +1,393 @@
+import mongoose from 'mongoose';
+import {
+  IMedicalRecord,
+  IMedication,
+  IPatient,
+  IPatientAllergy,
+  IPatientMedication,
+  IPrescription,
+  IPrescriptionAlert,
+  Patient
+} from '../models';
+
+type Id = string | mongoose.Types.ObjectId;
+
+export type ClinicalAlert = Omit<IPrescriptionAlert, 'acknowledged_by' | 'acknowledged_at'>;
+
+// What a medication or allergen name refers to
+export interface DrugProfile {
+  key: string; // Normalized name - strength and dosage form removed
+  drugs: string[]; // Known drugs named in it
+  classes: string[]; // Classes of those drugs
+  named_classes: string[]; // Classes named outright, e.g. "penicillin allergy", "NSAIDs"
+}
+
+/**
+ * Drug classes relevant to dental and general practice prescribing. Not a formulary - enough to catch
+ * an allergy or duplicate recorded under a brand, class or sibling drug name.
+ */
+const DRUG_CLASSES: Record<string, string[]> = {
+  penicillins: ['penicillin', 'amoxicillin', 'ampicillin', 'augmentin', 'co-amoxiclav', 'flucloxacillin', 'dicloxacillin', 'cloxacillin', 'piperacillin', 'phenoxymethylpenicillin'],
+  cephalosporins: ['cephalexin', 'cefalexin', 'cefadroxil', 'cefuroxime', 'cefixime', 'cefaclor', 'cefprozil', 'ceftriaxone', 'cefazolin', 'cefdinir'],
+  macrolides: ['erythromycin', 'azithromycin', 'clarithromycin'],
+  lincosamides: ['clindamycin', 'lincomycin'],
+  tetracyclines: ['tetracycline', 'doxycycline', 'minocycline'],
+  fluoroquinolones: ['ciprofloxacin', 'levofloxacin', 'moxifloxacin', 'ofloxacin'],
+  nitroimidazoles: ['metronidazole', 'tinidazole', 'flagyl'],
+  sulfonamides: ['sulfamethoxazole', 'co-trimoxazole', 'cotrimoxazole', 'sulfadiazine', 'bactrim', 'septrin'],
+  nsaids: ['ibuprofen', 'naproxen', 'diclofenac', 'ketorolac', 'aspirin', 'celecoxib', 'etoricoxib', 'mefenamic', 'ketoprofen', 'meloxicam', 'brufen', 'voltaren', 'cataflam'],
+  paracetamol: ['paracetamol', 'acetaminophen', 'panadol', 'tylenol'],
+  opioids: ['codeine', 'tramadol', 'morphine', 'oxycodone', 'hydrocodone', 'fentanyl', 'pethidine'],
+  benzodiazepines: ['diazepam', 'midazolam', 'lorazepam', 'alprazolam', 'triazolam'],
+  amide_anesthetics: ['lidocaine', 'lignocaine', 'xylocaine', 'articaine', 'mepivacaine', 'prilocaine', 'bupivacaine'],
+  ester_anesthetics: ['benzocaine', 'procaine', 'tetracaine']
+};
+
+// Allergy wording that names a whole class
+const CLASS_TERMS: Record<string, string> = {
+  penicillin: 'penicillins',
+  penicillins: 'penicillins',
+  'beta-lactam': 'penicillins',
+  cephalosporin: 'cephalosporins',
+  cephalosporins: 'cephalosporins',
+  macrolide: 'macrolides',
+  macrolides: 'macrolides',
+  tetracyclines: 'tetracyclines',
+  quinolone: 'fluoroquinolones',
+  quinolones: 'fluoroquinolones',
+  fluoroquinolone: 'fluoroquinolones',
+  fluoroquinolones: 'fluoroquinolones',
+  sulfa: 'sulfonamides',
+  sulpha: 'sulfonamides',
+  sulfonamide: 'sulfonamides',
+  sulfonamides: 'sulfonamides',
+  nsaid: 'nsaids',
+  nsaids: 'nsaids',
+  opioid: 'opioids',
+  opioids: 'opioids',
+  opiate: 'opioids',
+  opiates: 'opioids',
+  benzodiazepine: 'benzodiazepines',
+  benzodiazepines: 'benzodiazepines',
+  'amide anesthetic': 'amide_anesthetics',
+  'ester anesthetic': 'ester_anesthetics'
+};
+
+// Classes an allergy to one of them warns about
+const CROSS_REACTIVE_CLASSES: [string, string][] = [
+  ['penicillins', 'cephalosporins']
+];
+
+// Prescriptions whose medications the patient is taking
+const CURRENT_PRESCRIPTION_STATUSES = ['active', 'pending'];
+
+// Classes routinely given together, e.g. two local anesthetics in one procedure
+const DUPLICATION_EXEMPT_CLASSES = ['amide_anesthetics', 'ester_anesthetics'];
+
+// Strength, dosage form and route - "Amoxicillin 500mg caps PO" is amoxicillin
+const DOSAGE_WORDS = /\b(\d+([.,]\d+)?\s*(mg|mcg|g|ml|iu|%)?|mg|mcg|ml|iu|tabs?|tablets?|caps?|capsules?|syrup|suspension|susp|injection|inj|cream|gel|ointment|drops?|mouthwash|rinse|oral|po|iv|im|sr|er|xr|forte|allergy|allergic)\b/g;
+
+const intersects = (a: string[], b: string[]): boolean => a.some(item => b.includes(item));
+
+const containsWord = (text: string, word: string): boolean =>
+  word.length >= 3 && ` ${text} `.includes(` ${word} `);
+
+// Accepts a reference whether or not it has been populated
+const idOf = (value: any): mongoose.Types.ObjectId => value?._id ?? value;
+
+const slug = (value: string): string => value.replace(/\s+/g, '-');
+
+export class ClinicalSummaryService {
+  static normalizeDrugName(name?: string | null): string {
+    return (name || '')
+      .normalize('NFKD')
+      .replace(/[\u0300-\u036F]/g, '')
+      .toLowerCase()
+      .replace(/[^a-z0-9%.,\s-]/g, ' ')
+      .replace(DOSAGE_WORDS, ' ')
+      .replace(/[.,]/g, ' ')
+      .replace(/\s+/g, ' ')
+      .trim();
+  }
+
+  static getDrugProfile(name?: string | null): DrugProfile {
+    const key = ClinicalSummaryService.normalizeDrugName(name);
+    const drugs: string[] = [];
+    const classes: string[] = [];
+
+    for (const [drugClass, members] of Object.entries(DRUG_CLASSES)) {
+      const found = members.filter(member => containsWord(key, member));
+      if (found.length > 0) {
+        drugs.push(...found);
+        classes.push(drugClass);
+      }
+    }
+
+    const named_classes = [...new Set(Object.entries(CLASS_TERMS)
+      .filter(([term]) => containsWord(key, term))
+      .map(([, drugClass]) => drugClass))];
+
+    return { key, drugs: [...new Set(drugs)], classes, named_classes };
+  }
+
+  /**
+   * Whether two names refer to the same drug
+   */
+  static isSameDrug(a: DrugProfile, b: DrugProfile): boolean {
+    if (!a.key || !b.key) return false;
+    if (a.key === b.key || intersects(a.drugs, b.drugs)) return true;
+    // Unknown drugs are matched on their name alone
+    return (a.drugs.length === 0 || b.drugs.length === 0) && (containsWord(a.key, b.key) || containsWord(b.key, a.key));
+  }
+
+  /**
+   * Allergy, cross-reactivity and duplicate-therapy alerts for medications about to be prescribed
+   */
+  static checkPrescription(
+    patient: IPatient,
+    medications: Pick<IMedication, 'name'>[],
+    exclude_prescription_id?: Id
+  ): ClinicalAlert[] {
+    const summary = patient.clinical_summary;
+    const alerts = new Map<string, ClinicalAlert>();
+    const add = (alert: ClinicalAlert) => {
+      if (!alerts.has(alert.code)) alerts.set(alert.code, alert);
+    };
+
+    const allergies = (summary?.allergies || [])
+      .filter(allergy => allergy.status === 'active' && ['drug', 'other'].includes(allergy.category))
+      .map(allergy => ({ allergy, profile: ClinicalSummaryService.getDrugProfile(allergy.allergen) }));
+    const current = (summary?.medications || [])
+      // An edited prescription is not a duplicate of itself
+      .filter(medication => medication.status === 'active' &&
+        !(exclude_prescription_id && medication.prescription_id?.equals(exclude_prescription_id)))
+      .map(medication => ({ name: medication.name, profile: ClinicalSummaryService.getDrugProfile(medication.name) }));
+    const prescribed = medications.map(medication => ({ name: medication.name, profile: ClinicalSummaryService.getDrugProfile(medication.name) }));
+
+    prescribed.forEach(({ name, profile }, index) => {
+      if (!profile.key) return;
+
+      for (const { allergy, profile: allergen } of allergies) {
+        const reaction = [allergy.severity, allergy.reaction].filter(Boolean).join(', ');
+
+        if (ClinicalSummaryService.isSameDrug(profile, allergen) || intersects(profile.classes, allergen.named_classes)) {
+          add({
+            code: `allergy:${slug(profile.key)}:${slug(allergen.key)}`,
+            type: 'allergy',
+            severity: 'critical',
+            medication: name,
+            message: `Patient is allergic to ${allergy.allergen} (${reaction}) - ${name} must not be given without review`
+          });
+        } else if (intersects(profile.classes, allergen.classes)) {
+          add({
+            code: `cross_reactivity:${slug(profile.key)}:${slug(allergen.key)}`,
+            type: 'cross_reactivity',
+            severity: allergy.severity === 'severe' ? 'critical' : 'warning',
+            medication: name,
+            message: `${name} is in the same drug class as ${allergy.allergen}, which the patient is allergic to (${reaction})`
+          });
+        } else if (CROSS_REACTIVE_CLASSES.some(([a, b]) => {
+          const allergenClasses = [...allergen.classes, ...allergen.named_classes];
+          return (profile.classes.includes(a) && allergenClasses.includes(b)) || (profile.classes.includes(b) && allergenClasses.includes(a));
+        })) {
+          add({
+            code: `cross_reactivity:${slug(profile.key)}:${slug(allergen.key)}`,
+            type: 'cross_reactivity',
+            severity: 'warning',
+            medication: name,
+            message: `${name} may cross-react with the patient's ${allergy.allergen} allergy (${reaction})`
+          });
+        }
+      }
+
+      // Against what the patient already takes, and earlier lines of this prescription
+      const others = [...current, ...prescribed.slice(0, index).map(other => ({ ...other, same_prescription: true }))];
+      for (const other of others as { name: string; profile: DrugProfile; same_prescription?: boolean }[]) {
+        const where = other.same_prescription ? 'is also on this prescription' : 'is already among the patient\'s current medications';
+
+        if (ClinicalSummaryService.isSameDrug(profile, other.profile)) {
+          add({
+            code: `duplicate_therapy:${slug(profile.key)}:${slug(other.profile.key)}`,
+            type: 'duplicate_therapy',
+            severity: 'warning',
+            medication: name,
+            message: `${other.name} ${where} - ${name} duplicates it`
+          });
+          continue;
+        }
+
+        const shared = profile.classes.filter(drugClass => other.profile.classes.includes(drugClass) && !DUPLICATION_EXEMPT_CLASSES.includes(drugClass));
+        if (shared.length > 0) {
+          add({
+            code: `duplicate_therapy:${slug(profile.key)}:${slug(other.profile.key)}`,
+            type: 'duplicate_therapy',
+            severity: 'warning',
+            medication: name,
+            message: `${other.name} ${where} - ${name} is in the same class (${shared[0].replace(/_/g, ' ')})`
+          });
+        }
+      }
+    });
+
+    return [...alerts.values()];
+  }
+
+  /**
+   * Allergies and medications noted at a visit are carried onto the patient's summary
+   */
+  static async recordMedicalRecord(record: IMedicalRecord, recorded_by?: Id): Promise<void> {
+    if (!record.allergies?.length && !record.medications?.length) return;
+
+    const patient = await Patient.findOne({ _id: idOf(record.patient_id), tenant_id: record.tenant_id });
+    if (!patient) return;
+
+    const summary = patient.clinical_summary;
+    const severityRank = { mild: 1, moderate: 2, severe: 3 };
+
+    for (const noted of record.allergies || []) {
+      const profile = ClinicalSummaryService.getDrugProfile(noted.allergen);
+      const existing = summary.allergies.find(allergy =>
+        ClinicalSummaryService.normalizeDrugName(allergy.allergen) === profile.key);
+
+      if (existing) {
+        // A worse reaction than recorded so far raises the severity; the entry becomes current again
+        if (severityRank[noted.severity] > severityRank[existing.severity]) {
+          existing.severity = noted.severity;
+          existing.reaction = noted.reaction || existing.reaction;
+        }
+        existing.status = 'active';
+        continue;
+      }
+
+      summary.allergies.push({
+        allergen: noted.allergen,
+        category: profile.drugs.length > 0 || profile.named_classes.length > 0 ? 'drug' : 'other',
+        severity: noted.severity,
+        reaction: noted.reaction,
+        source: 'medical_record',
+        recorded_by,
+        recorded_at: new Date()
+      } as IPatientAllergy);
+    }
+
+    for (const noted of record.medications || []) {
+      const profile = ClinicalSummaryService.getDrugProfile(noted.name);
+      const taking = summary.medications.some(medication =>
+        medication.status === 'active' && ClinicalSummaryService.isSameDrug(profile, ClinicalSummaryService.getDrugProfile(medication.name)));
+      if (taking) continue;
+
+      summary.medications.push({
+        name: noted.name,
+        dosage: noted.dosage,
+        frequency: noted.frequency,
+        status: 'active',
+        started_at: record.visit_date,
+        notes: noted.notes,
+        source: 'medical_record',
+        recorded_by,
+        recorded_at: new Date()
+      } as IPatientMedication);
+    }
+
+    await patient.save({ validateModifiedOnly: true });
+  }
+
+  /**
+   * Keep the patient's current medications in step with a prescription: while it is active or pending its
+   * medications are current (replacing what an earlier version of it listed), afterwards they are stopped
+   */
+  static async syncPrescription(prescription: IPrescription, recorded_by?: Id): Promise<void> {
+    if (!CURRENT_PRESCRIPTION_STATUSES.includes(prescription.status)) {
+      await ClinicalSummaryService.stopPrescription(prescription);
+      return;
+    }
+
+    const patient = await Patient.findOne({ _id: idOf(prescription.patient_id), tenant_id: prescription.tenant_id });
+    if (!patient) return;
+
+    const medications = patient.clinical_summary.medications.filter(medication =>
+      !medication.prescription_id?.equals(prescription._id as mongoose.Types.ObjectId));
+    for (const medication of prescription.medications) {
+      medications.push({
+        name: medication.name,
+        dosage: medication.dosage,
+        frequency: medication.frequency,
+        status: 'active',
+        started_at: prescription.created_at || new Date(),
+        prescription_id: prescription._id,
+        source: 'prescription',
+        recorded_by,
+        recorded_at: new Date()
+      } as IPatientMedication);
+    }
+    patient.set('clinical_summary.medications', medications);
+
+    await patient.save({ validateModifiedOnly: true });
+  }
+
+  /**
+   * Medications of a finished, cancelled, expired or deleted prescription are no longer current
+   */
+  static async stopPrescription(prescription: IPrescription): Promise<void> {
+    await Patient.updateOne(
+      { _id: idOf(prescription.patient_id), tenant_id: prescription.tenant_id },
+      { $set: { 'clinical_summary.medications.$[medication].status': 'stopped', 'clinical_summary.medications.$[medication].stopped_at': new Date() } },
+      { arrayFilters: [{ 'medication.prescription_id': prescription._id, 'medication.status': 'active' }] }
+    );
+  }
+
+  /**
+   * Give the survivor of a patient merge the duplicate's entries it does not have yet,
+   * so no allergy is lost. Returns whether anything was added.
+   */
+  static mergeInto(survivor: IPatient, duplicate: IPatient): boolean {
+    const target = survivor.clinical_summary;
+    const source = duplicate.clinical_summary;
+    if (!source) return false;
+
+    let added = false;
+    const keyOf = (name: string) => ClinicalSummaryService.normalizeDrugName(name);
+
+    for (const allergy of source.allergies || []) {
+      if (!target.allergies.some(existing => keyOf(existing.allergen) === keyOf(allergy.allergen))) {
+        target.allergies.push(allergy);
+        added = true;
+      }
+    }
+    for (const condition of source.conditions || []) {
+      if (!target.conditions.some(existing => keyOf(existing.name) === keyOf(condition.name))) {
+        target.conditions.push(condition);
+        added = true;
+      }
+    }
+    for (const medication of source.medications || []) {
+      if (!target.medications.some(existing => existing._id.equals(medication._id) ||
+        (existing.status === 'active' && medication.status === 'active' && keyOf(existing.name) === keyOf(medication.name)))) {
+        target.medications.push(medication);
+        added = true;
+      }
+    }
+
+    return added;
+  }
+
+  /**
+   * Undo mergeInto: drop the entries that were copied from the duplicate (matched by id)
+   */
+  static unmerge(survivor: IPatient, duplicateSnapshot: Record<string, any>): void {
+    const source = duplicateSnapshot.clinical_summary;
+    if (!source) return;
+
+    const copied = (list: any[] = []) => new Set(list.map(entry => String(entry._id)));
+    const allergies = copied(source.allergies);
+    const conditions = copied(source.conditions);
+    const medications = copied(source.medications);
+
+    const target = survivor.clinical_summary;
+    survivor.set('clinical_summary.allergies', target.allergies.filter(entry => !allergies.has(String(entry._id))));
+    survivor.set('clinical_summary.conditions', target.conditions.filter(entry => !conditions.has(String(entry._id))));
+    survivor.set('clinical_summary.medications', target.medications.filter(entry => !medications.has(String(entry._id))));
+  }
+}
+
+export default ClinicalSummaryService;
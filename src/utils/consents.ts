@@ -0,0 +1,147 @@
+import mongoose from 'mongoose';
+import {
+  Clinic,
+  ConsentTemplate,
+  IAppointment,
+  IConsentTemplate,
+  IPatientConsent,
+  Odontogram,
+  PatientConsent,
+  Service
+} from '../models';
+import { TimezoneService } from './timezone';
+
+type Id = string | mongoose.Types.ObjectId;
+
+export type ConsentRequirementSource = 'service' | 'treatment_plan';
+
+// A consent an appointment needs, and the signature covering it if there is one
+export interface ConsentRequirement {
+  patient_id: mongoose.Types.ObjectId;
+  code: string;
+  sources: ConsentRequirementSource[];
+  title?: string;
+  consent: IPatientConsent | null;
+}
+
+// Age below which a guardian or spouse has to sign in the patient's place
+export const CONSENT_AGE_OF_MAJORITY = 18;
+
+export class ConsentService {
+  /**
+   * Current version of every active template of a clinic, keyed by code
+   */
+  static async getCurrentTemplates(tenant_id: Id, clinic_id: Id, codes?: string[]): Promise<Map<string, IConsentTemplate>> {
+    const templates = await ConsentTemplate.find({
+      tenant_id,
+      clinic_id,
+      is_current: true,
+      is_active: true,
+      ...(codes && { code: { $in: codes } })
+    });
+    return new Map(templates.map(template => [template.code, template]));
+  }
+
+  /**
+   * Signed, unrevoked and unexpired consent of a patient for a template code
+   */
+  static async getValidConsent(tenant_id: Id, patient_id: Id, code: string): Promise<IPatientConsent | null> {
+    return PatientConsent.findOne({
+      tenant_id,
+      patient_id,
+      template_code: code,
+      status: 'signed',
+      $or: [{ expires_at: { $exists: false } }, { expires_at: null }, { expires_at: { $gt: new Date() } }]
+    }).sort({ signed_at: -1 });
+  }
+
+  /**
+   * Consents the appointment's service asks of every attending patient, plus those of the
+   * patient's active treatment plan items being worked on or planned for the appointment's day
+   */
+  static async getRequiredConsents(appointment: IAppointment): Promise<ConsentRequirement[]> {
+    const requirements: ConsentRequirement[] = [];
+    const add = (patient_id: mongoose.Types.ObjectId, code: string, source: ConsentRequirementSource) => {
+      const existing = requirements.find(item => item.patient_id.equals(patient_id) && item.code === code);
+      if (existing) {
+        if (!existing.sources.includes(source)) existing.sources.push(source);
+        return;
+      }
+      requirements.push({ patient_id, code, sources: [source], consent: null });
+    };
+
+    const patientIds = [appointment.patient_id, ...(appointment.additional_patient_ids || [])]
+      .map((id: any) => new mongoose.Types.ObjectId(String(id?._id || id)));
+
+    if (appointment.service_id) {
+      const service = await Service.findOne({ _id: (appointment.service_id as any)._id || appointment.service_id, tenant_id: appointment.tenant_id })
+        .select('requiredConsents')
+        .lean();
+      for (const code of service?.requiredConsents || []) {
+        patientIds.forEach(patient_id => add(patient_id, code, 'service'));
+      }
+    }
+
+    const clinic = await Clinic.findById(appointment.clinic_id).select('settings.timezone').lean();
+    const { start, end } = TimezoneService.getDayRange(appointment.appointment_date, TimezoneService.forClinic(clinic));
+    const odontogram = await Odontogram.findOne({ clinic_id: appointment.clinic_id, patient_id: patientIds[0], is_active: true })
+      .select('teeth_conditions.treatment_plan')
+      .lean();
+
+    for (const tooth of odontogram?.teeth_conditions || []) {
+      const plan = tooth.treatment_plan;
+      if (!plan?.required_consents?.length) continue;
+
+      const plannedToday = !!plan.planned_date && plan.planned_date >= start && plan.planned_date < end;
+      if (plan.status === 'in_progress' || (plan.status === 'planned' && plannedToday)) {
+        plan.required_consents.forEach(code => add(patientIds[0], code, 'treatment_plan'));
+      }
+    }
+
+    if (requirements.length === 0) return requirements;
+
+    const templates = await ConsentService.getCurrentTemplates(
+      appointment.tenant_id,
+      appointment.clinic_id,
+      [...new Set(requirements.map(item => item.code))]
+    );
+
+    await Promise.all(requirements.map(async item => {
+      item.title = templates.get(item.code)?.title.en;
+      item.consent = await ConsentService.getValidConsent(appointment.tenant_id, item.patient_id, item.code);
+    }));
+
+    return requirements;
+  }
+
+  /**
+   * Required consents nobody has signed yet - the appointment cannot be completed while any remain
+   */
+  static async getMissingConsents(appointment: IAppointment): Promise<ConsentRequirement[]> {
+    const requirements = await ConsentService.getRequiredConsents(appointment);
+    return requirements.filter(item => !item.consent);
+  }
+
+  static isMinor(patient: { date_of_birth?: Date }): boolean {
+    if (!patient.date_of_birth) return false;
+    const adulthood = new Date(patient.date_of_birth);
+    adulthood.setFullYear(adulthood.getFullYear() + CONSENT_AGE_OF_MAJORITY);
+    return adulthood > new Date();
+  }
+
+  /**
+   * Decode a "data:image/png;base64,..." drawn signature; null when it is not a PNG, JPEG or WebP image
+   */
+  static parseSignatureImage(dataUrl: string): { buffer: Buffer; contentType: string; extension: string } | null {
+    const match = /^data:(image\/(png|jpeg|webp));base64,([A-Za-z0-9+/=]+)$/.exec(dataUrl.trim());
+    if (!match) return null;
+
+    const buffer = Buffer.from(match[3], 'base64');
+    if (buffer.length === 0) return null;
+
+    const extension = match[2] === 'jpeg' ? '.jpg' : `.${match[2]}`;
+    return { buffer, contentType: match[1], extension };
+  }
+}
+
+export default ConsentService;
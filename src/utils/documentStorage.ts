@@ -0,0 +1,298 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import multer from 'multer';
+import mongoose from 'mongoose';
+import { DocumentStorageType, IPatientDocument, IUser } from '../models';
+import { S3Service } from './s3';
+
+/**
+ * Where vault files live. Keys are chosen by the backend and stored on the document.
+ */
+export interface DocumentStorageBackend {
+  readonly type: DocumentStorageType;
+  put(folder: string, content: Buffer, contentType: string, extension: string): Promise<string>;
+  delete(key: string): Promise<void>;
+  // Short-lived direct link, or null when the file has to be streamed through the API with read()
+  getDownloadUrl(key: string, expiresIn: number, downloadName: string): Promise<string | null>;
+  read(key: string): Promise<fs.ReadStream>;
+}
+
+export class S3DocumentStorage implements DocumentStorageBackend {
+  readonly type = 's3' as const;
+
+  async put(folder: string, content: Buffer, contentType: string, extension: string): Promise<string> {
+    const url = await S3Service.uploadBuffer(content, contentType, folder, extension);
+    const key = S3Service.extractKeyFromUrl(url);
+    if (!key) {
+      throw new Error(`Unexpected S3 URL format: ${url}`);
+    }
+    return key;
+  }
+
+  async delete(key: string): Promise<void> {
+    await S3Service.deleteObject(key);
+  }
+
+  async getDownloadUrl(key: string, expiresIn: number, downloadName: string): Promise<string | null> {
+    return S3Service.getPresignedUrl(key, expiresIn, downloadName);
+  }
+
+  async read(): Promise<fs.ReadStream> {
+    throw new Error('S3 documents are downloaded through presigned URLs');
+  }
+}
+
+/**
+ * Files on the local disk, for development without AWS credentials.
+ * Enabled with DOCUMENT_STORAGE=local (the default when no S3 bucket is configured).
+ */
+export class LocalDocumentStorage implements DocumentStorageBackend {
+  readonly type = 'local' as const;
+
+  constructor(readonly root: string = path.resolve(process.env.DOCUMENT_STORAGE_PATH || './uploads/documents')) {}
+
+  private resolve(key: string): string {
+    const filePath = path.resolve(this.root, key);
+    if (!filePath.startsWith(this.root + path.sep)) {
+      throw new Error(`Invalid document key: ${key}`);
+    }
+    return filePath;
+  }
+
+  async put(folder: string, content: Buffer, _contentType: string, extension: string): Promise<string> {
+    const key = `${folder}/${crypto.randomUUID()}${extension}`;
+    const filePath = this.resolve(key);
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.promises.writeFile(filePath, content);
+    return key;
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.promises.rm(this.resolve(key), { force: true });
+  }
+
+  async getDownloadUrl(): Promise<string | null> {
+    return null;
+  }
+
+  async read(key: string): Promise<fs.ReadStream> {
+    const filePath = this.resolve(key);
+    await fs.promises.access(filePath, fs.constants.R_OK);
+    return fs.createReadStream(filePath);
+  }
+}
+
+export interface ScanResult {
+  infected: boolean;
+  signature?: string; // Name of the detected threat
+}
+
+/**
+ * Virus-scan hook run on every upload before it is stored. When scan() throws the
+ * upload is refused rather than stored unchecked.
+ */
+export interface DocumentScanner {
+  readonly engine: string;
+  scan(content: Buffer, fileName: string): Promise<ScanResult>;
+}
+
+/**
+ * Scanner behind an HTTP endpoint (e.g. a ClamAV REST wrapper) set in DOCUMENT_SCAN_URL.
+ * The file is POSTed as the raw body; the response is JSON { infected, signature? }.
+ */
+export class HttpDocumentScanner implements DocumentScanner {
+  readonly engine = 'http';
+
+  constructor(private readonly url: string) {}
+
+  async scan(content: Buffer, fileName: string): Promise<ScanResult> {
+    const response = await fetch(this.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/octet-stream',
+        'X-File-Name': encodeURIComponent(fileName),
+        ...(process.env.DOCUMENT_SCAN_API_KEY ? { Authorization: `Bearer ${process.env.DOCUMENT_SCAN_API_KEY}` } : {})
+      },
+      body: content
+    });
+
+    if (!response.ok) {
+      throw new Error(`Virus scanner responded with ${response.status}: ${(await response.text()).slice(0, 200)}`);
+    }
+
+    const payload: any = await response.json();
+    if (typeof payload.infected !== 'boolean') {
+      throw new Error('Virus scanner returned an unexpected response');
+    }
+    return { infected: payload.infected, signature: payload.signature };
+  }
+}
+
+export type StoreDocumentResult =
+  | { stored: true; file: IPatientDocument['file']; scan: IPatientDocument['scan'] }
+  | { stored: false; reason: 'infected' | 'scan_unavailable'; signature?: string };
+
+// Roles that see every document of their clinic, whatever its access list says
+const UNRESTRICTED_ROLES = ['super_admin', 'admin'];
+
+export const DOCUMENT_DOWNLOAD_TTL_SECONDS = 300;
+
+export const DOCUMENT_MAX_SIZE = 25 * 1024 * 1024;
+
+export const DOCUMENT_MIME_TYPES: Record<string, string> = {
+  'application/pdf': '.pdf',
+  'image/jpeg': '.jpg',
+  'image/png': '.png',
+  'image/webp': '.webp',
+  'image/heic': '.heic',
+  'image/tiff': '.tiff',
+  'application/dicom': '.dcm'
+};
+
+const backendRegistry = new Map<DocumentStorageType, DocumentStorageBackend>();
+let scanner: DocumentScanner | null | undefined;
+
+export class DocumentStorageService {
+  static getDefaultStorageType(): DocumentStorageType {
+    const configured = process.env.DOCUMENT_STORAGE;
+    if (configured === 's3' || configured === 'local') return configured;
+    return process.env.AWS_S3_BUCKET_NAME ? 's3' : 'local';
+  }
+
+  /**
+   * Backend a document was stored with - documents keep working after DOCUMENT_STORAGE changes
+   */
+  static getBackend(type: DocumentStorageType = DocumentStorageService.getDefaultStorageType()): DocumentStorageBackend {
+    let backend = backendRegistry.get(type);
+    if (!backend) {
+      backend = type === 's3' ? new S3DocumentStorage() : new LocalDocumentStorage();
+      backendRegistry.set(type, backend);
+    }
+    return backend;
+  }
+
+  static getScanner(): DocumentScanner | null {
+    if (scanner === undefined) {
+      scanner = process.env.DOCUMENT_SCAN_URL ? new HttpDocumentScanner(process.env.DOCUMENT_SCAN_URL) : null;
+    }
+    return scanner;
+  }
+
+  /**
+   * Plug in a different virus scanner, or none with null
+   */
+  static setScanner(custom: DocumentScanner | null): void {
+    scanner = custom;
+  }
+
+  /**
+   * Scan and store an uploaded file under the patient's folder. Infected files, and files the
+   * scanner could not check, are not stored.
+   */
+  static async store(params: {
+    tenant_id: string | mongoose.Types.ObjectId;
+    patient_id: string | mongoose.Types.ObjectId;
+    content: Buffer;
+    file_name: string;
+    mime_type: string;
+  }): Promise<StoreDocumentResult> {
+    const activeScanner = DocumentStorageService.getScanner();
+    let scan: IPatientDocument['scan'] = { status: 'skipped' };
+
+    if (activeScanner) {
+      let result: ScanResult;
+      try {
+        result = await activeScanner.scan(params.content, params.file_name);
+      } catch (error) {
+        console.error('Document scan error:', error);
+        return { stored: false, reason: 'scan_unavailable' };
+      }
+      if (result.infected) {
+        return { stored: false, reason: 'infected', signature: result.signature };
+      }
+      scan = { status: 'clean', engine: activeScanner.engine, scanned_at: new Date() };
+    }
+
+    const backend = DocumentStorageService.getBackend();
+    const extension = DOCUMENT_MIME_TYPES[params.mime_type] || path.extname(params.file_name).toLowerCase();
+    const key = await backend.put(
+      `documents/${params.tenant_id}/${params.patient_id}`,
+      params.content,
+      params.mime_type,
+      extension
+    );
+
+    return {
+      stored: true,
+      file: {
+        storage: backend.type,
+        key,
+        name: params.file_name,
+        mime_type: params.mime_type,
+        size: params.content.length,
+        checksum: crypto.createHash('sha256').update(params.content).digest('hex')
+      },
+      scan
+    };
+  }
+
+  static async remove(document: IPatientDocument): Promise<void> {
+    await DocumentStorageService.getBackend(document.file.storage).delete(document.file.key);
+  }
+
+  /**
+   * Whether a user may see a document: restricted documents are limited to their roles and
+   * users, the uploader and admins
+   */
+  static canAccess(document: IPatientDocument, user?: IUser): boolean {
+    if (!user) return false;
+    if (document.access.level !== 'restricted' || UNRESTRICTED_ROLES.includes(user.role)) return true;
+
+    return document.access.roles.includes(user.role) ||
+      document.access.user_ids.some(id => id.equals(user._id as any)) ||
+      !!document.uploaded_by?.equals(user._id as any);
+  }
+
+  /**
+   * Query condition matching the documents a user may see, for listings
+   */
+  static accessFilter(user?: IUser): Record<string, any> {
+    if (user && UNRESTRICTED_ROLES.includes(user.role)) return {};
+
+    return {
+      $or: [
+        { 'access.level': { $ne: 'restricted' } },
+        ...(user ? [
+          { 'access.roles': user.role },
+          { 'access.user_ids': user._id },
+          { uploaded_by: user._id }
+        ] : [])
+      ]
+    };
+  }
+
+  /**
+   * Only the uploader and admins may change who can see a document, or delete it
+   */
+  static canManage(document: IPatientDocument, user?: IUser): boolean {
+    if (!user) return false;
+    return UNRESTRICTED_ROLES.includes(user.role) || !!document.uploaded_by?.equals(user._id as any);
+  }
+}
+
+// Vault uploads are kept in memory until scanned, then handed to the storage backend
+export const documentUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: DOCUMENT_MAX_SIZE
+  },
+  fileFilter: (req, file, cb) => {
+    if (DOCUMENT_MIME_TYPES[file.mimetype]) {
+      return cb(null, true);
+    }
+    cb(new Error('Only PDF, JPEG, PNG, WebP, HEIC, TIFF and DICOM files are allowed'));
+  }
+});
+
+export default DocumentStorageService;
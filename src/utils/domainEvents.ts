@@ -0,0 +1,193 @@
+import { EventEmitter } from 'events';
+import crypto from 'crypto';
+import mongoose, { Schema } from 'mongoose';
+
+type Id = string | mongoose.Types.ObjectId;
+
+export type DomainEventType =
+  | 'appointment.created'
+  | 'appointment.updated'
+  | 'appointment.status_changed'
+  | 'patient.checked_in'
+  | 'lab_report.verified'
+  | 'payment.received'
+  | 'inventory.low_stock'
+  | 'queue.updated';
+
+// Permission needed to receive each event - the same one that guards reading it over REST
+export const DOMAIN_EVENT_PERMISSIONS: Record<DomainEventType, string> = {
+  'appointment.created': 'appointments.view',
+  'appointment.updated': 'appointments.view',
+  'appointment.status_changed': 'appointments.view',
+  'patient.checked_in': 'appointments.view',
+  'lab_report.verified': 'test_reports.view',
+  'payment.received': 'payments.view',
+  'inventory.low_stock': 'inventory.view',
+  'queue.updated': 'appointments.view'
+};
+
+export const DOMAIN_EVENT_TYPES = Object.keys(DOMAIN_EVENT_PERMISSIONS) as DomainEventType[];
+
+export interface DomainEvent<T = Record<string, any>> {
+  id: string;
+  type: DomainEventType;
+  tenant_id: string;
+  clinic_id: string;
+  user_ids?: string[]; // Staff the event is about - doctors and nurses only receive events listing them
+  occurred_at: Date;
+  data: T;
+}
+
+export interface DomainEventSubscriber {
+  tenant_id: Id;
+  clinic_id: Id;
+  user_id: Id;
+  role: string;
+  types: Set<DomainEventType>;
+}
+
+// Roles that only see their own appointments (see getRoleBasedFilter)
+const ASSIGNED_ONLY_ROLES = ['doctor', 'nurse'];
+
+// Recent events kept for clients reconnecting with Last-Event-ID
+const REPLAY_BUFFER_SIZE = 500;
+
+const emitter = new EventEmitter();
+emitter.setMaxListeners(0); // One listener per open stream
+
+const recentEvents: DomainEvent[] = [];
+
+const toId = (value: any): string | null => {
+  if (!value) return null;
+  return (value._id || value).toString();
+};
+
+/**
+ * In-process domain events. Models and services publish what happened; real-time streams (and anything
+ * else that cares) subscribe, so controllers never push to clients themselves.
+ * Events are not shared between server processes - each process serves the streams connected to it.
+ */
+export class DomainEventService {
+  static publish<T extends Record<string, any>>(
+    type: DomainEventType,
+    scope: { tenant_id?: Id | null; clinic_id?: Id | null },
+    data: T,
+    user_ids: Array<Id | null | undefined> = []
+  ): DomainEvent<T> | null {
+    // Everything is delivered per clinic - records without one have nobody to go to
+    if (!scope.tenant_id || !scope.clinic_id) return null;
+
+    const event: DomainEvent<T> = {
+      id: crypto.randomUUID(),
+      type,
+      tenant_id: scope.tenant_id.toString(),
+      clinic_id: scope.clinic_id.toString(),
+      occurred_at: new Date(),
+      data
+    };
+
+    const staff = Array.from(new Set(user_ids.map(toId).filter((id): id is string => !!id)));
+    if (staff.length > 0) event.user_ids = staff;
+
+    recentEvents.push(event);
+    if (recentEvents.length > REPLAY_BUFFER_SIZE) recentEvents.shift();
+
+    // A failing subscriber must never fail the write that raised the event
+    for (const listener of emitter.listeners('event')) {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error('Domain event listener error:', error);
+      }
+    }
+    return event;
+  }
+
+  static subscribe(listener: (event: DomainEvent) => void): () => void {
+    emitter.on('event', listener);
+    return () => {
+      emitter.off('event', listener);
+    };
+  }
+
+  /**
+   * Whether a subscriber may receive an event: same clinic, a subscribed type, and - for doctors and
+   * nurses - only events about their own appointments
+   */
+  static isVisibleTo(event: DomainEvent, subscriber: DomainEventSubscriber): boolean {
+    if (event.tenant_id !== subscriber.tenant_id.toString() || event.clinic_id !== subscriber.clinic_id.toString()) {
+      return false;
+    }
+    if (!subscriber.types.has(event.type)) return false;
+    if (event.user_ids && ASSIGNED_ONLY_ROLES.includes(subscriber.role)) {
+      return event.user_ids.includes(subscriber.user_id.toString());
+    }
+    return true;
+  }
+
+  /**
+   * Events published after the given one, or null when it is no longer buffered (the client should refetch)
+   */
+  static getEventsSince(eventId: string, subscriber: DomainEventSubscriber): DomainEvent[] | null {
+    const index = recentEvents.findIndex(event => event.id === eventId);
+    if (index === -1) return null;
+    return recentEvents.slice(index + 1).filter(event => DomainEventService.isVisibleTo(event, subscriber));
+  }
+}
+
+/**
+ * Run a handler after every single-document write of a model - save, findOneAndUpdate and updateOne -
+ * with the document after the write and the given fields as they were before (null when created).
+ * Handlers run after the write has completed; their errors are logged, never thrown.
+ */
+export const onDocumentWrite = (
+  schema: Schema,
+  fields: string[],
+  handler: (after: any, before: Record<string, any> | null) => void | Promise<void>
+): void => {
+  const pick = (source: any): Record<string, any> =>
+    fields.reduce((values, field) => ({ ...values, [field]: source.get ? source.get(field) : source[field] }), {});
+
+  const run = (after: any, before: Record<string, any> | null) => {
+    Promise.resolve()
+      .then(() => handler(after, before))
+      .catch(error => console.error('Domain event error:', error));
+  };
+
+  schema.post('init', function(this: any) {
+    this.$locals.event_snapshot = pick(this);
+  });
+
+  schema.pre('save', function(this: any, next) {
+    this.$locals.event_before = this.isNew ? null : this.$locals.event_snapshot || null;
+    next();
+  });
+
+  schema.post('save', function(this: any) {
+    run(this.toObject(), this.$locals.event_before);
+    this.$locals.event_snapshot = pick(this);
+  });
+
+  schema.pre(['findOneAndUpdate', 'updateOne'], async function(this: any, next) {
+    try {
+      this._event_before = await this.model.findOne(this.getQuery()).select(fields.join(' ')).lean();
+      next();
+    } catch (error: any) {
+      next(error);
+    }
+  });
+
+  schema.post(['findOneAndUpdate', 'updateOne'], async function(this: any) {
+    const before = this._event_before;
+    if (!before) return;
+
+    try {
+      const after = await this.model.findById(before._id).lean();
+      if (after) run(after, before);
+    } catch (error) {
+      console.error('Domain event error:', error);
+    }
+  });
+};
+
+export default DomainEventService;
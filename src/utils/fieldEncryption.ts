@@ -0,0 +1,620 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import mongoose, { Query, Schema, SchemaType } from 'mongoose';
+// Straight from the model file - the models importing this plugin are loaded through '../models'
+import DataKey, { DataKeyPurpose } from '../models/DataKey';
+
+type Id = string | mongoose.Types.ObjectId;
+
+/**
+ * Wraps and unwraps the tenants' data keys with key encryption keys (KEKs) that stay inside it
+ */
+export interface KeyManagementService {
+  readonly type: string;
+  currentKeyId(): string;
+  wrap(key: Buffer): Promise<{ wrapped_key: string; kek_id: string }>;
+  unwrap(wrapped_key: string, kek_id: string): Promise<Buffer>;
+}
+
+const ALGORITHM = 'aes-256-gcm';
+
+// iv:tag:ciphertext, base64
+const seal = (key: Buffer, plaintext: Buffer, aad: string): string => {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv(ALGORITHM, key, iv);
+  cipher.setAAD(Buffer.from(aad));
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return [iv, cipher.getAuthTag(), ciphertext].map(part => part.toString('base64')).join(':');
+};
+
+const open = (key: Buffer, sealed: string, aad: string): Buffer => {
+  const [iv, tag, ciphertext] = sealed.split(':').map(part => Buffer.from(part, 'base64'));
+  const decipher = crypto.createDecipheriv(ALGORITHM, key, iv);
+  decipher.setAAD(Buffer.from(aad));
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+};
+
+/**
+ * KEKs from a JSON file, standing in for a cloud KMS:
+ *   { "current": "2026-10", "keys": { "2026-10": "<32 random bytes, base64>" } }
+ * To replace a KEK, add a new one, make it current and run the key rotation with --rewrap-only;
+ * the old one can be dropped from the file afterwards.
+ */
+export class LocalKeyFileKms implements KeyManagementService {
+  readonly type = 'local' as const;
+  private file?: { current: string; keys: Record<string, Buffer> };
+
+  constructor(readonly filePath: string) {}
+
+  private load(): { current: string; keys: Record<string, Buffer> } {
+    if (!this.file) {
+      const content = JSON.parse(fs.readFileSync(this.filePath, 'utf8'));
+      const keys: Record<string, Buffer> = {};
+      for (const [id, value] of Object.entries<string>(content.keys || {})) {
+        keys[id] = Buffer.from(value, 'base64');
+        if (keys[id].length !== 32) {
+          throw new Error(`Key encryption key ${id} must be 32 bytes`);
+        }
+      }
+      if (!keys[content.current]) {
+        throw new Error(`Current key encryption key "${content.current}" is not in ${this.filePath}`);
+      }
+      this.file = { current: content.current, keys };
+    }
+    return this.file;
+  }
+
+  private getKey(kek_id: string): Buffer {
+    const key = this.load().keys[kek_id];
+    if (!key) {
+      throw new Error(`Unknown key encryption key: ${kek_id}`);
+    }
+    return key;
+  }
+
+  currentKeyId(): string {
+    return this.load().current;
+  }
+
+  async wrap(key: Buffer): Promise<{ wrapped_key: string; kek_id: string }> {
+    const kek_id = this.currentKeyId();
+    return { wrapped_key: seal(this.getKey(kek_id), key, kek_id), kek_id };
+  }
+
+  async unwrap(wrapped_key: string, kek_id: string): Promise<Buffer> {
+    return open(this.getKey(kek_id), wrapped_key, kek_id);
+  }
+}
+
+/**
+ * A field encrypted by the `encrypted` plugin. Paths through document arrays cover every element
+ * (e.g. `identifiers.value`).
+ */
+export interface EncryptedField {
+  path: string;
+  // Keeps the field findable by equality: a keyed hash of the normalised value is stored beside it
+  // as <field>_bidx and queries on the field are rewritten to it
+  blindIndex?: (value: string) => string;
+}
+
+interface ResolvedField extends EncryptedField {
+  segments: string[];
+  arrayPath?: string; // The document array the field sits in
+  schemaType: SchemaType;
+}
+
+// Stored values: enc:v1:<tenant_id>:<key version>:<iv>:<tag>:<ciphertext>
+const PREFIX = 'enc:v1:';
+
+// How soon a process picks up a data key rotated by another one. Until then it keeps encrypting
+// with the previous key, which stays readable.
+const CURRENT_KEY_TTL_MS = 5 * 60 * 1000;
+
+// Blind indexes are never re-keyed - that would mean recomputing every index at once
+const BLIND_INDEX_KEY_VERSION = 1;
+
+const ENCRYPTED_FIELDS = new WeakMap<Schema, ResolvedField[]>();
+
+const keyCache = new Map<string, Promise<Buffer>>(); // `${tenant}:${purpose}:${version}`
+const currentVersions = new Map<string, { version: number; expires: number }>(); // `${tenant}:${purpose}`
+
+let kms: KeyManagementService | null = null;
+
+// Subdocuments keep their values in _doc; lean results are plain objects
+const raw = (value: any): any => value?._doc ?? value;
+
+// Every place a field's value sits in a document - one per element below a document array
+const locate = (target: any, segments: string[]): { container: any; key: string }[] => {
+  const container = raw(target);
+  if (container === null || typeof container !== 'object') return [];
+  if (Array.isArray(container)) return container.flatMap(item => locate(item, segments));
+
+  const [head, ...rest] = segments;
+  return rest.length === 0 ? [{ container, key: head }] : locate(container[head], rest);
+};
+
+const rootOf = (path: string): string => path.split('.')[0];
+
+const isId = (value: any): boolean => typeof value === 'string' || value instanceof mongoose.Types.ObjectId;
+
+// A single tenant the query is limited to, from its filter
+const filterTenant = (query: Query<any, any>): Id | undefined => {
+  const tenant_id = query.getFilter().tenant_id;
+  return isId(tenant_id) ? tenant_id : undefined;
+};
+
+export class FieldEncryptionService {
+  /**
+   * Encryption is on once a key file is configured (FIELD_ENCRYPTION_KEY_FILE). Existing records
+   * are encrypted by the key rotation command.
+   */
+  static isEnabled(): boolean {
+    return !!process.env.FIELD_ENCRYPTION_KEY_FILE;
+  }
+
+  /**
+   * The KMS holding the KEKs, chosen with FIELD_ENCRYPTION_KMS (only `local` for now)
+   */
+  static getKms(): KeyManagementService {
+    if (!kms) {
+      const type = process.env.FIELD_ENCRYPTION_KMS || 'local';
+      if (type !== 'local') {
+        throw new Error(`Unsupported FIELD_ENCRYPTION_KMS: ${type}`);
+      }
+      if (!process.env.FIELD_ENCRYPTION_KEY_FILE) {
+        throw new Error('Encrypted fields found but FIELD_ENCRYPTION_KEY_FILE is not configured');
+      }
+      kms = new LocalKeyFileKms(process.env.FIELD_ENCRYPTION_KEY_FILE);
+    }
+    return kms;
+  }
+
+  static setKms(service: KeyManagementService | null): void {
+    kms = service;
+    FieldEncryptionService.clearCache();
+  }
+
+  static clearCache(): void {
+    keyCache.clear();
+    currentVersions.clear();
+  }
+
+  static isCiphertext(value: unknown): value is string {
+    return typeof value === 'string' && value.startsWith(PREFIX);
+  }
+
+  private static parse(value: string): { tenant_id: string; version: number; sealed: string } {
+    const [tenant_id, version, ...sealed] = value.slice(PREFIX.length).split(':');
+    return { tenant_id, version: parseInt(version, 10), sealed: sealed.join(':') };
+  }
+
+  private static getKey(tenant_id: Id, purpose: DataKeyPurpose, version: number): Promise<Buffer> {
+    const cacheKey = `${tenant_id}:${purpose}:${version}`;
+    let key = keyCache.get(cacheKey);
+    if (!key) {
+      key = (async () => {
+        const dataKey = await DataKey.findOne({ tenant_id, purpose, version });
+        if (!dataKey) {
+          throw new Error(`Data key ${purpose} v${version} of tenant ${tenant_id} not found`);
+        }
+        return FieldEncryptionService.getKms().unwrap(dataKey.wrapped_key, dataKey.kek_id);
+      })();
+      keyCache.set(cacheKey, key);
+      key.catch(() => keyCache.delete(cacheKey));
+    }
+    return key;
+  }
+
+  private static async createKey(tenant_id: Id, purpose: DataKeyPurpose, version: number): Promise<void> {
+    const key = crypto.randomBytes(32);
+    const wrapped = await FieldEncryptionService.getKms().wrap(key);
+    try {
+      await DataKey.create({ tenant_id, purpose, version, ...wrapped });
+      keyCache.set(`${tenant_id}:${purpose}:${version}`, Promise.resolve(key));
+    } catch (error: any) {
+      // Created by a concurrent request first - that one is used
+      if (error.code !== 11000) throw error;
+    }
+  }
+
+  /**
+   * Version of the tenant's data key new values are encrypted with; the first one is created on demand
+   */
+  static async getCurrentVersion(tenant_id: Id): Promise<number> {
+    const cacheKey = `${tenant_id}:data`;
+    const cached = currentVersions.get(cacheKey);
+    if (cached && cached.expires > Date.now()) return cached.version;
+
+    let current = await DataKey.findOne({ tenant_id, purpose: 'data', status: 'active' }).sort({ version: -1 });
+    if (!current) {
+      await FieldEncryptionService.createKey(tenant_id, 'data', 1);
+      current = await DataKey.findOne({ tenant_id, purpose: 'data', status: 'active' }).sort({ version: -1 });
+    }
+    currentVersions.set(cacheKey, { version: current!.version, expires: Date.now() + CURRENT_KEY_TTL_MS });
+    return current!.version;
+  }
+
+  static async encrypt(tenant_id: Id, plaintext: string): Promise<string> {
+    const version = await FieldEncryptionService.getCurrentVersion(tenant_id);
+    const key = await FieldEncryptionService.getKey(tenant_id, 'data', version);
+    return `${PREFIX}${tenant_id}:${version}:${seal(key, Buffer.from(plaintext, 'utf8'), String(tenant_id))}`;
+  }
+
+  /**
+   * Plaintext of a stored value; values that were never encrypted come back as they are
+   */
+  static async decrypt(value: string): Promise<string> {
+    if (!FieldEncryptionService.isCiphertext(value)) return value;
+
+    const { tenant_id, version, sealed } = FieldEncryptionService.parse(value);
+    const key = await FieldEncryptionService.getKey(tenant_id, 'data', version);
+    return open(key, sealed, tenant_id).toString('utf8');
+  }
+
+  /**
+   * Keyed hash of an already normalised value, unique to the tenant and the field
+   */
+  static async blindIndex(tenant_id: Id, field: string, value: string): Promise<string> {
+    let key: Buffer;
+    try {
+      key = await FieldEncryptionService.getKey(tenant_id, 'blind_index', BLIND_INDEX_KEY_VERSION);
+    } catch {
+      await FieldEncryptionService.createKey(tenant_id, 'blind_index', BLIND_INDEX_KEY_VERSION);
+      key = await FieldEncryptionService.getKey(tenant_id, 'blind_index', BLIND_INDEX_KEY_VERSION);
+    }
+    return crypto.createHmac('sha256', key).update(`${field}:${value}`).digest('hex').slice(0, 32);
+  }
+
+  /**
+   * Start encrypting the tenant's new values with a fresh data key. Older keys are retired but kept
+   * for reading until the key rotation command has re-encrypted their values.
+   */
+  static async rotateDataKey(tenant_id: Id): Promise<number> {
+    const latest = await DataKey.findOne({ tenant_id, purpose: 'data' }).sort({ version: -1 });
+    const version = (latest?.version || 0) + 1;
+
+    await FieldEncryptionService.createKey(tenant_id, 'data', version);
+    await DataKey.updateMany(
+      { tenant_id, purpose: 'data', status: 'active', version: { $lt: version } },
+      { status: 'retired', retired_at: new Date() }
+    );
+    currentVersions.delete(`${tenant_id}:data`);
+    return version;
+  }
+
+  /**
+   * Wrap the data keys that are still wrapped with an older KEK with the current one
+   */
+  static async rewrapDataKeys(tenant_id?: Id): Promise<number> {
+    const kms = FieldEncryptionService.getKms();
+    const dataKeys = await DataKey.find({ ...(tenant_id && { tenant_id }), kek_id: { $ne: kms.currentKeyId() } });
+
+    for (const dataKey of dataKeys) {
+      const key = await kms.unwrap(dataKey.wrapped_key, dataKey.kek_id);
+      Object.assign(dataKey, await kms.wrap(key));
+      await dataKey.save();
+    }
+    return dataKeys.length;
+  }
+
+  /**
+   * The one tenant whose documents an update touches, from its filter, the update itself or the
+   * documents it matches
+   */
+  static async getUpdateTenant(query: Query<any, any>, update: any): Promise<Id> {
+    const given = filterTenant(query) || [update.$set?.tenant_id, update.tenant_id].find(isId);
+    if (given) return given;
+
+    const tenants = await query.model.find(query.getFilter()).setOptions({ withDeleted: true }).distinct('tenant_id');
+    if (tenants.length > 1) {
+      throw new Error(`An update of encrypted ${query.model.modelName} fields cannot span tenants`);
+    }
+    return tenants[0];
+  }
+
+  static getFields(model: mongoose.Model<any>): EncryptedField[] {
+    return ENCRYPTED_FIELDS.get(model.schema) || [];
+  }
+
+  /**
+   * Whether values of the path are stored encrypted - such paths can only be matched by equality,
+   * and only if they have a blind index
+   */
+  static isEncrypted(model: mongoose.Model<any> | Schema, path: string): boolean {
+    const schema = model instanceof Schema ? model : model.schema;
+    return FieldEncryptionService.isEnabled() && (ENCRYPTED_FIELDS.get(schema) || []).some(field => field.path === path);
+  }
+
+  /**
+   * Encrypt the plaintext values of the fields in a document or plain object, in place
+   */
+  static async encryptDocument(model: mongoose.Model<any>, tenant_id: Id, doc: any): Promise<void> {
+    await encryptFields(ENCRYPTED_FIELDS.get(model.schema) || [], tenant_id, doc);
+  }
+
+  /**
+   * Decrypt the encrypted values of the fields in a document or plain object, in place
+   */
+  static async decryptDocument(model: mongoose.Model<any>, doc: any): Promise<void> {
+    await decryptFields(ENCRYPTED_FIELDS.get(model.schema) || [], doc);
+  }
+
+  /**
+   * Bring a raw stored document onto the tenant's current data key: plaintext values are encrypted,
+   * values under older keys re-encrypted, missing blind indexes filled in. Returns the $set that
+   * stores it, or null when it is up to date.
+   */
+  static async reencryptDocument(model: mongoose.Model<any>, doc: any): Promise<Record<string, any> | null> {
+    const tenant_id = doc.tenant_id;
+    const version = await FieldEncryptionService.getCurrentVersion(tenant_id);
+    const roots = new Set<string>();
+
+    for (const field of ENCRYPTED_FIELDS.get(model.schema) || []) {
+      for (const { container, key } of locate(doc, field.segments)) {
+        const value = container[key];
+        if (typeof value !== 'string' || value === '') continue;
+
+        const current = FieldEncryptionService.isCiphertext(value) &&
+          FieldEncryptionService.parse(value).version === version;
+        const indexed = !field.blindIndex || container[`${key}_bidx`];
+        if (current && indexed) continue;
+
+        const plaintext = await FieldEncryptionService.decrypt(value);
+        if (!current) container[key] = await FieldEncryptionService.encrypt(tenant_id, plaintext);
+        if (field.blindIndex) {
+          container[`${key}_bidx`] = await FieldEncryptionService.blindIndex(tenant_id, field.path, field.blindIndex(plaintext));
+        }
+        roots.add(rootOf(field.path));
+        if (field.blindIndex) roots.add(rootOf(`${field.path}_bidx`));
+      }
+    }
+
+    return roots.size > 0 ? Object.fromEntries([...roots].map(root => [root, doc[root]])) : null;
+  }
+}
+
+async function encryptFields(fields: ResolvedField[], tenant_id: Id, doc: any): Promise<void> {
+  for (const field of fields) {
+    for (const { container, key } of locate(doc, field.segments)) {
+      const value = container[key];
+      if (typeof value !== 'string' || FieldEncryptionService.isCiphertext(value)) continue;
+
+      if (field.blindIndex) {
+        container[`${key}_bidx`] = value
+          ? await FieldEncryptionService.blindIndex(tenant_id, field.path, field.blindIndex(value))
+          : undefined;
+      }
+      if (value) container[key] = await FieldEncryptionService.encrypt(tenant_id, value);
+    }
+  }
+}
+
+async function decryptFields(fields: ResolvedField[], doc: any): Promise<void> {
+  for (const field of fields) {
+    for (const { container, key } of locate(doc, field.segments)) {
+      if (FieldEncryptionService.isCiphertext(container[key])) {
+        container[key] = await FieldEncryptionService.decrypt(container[key]);
+      }
+    }
+  }
+}
+
+const decryptResult = async (fields: ResolvedField[], result: any): Promise<void> => {
+  // findOneAndUpdate with includeResultMetadata
+  const docs = Array.isArray(result) ? result : result?.lastErrorObject ? [result.value] : [result];
+  for (const doc of docs) {
+    if (doc) await decryptFields(fields, doc);
+  }
+};
+
+// Setters then validators on the plaintext - on the ciphertext the query casts later they are skipped
+const preparePlaintext = async (field: ResolvedField, value: string, path: string, validate: boolean): Promise<string> => {
+  const prepared = (field.schemaType as any).applySetters(value, null);
+  if (validate) {
+    await new Promise<void>((resolve, reject) => (field.schemaType as any).doValidate(prepared, (error: any) => {
+      if (!error) return resolve();
+      const validation = new mongoose.Error.ValidationError();
+      validation.addError(path, error);
+      reject(validation);
+    }, null));
+  }
+  return prepared;
+};
+
+async function encryptUpdate(query: Query<any, any>, fields: ResolvedField[]): Promise<void> {
+  const update: any = query.getUpdate();
+  if (!update) return;
+
+  const validate = !!query.getOptions().runValidators;
+  let tenant_id: Id | undefined;
+
+  for (const target of [update, update.$set, update.$setOnInsert].filter(Boolean)) {
+    for (const key of Object.keys(target)) {
+      if (key.startsWith('$')) continue;
+      // identifiers.0.value and identifiers.$.value stand for identifiers.value
+      const path = key.replace(/\.(\d+|\$(\[\w*\])?)(?=\.|$)/g, '');
+
+      for (const field of fields) {
+        const places = field.path === path
+          ? [{ container: target, key }]
+          : field.path.startsWith(`${path}.`) ? locate(target[key], field.path.slice(path.length + 1).split('.')) : [];
+
+        for (const place of places) {
+          const value = place.container[place.key];
+          if (typeof value !== 'string' || FieldEncryptionService.isCiphertext(value)) continue;
+
+          tenant_id = tenant_id || await FieldEncryptionService.getUpdateTenant(query, update);
+          const plaintext = await preparePlaintext(field, value, field.path, validate);
+          if (field.blindIndex) {
+            place.container[`${place.key}_bidx`] = plaintext
+              ? await FieldEncryptionService.blindIndex(tenant_id, field.path, field.blindIndex(plaintext))
+              : null;
+          }
+          place.container[place.key] = plaintext ? await FieldEncryptionService.encrypt(tenant_id, plaintext) : plaintext;
+        }
+      }
+    }
+  }
+
+  if (update.$unset) {
+    for (const field of fields) {
+      if (field.blindIndex && update.$unset[field.path] !== undefined) update.$unset[`${field.path}_bidx`] = 1;
+    }
+  }
+
+  query.setUpdate(update);
+}
+
+// Equality conditions on blind-indexed fields become conditions on their indexes; anything else
+// (ranges, regexes) cannot match an encrypted value and is left as it is
+const hashCondition = async (field: ResolvedField, condition: any, hash: (value: string) => Promise<string>): Promise<any> => {
+  const one = (value: any) => typeof value === 'string' ? hash(field.blindIndex!(value)) : Promise.resolve(value);
+
+  if (typeof condition === 'string') return one(condition);
+  if (condition && typeof condition === 'object' && !(condition instanceof RegExp)) {
+    const operators = Object.keys(condition);
+    if (operators.length === 1 && operators[0] === '$eq') return { $eq: await one(condition.$eq) };
+    if (operators.length === 1 && operators[0] === '$in' && Array.isArray(condition.$in)) {
+      return { $in: await Promise.all(condition.$in.map(one)) };
+    }
+  }
+  return undefined;
+};
+
+async function rewriteFilter(filter: any, fields: ResolvedField[], query: Query<any, any>, base = ''): Promise<any> {
+  const result: any = {};
+
+  for (const [key, condition] of Object.entries<any>(filter)) {
+    if (['$and', '$or', '$nor'].includes(key) && Array.isArray(condition)) {
+      result[key] = await Promise.all(condition.map(part => rewriteFilter(part, fields, query, base)));
+      continue;
+    }
+
+    const path = base ? `${base}.${key}` : key;
+    const field = fields.find(candidate => candidate.path === path);
+    if (field) {
+      const hashed = await hashCondition(field, condition, value => {
+        const tenant_id = filterTenant(query);
+        if (!tenant_id) {
+          throw new Error(`${query.model.modelName} lookups by ${field.path} need a tenant_id`);
+        }
+        return FieldEncryptionService.blindIndex(tenant_id, field.path, value);
+      });
+      if (hashed !== undefined) {
+        result[`${key}_bidx`] = hashed;
+        continue;
+      }
+    }
+
+    if (condition?.$elemMatch && fields.some(candidate => candidate.path.startsWith(`${path}.`))) {
+      result[key] = { ...condition, $elemMatch: await rewriteFilter(condition.$elemMatch, fields, query, path) };
+      continue;
+    }
+
+    result[key] = condition;
+  }
+
+  return result;
+}
+
+const resolveField = (schema: Schema, field: EncryptedField): ResolvedField => {
+  const segments = field.path.split('.');
+  for (let i = 1; i < segments.length; i++) {
+    const arrayPath = segments.slice(0, i).join('.');
+    const arrayType: any = schema.path(arrayPath);
+    if (arrayType?.$isMongooseDocumentArray) {
+      const schemaType = arrayType.schema.path(segments.slice(i).join('.'));
+      return { ...field, segments, arrayPath, schemaType };
+    }
+  }
+  return { ...field, segments, schemaType: schema.path(field.path) };
+};
+
+// Ciphertext skips the path's setters (uppercase, trim) and validators (maxlength, enum) - they
+// have already seen the plaintext
+const skipForCiphertext = (schemaType: SchemaType): void => {
+  const type: any = schemaType;
+  type.setters = type.setters.map((setter: Function) => function(this: any, value: any, ...args: any[]) {
+    return FieldEncryptionService.isCiphertext(value) ? value : setter.call(this, value, ...args);
+  });
+  for (const validator of type.validators) {
+    const check = validator.validator;
+    validator.validator = function(this: any, value: any, ...args: any[]) {
+      return FieldEncryptionService.isCiphertext(value) ? true : check.call(this, value, ...args);
+    };
+  }
+};
+
+/**
+ * Encrypt fields of a model with the tenant's data key (AES-256-GCM) while FieldEncryptionService
+ * is enabled. Documents are decrypted on find, findOne and findOneAndUpdate (lean or not, including
+ * populate) and after save; aggregations and raw collection access see the ciphertext.
+ * Apply after the schema's own hooks that need the plaintext.
+ */
+export const encrypted = (schema: Schema, fields: EncryptedField[]): void => {
+  const resolved = fields.map(field => resolveField(schema, field));
+  const indexed = resolved.filter(field => field.blindIndex);
+  ENCRYPTED_FIELDS.set(schema, resolved);
+
+  for (const field of resolved) {
+    if (!field.schemaType) {
+      throw new Error(`Encrypted path ${field.path} is not in the schema`);
+    }
+    skipForCiphertext(field.schemaType);
+
+    if (field.blindIndex && field.arrayPath) {
+      const arrayType: any = schema.path(field.arrayPath);
+      arrayType.schema.add({ [`${field.segments.slice(-1)[0]}_bidx`]: { type: String, select: false } });
+      schema.index({ tenant_id: 1, [`${field.path}_bidx`]: 1 });
+    } else if (field.blindIndex) {
+      schema.add({ [`${field.path}_bidx`]: { type: String, select: false } });
+      schema.index({ tenant_id: 1, [`${field.path}_bidx`]: 1 });
+    }
+  }
+
+  schema.pre('save', async function(this: any) {
+    if (!FieldEncryptionService.isEnabled()) return;
+
+    const changed = resolved.filter(field => this.isNew || this.isModified(field.arrayPath || field.path));
+    await encryptFields(changed, this.tenant_id, this);
+    // Indexes were written past the change tracking
+    for (const field of changed.filter(field => field.blindIndex)) {
+      this.markModified(field.arrayPath || `${field.path}_bidx`);
+    }
+  });
+
+  schema.post('save', async function(this: any) {
+    await decryptFields(resolved, this);
+  });
+
+  schema.pre('insertMany', function(this: any, next: any, docs: any[]) {
+    if (!FieldEncryptionService.isEnabled()) return next();
+
+    Promise.all((Array.isArray(docs) ? docs : [docs]).map(doc => encryptFields(resolved, doc.tenant_id, doc)))
+      .then(() => next(), next);
+  });
+
+  schema.post('insertMany', async function(docs: any[]) {
+    await decryptResult(resolved, docs);
+  });
+
+  schema.pre(['findOneAndUpdate', 'updateOne', 'updateMany'], async function(this: Query<any, any>) {
+    if (FieldEncryptionService.isEnabled()) await encryptUpdate(this, resolved);
+  });
+
+  if (indexed.length > 0) {
+    schema.pre(
+      ['find', 'findOne', 'countDocuments', 'distinct', 'findOneAndUpdate', 'findOneAndDelete', 'updateOne', 'updateMany', 'deleteOne', 'deleteMany'],
+      async function(this: Query<any, any>) {
+        if (FieldEncryptionService.isEnabled()) this.setQuery(await rewriteFilter(this.getFilter(), indexed, this));
+      }
+    );
+  }
+
+  schema.post(['find', 'findOne', 'findOneAndUpdate', 'findOneAndDelete'], async function(result: any) {
+    await decryptResult(resolved, result);
+  });
+};
+
+export default FieldEncryptionService;
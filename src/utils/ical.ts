@@ -0,0 +1,348 @@
+import crypto from 'crypto';
+import { RecurrenceService } from './recurrence';
+import { TimezoneService } from './timezone';
+
+export interface ICalEvent {
+  uid: string;
+  start: Date;
+  end: Date;
+  summary: string;
+  description?: string;
+  location?: string;
+  status?: 'CONFIRMED' | 'TENTATIVE' | 'CANCELLED';
+  sequence?: number;
+  updated_at?: Date;
+}
+
+export interface ParsedICalEvent {
+  uid: string;
+  summary: string;
+  start: Date;
+  end: Date;
+  all_day: boolean;
+  rrule?: string;
+  recurrence_id?: Date; // Set on an event that replaces one occurrence of a recurring event
+  exdates: Date[];
+}
+
+// One concrete busy period from an imported calendar
+export interface ICalOccurrence {
+  uid: string; // Stable per occurrence so re-importing updates instead of duplicating
+  summary: string;
+  start: Date;
+  end: Date;
+  all_day: boolean;
+}
+
+const PRODUCT_ID = '-//Clinic Pro//Appointments//EN';
+
+// Most busy blocks taken from one imported file
+const MAX_IMPORTED_OCCURRENCES = 2000;
+
+const pad = (value: number): string => String(value).padStart(2, '0');
+
+/**
+ * Split "NAME;PARAM=x;PARAM2="a:b":value" into its parts, ignoring ':' and ';' inside quotes
+ */
+const parseContentLine = (line: string): { name: string; params: Record<string, string>; value: string } | null => {
+  let inQuotes = false;
+  let colon = -1;
+
+  for (let index = 0; index < line.length; index++) {
+    const char = line[index];
+    if (char === '"') inQuotes = !inQuotes;
+    if (inQuotes) continue;
+    if (char === ':') {
+      colon = index;
+      break;
+    }
+  }
+
+  if (colon < 0) return null;
+
+  const head = line.slice(0, colon);
+  const [name, ...rawParams] = head.split(/;(?=(?:[^"]*"[^"]*")*[^"]*$)/);
+  const params: Record<string, string> = {};
+  for (const param of rawParams) {
+    const [key, ...rest] = param.split('=');
+    params[key.toUpperCase()] = rest.join('=').replace(/^"|"$/g, '');
+  }
+
+  return { name: name.toUpperCase(), params, value: line.slice(colon + 1) };
+};
+
+/**
+ * Minutes of an RFC 5545 DURATION such as PT1H30M or P1D
+ */
+const parseDuration = (value: string): number | null => {
+  const match = value.match(/^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+  if (!match) return null;
+
+  const [, sign, weeks, days, hours, minutes, seconds] = match;
+  const total = (+(weeks || 0) * 7 + +(days || 0)) * 24 * 60 + +(hours || 0) * 60 + +(minutes || 0) + +(seconds || 0) / 60;
+  return sign === '-' ? -total : total;
+};
+
+/**
+ * Build and read iCalendar (RFC 5545) data: appointment feeds and invites out, busy blocks in
+ */
+export class ICalendarService {
+  static escapeText(value: string): string {
+    return value
+      .replace(/\\/g, '\\\\')
+      .replace(/;/g, '\\;')
+      .replace(/,/g, '\\,')
+      .replace(/\r?\n/g, '\\n');
+  }
+
+  static unescapeText(value: string): string {
+    return value.replace(/\\([\\;,nN])/g, (_, char) => (char === 'n' || char === 'N' ? '\n' : char));
+  }
+
+  static formatDateTime(date: Date): string {
+    return `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}T${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`;
+  }
+
+  /**
+   * Lines longer than 75 characters continue on the next line after a single space
+   */
+  static foldLine(line: string): string {
+    if (line.length <= 75) return line;
+
+    const chunks = [line.slice(0, 75)];
+    for (let index = 75; index < line.length; index += 74) {
+      chunks.push(` ${line.slice(index, index + 74)}`);
+    }
+    return chunks.join('\r\n');
+  }
+
+  static buildCalendar(params: { name?: string; method?: 'PUBLISH' | 'REQUEST' | 'CANCEL'; events: ICalEvent[] }): string {
+    const now = ICalendarService.formatDateTime(new Date());
+    const lines = [
+      'BEGIN:VCALENDAR',
+      'VERSION:2.0',
+      `PRODID:${PRODUCT_ID}`,
+      'CALSCALE:GREGORIAN',
+      `METHOD:${params.method || 'PUBLISH'}`
+    ];
+
+    if (params.name) {
+      lines.push(`X-WR-CALNAME:${ICalendarService.escapeText(params.name)}`);
+    }
+
+    for (const event of params.events) {
+      lines.push(
+        'BEGIN:VEVENT',
+        `UID:${event.uid}`,
+        `DTSTAMP:${now}`,
+        `DTSTART:${ICalendarService.formatDateTime(event.start)}`,
+        `DTEND:${ICalendarService.formatDateTime(event.end)}`,
+        `SUMMARY:${ICalendarService.escapeText(event.summary)}`
+      );
+      if (event.description) lines.push(`DESCRIPTION:${ICalendarService.escapeText(event.description)}`);
+      if (event.location) lines.push(`LOCATION:${ICalendarService.escapeText(event.location)}`);
+      if (event.status) lines.push(`STATUS:${event.status}`);
+      if (event.sequence !== undefined) lines.push(`SEQUENCE:${event.sequence}`);
+      if (event.updated_at) lines.push(`LAST-MODIFIED:${ICalendarService.formatDateTime(event.updated_at)}`);
+      lines.push('END:VEVENT');
+    }
+
+    lines.push('END:VCALENDAR');
+    return lines.map(ICalendarService.foldLine).join('\r\n') + '\r\n';
+  }
+
+  /**
+   * UID of an appointment's event - the same across feeds and invites so calendars merge them
+   */
+  static getAppointmentUid(appointmentId: { toString(): string }): string {
+    const domain = (process.env.ICAL_UID_DOMAIN || 'clinic-pro').replace(/^@/, '');
+    return `appointment-${appointmentId.toString()}@${domain}`;
+  }
+
+  /**
+   * A DATE or DATE-TIME property value. Floating times and unknown TZIDs are read in `timezone`.
+   */
+  static parseDate(value: string, params: Record<string, string>, timezone: string): { date: Date; all_day: boolean } | null {
+    const dateOnly = value.match(/^(\d{4})(\d{2})(\d{2})$/);
+    if (dateOnly || params.VALUE === 'DATE') {
+      if (!dateOnly) return null;
+      return {
+        date: TimezoneService.startOfDay(`${dateOnly[1]}-${dateOnly[2]}-${dateOnly[3]}`, timezone),
+        all_day: true
+      };
+    }
+
+    const match = value.match(/^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})(Z)?$/);
+    if (!match) return null;
+
+    const wallClock = new Date(Date.UTC(+match[1], +match[2] - 1, +match[3], +match[4], +match[5], +match[6]));
+    if (match[7]) {
+      return { date: wallClock, all_day: false };
+    }
+
+    const zone = TimezoneService.isValid(params.TZID) ? params.TZID : timezone;
+    return { date: TimezoneService.fromWallClock(wallClock, zone), all_day: false };
+  }
+
+  /**
+   * VEVENTs of an iCalendar file. Cancelled and free (TRANSP:TRANSPARENT) events are left out.
+   */
+  static parse(ics: string, timezone: string): ParsedICalEvent[] {
+    const lines = ics.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+    const events: ParsedICalEvent[] = [];
+    const components: string[] = [];
+    let current: Record<string, { value: string; params: Record<string, string> }[]> | null = null;
+
+    for (const line of lines) {
+      const property = parseContentLine(line);
+      if (!property) continue;
+
+      if (property.name === 'BEGIN') {
+        components.push(property.value.toUpperCase());
+        if (property.value.toUpperCase() === 'VEVENT') current = {};
+        continue;
+      }
+
+      if (property.name === 'END') {
+        const ended = components.pop();
+        if (ended === 'VEVENT' && current) {
+          const event = ICalendarService.toParsedEvent(current, timezone);
+          if (event) events.push(event);
+          current = null;
+        }
+        continue;
+      }
+
+      // Only the event's own properties - not those of a nested VALARM
+      if (current && components[components.length - 1] === 'VEVENT') {
+        (current[property.name] = current[property.name] || []).push({ value: property.value, params: property.params });
+      }
+    }
+
+    return events;
+  }
+
+  /**
+   * Concrete occurrences overlapping [from, to), recurring events expanded and their overridden
+   * or excluded occurrences left out
+   */
+  static expand(events: ParsedICalEvent[], from: Date, to: Date, timezone: string): ICalOccurrence[] {
+    const occurrences: ICalOccurrence[] = [];
+    const overrides = new Set(
+      events
+        .filter((event) => event.recurrence_id)
+        .map((event) => `${event.uid}:${event.recurrence_id!.getTime()}`)
+    );
+
+    const add = (occurrence: ICalOccurrence) => {
+      if (occurrence.end > from && occurrence.start < to && occurrences.length < MAX_IMPORTED_OCCURRENCES) {
+        occurrences.push(occurrence);
+      }
+    };
+
+    for (const event of events) {
+      const duration = event.end.getTime() - event.start.getTime();
+
+      if (event.recurrence_id) {
+        add({ uid: `${event.uid}:${event.recurrence_id.toISOString()}`, summary: event.summary, start: event.start, end: event.end, all_day: event.all_day });
+        continue;
+      }
+
+      if (!event.rrule) {
+        add({ uid: event.uid, summary: event.summary, start: event.start, end: event.end, all_day: event.all_day });
+        continue;
+      }
+
+      let rule;
+      try {
+        rule = RecurrenceService.parseRRule(event.rrule);
+      } catch {
+        // Frequencies we cannot expand (yearly, hourly...) - keep the first occurrence only
+        add({ uid: event.uid, summary: event.summary, start: event.start, end: event.end, all_day: event.all_day });
+        continue;
+      }
+
+      // Rules are cut at the end of the window (and at the series cap per event); long-running
+      // ones are fast-forwarded close to its start so the cap is not spent on the past
+      let start = event.start;
+      if (!rule.count && rule.frequency !== 'monthly') {
+        const periodDays = (rule.frequency === 'weekly' ? 7 : 1) * Math.max(1, rule.interval || 1);
+        const periods = Math.floor((from.getTime() - start.getTime() - duration) / (periodDays * 24 * 60 * 60000)) - 1;
+        if (periods > 0) {
+          start = TimezoneService.fromWallClock(
+            new Date(TimezoneService.toWallClock(start, timezone).getTime() + periods * periodDays * 24 * 60 * 60000),
+            timezone
+          );
+        }
+      }
+      if (!rule.until || rule.until > to) {
+        rule.until = to;
+      }
+
+      const excluded = new Set(event.exdates.map((date) => date.getTime()));
+      for (const occurrenceStart of RecurrenceService.generateOccurrences(rule, start, timezone)) {
+        if (excluded.has(occurrenceStart.getTime())) continue;
+        if (overrides.has(`${event.uid}:${occurrenceStart.getTime()}`)) continue;
+
+        add({
+          uid: `${event.uid}:${occurrenceStart.toISOString()}`,
+          summary: event.summary,
+          start: occurrenceStart,
+          end: new Date(occurrenceStart.getTime() + duration),
+          all_day: event.all_day
+        });
+      }
+    }
+
+    return occurrences;
+  }
+
+  private static toParsedEvent(
+    properties: Record<string, { value: string; params: Record<string, string> }[]>,
+    timezone: string
+  ): ParsedICalEvent | null {
+    const first = (name: string) => properties[name]?.[0];
+
+    if ((first('STATUS')?.value || '').toUpperCase() === 'CANCELLED') return null;
+    if ((first('TRANSP')?.value || '').toUpperCase() === 'TRANSPARENT') return null;
+
+    const dtstart = first('DTSTART');
+    const start = dtstart && ICalendarService.parseDate(dtstart.value, dtstart.params, timezone);
+    if (!start) return null;
+
+    let end: Date | null = null;
+    const dtend = first('DTEND');
+    const duration = first('DURATION');
+    if (dtend) {
+      end = ICalendarService.parseDate(dtend.value, dtend.params, timezone)?.date || null;
+    } else if (duration) {
+      const minutes = parseDuration(duration.value);
+      end = minutes !== null ? new Date(start.date.getTime() + minutes * 60000) : null;
+    } else if (start.all_day) {
+      end = TimezoneService.addDays(start.date, 1, timezone);
+    }
+
+    // Zero-length events block nothing
+    if (!end || end <= start.date) return null;
+
+    const summary = ICalendarService.unescapeText(first('SUMMARY')?.value || '').trim();
+    const recurrenceId = first('RECURRENCE-ID');
+    const exdates = (properties.EXDATE || []).flatMap((exdate) =>
+      exdate.value.split(',').map((value) => ICalendarService.parseDate(value.trim(), exdate.params, timezone)?.date)
+    );
+
+    return {
+      // UID is mandatory, but derive a stable one for sloppy exports so re-imports still match up
+      uid: first('UID')?.value || crypto.createHash('sha1').update(`${start.date.toISOString()}|${summary}`).digest('hex'),
+      summary,
+      start: start.date,
+      end,
+      all_day: start.all_day,
+      rrule: first('RRULE')?.value,
+      recurrence_id: recurrenceId ? ICalendarService.parseDate(recurrenceId.value, recurrenceId.params, timezone)?.date : undefined,
+      exdates: exdates.filter((date): date is Date => !!date)
+    };
+  }
+}
+
+export default ICalendarService;
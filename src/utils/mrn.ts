@@ -0,0 +1,80 @@
+import mongoose from 'mongoose';
+import Clinic, { IMrnSettings } from '../models/Clinic';
+import Counter from '../models/Counter';
+import { TimezoneService } from './timezone';
+
+type Id = string | mongoose.Types.ObjectId;
+
+export const DEFAULT_MRN_SETTINGS: IMrnSettings = {
+  scope: 'clinic',
+  pattern: '{clinic}-{seq}',
+  prefix: 'MRN',
+  padding: 6
+};
+
+// A number already taken (e.g. entered by hand or under an older pattern) is skipped
+const MAX_MRN_ATTEMPTS = 20;
+
+const YEAR_TOKEN = /\{yy(yy)?\}/;
+
+/**
+ * Medical record numbers: human-readable patient identifiers generated from the clinic's pattern
+ * with race-safe sequences per clinic or per tenant
+ */
+export class MrnService {
+  static getSettings(clinic?: { settings?: { mrn?: Partial<IMrnSettings> } } | null): IMrnSettings {
+    const settings: any = clinic?.settings?.mrn;
+    return {
+      scope: settings?.scope || DEFAULT_MRN_SETTINGS.scope,
+      pattern: settings?.pattern || DEFAULT_MRN_SETTINGS.pattern,
+      prefix: settings?.prefix ?? DEFAULT_MRN_SETTINGS.prefix,
+      padding: settings?.padding || DEFAULT_MRN_SETTINGS.padding
+    };
+  }
+
+  static format(settings: IMrnSettings, values: { clinic_code?: string; year: number; seq: number }): string {
+    return settings.pattern
+      .replace(/\{prefix\}/g, settings.prefix || '')
+      .replace(/\{clinic\}/g, values.clinic_code || '')
+      .replace(/\{yyyy\}/g, String(values.year))
+      .replace(/\{yy\}/g, String(values.year).slice(-2))
+      .replace(/\{seq\}/g, String(values.seq).padStart(settings.padding, '0'));
+  }
+
+  // Sequence the number is drawn from - patterns with the year restart every year
+  static getCounterKey(settings: IMrnSettings, tenant_id: Id, clinic_id: Id, year: number): string {
+    return [
+      'mrn',
+      tenant_id.toString(),
+      ...(settings.scope === 'clinic' ? [clinic_id.toString()] : []),
+      ...(YEAR_TOKEN.test(settings.pattern) ? [String(year)] : [])
+    ].join(':');
+  }
+
+  /**
+   * Next free MRN for a new patient of the clinic
+   */
+  static async next(tenant_id: Id, clinic_id: Id, isTaken: (mrn: string) => Promise<boolean>): Promise<string> {
+    const clinic = await Clinic.findById(clinic_id).select('code settings').lean();
+    const settings = MrnService.getSettings(clinic as any);
+    const year = TimezoneService.toWallClock(new Date(), TimezoneService.forClinic(clinic as any)).getUTCFullYear();
+    const key = MrnService.getCounterKey(settings, tenant_id, clinic_id, year);
+
+    for (let attempt = 1; attempt <= MAX_MRN_ATTEMPTS; attempt++) {
+      const mrn = MrnService.format(settings, { clinic_code: clinic?.code, year, seq: await Counter.next(key) });
+      if (!(await isTaken(mrn))) return mrn;
+    }
+    throw new Error('Could not allocate a free medical record number');
+  }
+
+  /**
+   * What the next number will look like, without using it up
+   */
+  static async preview(clinic: { _id: any; tenant_id: any; code?: string; settings?: any }, settings = MrnService.getSettings(clinic)): Promise<string> {
+    const year = TimezoneService.toWallClock(new Date(), TimezoneService.forClinic(clinic)).getUTCFullYear();
+    const counter = await Counter.findOne({ key: MrnService.getCounterKey(settings, clinic.tenant_id, clinic._id, year) }).lean();
+    return MrnService.format(settings, { clinic_code: clinic.code, year, seq: (counter?.seq || 0) + 1 });
+  }
+}
+
+export default MrnService;
@@ -0,0 +1,150 @@
+import nodemailer, { Transporter } from 'nodemailer';
+import { INotificationAttachment, NotificationChannelType, NotificationLanguage } from '../models';
+
+export interface OutgoingMessage {
+  notification_id: string;
+  to?: string;
+  subject?: string;
+  body: string;
+  language: NotificationLanguage;
+  attachments?: INotificationAttachment[]; // Ignored by channels that cannot carry files
+}
+
+export interface DeliveryResult {
+  provider_message_id?: string;
+}
+
+/**
+ * A delivery transport for one channel. send() throws on failure so the outbox can retry.
+ */
+export interface NotificationChannel {
+  readonly type: NotificationChannelType;
+  send(message: OutgoingMessage): Promise<DeliveryResult>;
+}
+
+export class EmailChannel implements NotificationChannel {
+  readonly type = 'email' as const;
+  private transporter?: Transporter;
+
+  private getTransporter(): Transporter {
+    if (!this.transporter) {
+      if (!process.env.SMTP_HOST) {
+        throw new Error('SMTP host is not configured');
+      }
+
+      this.transporter = nodemailer.createTransport({
+        host: process.env.SMTP_HOST,
+        port: parseInt(process.env.SMTP_PORT || '587', 10),
+        secure: process.env.SMTP_SECURE === 'true',
+        auth: process.env.SMTP_USER
+          ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS }
+          : undefined
+      });
+    }
+    return this.transporter;
+  }
+
+  async send(message: OutgoingMessage): Promise<DeliveryResult> {
+    if (!message.to) {
+      throw new Error('Email recipient is missing');
+    }
+
+    const info = await this.getTransporter().sendMail({
+      from: process.env.SMTP_FROM || process.env.SMTP_USER,
+      to: message.to,
+      subject: message.subject,
+      text: message.body,
+      // Right-to-left rendering for Arabic messages
+      html: `<div dir="${message.language === 'ar' ? 'rtl' : 'ltr'}">${escapeHtml(message.body).replace(/\n/g, '<br>')}</div>`,
+      attachments: (message.attachments || []).map((attachment) => ({
+        filename: attachment.filename,
+        contentType: attachment.content_type,
+        content: attachment.content
+      }))
+    });
+
+    return { provider_message_id: info.messageId };
+  }
+}
+
+/**
+ * Generic HTTP SMS gateway: POSTs { to, from, message } as JSON with a bearer token
+ */
+export class SmsHttpChannel implements NotificationChannel {
+  readonly type = 'sms' as const;
+
+  async send(message: OutgoingMessage): Promise<DeliveryResult> {
+    const url = process.env.SMS_PROVIDER_URL;
+    if (!url) {
+      throw new Error('SMS provider URL is not configured');
+    }
+    if (!message.to) {
+      throw new Error('SMS recipient is missing');
+    }
+
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(process.env.SMS_PROVIDER_API_KEY ? { Authorization: `Bearer ${process.env.SMS_PROVIDER_API_KEY}` } : {})
+      },
+      body: JSON.stringify({
+        to: message.to,
+        from: process.env.SMS_SENDER_ID,
+        message: message.body
+      })
+    });
+
+    if (!response.ok) {
+      throw new Error(`SMS provider responded with ${response.status}: ${(await response.text()).slice(0, 200)}`);
+    }
+
+    const payload: any = await response.json().catch(() => ({}));
+    return { provider_message_id: payload.id || payload.message_id };
+  }
+}
+
+/**
+ * In-app notifications are read straight from the outbox, so delivery is a no-op
+ */
+export class InAppChannel implements NotificationChannel {
+  readonly type = 'in_app' as const;
+
+  async send(): Promise<DeliveryResult> {
+    return {};
+  }
+}
+
+/**
+ * Local transport that records messages in memory instead of delivering them.
+ * Enabled with NOTIFICATION_TRANSPORT=fake; failNext simulates provider errors.
+ */
+export class FakeChannel implements NotificationChannel {
+  readonly sent: OutgoingMessage[] = [];
+  failNext = 0;
+
+  constructor(readonly type: NotificationChannelType) {}
+
+  async send(message: OutgoingMessage): Promise<DeliveryResult> {
+    if (this.failNext > 0) {
+      this.failNext--;
+      throw new Error(`Fake ${this.type} transport failure`);
+    }
+
+    this.sent.push(message);
+    return { provider_message_id: `fake-${this.type}-${this.sent.length}` };
+  }
+
+  reset(): void {
+    this.sent.length = 0;
+    this.failNext = 0;
+  }
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
@@ -0,0 +1,566 @@
+import mongoose from 'mongoose';
+import {
+  Appointment,
+  Clinic,
+  IAppointment,
+  IClinic,
+  IWaitlistOffer,
+  Notification,
+  INotification,
+  INotificationAttachment,
+  NotificationTemplate,
+  NotificationChannelType,
+  NotificationEvent,
+  NotificationLanguage,
+  Patient,
+  Settings,
+  User
+} from '../models';
+import { AppointmentLinkService } from './appointmentLinks';
+import { StatusWorkflowService } from './statusWorkflow';
+import { VisitMetricsService } from './visitMetrics';
+import { TimezoneService } from './timezone';
+import { ICalendarService } from './ical';
+import {
+  NotificationChannel,
+  EmailChannel,
+  SmsHttpChannel,
+  InAppChannel,
+  FakeChannel
+} from './notificationChannels';
+
+export interface TemplateContent {
+  subject_en?: string;
+  subject_ar?: string;
+  body_en: string;
+  body_ar: string;
+}
+
+interface NotificationPreferences {
+  email: boolean;
+  sms: boolean;
+  reminders: boolean;
+  reminder_offsets: number[];
+}
+
+// Built-in wording used when a clinic has not customised a template
+export const DEFAULT_TEMPLATES: Record<NotificationEvent, TemplateContent> = {
+  appointment_booked: {
+    subject_en: 'Appointment confirmed at {{clinic_name}}',
+    subject_ar: 'تأكيد موعدك في {{clinic_name}}',
+    body_en: 'Dear {{patient_name}}, your appointment with Dr. {{doctor_name}} is booked for {{date}} at {{time}}. Manage it here: {{view_url}}',
+    body_ar: 'عزيزي {{patient_name}}، تم حجز موعدك مع د. {{doctor_name}} يوم {{date}} الساعة {{time}}. لإدارة الموعد: {{view_url}}'
+  },
+  appointment_reminder: {
+    subject_en: 'Reminder: your appointment at {{clinic_name}}',
+    subject_ar: 'تذكير بموعدك في {{clinic_name}}',
+    body_en: 'Dear {{patient_name}}, this is a reminder of your appointment with Dr. {{doctor_name}} on {{date}} at {{time}}.\nConfirm: {{confirm_url}}\nCancel: {{cancel_url}}\nReschedule: {{reschedule_url}}',
+    body_ar: 'عزيزي {{patient_name}}، نذكرك بموعدك مع د. {{doctor_name}} يوم {{date}} الساعة {{time}}.\nللتأكيد: {{confirm_url}}\nللإلغاء: {{cancel_url}}\nلتغيير الموعد: {{reschedule_url}}'
+  },
+  appointment_cancelled: {
+    subject_en: 'Appointment cancelled at {{clinic_name}}',
+    subject_ar: 'إلغاء موعدك في {{clinic_name}}',
+    body_en: 'Dear {{patient_name}}, your appointment with Dr. {{doctor_name}} on {{date}} at {{time}} has been cancelled.',
+    body_ar: 'عزيزي {{patient_name}}، تم إلغاء موعدك مع د. {{doctor_name}} يوم {{date}} الساعة {{time}}.'
+  },
+  appointment_rescheduled: {
+    subject_en: 'Appointment rescheduled at {{clinic_name}}',
+    subject_ar: 'تغيير موعدك في {{clinic_name}}',
+    body_en: 'Dear {{patient_name}}, your appointment with Dr. {{doctor_name}} has moved to {{date}} at {{time}}. Manage it here: {{view_url}}',
+    body_ar: 'عزيزي {{patient_name}}، تم تغيير موعدك مع د. {{doctor_name}} إلى يوم {{date}} الساعة {{time}}. لإدارة الموعد: {{view_url}}'
+  },
+  waitlist_offer: {
+    subject_en: 'An earlier appointment is available at {{clinic_name}}',
+    subject_ar: 'موعد أقرب متاح في {{clinic_name}}',
+    body_en: 'Dear {{patient_name}}, a slot with Dr. {{doctor_name}} opened on {{date}} at {{time}}. Contact {{clinic_phone}} before {{expires_time}} to accept it.',
+    body_ar: 'عزيزي {{patient_name}}، أصبح موعد مع د. {{doctor_name}} متاحاً يوم {{date}} الساعة {{time}}. تواصل معنا على {{clinic_phone}} قبل {{expires_time}} لتأكيده.'
+  }
+};
+
+// Built-in wording of the in-app messages to the doctor
+export const DEFAULT_STAFF_TEMPLATES: Record<NotificationEvent, TemplateContent> = {
+  appointment_booked: {
+    subject_en: 'New appointment: {{patient_name}}',
+    subject_ar: 'موعد جديد: {{patient_name}}',
+    body_en: 'New appointment with {{patient_name}} on {{date}} at {{time}}.',
+    body_ar: 'موعد جديد مع {{patient_name}} يوم {{date}} الساعة {{time}}.'
+  },
+  appointment_reminder: {
+    subject_en: 'Upcoming appointment: {{patient_name}}',
+    subject_ar: 'موعد قادم: {{patient_name}}',
+    body_en: 'Reminder: appointment with {{patient_name}} on {{date}} at {{time}}.',
+    body_ar: 'تذكير: موعد مع {{patient_name}} يوم {{date}} الساعة {{time}}.'
+  },
+  appointment_cancelled: {
+    subject_en: 'Appointment cancelled: {{patient_name}}',
+    subject_ar: 'إلغاء موعد: {{patient_name}}',
+    body_en: 'The appointment with {{patient_name}} on {{date}} at {{time}} has been cancelled.',
+    body_ar: 'تم إلغاء الموعد مع {{patient_name}} يوم {{date}} الساعة {{time}}.'
+  },
+  appointment_rescheduled: {
+    subject_en: 'Appointment rescheduled: {{patient_name}}',
+    subject_ar: 'تغيير موعد: {{patient_name}}',
+    body_en: 'The appointment with {{patient_name}} has moved to {{date}} at {{time}}.',
+    body_ar: 'تم تغيير الموعد مع {{patient_name}} إلى يوم {{date}} الساعة {{time}}.'
+  },
+  waitlist_offer: {
+    subject_en: 'Waitlist offer: {{patient_name}}',
+    subject_ar: 'عرض من قائمة الانتظار: {{patient_name}}',
+    body_en: 'The slot on {{date}} at {{time}} was offered to {{patient_name}} from the waitlist.',
+    body_ar: 'تم عرض موعد يوم {{date}} الساعة {{time}} على {{patient_name}} من قائمة الانتظار.'
+  }
+};
+
+const DEFAULT_REMINDER_OFFSETS = [1440, 120];
+
+// Largest reminder offset a clinic can configure (one week)
+const MAX_REMINDER_OFFSET_MINUTES = 10080;
+
+// Minutes to wait before each retry of a failed delivery
+const RETRY_BACKOFF_MINUTES = [1, 5, 15, 60, 240];
+
+// A message left in 'sending' this long belongs to a crashed worker
+const STALE_SENDING_MINUTES = 10;
+
+// Events that replace any reminder still queued for the appointment
+const REMINDER_INVALIDATING_EVENTS: NotificationEvent[] = ['appointment_cancelled', 'appointment_rescheduled'];
+
+// Events whose messages carry patient self-service links
+const LINKED_EVENTS: NotificationEvent[] = ['appointment_booked', 'appointment_reminder', 'appointment_rescheduled'];
+
+// Events whose emails carry the appointment as an .ics attachment
+const CALENDAR_INVITE_EVENTS: NotificationEvent[] = ['appointment_booked', 'appointment_rescheduled', 'appointment_cancelled'];
+
+const channelRegistry = new Map<NotificationChannelType, NotificationChannel>();
+let schedulerTimer: NodeJS.Timeout | null = null;
+let schedulerRunning = false;
+
+export class NotificationService {
+  /**
+   * Replace the transport for a channel, e.g. with a FakeChannel in tests
+   */
+  static registerChannel(channel: NotificationChannel): void {
+    channelRegistry.set(channel.type, channel);
+  }
+
+  static getChannel(type: NotificationChannelType): NotificationChannel {
+    let channel = channelRegistry.get(type);
+
+    if (!channel) {
+      if (process.env.NOTIFICATION_TRANSPORT === 'fake') {
+        channel = new FakeChannel(type);
+      } else if (type === 'email') {
+        channel = new EmailChannel();
+      } else if (type === 'sms') {
+        channel = new SmsHttpChannel();
+      } else {
+        channel = new InAppChannel();
+      }
+      channelRegistry.set(type, channel);
+    }
+
+    return channel;
+  }
+
+  static render(template: string, variables: Record<string, string>): string {
+    return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, key) =>
+      variables[key] !== undefined ? variables[key] : match
+    );
+  }
+
+  /**
+   * The clinic's template for an event and channel, falling back to the built-in wording
+   */
+  static async getTemplate(
+    tenant_id: string | mongoose.Types.ObjectId,
+    clinic_id: string | mongoose.Types.ObjectId,
+    event: NotificationEvent,
+    channel: NotificationChannelType
+  ): Promise<TemplateContent> {
+    const template = await NotificationTemplate.findOne({ tenant_id, clinic_id, event, channel, is_active: true });
+    return template || NotificationService.getDefaultTemplate(event, channel);
+  }
+
+  /**
+   * Built-in wording for an event - in-app messages go to staff, every other channel to the patient
+   */
+  static getDefaultTemplate(event: NotificationEvent, channel: NotificationChannelType): TemplateContent {
+    return channel === 'in_app' ? DEFAULT_STAFF_TEMPLATES[event] : DEFAULT_TEMPLATES[event];
+  }
+
+  static async getPreferences(clinic_id: string | mongoose.Types.ObjectId): Promise<NotificationPreferences> {
+    const settings = await Settings.findOne({ clinicId: clinic_id.toString() });
+    const notifications = settings?.notifications;
+
+    return {
+      email: notifications?.emailNotifications ?? true,
+      sms: notifications?.smsNotifications ?? true,
+      reminders: notifications?.appointmentReminders ?? true,
+      reminder_offsets: notifications?.reminderOffsets?.length
+        ? [...notifications.reminderOffsets]
+        : DEFAULT_REMINDER_OFFSETS
+    };
+  }
+
+  static formatDateTime(date: Date, clinic: IClinic, language: NotificationLanguage): { date: string; time: string } {
+    const locale = language === 'ar' ? 'ar-EG' : 'en-US';
+    // An unknown timezone on the clinic falls back to server time
+    const options = { timeZone: TimezoneService.forClinic(clinic) };
+
+    return {
+      date: date.toLocaleDateString(locale, { ...options, weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' }),
+      time: date.toLocaleTimeString(locale, { ...options, hour: '2-digit', minute: '2-digit' })
+    };
+  }
+
+  /**
+   * Render and queue one message in the outbox. A duplicate dedupe_key is silently skipped.
+   */
+  static async enqueue(params: {
+    tenant_id: string | mongoose.Types.ObjectId;
+    clinic_id: string | mongoose.Types.ObjectId;
+    channel: NotificationChannelType;
+    event: NotificationEvent;
+    language: NotificationLanguage;
+    variables: Record<string, string>;
+    to?: string;
+    patient_id?: mongoose.Types.ObjectId;
+    user_id?: mongoose.Types.ObjectId;
+    appointment_id?: mongoose.Types.ObjectId;
+    dedupe_key?: string;
+    send_at?: Date;
+    attachments?: INotificationAttachment[];
+  }): Promise<INotification | null> {
+    const template = await NotificationService.getTemplate(params.tenant_id, params.clinic_id, params.event, params.channel);
+    const subject = params.language === 'ar' ? template.subject_ar : template.subject_en;
+    const body = params.language === 'ar' ? template.body_ar : template.body_en;
+
+    try {
+      return await Notification.create({
+        tenant_id: params.tenant_id,
+        clinic_id: params.clinic_id,
+        channel: params.channel,
+        event: params.event,
+        language: params.language,
+        to: params.to,
+        patient_id: params.patient_id,
+        user_id: params.user_id,
+        appointment_id: params.appointment_id,
+        dedupe_key: params.dedupe_key,
+        subject: subject ? NotificationService.render(subject, params.variables) : undefined,
+        body: NotificationService.render(body, params.variables),
+        attachments: params.attachments,
+        next_attempt_at: params.send_at || new Date()
+      });
+    } catch (error: any) {
+      if (error.code === 11000) return null;
+      throw error;
+    }
+  }
+
+  /**
+   * Queue the patient (email/SMS, per clinic settings) and doctor (in-app) messages for an appointment event.
+   * Never throws - a notification failure must not fail the booking that triggered it.
+   */
+  static async notifyAppointment(
+    appointment: IAppointment,
+    event: NotificationEvent,
+    options: { dedupe_key?: string; channels?: NotificationChannelType[]; extra?: Record<string, string> } = {}
+  ): Promise<INotification[]> {
+    try {
+      if (REMINDER_INVALIDATING_EVENTS.includes(event)) {
+        await NotificationService.cancelPendingReminders(appointment._id as mongoose.Types.ObjectId);
+      }
+
+      // Controllers often pass appointments with populated refs
+      const refId = (value: any) => value?._id || value;
+
+      const [patient, doctor, clinic, preferences] = await Promise.all([
+        Patient.findById(refId(appointment.patient_id)),
+        User.findById(refId(appointment.doctor_id)).select('first_name last_name'),
+        Clinic.findById(refId(appointment.clinic_id)),
+        NotificationService.getPreferences(refId(appointment.clinic_id))
+      ]);
+
+      if (!patient || !clinic) return [];
+
+      const language: NotificationLanguage = clinic.settings?.language === 'ar' ? 'ar' : 'en';
+      const { date, time } = NotificationService.formatDateTime(appointment.appointment_date, clinic, language);
+      const variables: Record<string, string> = {
+        patient_name: [patient.first_name, patient.last_name].filter(Boolean).join(' '),
+        doctor_name: doctor ? `${doctor.first_name} ${doctor.last_name}` : '',
+        clinic_name: clinic.name,
+        clinic_phone: clinic.contact?.phone || '',
+        date,
+        time,
+        ...options.extra
+      };
+
+      // Signed self-service links for events about an appointment that is still going ahead -
+      // only ever sent to the patient, they act on the appointment without logging in
+      const patientVariables = { ...variables };
+      if (appointment._id && LINKED_EVENTS.includes(event)) {
+        const links = AppointmentLinkService.createLinks(appointment);
+        patientVariables.view_url = links.view || '';
+        patientVariables.confirm_url = links.confirm || '';
+        patientVariables.cancel_url = links.cancel || '';
+        patientVariables.reschedule_url = links.reschedule || '';
+      }
+
+      const channels = options.channels || ['email', 'sms', 'in_app'];
+      const base = {
+        tenant_id: appointment.tenant_id,
+        clinic_id: appointment.clinic_id,
+        event,
+        language,
+        appointment_id: appointment._id as mongoose.Types.ObjectId
+      };
+      const queued: Array<INotification | null> = [];
+
+      if (channels.includes('email') && preferences.email && patient.email) {
+        const invite = NotificationService.buildCalendarInvite(appointment, event, clinic, variables.doctor_name);
+        queued.push(await NotificationService.enqueue({
+          ...base,
+          channel: 'email',
+          variables: patientVariables,
+          to: patient.email,
+          patient_id: patient._id as mongoose.Types.ObjectId,
+          dedupe_key: options.dedupe_key && `${options.dedupe_key}:email`,
+          attachments: invite ? [invite] : undefined
+        }));
+      }
+
+      if (channels.includes('sms') && preferences.sms && patient.phone) {
+        queued.push(await NotificationService.enqueue({
+          ...base,
+          channel: 'sms',
+          variables: patientVariables,
+          to: patient.phone,
+          patient_id: patient._id as mongoose.Types.ObjectId,
+          dedupe_key: options.dedupe_key && `${options.dedupe_key}:sms`
+        }));
+      }
+
+      if (channels.includes('in_app') && doctor) {
+        queued.push(await NotificationService.enqueue({
+          ...base,
+          channel: 'in_app',
+          variables,
+          user_id: doctor._id as mongoose.Types.ObjectId,
+          dedupe_key: options.dedupe_key && `${options.dedupe_key}:in_app`
+        }));
+      }
+
+      return queued.filter((notification): notification is INotification => !!notification);
+    } catch (error) {
+      console.error('Queue appointment notification error:', error);
+      return [];
+    }
+  }
+
+  /**
+   * The .ics attached to booking emails, so the patient can add (or drop) the visit in their calendar.
+   * Uses the same UID as the doctor's feed; cancellations remove the event.
+   */
+  static buildCalendarInvite(
+    appointment: IAppointment,
+    event: NotificationEvent,
+    clinic: IClinic,
+    doctorName: string
+  ): INotificationAttachment | null {
+    if (!appointment._id || !CALENDAR_INVITE_EVENTS.includes(event)) return null;
+
+    const cancelled = event === 'appointment_cancelled';
+    const content = ICalendarService.buildCalendar({
+      method: cancelled ? 'CANCEL' : 'PUBLISH',
+      events: [{
+        uid: ICalendarService.getAppointmentUid(appointment._id as mongoose.Types.ObjectId),
+        start: appointment.appointment_date,
+        end: new Date(appointment.appointment_date.getTime() + (appointment.duration || 30) * 60000),
+        summary: doctorName ? `${clinic.name} - Dr. ${doctorName}` : clinic.name,
+        location: [clinic.name, clinic.address?.street, clinic.address?.city].filter(Boolean).join(', '),
+        description: `${appointment.type || 'Appointment'} (${appointment.duration || 30} min)`,
+        status: cancelled ? 'CANCELLED' : 'CONFIRMED',
+        // Later messages must win over earlier ones in the patient's calendar
+        sequence: Math.floor(Date.now() / 1000)
+      }]
+    });
+
+    return { filename: 'appointment.ics', content_type: `text/calendar; charset=utf-8; method=${cancelled ? 'CANCEL' : 'PUBLISH'}`, content };
+  }
+
+  /**
+   * Tell a waitlisted patient about a held slot, using the offer as a stand-in appointment
+   */
+  static async notifyWaitlistOffer(offer: IWaitlistOffer): Promise<INotification[]> {
+    const clinic = await Clinic.findById(offer.clinic_id).catch(() => null);
+    const language: NotificationLanguage = clinic?.settings?.language === 'ar' ? 'ar' : 'en';
+    const expires = clinic
+      ? NotificationService.formatDateTime(offer.expires_at, clinic, language).time
+      : offer.expires_at.toISOString();
+
+    return NotificationService.notifyAppointment({
+      _id: undefined,
+      tenant_id: offer.tenant_id,
+      clinic_id: offer.clinic_id,
+      patient_id: offer.patient_id,
+      doctor_id: offer.doctor_id,
+      appointment_date: offer.slot_start
+    } as unknown as IAppointment, 'waitlist_offer', {
+      channels: ['email', 'sms'],
+      dedupe_key: `waitlist_offer:${offer._id}`,
+      extra: { expires_time: expires }
+    });
+  }
+
+  static async cancelPendingReminders(appointmentId: mongoose.Types.ObjectId): Promise<void> {
+    await Notification.updateMany(
+      { appointment_id: appointmentId, event: 'appointment_reminder', status: 'pending' },
+      { status: 'cancelled' }
+    );
+  }
+
+  /**
+   * Queue reminders whose offset has been reached. Only the closest passed offset is sent,
+   * so an appointment booked two hours ahead does not also get its 24-hour reminder.
+   */
+  static async enqueueDueReminders(): Promise<number> {
+    const now = new Date();
+    const horizon = new Date(now.getTime() + MAX_REMINDER_OFFSET_MINUTES * 60000);
+
+    const appointments = await Appointment.find({
+      appointment_date: { $gt: now, $lte: horizon },
+      frees_slot: { $ne: true }
+    });
+
+    const preferencesByClinic = new Map<string, NotificationPreferences>();
+    const skippedCodesByClinic = new Map<string, string[]>();
+    let queued = 0;
+
+    for (const appointment of appointments) {
+      const clinicKey = appointment.clinic_id.toString();
+      if (!preferencesByClinic.has(clinicKey)) {
+        preferencesByClinic.set(clinicKey, await NotificationService.getPreferences(appointment.clinic_id));
+        // Finished visits and visits already in the chair need no reminder
+        const stageCodes = await VisitMetricsService.getStageCodes(appointment.tenant_id, appointment.clinic_id);
+        skippedCodesByClinic.set(clinicKey, [
+          ...(await StatusWorkflowService.getCodesWithFlag(appointment.tenant_id, appointment.clinic_id, 'is_terminal')),
+          ...stageCodes.in_chair,
+          ...stageCodes.finished
+        ]);
+      }
+      const preferences = preferencesByClinic.get(clinicKey)!;
+      if (!preferences.reminders) continue;
+      if (skippedCodesByClinic.get(clinicKey)!.includes(appointment.status)) continue;
+
+      const minutesUntil = (appointment.appointment_date.getTime() - now.getTime()) / 60000;
+      const dueOffset = preferences.reminder_offsets
+        .filter(offset => offset >= minutesUntil)
+        .sort((a, b) => a - b)[0];
+      if (dueOffset === undefined) continue;
+
+      // The appointment time is part of the key so a rescheduled appointment is reminded again
+      const dedupeKey = `reminder:${appointment._id}:${dueOffset}:${appointment.appointment_date.getTime()}`;
+      const alreadyQueued = await Notification.exists({ dedupe_key: { $in: [`${dedupeKey}:email`, `${dedupeKey}:sms`] } });
+      if (alreadyQueued) continue;
+
+      const notifications = await NotificationService.notifyAppointment(appointment, 'appointment_reminder', {
+        channels: ['email', 'sms'],
+        dedupe_key: dedupeKey
+      });
+      queued += notifications.length;
+    }
+
+    return queued;
+  }
+
+  /**
+   * Deliver due outbox messages, rescheduling failures with backoff until max_attempts is reached
+   */
+  static async processOutbox(limit = 50): Promise<{ sent: number; failed: number; retried: number }> {
+    const result = { sent: 0, failed: 0, retried: 0 };
+
+    await Notification.updateMany(
+      { status: 'sending', updated_at: { $lt: new Date(Date.now() - STALE_SENDING_MINUTES * 60000) } },
+      { status: 'pending' }
+    );
+
+    for (let processed = 0; processed < limit; processed++) {
+      // Claim atomically so concurrent workers never deliver the same message twice
+      const notification = await Notification.findOneAndUpdate(
+        { status: 'pending', next_attempt_at: { $lte: new Date() } },
+        { status: 'sending', $inc: { attempts: 1 } },
+        { sort: { next_attempt_at: 1 }, new: true }
+      );
+      if (!notification) break;
+
+      try {
+        const delivery = await NotificationService.getChannel(notification.channel).send({
+          notification_id: (notification._id as mongoose.Types.ObjectId).toString(),
+          to: notification.to,
+          subject: notification.subject,
+          body: notification.body,
+          language: notification.language,
+          attachments: notification.attachments
+        });
+
+        notification.status = 'sent';
+        notification.sent_at = new Date();
+        notification.provider_message_id = delivery.provider_message_id;
+        notification.last_error = undefined;
+        await notification.save();
+        result.sent++;
+      } catch (error: any) {
+        notification.last_error = error?.message || String(error);
+
+        if (notification.attempts >= notification.max_attempts) {
+          notification.status = 'failed';
+          result.failed++;
+        } else {
+          const backoff = RETRY_BACKOFF_MINUTES[Math.min(notification.attempts - 1, RETRY_BACKOFF_MINUTES.length - 1)];
+          notification.status = 'pending';
+          notification.next_attempt_at = new Date(Date.now() + backoff * 60000);
+          result.retried++;
+        }
+        await notification.save();
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Run reminders and outbox delivery on an interval (NOTIFICATION_POLL_INTERVAL_MS, default 60s)
+   */
+  static startScheduler(): void {
+    if (schedulerTimer) return;
+
+    const interval = parseInt(process.env.NOTIFICATION_POLL_INTERVAL_MS || '', 10) || 60000;
+
+    schedulerTimer = setInterval(async () => {
+      // Skip a tick rather than overlapping a slow run
+      if (schedulerRunning) return;
+      schedulerRunning = true;
+
+      try {
+        await NotificationService.enqueueDueReminders();
+        await NotificationService.processOutbox();
+      } catch (error) {
+        console.error('Notification scheduler error:', error);
+      } finally {
+        schedulerRunning = false;
+      }
+    }, interval);
+
+    schedulerTimer.unref();
+  }
+
+  static stopScheduler(): void {
+    if (schedulerTimer) {
+      clearInterval(schedulerTimer);
+      schedulerTimer = null;
+    }
+  }
+}
+
+export default NotificationService;
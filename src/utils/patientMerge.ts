@@ -0,0 +1,401 @@
+import mongoose, { Model } from 'mongoose';
+import {
+  Patient,
+  IPatient,
+  PatientMerge,
+  IPatientMerge,
+  IPatientMergeMove,
+  Appointment,
+  AppointmentSeries,
+  Invoice,
+  Payment,
+  Prescription,
+  MedicalRecord,
+  Odontogram,
+  TestReport,
+  XrayAnalysis,
+  AITestAnalysis,
+  AITestComparison,
+  WaitlistEntry,
+  WaitlistOffer,
+  Notification,
+  QueueTicket,
+  PatientRelationship,
+  PatientConsent,
+  PatientDocument
+} from '../models';
+import { ClinicalSummaryService } from './clinicalSummary';
+import { FieldEncryptionService } from './fieldEncryption';
+import { SearchService } from './search';
+
+type Id = string | mongoose.Types.ObjectId;
+
+export interface DuplicateCandidateInput {
+  _id?: Id;
+  tenant_id: Id;
+  first_name?: string;
+  last_name?: string;
+  phone?: string;
+  email?: string;
+  date_of_birth?: Date | string | null;
+}
+
+// Fields compared between two patient records
+type PatientDetails = Pick<DuplicateCandidateInput, 'first_name' | 'last_name' | 'phone' | 'email' | 'date_of_birth'>;
+
+export interface DuplicateMatch {
+  patient: IPatient;
+  score: number; // 0-100
+  reasons: string[];
+}
+
+export interface PatientReference {
+  model: Model<any>;
+  field: string;
+  array?: boolean;
+}
+
+// Every place a patient is referenced - a merge moves all of them to the surviving record
+export const PATIENT_REFERENCES: PatientReference[] = [
+  { model: Appointment, field: 'patient_id' },
+  { model: Appointment, field: 'additional_patient_ids', array: true },
+  { model: AppointmentSeries, field: 'patient_id' },
+  { model: AppointmentSeries, field: 'additional_patient_ids', array: true },
+  { model: Invoice, field: 'patient_id' },
+  { model: Payment, field: 'patient_id' },
+  { model: Prescription, field: 'patient_id' },
+  { model: MedicalRecord, field: 'patient_id' },
+  { model: Odontogram, field: 'patient_id' },
+  { model: TestReport, field: 'patientId' },
+  { model: XrayAnalysis, field: 'patient_id' },
+  { model: AITestAnalysis, field: 'patient_id' },
+  { model: AITestComparison, field: 'patient_id' },
+  { model: WaitlistEntry, field: 'patient_id' },
+  { model: WaitlistOffer, field: 'patient_id' },
+  { model: Notification, field: 'patient_id' },
+  { model: QueueTicket, field: 'patient_id' },
+  { model: PatientRelationship, field: 'patient_id' },
+  { model: PatientRelationship, field: 'related_patient_id' },
+  { model: Invoice, field: 'billed_to_patient_id' },
+  { model: Patient, field: 'responsible_party_id' },
+  { model: PatientConsent, field: 'patient_id' },
+  { model: PatientConsent, field: 'signer.patient_id' },
+  { model: PatientDocument, field: 'patient_id' }
+];
+
+// Survivor fields filled from the duplicate when the survivor has none
+const FILLABLE_FIELDS = ['last_name', 'date_of_birth', 'email', 'address', 'emergency_contact', 'insurance_info', 'identifiers'];
+
+// Score weights - a shared phone or email alone is a household member as often as a duplicate
+const WEIGHTS = {
+  phone: 35,
+  email: 30,
+  name: 30,
+  date_of_birth: 25,
+  date_of_birth_conflict: -30
+};
+
+export const DEFAULT_DUPLICATE_THRESHOLD = 50;
+const MAX_CANDIDATES = 300;
+// Phone numbers are compared on their last digits, so +971 50..., 00971 50... and 050... match
+const PHONE_MATCH_DIGITS = 9;
+
+const isEmpty = (value: any): boolean =>
+  value === undefined || value === null || value === '' ||
+  (typeof value === 'object' && !(value instanceof Date) && Object.values(value).every(isEmpty));
+
+const escapeRegex = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+export class PatientMergeService {
+  static getUndoWindowHours(): number {
+    return parseInt(process.env.PATIENT_MERGE_UNDO_HOURS || '') || 72;
+  }
+
+  static normalizePhone(phone?: string | null): string {
+    return (phone || '').replace(/\D/g, '').slice(-PHONE_MATCH_DIGITS);
+  }
+
+  // Lowercase letters only, accents and Arabic letter variants folded - "José-Luis" and "jose luis" compare equal
+  static normalizeName(name?: string | null): string {
+    return SearchService.normalize(name).replace(/[^\p{L}]/gu, '');
+  }
+
+  static similarity(a: string, b: string): number {
+    return SearchService.similarity(a, b);
+  }
+
+  /**
+   * Name similarity, also matching first and last name entered the wrong way round
+   */
+  static nameSimilarity(a: PatientDetails, b: PatientDetails): number {
+    const first = [PatientMergeService.normalizeName(a.first_name), PatientMergeService.normalizeName(b.first_name)];
+    const last = [PatientMergeService.normalizeName(a.last_name), PatientMergeService.normalizeName(b.last_name)];
+
+    const straight = PatientMergeService.similarity(first[0] + last[0], first[1] + last[1]);
+    const swapped = PatientMergeService.similarity(first[0] + last[0], last[1] + first[1]);
+    return Math.max(straight, swapped);
+  }
+
+  static score(a: PatientDetails, b: PatientDetails): { score: number; reasons: string[] } {
+    const reasons: string[] = [];
+    let score = 0;
+
+    const phone = PatientMergeService.normalizePhone(a.phone);
+    if (phone.length >= 7 && phone === PatientMergeService.normalizePhone(b.phone)) {
+      score += WEIGHTS.phone;
+      reasons.push('same_phone');
+    }
+
+    if (a.email && b.email && a.email.trim().toLowerCase() === b.email.trim().toLowerCase()) {
+      score += WEIGHTS.email;
+      reasons.push('same_email');
+    }
+
+    const name = PatientMergeService.nameSimilarity(a, b);
+    if (name >= 0.7) {
+      score += Math.round(WEIGHTS.name * name);
+      reasons.push(name === 1 ? 'same_name' : 'similar_name');
+    }
+
+    if (a.date_of_birth && b.date_of_birth) {
+      const sameDay = new Date(a.date_of_birth).toISOString().slice(0, 10) === new Date(b.date_of_birth).toISOString().slice(0, 10);
+      score += sameDay ? WEIGHTS.date_of_birth : WEIGHTS.date_of_birth_conflict;
+      reasons.push(sameDay ? 'same_date_of_birth' : 'different_date_of_birth');
+    }
+
+    return { score: Math.max(0, Math.min(100, score)), reasons };
+  }
+
+  /**
+   * Patients of the tenant that may be the same person, best match first
+   */
+  static async findDuplicates(input: DuplicateCandidateInput, threshold = DEFAULT_DUPLICATE_THRESHOLD, limit = 10): Promise<DuplicateMatch[]> {
+    const or: any[] = [];
+
+    const phone = PatientMergeService.normalizePhone(input.phone);
+    if (phone.length >= 7 && FieldEncryptionService.isEncrypted(Patient, 'phone')) {
+      // Matched on the blind index of the number's last digits
+      or.push({ phone: input.phone });
+    } else if (phone.length >= 7) {
+      // Stored numbers keep their formatting - allow anything between the digits
+      or.push({ phone: { $regex: `${phone.split('').map(escapeRegex).join('\\D*')}$` } });
+    }
+    if (input.email) {
+      or.push({ email: input.email.trim().toLowerCase() });
+    }
+    if (input.date_of_birth) {
+      const day = new Date(input.date_of_birth);
+      if (!isNaN(day.getTime())) {
+        const start = new Date(Date.UTC(day.getUTCFullYear(), day.getUTCMonth(), day.getUTCDate()));
+        or.push({ date_of_birth: { $gte: start, $lt: new Date(start.getTime() + 24 * 60 * 60 * 1000) } });
+      }
+    }
+    for (const name of [input.first_name, input.last_name]) {
+      const prefix = (name || '').trim().slice(0, 3);
+      if (prefix.length >= 2) {
+        or.push({ first_name: { $regex: `^${escapeRegex(prefix)}`, $options: 'i' } });
+        or.push({ last_name: { $regex: `^${escapeRegex(prefix)}`, $options: 'i' } });
+      }
+    }
+
+    if (or.length === 0) return [];
+
+    const candidates = await Patient.find({
+      tenant_id: input.tenant_id,
+      ...(input._id && { _id: { $ne: input._id } }),
+      $or: or
+    }).limit(MAX_CANDIDATES);
+
+    return candidates
+      .map(patient => ({ patient, ...PatientMergeService.score(input, patient) }))
+      .filter(match => match.score >= threshold)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+  }
+
+  /**
+   * Merge a duplicate into the surviving patient: every reference moves to the survivor, empty survivor
+   * fields are filled from the duplicate, its allergies, conditions and medications are added to the
+   * survivor's and the duplicate is removed. The audit entry keeps what is
+   * needed to undo it, and records each model as it is moved so an interrupted merge can be undone too.
+   */
+  static async merge(params: {
+    survivor: IPatient;
+    duplicate: IPatient;
+    merged_by?: Id;
+    reason?: string;
+  }): Promise<IPatientMerge> {
+    const { survivor, duplicate } = params;
+    const survivorId = survivor._id as mongoose.Types.ObjectId;
+    const duplicateId = duplicate._id as mongoose.Types.ObjectId;
+    const match = PatientMergeService.score(survivor, duplicate);
+
+    const filled: Record<string, any> = {};
+    for (const field of FILLABLE_FIELDS) {
+      const value = duplicate.get(field);
+      if (isEmpty(survivor.get(field)) && !isEmpty(value)) {
+        filled[field] = value;
+      }
+    }
+
+    // The snapshot keeps the duplicate's encrypted fields encrypted
+    const snapshot = duplicate.toObject({ depopulate: true, virtuals: false });
+    if (FieldEncryptionService.isEnabled()) {
+      await FieldEncryptionService.encryptDocument(Patient, duplicate.tenant_id, snapshot);
+    }
+
+    const merge = await PatientMerge.create({
+      tenant_id: survivor.tenant_id,
+      clinic_id: survivor.clinic_id,
+      survivor_id: survivorId,
+      merged_id: duplicateId,
+      merged_snapshot: snapshot,
+      filled_fields: Object.keys(filled),
+      match_score: match.score,
+      match_reasons: match.reasons,
+      reason: params.reason,
+      merged_by: params.merged_by,
+      undo_until: new Date(Date.now() + PatientMergeService.getUndoWindowHours() * 60 * 60 * 1000)
+    });
+
+    for (const reference of PATIENT_REFERENCES) {
+      const move = await PatientMergeService.moveReference(reference, duplicateId, survivorId);
+      if (move) {
+        merge.moves.push(move);
+        await merge.save();
+      }
+    }
+
+    if (Object.keys(filled).length > 0) {
+      survivor.set(filled);
+    }
+    ClinicalSummaryService.mergeInto(survivor, duplicate);
+    // The most recent visit of either record
+    if (duplicate.last_visit && (!survivor.last_visit || duplicate.last_visit > survivor.last_visit)) {
+      survivor.last_visit = duplicate.last_visit;
+    }
+    // Identifiers are unique per tenant, so the duplicate has to go before the survivor takes them over
+    await Patient.deleteOne({ _id: duplicateId });
+    await survivor.save();
+
+    merge.status = 'completed';
+    await merge.save();
+    return merge;
+  }
+
+  /**
+   * Reverse a merge within its undo window: the duplicate comes back with its own references,
+   * and the survivor loses the fields it was given (unless they were edited since) and the clinical
+   * summary entries copied from it
+   */
+  static async undo(merge: IPatientMerge, undone_by?: Id): Promise<IPatient> {
+    const survivorId = merge.survivor_id;
+    const duplicateId = merge.merged_id;
+
+    // Given-back fields first, so the restored duplicate's identifiers are free again
+    const snapshot = merge.merged_snapshot;
+    await FieldEncryptionService.decryptDocument(Patient, snapshot);
+
+    const survivor = await Patient.findById(survivorId);
+    if (survivor) {
+      for (const field of merge.filled_fields) {
+        if (JSON.stringify(survivor.get(field)) === JSON.stringify(snapshot[field])) {
+          survivor.set(field, undefined);
+        }
+      }
+      ClinicalSummaryService.unmerge(survivor, snapshot);
+      await survivor.save();
+    }
+
+    const restored = await Patient.findById(duplicateId) ||
+      await Patient.create(snapshot);
+
+    for (const move of merge.moves) {
+      const reference = PATIENT_REFERENCES.find(ref => ref.model.modelName === move.model && ref.field === move.field);
+      if (reference) {
+        await PatientMergeService.revertReference(reference, move, duplicateId, survivorId);
+      }
+    }
+
+    merge.status = 'undone';
+    merge.undone_at = new Date();
+    merge.undone_by = undone_by ? new mongoose.Types.ObjectId(undone_by.toString()) : undefined;
+    await merge.save();
+    return restored;
+  }
+
+  private static async moveReference(
+    reference: PatientReference,
+    duplicateId: mongoose.Types.ObjectId,
+    survivorId: mongoose.Types.ObjectId
+  ): Promise<IPatientMergeMove | null> {
+    const { model, field } = reference;
+
+    if (reference.array) {
+      // Where the survivor is already listed the duplicate is dropped, elsewhere it is replaced
+      const pulledIds = await model.find({ [field]: { $all: [duplicateId, survivorId] } }).setOptions({ withDeleted: true }).distinct('_id');
+      const ids = await model.find({ [field]: duplicateId, _id: { $nin: pulledIds } }).setOptions({ withDeleted: true }).distinct('_id');
+      if (ids.length === 0 && pulledIds.length === 0) return null;
+
+      if (pulledIds.length > 0) {
+        await model.updateMany({ _id: { $in: pulledIds } }, { $pull: { [field]: duplicateId } });
+      }
+      if (ids.length > 0) {
+        await model.updateMany(
+          { _id: { $in: ids } },
+          { $set: { [`${field}.$[patient]`]: survivorId } },
+          { arrayFilters: [{ patient: duplicateId }] }
+        );
+      }
+      return { model: model.modelName, field, ids, pulled_ids: pulledIds };
+    }
+
+    // Archived records move too
+    const ids = await model.find({ [field]: duplicateId }).setOptions({ withDeleted: true }).distinct('_id');
+    if (ids.length === 0) return null;
+
+    // A patient has one current odontogram per clinic - the survivor's own stays current
+    let deactivatedIds: mongoose.Types.ObjectId[] = [];
+    if (model.modelName === Odontogram.modelName) {
+      const survivorClinics = await Odontogram.find({ patient_id: survivorId, is_active: true }).distinct('clinic_id');
+      deactivatedIds = await Odontogram.find({ _id: { $in: ids }, is_active: true, clinic_id: { $in: survivorClinics } })
+        .distinct('_id') as mongoose.Types.ObjectId[];
+      if (deactivatedIds.length > 0) {
+        await Odontogram.updateMany({ _id: { $in: deactivatedIds } }, { is_active: false });
+      }
+    }
+
+    await model.updateMany({ _id: { $in: ids } }, { $set: { [field]: survivorId } });
+    return { model: model.modelName, field, ids, ...(deactivatedIds.length > 0 && { deactivated_ids: deactivatedIds }) };
+  }
+
+  private static async revertReference(
+    reference: PatientReference,
+    move: IPatientMergeMove,
+    duplicateId: mongoose.Types.ObjectId,
+    survivorId: mongoose.Types.ObjectId
+  ): Promise<void> {
+    const { model, field } = reference;
+
+    if (reference.array) {
+      if (move.ids.length > 0) {
+        await model.updateMany(
+          { _id: { $in: move.ids } },
+          { $set: { [`${field}.$[patient]`]: duplicateId } },
+          { arrayFilters: [{ patient: survivorId }] }
+        );
+      }
+      if (move.pulled_ids && move.pulled_ids.length > 0) {
+        await model.updateMany({ _id: { $in: move.pulled_ids } }, { $addToSet: { [field]: duplicateId } });
+      }
+      return;
+    }
+
+    await model.updateMany({ _id: { $in: move.ids }, [field]: survivorId }, { $set: { [field]: duplicateId } });
+    if (move.deactivated_ids && move.deactivated_ids.length > 0) {
+      await model.updateMany({ _id: { $in: move.deactivated_ids } }, { is_active: true });
+    }
+  }
+}
+
+export default PatientMergeService;
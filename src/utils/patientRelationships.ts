@@ -0,0 +1,175 @@
+import mongoose from 'mongoose';
+import {
+  Patient,
+  IPatient,
+  PatientRelationship,
+  IPatientRelationship,
+  PatientRelationshipType,
+  INVERSE_RELATIONSHIP,
+  RESPONSIBLE_RELATIONSHIPS,
+  Appointment,
+  Invoice
+} from '../models';
+
+type Id = string | mongoose.Types.ObjectId;
+
+// A relative as seen from one patient
+export interface RelatedPatient {
+  relationship_id: mongoose.Types.ObjectId;
+  relationship: PatientRelationshipType; // What the relative is to the patient
+  label?: string;
+  patient: IPatient;
+  is_responsible_party: boolean;
+}
+
+// Invoices still to be paid
+const OUTSTANDING_STATUSES = ['sent', 'pending', 'partial', 'overdue'];
+
+const UPCOMING_APPOINTMENTS_LIMIT = 50;
+
+const RELATED_PATIENT_FIELDS = 'first_name last_name date_of_birth gender phone email mrn responsible_party_id';
+
+export class PatientRelationshipService {
+  /**
+   * The link between two patients, as what `other_id` is to `patient_id`
+   */
+  static async getRelationship(tenant_id: Id, patient_id: Id, other_id: Id): Promise<PatientRelationshipType | null> {
+    const link = await PatientRelationship.findOne({
+      tenant_id,
+      $or: [
+        { patient_id, related_patient_id: other_id },
+        { patient_id: other_id, related_patient_id: patient_id }
+      ]
+    });
+    if (!link) return null;
+    return link.patient_id.equals(patient_id.toString()) ? link.relationship : INVERSE_RELATIONSHIP[link.relationship];
+  }
+
+  /**
+   * Store a link given from either side - "X is the dependent of Y" is kept as "Y is the guardian of X"
+   */
+  static async link(params: {
+    tenant_id: Id;
+    clinic_id: Id;
+    patient_id: Id;
+    related_patient_id: Id;
+    relationship: PatientRelationshipType;
+    label?: string;
+    notes?: string;
+    created_by?: Id;
+  }): Promise<IPatientRelationship> {
+    const { relationship, ...rest } = params;
+    const reversed = relationship === 'dependent';
+
+    return PatientRelationship.create({
+      ...rest,
+      patient_id: reversed ? params.related_patient_id : params.patient_id,
+      related_patient_id: reversed ? params.patient_id : params.related_patient_id,
+      relationship: reversed ? 'guardian' : relationship
+    });
+  }
+
+  /**
+   * Remove a link; neither patient stays the other's responsible party
+   */
+  static async unlink(link: IPatientRelationship): Promise<void> {
+    await Promise.all([
+      Patient.updateOne({ _id: link.patient_id, responsible_party_id: link.related_patient_id }, { $unset: { responsible_party_id: 1 } }),
+      Patient.updateOne({ _id: link.related_patient_id, responsible_party_id: link.patient_id }, { $unset: { responsible_party_id: 1 } })
+    ]);
+    await PatientRelationship.deleteOne({ _id: link._id });
+  }
+
+  /**
+   * Every relative of a patient, from the patient's point of view
+   */
+  static async getRelatedPatients(patient: IPatient): Promise<RelatedPatient[]> {
+    const links = await PatientRelationship.find({
+      tenant_id: patient.tenant_id,
+      $or: [{ patient_id: patient._id }, { related_patient_id: patient._id }]
+    })
+      .populate('patient_id', RELATED_PATIENT_FIELDS)
+      .populate('related_patient_id', RELATED_PATIENT_FIELDS)
+      .sort({ created_at: 1 });
+
+    return links
+      .map(link => {
+        const own = (link.patient_id as any)?._id?.equals(patient._id);
+        const other: any = own ? link.related_patient_id : link.patient_id;
+        return {
+          relationship_id: link._id as mongoose.Types.ObjectId,
+          relationship: own ? link.relationship : INVERSE_RELATIONSHIP[link.relationship],
+          label: link.label,
+          patient: other,
+          is_responsible_party: !!other?._id && !!patient.responsible_party_id?.equals(other._id)
+        };
+      })
+      // Relatives deleted since the link was made, and links a merge turned onto the patient itself
+      .filter(related => related.patient?._id && !related.patient._id.equals(patient._id));
+  }
+
+  /**
+   * Whether a relative may sign consent and be billed for the patient
+   */
+  static async canBeResponsibleFor(tenant_id: Id, patient_id: Id, party_id: Id): Promise<boolean> {
+    if (patient_id.toString() === party_id.toString()) return true;
+    const relationship = await PatientRelationshipService.getRelationship(tenant_id, patient_id, party_id);
+    return !!relationship && RESPONSIBLE_RELATIONSHIPS.includes(relationship);
+  }
+
+  /**
+   * The patient's family: relatives, upcoming appointments of everyone, and outstanding balances
+   * per member, including what the patient has been billed for others
+   */
+  static async getFamilySummary(patient: IPatient, clinic_id?: Id) {
+    const relatives = await PatientRelationshipService.getRelatedPatients(patient);
+    const memberIds = [patient._id as mongoose.Types.ObjectId, ...relatives.map(related => related.patient._id as mongoose.Types.ObjectId)];
+    const scope: any = { tenant_id: patient.tenant_id, ...(clinic_id && { clinic_id }) };
+
+    const [appointments, balances, billedToPatient] = await Promise.all([
+      Appointment.find({
+        ...scope,
+        $or: [{ patient_id: { $in: memberIds } }, { additional_patient_ids: { $in: memberIds } }],
+        appointment_date: { $gte: new Date() },
+        frees_slot: { $ne: true }
+      })
+        .populate('patient_id', 'first_name last_name')
+        .populate('doctor_id', 'first_name last_name')
+        .sort({ appointment_date: 1 })
+        .limit(UPCOMING_APPOINTMENTS_LIMIT),
+      Invoice.aggregate([
+        { $match: { ...scope, patient_id: { $in: memberIds }, status: { $in: OUTSTANDING_STATUSES } } },
+        {
+          $group: {
+            _id: '$patient_id',
+            outstanding: { $sum: { $ifNull: ['$due_amount', '$total_amount'] } },
+            invoices: { $sum: 1 }
+          }
+        }
+      ]),
+      Invoice.find({ ...scope, billed_to_patient_id: patient._id, status: { $in: OUTSTANDING_STATUSES } })
+        .populate('patient_id', 'first_name last_name')
+        .select('invoice_number patient_id total_amount due_amount status due_date')
+        .sort({ due_date: 1 })
+    ]);
+
+    const balanceOf = (id: any) => balances.find(balance => String(balance._id) === String(id));
+    const members = [
+      { relationship: 'self', patient, is_responsible_party: false },
+      ...relatives
+    ].map(member => ({
+      ...member,
+      outstanding: balanceOf(member.patient._id)?.outstanding || 0,
+      outstanding_invoices: balanceOf(member.patient._id)?.invoices || 0
+    }));
+
+    return {
+      members,
+      upcoming_appointments: appointments,
+      billed_to_patient: billedToPatient,
+      total_outstanding: members.reduce((sum, member) => sum + member.outstanding, 0)
+    };
+  }
+}
+
+export default PatientRelationshipService;
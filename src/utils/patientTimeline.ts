@@ -0,0 +1,290 @@
+import mongoose, { Model } from 'mongoose';
+import {
+  Appointment,
+  Invoice,
+  IUser,
+  MedicalRecord,
+  Odontogram,
+  Payment,
+  Prescription,
+  TestReport,
+  XrayAnalysis,
+  attendingPatientFilter,
+  staffMemberFilter
+} from '../models';
+import { getRoleBasedFilter } from '../middleware/auth';
+import { getUserPermissions } from '../middleware/permission';
+
+type Id = string | mongoose.Types.ObjectId;
+
+export const TIMELINE_EVENT_TYPES = [
+  'appointment',
+  'medical_record',
+  'prescription',
+  'test_report',
+  'odontogram',
+  'xray_analysis',
+  'invoice',
+  'payment'
+] as const;
+
+export type TimelineEventType = typeof TIMELINE_EVENT_TYPES[number];
+
+export const TIMELINE_MAX_LIMIT = 100;
+
+/**
+ * One card of the patient timeline. `data` carries the type-specific fields a card shows.
+ */
+export interface TimelineEvent {
+  id: string; // `${type}:${_id}` - unique across types
+  type: TimelineEventType;
+  date: Date;
+  title: string;
+  summary?: string;
+  status?: string;
+  actor?: { id: string; name: string } | { name: string };
+  reference_id: string; // _id of the underlying document, for its own endpoint
+  data: Record<string, any>;
+}
+
+interface TimelineSource {
+  model: Model<any>;
+  permission: string; // Permission module whose `.view` the caller needs
+  date_field: string;
+  patientFilter: (patient_id: mongoose.Types.ObjectId) => Record<string, any>;
+  roleEntity?: 'appointment' | 'prescription' | 'odontogram'; // Narrowed further with getRoleBasedFilter
+  tenantScoped: boolean; // Odontograms only carry a clinic
+  populate?: { path: string; select: string }[];
+  toEvent: (doc: any) => Omit<TimelineEvent, 'id' | 'type' | 'date' | 'reference_id'>;
+}
+
+const personName = (person: any): { id: string; name: string } | undefined =>
+  person && person.first_name !== undefined
+    ? { id: String(person._id), name: `${person.first_name} ${person.last_name}`.trim() }
+    : undefined;
+
+const DOCTOR = { path: 'doctor_id', select: 'first_name last_name' };
+
+const SOURCES: Record<TimelineEventType, TimelineSource> = {
+  appointment: {
+    model: Appointment,
+    permission: 'appointments',
+    date_field: 'appointment_date',
+    patientFilter: attendingPatientFilter,
+    roleEntity: 'appointment',
+    tenantScoped: true,
+    populate: [DOCTOR, { path: 'service_id', select: 'name' }],
+    toEvent: doc => ({
+      title: doc.service_id?.name || doc.type,
+      summary: doc.reason || doc.cancellation_reason,
+      status: doc.status,
+      actor: personName(doc.doctor_id),
+      data: { duration: doc.duration, type: doc.type, invoice_id: doc.invoice_id, group: doc.additional_patient_ids?.length > 0 }
+    })
+  },
+  medical_record: {
+    model: MedicalRecord,
+    permission: 'medical_records',
+    date_field: 'visit_date',
+    patientFilter: patient_id => ({ patient_id }),
+    tenantScoped: true,
+    populate: [DOCTOR],
+    toEvent: doc => ({
+      title: 'Visit notes',
+      summary: doc.chief_complaint,
+      actor: personName(doc.doctor_id),
+      data: { diagnosis: doc.diagnosis, treatment: doc.treatment, vital_signs: doc.vital_signs }
+    })
+  },
+  prescription: {
+    model: Prescription,
+    permission: 'prescriptions',
+    date_field: 'created_at',
+    patientFilter: patient_id => ({ patient_id }),
+    roleEntity: 'prescription',
+    tenantScoped: true,
+    populate: [DOCTOR],
+    toEvent: doc => ({
+      title: `Prescription ${doc.prescription_id}`,
+      summary: doc.medications.map((medication: any) => medication.name).join(', '),
+      status: doc.status,
+      actor: personName(doc.doctor_id),
+      data: { diagnosis: doc.diagnosis, medications: doc.medications, alerts: doc.alerts }
+    })
+  },
+  test_report: {
+    model: TestReport,
+    permission: 'test_reports',
+    date_field: 'testDate',
+    patientFilter: patient_id => ({ patientId: patient_id }),
+    tenantScoped: true,
+    toEvent: doc => ({
+      title: doc.testName,
+      summary: doc.interpretation,
+      status: doc.status,
+      actor: doc.recordedBy ? { name: doc.recordedBy } : undefined,
+      data: { report_number: doc.reportNumber, test_code: doc.testCode, category: doc.category, vendor: doc.externalVendor }
+    })
+  },
+  odontogram: {
+    model: Odontogram,
+    permission: 'odontogram',
+    date_field: 'examination_date',
+    patientFilter: patient_id => ({ patient_id }),
+    roleEntity: 'odontogram',
+    tenantScoped: false,
+    populate: [DOCTOR],
+    toEvent: doc => ({
+      title: `Dental chart v${doc.version}`,
+      summary: doc.general_notes,
+      status: doc.is_active ? 'active' : 'superseded',
+      actor: personName(doc.doctor_id),
+      data: { treatment_summary: doc.treatment_summary, teeth_recorded: doc.teeth_conditions?.length || 0 }
+    })
+  },
+  xray_analysis: {
+    model: XrayAnalysis,
+    permission: 'xray_analysis',
+    date_field: 'analysis_date',
+    patientFilter: patient_id => ({ patient_id }),
+    tenantScoped: true,
+    populate: [DOCTOR],
+    toEvent: doc => ({
+      title: 'X-ray analysis',
+      summary: doc.recommendations,
+      status: doc.status,
+      actor: personName(doc.doctor_id),
+      data: { image_url: doc.image_url, findings: doc.findings, confidence_score: doc.confidence_score }
+    })
+  },
+  invoice: {
+    model: Invoice,
+    permission: 'invoices',
+    date_field: 'issue_date',
+    patientFilter: patient_id => ({ patient_id }),
+    tenantScoped: true,
+    toEvent: doc => ({
+      title: `Invoice ${doc.invoice_number}`,
+      summary: doc.services.map((service: any) => service.description).join(', '),
+      status: doc.status,
+      data: { total_amount: doc.total_amount, due_amount: doc.due_amount, due_date: doc.due_date, appointment_id: doc.appointment_id }
+    })
+  },
+  payment: {
+    model: Payment,
+    permission: 'payments',
+    date_field: 'payment_date',
+    patientFilter: patient_id => ({ patient_id }),
+    tenantScoped: true,
+    toEvent: doc => ({
+      title: 'Payment',
+      summary: doc.description,
+      status: doc.status,
+      data: { amount: doc.amount, currency: doc.currency, method: doc.method, invoice_id: doc.invoice_id }
+    })
+  }
+};
+
+// Roles that see every event type without a permission lookup
+const UNRESTRICTED_ROLES = ['super_admin', 'admin'];
+
+export class PatientTimelineService {
+  /**
+   * Whether the caller may see this patient at all - doctors and nurses only see patients they treat
+   */
+  static async canViewPatient(user: IUser, tenant_id: Id, patient_id: Id): Promise<boolean> {
+    if (user.role !== 'doctor' && user.role !== 'nurse') return true;
+
+    const treats = await Appointment.exists({
+      tenant_id,
+      $and: [attendingPatientFilter(patient_id), staffMemberFilter(user._id as mongoose.Types.ObjectId)]
+    });
+    if (treats || user.role === 'nurse') return !!treats;
+
+    return !!(await Prescription.exists({ tenant_id, patient_id, doctor_id: user._id }));
+  }
+
+  /**
+   * Event types the caller holds the view permission for
+   */
+  static async getVisibleTypes(user: IUser, clinic_id: Id): Promise<TimelineEventType[]> {
+    if (UNRESTRICTED_ROLES.includes(user.role)) return [...TIMELINE_EVENT_TYPES];
+
+    const permissions = await getUserPermissions(String(user._id), String(clinic_id));
+    return TIMELINE_EVENT_TYPES.filter(type => permissions.includes(`${SOURCES[type].permission}.view`));
+  }
+
+  /**
+   * One chronological page across every source, newest first. Each source contributes at most
+   * skip + limit documents, which is all a merged page can need.
+   */
+  static async getTimeline(params: {
+    user: IUser;
+    tenant_id: Id;
+    clinic_id: Id;
+    patient_id: mongoose.Types.ObjectId;
+    types?: TimelineEventType[];
+    date_from?: Date;
+    date_to?: Date;
+    page: number;
+    limit: number;
+  }): Promise<{ events: TimelineEvent[]; total: number; counts: Partial<Record<TimelineEventType, number>>; types: TimelineEventType[] }> {
+    const visible = await PatientTimelineService.getVisibleTypes(params.user, params.clinic_id);
+    const types = params.types?.length ? visible.filter(type => params.types!.includes(type)) : visible;
+    const window = params.page * params.limit;
+
+    const results = await Promise.all(types.map(async type => {
+      const source = SOURCES[type];
+      const filter: Record<string, any> = {
+        clinic_id: params.clinic_id,
+        $and: [source.patientFilter(params.patient_id)]
+      };
+      if (source.tenantScoped) filter.tenant_id = params.tenant_id;
+
+      if (source.roleEntity) {
+        // Markers such as _requiresNursePrescriptionFilter are satisfied by canViewPatient
+        const roleFilter = Object.fromEntries(Object.entries(getRoleBasedFilter(params.user, source.roleEntity))
+          .filter(([key]) => !key.startsWith('_')));
+        if (Object.keys(roleFilter).length > 0) filter.$and.push(roleFilter);
+      }
+
+      if (params.date_from || params.date_to) {
+        filter[source.date_field] = {};
+        if (params.date_from) filter[source.date_field].$gte = params.date_from;
+        if (params.date_to) filter[source.date_field].$lte = params.date_to;
+      }
+
+      const [docs, count] = await Promise.all([
+        source.model.find(filter)
+          .populate(source.populate || [])
+          .sort({ [source.date_field]: -1, _id: -1 })
+          .limit(window)
+          .lean(),
+        source.model.countDocuments(filter)
+      ]);
+
+      const events: TimelineEvent[] = docs.map((doc: any) => ({
+        id: `${type}:${doc._id}`,
+        type,
+        date: doc[source.date_field],
+        reference_id: String(doc._id),
+        ...source.toEvent(doc)
+      }));
+      return { type, events, count };
+    }));
+
+    const events = results
+      .flatMap(result => result.events)
+      .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime() || b.id.localeCompare(a.id))
+      .slice(window - params.limit, window);
+
+    return {
+      events,
+      total: results.reduce((sum, result) => sum + result.count, 0),
+      counts: Object.fromEntries(results.map(result => [result.type, result.count])),
+      types
+    };
+  }
+}
+
+export default PatientTimelineService;
@@ -0,0 +1,506 @@
+import jwt from 'jsonwebtoken';
+import mongoose from 'mongoose';
+import {
+  Department,
+  Service,
+  QueueTicket,
+  IQueueTicket,
+  IQueueTicketEvent,
+  QueuePriority,
+  QueueTicketAction,
+  QueueTicketStatus,
+  ACTIVE_QUEUE_STATUSES
+} from '../models';
+import { TimezoneService } from './timezone';
+import { DomainEventService } from './domainEvents';
+
+type Id = string | mongoose.Types.ObjectId;
+
+export interface QueueScope {
+  tenant_id: Id;
+  clinic_id: Id;
+  department_id?: Id | null; // The clinic's general queue when empty
+}
+
+export interface IssueTicketParams extends QueueScope {
+  timezone: string;
+  name: string;
+  phone?: string;
+  patient_id?: Id;
+  lead_id?: Id;
+  appointment_id?: Id;
+  service_id?: Id;
+  doctor_id?: Id;
+  priority?: QueuePriority;
+  date_of_birth?: Date | null; // Patients past the elderly age are prioritised automatically
+  notes?: string;
+  created_by?: Id;
+}
+
+export interface QueueTicketView {
+  ticket: IQueueTicket;
+  position?: number; // 1-based place among waiting tickets
+  estimated_wait_minutes?: number;
+}
+
+export interface QueueSnapshot {
+  date: Date;
+  timezone: string;
+  department_id: Id | null;
+  waiting: QueueTicketView[];
+  called: QueueTicketView[];
+  serving: QueueTicketView[];
+  skipped: QueueTicketView[];
+  counts: Record<QueueTicketStatus, number>;
+  average_service_minutes: number;
+  active_counters: number;
+}
+
+export interface QueueDisplay {
+  date: Date;
+  now_serving: Array<{ ticket_number: string; counter?: string; status: QueueTicketStatus }>;
+  next: Array<{ ticket_number: string; estimated_wait_minutes?: number }>;
+  waiting_count: number;
+  updated_at: Date;
+}
+
+export interface QueueChange {
+  tenant_id: string;
+  clinic_id: string;
+  department_id: string | null;
+  ticket_id: string;
+  action: QueueTicketAction;
+}
+
+export interface QueueDisplayTokenPayload {
+  tid: string; // Tenant ID
+  cid: string; // Clinic ID
+  did?: string; // Department ID - every queue of the clinic when missing
+  exp: number;
+}
+
+// Statuses each action may start from - anything else is a stale screen or a double click
+const ACTION_FROM: Record<Exclude<QueueTicketAction, 'issued'>, QueueTicketStatus[]> = {
+  called: ['waiting', 'called', 'skipped'], // Calling a called ticket again is a recall
+  serving: ['waiting', 'called'],
+  completed: ['called', 'serving'],
+  skipped: ['waiting', 'called'],
+  requeued: ['skipped'],
+  transferred: ['waiting', 'called', 'skipped'],
+  cancelled: ['waiting', 'called', 'skipped']
+};
+
+const ACTION_STATUS: Record<Exclude<QueueTicketAction, 'issued'>, QueueTicketStatus> = {
+  called: 'called',
+  serving: 'serving',
+  completed: 'completed',
+  skipped: 'skipped',
+  requeued: 'waiting',
+  transferred: 'waiting',
+  cancelled: 'cancelled'
+};
+
+const WAITING_ORDER = { priority_rank: 1, queued_at: 1 } as const;
+
+const GENERAL_QUEUE_PREFIX = 'Q';
+const DEFAULT_SERVICE_MINUTES = 15;
+const SERVICE_HISTORY_DAYS = 30;
+// A counter that completed a ticket this recently still counts as staffed
+const ACTIVE_COUNTER_MINUTES = 60;
+const MAX_NUMBERING_ATTEMPTS = 5;
+const DISPLAY_NEXT_TICKETS = 10;
+const DISPLAY_TOKEN_AUDIENCE = 'queue-display';
+
+const toId = (value: any): string | null => (value ? (value._id || value).toString() : null);
+
+export class QueueService {
+  static getElderlyAge(): number {
+    return parseInt(process.env.QUEUE_ELDERLY_AGE || '', 10) || 65;
+  }
+
+  /**
+   * An explicit priority wins; otherwise patients past the elderly age go ahead of the general queue
+   */
+  static resolvePriority(priority?: QueuePriority, dateOfBirth?: Date | null, now: Date = new Date()): QueuePriority {
+    if (priority) return priority;
+    if (!dateOfBirth) return 'normal';
+
+    const birthday = new Date(dateOfBirth);
+    let age = now.getFullYear() - birthday.getFullYear();
+    if (now.getMonth() < birthday.getMonth() || (now.getMonth() === birthday.getMonth() && now.getDate() < birthday.getDate())) {
+      age--;
+    }
+    return age >= QueueService.getElderlyAge() ? 'elderly' : 'normal';
+  }
+
+  static formatTicketNumber(prefix: string, sequence: number): string {
+    return `${prefix}-${String(sequence).padStart(3, '0')}`;
+  }
+
+  static scopeFilter(scope: QueueScope): any {
+    const filter: any = { tenant_id: scope.tenant_id, clinic_id: scope.clinic_id };
+    if (scope.department_id !== undefined) {
+      filter.department_id = scope.department_id || null;
+    }
+    return filter;
+  }
+
+  /**
+   * Issue the next ticket number of the day in the department's (or the general) queue
+   */
+  static async issueTicket(params: IssueTicketParams): Promise<IQueueTicket> {
+    const queueDate = TimezoneService.startOfDay(new Date(), params.timezone);
+    const departmentId = params.department_id || null;
+
+    let prefix = GENERAL_QUEUE_PREFIX;
+    if (departmentId) {
+      const department = await Department.findOne({ _id: departmentId, tenant_id: params.tenant_id }).select('code');
+      prefix = department?.code || prefix;
+    }
+
+    const priority = QueueService.resolvePriority(params.priority, params.date_of_birth);
+
+    for (let attempt = 1; ; attempt++) {
+      const last = await QueueTicket.findOne({
+        tenant_id: params.tenant_id,
+        clinic_id: params.clinic_id,
+        numbering_department_id: departmentId,
+        queue_date: queueDate
+      }).sort({ sequence: -1 }).select('sequence');
+
+      const sequence = (last?.sequence || 0) + 1;
+      const now = new Date();
+
+      try {
+        const ticket = await QueueTicket.create({
+          tenant_id: params.tenant_id,
+          clinic_id: params.clinic_id,
+          department_id: departmentId,
+          numbering_department_id: departmentId,
+          queue_date: queueDate,
+          sequence,
+          ticket_number: QueueService.formatTicketNumber(prefix, sequence),
+          patient_id: params.patient_id,
+          lead_id: params.lead_id,
+          appointment_id: params.appointment_id,
+          name: params.name,
+          phone: params.phone,
+          service_id: params.service_id,
+          doctor_id: params.doctor_id,
+          priority,
+          notes: params.notes,
+          queued_at: now,
+          events: [{ action: 'issued', at: now, by: params.created_by }],
+          created_by: params.created_by
+        });
+
+        QueueService.emitChange(ticket, 'issued');
+        return ticket;
+      } catch (error: any) {
+        // Another desk took the same number - take the next one
+        if (error.code === 11000 && attempt < MAX_NUMBERING_ATTEMPTS) continue;
+        throw error;
+      }
+    }
+  }
+
+  /**
+   * Move a ticket through the queue. The update only applies while the ticket is still in a status
+   * the action may start from, so two desks can never call or finish the same ticket.
+   * Returns null when the ticket has moved on in the meantime.
+   */
+  static async applyAction(
+    ticketId: Id,
+    scope: QueueScope,
+    action: Exclude<QueueTicketAction, 'issued'>,
+    details: Partial<Pick<IQueueTicketEvent, 'by' | 'counter' | 'note' | 'to_department_id' | 'to_doctor_id'>> = {}
+  ): Promise<IQueueTicket | null> {
+    const now = new Date();
+    const set: any = { status: ACTION_STATUS[action] };
+    const inc: any = {};
+    const event: IQueueTicketEvent = { action, at: now, by: details.by, counter: details.counter, note: details.note };
+
+    switch (action) {
+      case 'called':
+        set.called_at = now;
+        if (details.counter) set.counter = details.counter;
+        break;
+      case 'serving':
+        set.serving_at = now;
+        if (details.counter) set.counter = details.counter;
+        break;
+      case 'completed':
+        set.completed_at = now;
+        break;
+      case 'skipped':
+        inc.skip_count = 1;
+        break;
+      case 'requeued':
+        // Back to the end of their priority group
+        set.queued_at = now;
+        break;
+      case 'transferred': {
+        const current = await QueueTicket.findOne({ _id: ticketId, ...QueueService.scopeFilter(scope) }).select('department_id doctor_id');
+        if (!current) return null;
+
+        // Keeps its place in time (queued_at) - the patient has already waited
+        if (details.to_department_id !== undefined) {
+          set.department_id = details.to_department_id || null;
+          event.from_department_id = current.department_id;
+          event.to_department_id = details.to_department_id;
+        }
+        if (details.to_doctor_id !== undefined) {
+          set.doctor_id = details.to_doctor_id || null;
+          event.from_doctor_id = current.doctor_id;
+          event.to_doctor_id = details.to_doctor_id;
+        }
+        set.counter = null;
+        break;
+      }
+    }
+
+    const update: any = { $set: set, $push: { events: event } };
+    if (Object.keys(inc).length > 0) {
+      update.$inc = inc;
+    }
+
+    const ticket = await QueueTicket.findOneAndUpdate(
+      { _id: ticketId, ...QueueService.scopeFilter(scope), status: { $in: ACTION_FROM[action] } },
+      update,
+      { new: true, runValidators: true }
+    );
+
+    if (ticket) {
+      QueueService.emitChange(ticket, action);
+    }
+    return ticket;
+  }
+
+  /**
+   * Call the first waiting ticket - by priority, then time in the queue - that this counter can take.
+   * With a doctor, tickets waiting for another doctor are left for them.
+   */
+  static async callNext(params: QueueScope & {
+    timezone: string;
+    counter?: string;
+    doctor_id?: Id;
+    by?: Id;
+  }): Promise<IQueueTicket | null> {
+    const now = new Date();
+    const filter: any = {
+      ...QueueService.scopeFilter(params),
+      queue_date: TimezoneService.startOfDay(now, params.timezone),
+      status: 'waiting'
+    };
+
+    if (params.doctor_id) {
+      filter.doctor_id = { $in: [null, params.doctor_id] };
+    }
+
+    const ticket = await QueueTicket.findOneAndUpdate(
+      filter,
+      {
+        $set: { status: 'called', called_at: now, ...(params.counter && { counter: params.counter }) },
+        $push: { events: { action: 'called', at: now, by: params.by, counter: params.counter } }
+      },
+      { new: true, sort: WAITING_ORDER }
+    );
+
+    if (ticket) {
+      QueueService.emitChange(ticket, 'called');
+    }
+    return ticket;
+  }
+
+  /**
+   * Average minutes from service start to completion over the last weeks, per service and overall
+   */
+  static async getServiceDurations(scope: QueueScope): Promise<{ by_service: Map<string, number>; overall: number }> {
+    const since = new Date(Date.now() - SERVICE_HISTORY_DAYS * 24 * 60 * 60000);
+    const match: any = {
+      tenant_id: new mongoose.Types.ObjectId(scope.tenant_id.toString()),
+      clinic_id: new mongoose.Types.ObjectId(scope.clinic_id.toString()),
+      status: 'completed',
+      serving_at: { $ne: null },
+      completed_at: { $gte: since }
+    };
+    if (scope.department_id) {
+      match.department_id = new mongoose.Types.ObjectId(scope.department_id.toString());
+    }
+
+    const durations = await QueueTicket.aggregate([
+      { $match: match },
+      { $project: { service_id: 1, minutes: { $divide: [{ $subtract: ['$completed_at', '$serving_at'] }, 60000] } } },
+      { $group: { _id: '$service_id', average: { $avg: '$minutes' }, total: { $sum: '$minutes' }, count: { $sum: 1 } } }
+    ]);
+
+    const byService = new Map<string, number>();
+    let total = 0;
+    let count = 0;
+    for (const row of durations) {
+      if (row._id) byService.set(row._id.toString(), row.average);
+      total += row.total;
+      count += row.count;
+    }
+
+    return { by_service: byService, overall: count > 0 ? total / count : DEFAULT_SERVICE_MINUTES };
+  }
+
+  /**
+   * Today's queue with each waiting ticket's position and estimated wait.
+   * The wait is the remaining work ahead of the ticket (tickets at a counter, then tickets ahead in line,
+   * each at its service's historical duration) shared between the counters currently working.
+   */
+  static async getQueue(scope: QueueScope & { timezone: string }): Promise<QueueSnapshot> {
+    const now = new Date();
+    const queueDate = TimezoneService.startOfDay(now, scope.timezone);
+
+    const tickets = await QueueTicket.find({ ...QueueService.scopeFilter(scope), queue_date: queueDate })
+      .populate('patient_id', 'first_name last_name phone')
+      .populate('doctor_id', 'first_name last_name')
+      .populate('department_id', 'name code')
+      .sort(WAITING_ORDER);
+
+    const counts = { waiting: 0, called: 0, serving: 0, completed: 0, skipped: 0, cancelled: 0 } as Record<QueueTicketStatus, number>;
+    tickets.forEach(ticket => counts[ticket.status]++);
+
+    const { by_service: byService, overall } = await QueueService.getServiceDurations(scope);
+
+    // Services without history fall back to their configured duration
+    const serviceIds = Array.from(new Set(
+      tickets.map(ticket => toId(ticket.service_id)).filter((id): id is string => !!id && !byService.has(id))
+    ));
+    const configured = serviceIds.length > 0
+      ? await Service.find({ _id: { $in: serviceIds } }).select('duration')
+      : [];
+    configured.forEach(service => byService.set(service._id!.toString(), service.duration));
+
+    const expectedMinutes = (ticket: IQueueTicket) => byService.get(toId(ticket.service_id) || '') ?? overall;
+
+    const atCounter = tickets.filter(ticket => ticket.status === 'called' || ticket.status === 'serving');
+    const recentlyActive = tickets.filter(ticket =>
+      ticket.status === 'completed' && ticket.completed_at &&
+      now.getTime() - ticket.completed_at.getTime() <= ACTIVE_COUNTER_MINUTES * 60000
+    );
+    const counters = new Set([...atCounter, ...recentlyActive].map(ticket => ticket.counter || toId(ticket.doctor_id) || 'desk'));
+    const activeCounters = Math.max(1, counters.size);
+
+    let backlog = atCounter.reduce((total, ticket) => {
+      const started = ticket.serving_at || ticket.called_at || now;
+      return total + Math.max(0, expectedMinutes(ticket) - (now.getTime() - started.getTime()) / 60000);
+    }, 0);
+
+    const waiting: QueueTicketView[] = [];
+    for (const ticket of tickets.filter(ticket => ticket.status === 'waiting')) {
+      waiting.push({
+        ticket,
+        position: waiting.length + 1,
+        estimated_wait_minutes: Math.round(backlog / activeCounters)
+      });
+      backlog += expectedMinutes(ticket);
+    }
+
+    const view = (status: QueueTicketStatus) => tickets
+      .filter(ticket => ticket.status === status)
+      .map(ticket => ({ ticket }));
+
+    return {
+      date: queueDate,
+      timezone: scope.timezone,
+      department_id: scope.department_id || null,
+      waiting,
+      called: view('called'),
+      serving: view('serving'),
+      skipped: view('skipped'),
+      counts,
+      average_service_minutes: Math.round(overall),
+      active_counters: activeCounters
+    };
+  }
+
+  /**
+   * What the waiting-room screen shows - ticket numbers only, never names
+   */
+  static toDisplay(snapshot: QueueSnapshot): QueueDisplay {
+    const atCounter = [...snapshot.called, ...snapshot.serving]
+      .sort((a, b) => (b.ticket.called_at?.getTime() || 0) - (a.ticket.called_at?.getTime() || 0));
+
+    return {
+      date: snapshot.date,
+      now_serving: atCounter.map(({ ticket }) => ({
+        ticket_number: ticket.ticket_number,
+        counter: ticket.counter,
+        status: ticket.status
+      })),
+      next: snapshot.waiting.slice(0, DISPLAY_NEXT_TICKETS).map(({ ticket, estimated_wait_minutes }) => ({
+        ticket_number: ticket.ticket_number,
+        estimated_wait_minutes
+      })),
+      waiting_count: snapshot.waiting.length,
+      updated_at: new Date()
+    };
+  }
+
+  static isActive(ticket: IQueueTicket): boolean {
+    return ACTIVE_QUEUE_STATUSES.includes(ticket.status);
+  }
+
+  static emitChange(ticket: IQueueTicket, action: QueueTicketAction): void {
+    const change: QueueChange = {
+      tenant_id: ticket.tenant_id.toString(),
+      clinic_id: ticket.clinic_id.toString(),
+      department_id: toId(ticket.department_id),
+      ticket_id: ticket._id!.toString(),
+      action
+    };
+    DomainEventService.publish('queue.updated', ticket, {
+      ...change,
+      ticket_number: ticket.ticket_number,
+      status: ticket.status,
+      counter: ticket.counter
+    }, [ticket.doctor_id]);
+  }
+
+  // In-process only: screens connected to another server instance are refreshed by their periodic snapshot
+  static subscribe(listener: (change: QueueChange) => void): () => void {
+    return DomainEventService.subscribe(event => {
+      if (event.type !== 'queue.updated') return;
+      const { tenant_id, clinic_id, department_id, ticket_id, action } = event.data;
+      listener({ tenant_id, clinic_id, department_id, ticket_id, action });
+    });
+  }
+
+  private static getDisplaySecret(): string {
+    return process.env.QUEUE_DISPLAY_SECRET || process.env.JWT_SECRET || 'your-secret-key';
+  }
+
+  /**
+   * Long-lived read-only token for a waiting-room screen of one clinic (or one department)
+   */
+  static createDisplayToken(scope: QueueScope, expiresInDays: number): string {
+    return jwt.sign(
+      {
+        tid: scope.tenant_id.toString(),
+        cid: scope.clinic_id.toString(),
+        ...(scope.department_id && { did: scope.department_id.toString() })
+      },
+      QueueService.getDisplaySecret(),
+      { audience: DISPLAY_TOKEN_AUDIENCE, expiresIn: expiresInDays * 24 * 60 * 60 }
+    );
+  }
+
+  /**
+   * Throws JsonWebTokenError / TokenExpiredError like any other JWT check
+   */
+  static verifyDisplayToken(token: string): QueueDisplayTokenPayload {
+    const payload = jwt.verify(token, QueueService.getDisplaySecret(), { audience: DISPLAY_TOKEN_AUDIENCE }) as QueueDisplayTokenPayload;
+
+    if (!payload.tid || !payload.cid) {
+      throw new jwt.JsonWebTokenError('Malformed queue display token');
+    }
+
+    return payload;
+  }
+}
+
+export default QueueService;
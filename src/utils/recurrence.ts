@@ -0,0 +1,184 @@
+import { TimezoneService } from './timezone';
+
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly';
+
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  interval: number;
+  count?: number;
+  until?: Date;
+  weekdays?: number[]; // 0 = Sunday ... 6 = Saturday
+}
+
+// Hard cap so a single request cannot generate an unbounded series
+export const MAX_SERIES_OCCURRENCES = 104;
+
+const RRULE_DAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+export class RecurrenceService {
+  /**
+   * Parse an RFC 5545 style RRULE string (FREQ, INTERVAL, COUNT, UNTIL, BYDAY)
+   */
+  static parseRRule(rrule: string): RecurrenceRule {
+    const parts = rrule.replace(/^RRULE:/i, '').split(';').filter(Boolean);
+    const values: Record<string, string> = {};
+
+    for (const part of parts) {
+      const [key, value] = part.split('=');
+      if (key && value) {
+        values[key.trim().toUpperCase()] = value.trim();
+      }
+    }
+
+    const frequency = (values.FREQ || '').toLowerCase();
+    if (!['daily', 'weekly', 'monthly'].includes(frequency)) {
+      throw new Error(`Unsupported recurrence frequency '${values.FREQ || ''}'`);
+    }
+
+    const rule: RecurrenceRule = {
+      frequency: frequency as RecurrenceFrequency,
+      interval: parseInt(values.INTERVAL, 10) || 1
+    };
+
+    if (values.COUNT) {
+      rule.count = parseInt(values.COUNT, 10);
+    }
+
+    if (values.UNTIL) {
+      const match = values.UNTIL.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z?)?$/);
+      rule.until = match
+        ? new Date(Date.UTC(+match[1], +match[2] - 1, +match[3], +(match[4] || 23), +(match[5] || 59), +(match[6] || 59)))
+        : new Date(values.UNTIL);
+    }
+
+    if (values.BYDAY) {
+      rule.weekdays = values.BYDAY.split(',')
+        .map((day) => RRULE_DAYS.indexOf(day.trim().toUpperCase().slice(-2)))
+        .filter((day) => day >= 0);
+    }
+
+    return rule;
+  }
+
+  /**
+   * Serialize a rule back to an RRULE string for storage and calendar export
+   */
+  static toRRule(rule: RecurrenceRule): string {
+    const parts = [`FREQ=${rule.frequency.toUpperCase()}`, `INTERVAL=${rule.interval || 1}`];
+
+    if (rule.count) {
+      parts.push(`COUNT=${rule.count}`);
+    }
+
+    if (rule.until) {
+      parts.push(`UNTIL=${new Date(rule.until).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')}`);
+    }
+
+    if (rule.weekdays && rule.weekdays.length > 0) {
+      parts.push(`BYDAY=${rule.weekdays.map((day) => RRULE_DAYS[day]).join(',')}`);
+    }
+
+    return parts.join(';');
+  }
+
+  /**
+   * Normalize a recurrence payload (structured object or { rrule }) into a rule
+   */
+  static normalize(input: any): RecurrenceRule {
+    if (!input) {
+      throw new Error('Recurrence rule is required');
+    }
+
+    const rule: RecurrenceRule = input.rrule
+      ? RecurrenceService.parseRRule(input.rrule)
+      : {
+          frequency: input.frequency,
+          interval: parseInt(input.interval, 10) || 1,
+          count: input.count ? parseInt(input.count, 10) : undefined,
+          until: input.until ? new Date(input.until) : undefined,
+          weekdays: Array.isArray(input.weekdays) ? input.weekdays.map((day: any) => parseInt(day, 10)) : undefined
+        };
+
+    if (!['daily', 'weekly', 'monthly'].includes(rule.frequency)) {
+      throw new Error('Recurrence frequency must be daily, weekly or monthly');
+    }
+
+    if (!rule.count && !rule.until) {
+      throw new Error('Recurrence requires either a count or an until date');
+    }
+
+    if (rule.weekdays && rule.weekdays.some((day) => day < 0 || day > 6 || isNaN(day))) {
+      throw new Error('Recurrence weekdays must be between 0 (Sunday) and 6 (Saturday)');
+    }
+
+    return rule;
+  }
+
+  /**
+   * Expand a rule into concrete occurrence start times. No occurrence falls before
+   * `start`, and every occurrence keeps its wall-clock time in the clinic's timezone.
+   */
+  static generateOccurrences(rule: RecurrenceRule, start: Date, timezone?: string): Date[] {
+    const interval = Math.max(1, rule.interval || 1);
+    const limit = Math.min(rule.count || MAX_SERIES_OCCURRENCES, MAX_SERIES_OCCURRENCES);
+    const until = rule.until ? new Date(rule.until).getTime() : Infinity;
+    // Calendar steps are taken on the wall clock so a DST switch does not shift the time of day
+    const first = TimezoneService.toWallClock(new Date(start), timezone);
+    const occurrences: Date[] = [];
+
+    const push = (wallClock: Date): boolean => {
+      const date = TimezoneService.fromWallClock(wallClock, timezone);
+      if (date.getTime() > until || occurrences.length >= limit) {
+        return false;
+      }
+      occurrences.push(date);
+      return true;
+    };
+
+    if (rule.frequency === 'daily') {
+      for (let index = 0; ; index++) {
+        const date = new Date(first);
+        date.setUTCDate(first.getUTCDate() + index * interval);
+        if (!push(date)) break;
+      }
+      return occurrences;
+    }
+
+    if (rule.frequency === 'weekly') {
+      const weekdays = (rule.weekdays && rule.weekdays.length > 0 ? [...rule.weekdays] : [first.getUTCDay()])
+        .sort((a, b) => a - b);
+      const weekStart = new Date(first);
+      weekStart.setUTCDate(first.getUTCDate() - first.getUTCDay());
+
+      for (let week = 0; ; week += interval) {
+        let stop = false;
+        for (const weekday of weekdays) {
+          const date = new Date(weekStart);
+          date.setUTCDate(weekStart.getUTCDate() + week * 7 + weekday);
+          if (date < first) continue;
+          if (!push(date)) {
+            stop = true;
+            break;
+          }
+        }
+        if (stop) break;
+      }
+      return occurrences;
+    }
+
+    // Monthly: same day of month, skipping months that do not have that day
+    const dayOfMonth = first.getUTCDate();
+    for (let month = 0; month < limit * interval * 2 + 24; month += interval) {
+      const date = new Date(first);
+      date.setUTCDate(1);
+      date.setUTCMonth(first.getUTCMonth() + month);
+      if (new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0)).getUTCDate() < dayOfMonth) continue;
+      date.setUTCDate(dayOfMonth);
+      if (!push(date)) break;
+    }
+
+    return occurrences;
+  }
+}
+
+export default RecurrenceService;
@@ -0,0 +1,521 @@
+import mongoose from 'mongoose';
+import {
+  Appointment,
+  IAppointment,
+  Resource,
+  IResource,
+  ResourceKind,
+  ResourceLock,
+  Service,
+  IServiceResourceRequirement
+} from '../models';
+import { TimezoneService } from './timezone';
+
+type ObjectIdLike = mongoose.Types.ObjectId | string;
+
+export interface ResourceConflict {
+  type: string;
+  resource_id?: mongoose.Types.ObjectId;
+  user_id?: mongoose.Types.ObjectId; // Staff member booked elsewhere ('overlap') or being booked ('busy')
+  reason: 'not_found' | 'outside_working_hours' | 'at_capacity' | 'insufficient' | 'busy' | 'overlap';
+  message: string;
+  appointment_ids?: mongoose.Types.ObjectId[];
+}
+
+export interface ResourceAllocationResult {
+  available: boolean;
+  message?: string;
+  resource_ids: mongoose.Types.ObjectId[];
+  conflicts: ResourceConflict[];
+}
+
+// Resources and their bookings around an interval - loaded once, then allocated against without further queries
+export interface ResourceContext {
+  resources: IResource[];
+  bookings: IAppointment[];
+  timezone: string; // The clinic's - resource hours are wall-clock times there
+}
+
+export interface ResourceAllocationParams {
+  tenant_id: ObjectIdLike;
+  clinic_id: ObjectIdLike;
+  start: Date;
+  duration: number;
+  service_id?: ObjectIdLike;
+  resource_ids?: ObjectIdLike[]; // Explicitly chosen resources - count towards the service's requirements
+  exclude_appointment_id?: ObjectIdLike | ObjectIdLike[];
+}
+
+export interface ReservationParams extends ResourceAllocationParams {
+  staff_ids?: ObjectIdLike[]; // Staff the appointment books - no one else may book them meanwhile
+}
+
+export type ReservationResult<T> =
+  | { reserved: true; result: T }
+  | { reserved: false; allocation: ResourceAllocationResult };
+
+// Longest appointment the Appointment schema allows - bounds the booking lookups
+const LONGEST_APPOINTMENT_MINUTES = 240;
+
+const LOCK_TTL_MS = 10 * 1000;
+const LOCK_ATTEMPTS = 20;
+const LOCK_RETRY_DELAY_MS = 50;
+
+const WEEK_DAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'] as const;
+
+const uniqueIds = (ids: ObjectIdLike[] = []): string[] => Array.from(new Set(ids.map(id => id.toString()))).sort();
+
+const bookingEnd = (booking: IAppointment): number => booking.appointment_date.getTime() + booking.duration * 60000;
+
+const excludeAppointments = (filter: any, exclude?: ObjectIdLike | ObjectIdLike[]): void => {
+  if (Array.isArray(exclude)) {
+    filter._id = { $nin: exclude };
+  } else if (exclude) {
+    filter._id = { $ne: exclude };
+  }
+};
+
+export class ResourceService {
+  static async getRequirements(
+    tenant_id: ObjectIdLike,
+    clinic_id: ObjectIdLike,
+    service_id?: ObjectIdLike
+  ): Promise<IServiceResourceRequirement[]> {
+    if (!service_id) return [];
+
+    const service = await Service.findOne({ _id: service_id, tenant_id, clinic_id }).select('requiredResources').lean();
+    return service?.requiredResources || [];
+  }
+
+  /**
+   * Hours a resource is usable on the day of `date`. Days without their own hours are open all day
+   * (the doctor and clinic hours still apply); null when the resource is off that day.
+   */
+  static getDayWindow(resource: IResource, date: Date, timezone?: string): { start: Date; end: Date } | null {
+    const { start: day, end: dayEnd } = TimezoneService.getDayRange(date, timezone);
+    const hours = resource.working_hours?.[WEEK_DAYS[TimezoneService.getWeekDayIndex(day, timezone)]];
+
+    if (!hours || !hours.start) {
+      return { start: day, end: dayEnd };
+    }
+    if (!hours.isWorking) {
+      return null;
+    }
+
+    const toMinutes = (value: string) => {
+      const [h, m] = value.split(':').map(part => parseInt(part, 10) || 0);
+      return h * 60 + m;
+    };
+
+    return {
+      start: TimezoneService.atMinutes(day, toMinutes(hours.start), timezone),
+      end: TimezoneService.atMinutes(day, toMinutes(hours.end), timezone)
+    };
+  }
+
+  /**
+   * Most bookings holding a resource at any one moment of [start, end)
+   */
+  static getPeakLoad(bookings: IAppointment[], resourceId: ObjectIdLike, start: Date, end: Date): { load: number; appointment_ids: mongoose.Types.ObjectId[] } {
+    const id = resourceId.toString();
+    const overlapping = bookings.filter(booking =>
+      booking.resource_ids.some(bookedId => bookedId.toString() === id) &&
+      booking.appointment_date.getTime() < end.getTime() &&
+      bookingEnd(booking) > start.getTime()
+    );
+
+    // Concurrency only rises where an interval starts, so those are the only moments to count
+    const moments = [start.getTime(), ...overlapping.map(booking => booking.appointment_date.getTime())]
+      .filter(moment => moment >= start.getTime() && moment < end.getTime());
+
+    const load = Math.max(0, ...moments.map(moment =>
+      overlapping.filter(booking => booking.appointment_date.getTime() <= moment && bookingEnd(booking) > moment).length
+    ));
+
+    return { load, appointment_ids: overlapping.map(booking => booking._id as mongoose.Types.ObjectId) };
+  }
+
+  static async loadContext(params: {
+    tenant_id: ObjectIdLike;
+    clinic_id: ObjectIdLike;
+    start: Date;
+    end: Date;
+    types?: string[];
+    resource_ids?: ObjectIdLike[];
+    exclude_appointment_id?: ObjectIdLike | ObjectIdLike[];
+  }): Promise<ResourceContext> {
+    const [resources, timezone] = await Promise.all([
+      Resource.find({
+        tenant_id: params.tenant_id,
+        clinic_id: params.clinic_id,
+        is_active: true,
+        $or: [
+          { type: { $in: params.types || [] } },
+          { _id: { $in: uniqueIds(params.resource_ids) } }
+        ]
+      }).sort({ name: 1 }),
+      TimezoneService.getClinicTimezone(params.clinic_id)
+    ]);
+
+    if (resources.length === 0) {
+      return { resources, bookings: [], timezone };
+    }
+
+    const filter: any = {
+      tenant_id: params.tenant_id,
+      clinic_id: params.clinic_id,
+      resource_ids: { $in: resources.map(resource => resource._id) },
+      frees_slot: { $ne: true },
+      appointment_date: {
+        $gt: new Date(params.start.getTime() - LONGEST_APPOINTMENT_MINUTES * 60000),
+        $lt: params.end
+      }
+    };
+    excludeAppointments(filter, params.exclude_appointment_id);
+
+    const bookings = await Appointment.find(filter).select('appointment_date duration resource_ids');
+    return { resources, bookings, timezone };
+  }
+
+  /**
+   * Pick resources for [start, end): the explicitly chosen ones must be free, the rest of each
+   * requirement is filled with the least busy matching resources
+   */
+  static allocateFrom(context: ResourceContext, params: {
+    start: Date;
+    end: Date;
+    requirements: IServiceResourceRequirement[];
+    resource_ids?: ObjectIdLike[];
+  }): ResourceAllocationResult {
+    const { start, end } = params;
+    const chosen: IResource[] = [];
+    const conflicts: ResourceConflict[] = [];
+
+    const checkResource = (resource: IResource): ResourceConflict | null => {
+      const window = ResourceService.getDayWindow(resource, start, context.timezone);
+      if (!window || start < window.start || end > window.end) {
+        return {
+          type: resource.type,
+          resource_id: resource._id as mongoose.Types.ObjectId,
+          reason: 'outside_working_hours',
+          message: `${resource.name} is not available at this time`
+        };
+      }
+
+      const { load, appointment_ids } = ResourceService.getPeakLoad(context.bookings, resource._id as mongoose.Types.ObjectId, start, end);
+      if (load >= resource.capacity) {
+        return {
+          type: resource.type,
+          resource_id: resource._id as mongoose.Types.ObjectId,
+          reason: 'at_capacity',
+          message: `${resource.name} is already booked at this time`,
+          appointment_ids
+        };
+      }
+
+      return null;
+    };
+
+    for (const id of uniqueIds(params.resource_ids)) {
+      const resource = context.resources.find(candidate => candidate._id!.toString() === id);
+      if (!resource) {
+        conflicts.push({
+          type: 'unknown',
+          resource_id: new mongoose.Types.ObjectId(id),
+          reason: 'not_found',
+          message: 'Resource not found or inactive'
+        });
+        continue;
+      }
+
+      const conflict = checkResource(resource);
+      if (conflict) {
+        conflicts.push(conflict);
+      } else {
+        chosen.push(resource);
+      }
+    }
+
+    for (const requirement of params.requirements) {
+      const needed = requirement.quantity - chosen.filter(resource => resource.type === requirement.type).length;
+      if (needed <= 0) continue;
+
+      const candidates = context.resources
+        .filter(resource => resource.type === requirement.type && !chosen.includes(resource) && !checkResource(resource))
+        .map(resource => ({
+          resource,
+          load: ResourceService.getPeakLoad(context.bookings, resource._id as mongoose.Types.ObjectId, start, end).load / resource.capacity
+        }))
+        .sort((a, b) => a.load - b.load);
+
+      chosen.push(...candidates.slice(0, needed).map(candidate => candidate.resource));
+
+      if (candidates.length < needed) {
+        conflicts.push({
+          type: requirement.type,
+          reason: 'insufficient',
+          message: candidates.length === 0
+            ? `No ${requirement.type} is free at this time`
+            : `Only ${candidates.length} of ${requirement.quantity} ${requirement.type} resources are free at this time`
+        });
+      }
+    }
+
+    return {
+      available: conflicts.length === 0,
+      message: conflicts.length > 0 ? conflicts.map(conflict => conflict.message).join('; ') : undefined,
+      resource_ids: conflicts.length === 0 ? chosen.map(resource => resource._id as mongoose.Types.ObjectId) : [],
+      conflicts
+    };
+  }
+
+  /**
+   * Allocate the resources an appointment needs - its service's requirements plus any chosen explicitly
+   */
+  static async allocate(params: ResourceAllocationParams): Promise<ResourceAllocationResult> {
+    const requirements = await ResourceService.getRequirements(params.tenant_id, params.clinic_id, params.service_id);
+    if (requirements.length === 0 && uniqueIds(params.resource_ids).length === 0) {
+      return { available: true, resource_ids: [], conflicts: [] };
+    }
+
+    const start = new Date(params.start);
+    const end = new Date(start.getTime() + params.duration * 60000);
+
+    const context = await ResourceService.loadContext({
+      tenant_id: params.tenant_id,
+      clinic_id: params.clinic_id,
+      start,
+      end,
+      types: requirements.map(requirement => requirement.type),
+      resource_ids: params.resource_ids,
+      exclude_appointment_id: params.exclude_appointment_id
+    });
+
+    return ResourceService.allocateFrom(context, { start, end, requirements, resource_ids: params.resource_ids });
+  }
+
+  /**
+   * Run `action` (the appointment save) while holding a lease on each allocated resource and booked
+   * staff member, after re-checking them so concurrent bookings cannot overfill or double-book them
+   */
+  static async reserve<T>(params: ReservationParams, action: () => Promise<T>): Promise<ReservationResult<T>> {
+    const ids = uniqueIds(params.resource_ids);
+    const staffIds = uniqueIds(params.staff_ids);
+    if (ids.length === 0 && staffIds.length === 0) {
+      return { reserved: true, result: await action() };
+    }
+
+    const owner = new mongoose.Types.ObjectId().toString();
+    const locked: string[] = [];
+
+    try {
+      // Always lock in id order so two bookings never wait on each other
+      for (const id of uniqueIds([...ids, ...staffIds])) {
+        if (!(await ResourceService.acquireLock(id, owner))) {
+          const isStaff = staffIds.includes(id);
+          const message = `A ${isStaff ? 'staff member' : 'resource'} is being booked by someone else, please try again`;
+          return {
+            reserved: false,
+            allocation: {
+              available: false,
+              message,
+              resource_ids: [],
+              conflicts: [{
+                type: isStaff ? 'staff' : 'unknown',
+                ...(isStaff ? { user_id: new mongoose.Types.ObjectId(id) } : { resource_id: new mongoose.Types.ObjectId(id) }),
+                reason: 'busy',
+                message
+              }]
+            }
+          };
+        }
+        locked.push(id);
+      }
+
+      const start = new Date(params.start);
+      const end = new Date(start.getTime() + params.duration * 60000);
+
+      if (ids.length > 0) {
+        const context = await ResourceService.loadContext({
+          tenant_id: params.tenant_id,
+          clinic_id: params.clinic_id,
+          start,
+          end,
+          resource_ids: ids,
+          exclude_appointment_id: params.exclude_appointment_id
+        });
+
+        const allocation = ResourceService.allocateFrom(context, { start, end, requirements: [], resource_ids: ids });
+        if (!allocation.available) {
+          return { reserved: false, allocation };
+        }
+      }
+
+      const staffConflicts = await ResourceService.findStaffConflicts({ ...params, start, end }, staffIds);
+      if (staffConflicts.length > 0) {
+        return {
+          reserved: false,
+          allocation: {
+            available: false,
+            message: staffConflicts.map(conflict => conflict.message).join('; '),
+            resource_ids: [],
+            conflicts: staffConflicts
+          }
+        };
+      }
+
+      return { reserved: true, result: await action() };
+    } finally {
+      if (locked.length > 0) {
+        await ResourceLock.deleteMany({ resource_id: { $in: locked }, owner });
+      }
+    }
+  }
+
+  /**
+   * Resources of a clinic with their hours and bookings on one day
+   */
+  static async getDayView(params: {
+    tenant_id: ObjectIdLike;
+    clinic_id: ObjectIdLike;
+    day: string | Date;
+    timezone?: string;
+    type?: string;
+    kind?: ResourceKind;
+  }) {
+    const { start: day, end: dayEnd } = TimezoneService.getDayRange(params.day, params.timezone);
+
+    const resources = await Resource.find({
+      tenant_id: params.tenant_id,
+      clinic_id: params.clinic_id,
+      is_active: true,
+      ...(params.type && { type: params.type }),
+      ...(params.kind && { kind: params.kind })
+    }).sort({ kind: 1, name: 1 });
+
+    const bookings = await Appointment.find({
+      tenant_id: params.tenant_id,
+      clinic_id: params.clinic_id,
+      resource_ids: { $in: resources.map(resource => resource._id) },
+      frees_slot: { $ne: true },
+      appointment_date: {
+        $gt: new Date(day.getTime() - LONGEST_APPOINTMENT_MINUTES * 60000),
+        $lt: dayEnd
+      }
+    })
+    .populate('patient_id', 'first_name last_name')
+    .populate('doctor_id', 'first_name last_name')
+    .sort({ appointment_date: 1 });
+
+    return resources.map(resource => {
+      const id = resource._id!.toString();
+      const resourceBookings = bookings.filter(booking =>
+        bookingEnd(booking) > day.getTime() &&
+        booking.resource_ids.some(bookedId => bookedId.toString() === id)
+      );
+
+      return {
+        resource,
+        working_window: ResourceService.getDayWindow(resource, day, params.timezone),
+        peak_load: ResourceService.getPeakLoad(resourceBookings, id, day, dayEnd).load,
+        bookings: resourceBookings.map(booking => ({
+          appointment_id: booking._id,
+          start: booking.appointment_date,
+          end: new Date(bookingEnd(booking)),
+          status: booking.status,
+          patient: booking.patient_id,
+          doctor: booking.doctor_id,
+          service_id: booking.service_id
+        }))
+      };
+    });
+  }
+
+  /**
+   * Run `action` while holding the lease on one id, e.g. a service whose bookings per day are capped.
+   * Resolves to null when someone else kept the lease for too long.
+   */
+  static async withLease<T>(id: ObjectIdLike, action: () => Promise<T>): Promise<{ result: T } | null> {
+    const owner = new mongoose.Types.ObjectId().toString();
+    if (!(await ResourceService.acquireLock(id.toString(), owner))) {
+      return null;
+    }
+
+    try {
+      return { result: await action() };
+    } finally {
+      await ResourceLock.deleteOne({ resource_id: id, owner });
+    }
+  }
+
+  /**
+   * Staff members already booked during [start, end) - in any clinic of the tenant
+   */
+  private static async findStaffConflicts(params: {
+    tenant_id: ObjectIdLike;
+    start: Date;
+    end: Date;
+    exclude_appointment_id?: ObjectIdLike | ObjectIdLike[];
+  }, staffIds: string[]): Promise<ResourceConflict[]> {
+    if (staffIds.length === 0) return [];
+
+    const filter: any = {
+      tenant_id: params.tenant_id,
+      $or: [
+        { doctor_id: { $in: staffIds } },
+        { nurse_id: { $in: staffIds } },
+        { 'participants.user_id': { $in: staffIds } }
+      ],
+      frees_slot: { $ne: true },
+      appointment_date: {
+        $gt: new Date(params.start.getTime() - LONGEST_APPOINTMENT_MINUTES * 60000),
+        $lt: params.end
+      }
+    };
+    excludeAppointments(filter, params.exclude_appointment_id);
+
+    const bookings = (await Appointment.find(filter).select('appointment_date duration doctor_id nurse_id participants'))
+      .filter(booking => bookingEnd(booking) > params.start.getTime());
+
+    return staffIds.flatMap(id => {
+      const overlapping = bookings.filter(booking =>
+        [booking.doctor_id, booking.nurse_id, ...(booking.participants || []).map(participant => participant.user_id)]
+          .some(userId => userId?.toString() === id)
+      );
+      if (overlapping.length === 0) return [];
+
+      return [{
+        type: 'staff',
+        user_id: new mongoose.Types.ObjectId(id),
+        reason: 'overlap' as const,
+        message: 'A staff member already has an appointment that overlaps this time',
+        appointment_ids: overlapping.map(booking => booking._id as mongoose.Types.ObjectId)
+      }];
+    });
+  }
+
+  /**
+   * Take the lease on a resource or staff member, reclaiming it when the previous holder's lease ran out
+   */
+  private static async acquireLock(resourceId: string, owner: string): Promise<boolean> {
+    for (let attempt = 0; attempt < LOCK_ATTEMPTS; attempt++) {
+      const now = new Date();
+      try {
+        await ResourceLock.findOneAndUpdate(
+          { resource_id: resourceId, expires_at: { $lte: now } },
+          { $set: { owner, expires_at: new Date(now.getTime() + LOCK_TTL_MS) } },
+          { upsert: true }
+        );
+        return true;
+      } catch (error: any) {
+        // The unique resource_id index rejects the upsert while someone else holds the lease
+        if (error.code !== 11000) throw error;
+        await new Promise(resolve => setTimeout(resolve, LOCK_RETRY_DELAY_MS));
+      }
+    }
+
+    return false;
+  }
+}
+
+export default ResourceService;
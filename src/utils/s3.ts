@@ -51,15 +51,31 @@ export class S3Service {
       throw new Error('AWS S3 bucket name is not configured');
     }
 
+    return this.uploadBuffer(file.buffer, file.mimetype, folder, path.extname(file.originalname));
+  }
+
+  /**
+   * Upload raw content (e.g. a decoded signature image) to S3
+   */
+  static async uploadBuffer(
+    buffer: Buffer,
+    contentType: string,
+    folder: string,
+    fileExtension: string = ''
+  ): Promise<string> {
+    const bucketName = process.env.AWS_S3_BUCKET_NAME;
+    if (!bucketName) {
+      throw new Error('AWS S3 bucket name is not configured');
+    }
+
     // Generate unique filename
-    const fileExtension = path.extname(file.originalname);
     const uniqueFilename = `${folder}/${crypto.randomUUID()}${fileExtension}`;
 
     const uploadParams = {
       Bucket: bucketName,
       Key: uniqueFilename,
-      Body: file.buffer,
-      ContentType: file.mimetype,
+      Body: buffer,
+      ContentType: contentType,
       ContentDisposition: 'inline',
       CacheControl: 'max-age=31536000', // 1 year cache
     };
@@ -86,18 +102,25 @@ export class S3Service {
    * Delete a file from S3
    */
   static async deleteFile(fileUrl: string): Promise<void> {
+    // Extract the key from the S3 URL
+    const key = this.extractKeyFromUrl(fileUrl);
+    if (!key) {
+      throw new Error('Failed to delete file from S3');
+    }
+
+    return this.deleteObject(key);
+  }
+
+  /**
+   * Delete an object from S3 by its key
+   */
+  static async deleteObject(key: string): Promise<void> {
     const bucketName = process.env.AWS_S3_BUCKET_NAME;
     if (!bucketName) {
       throw new Error('AWS S3 bucket name is not configured');
     }
 
     try {
-      // Extract the key from the S3 URL
-      const key = this.extractKeyFromUrl(fileUrl);
-      if (!key) {
-        throw new Error('Invalid S3 URL format');
-      }
-
       const deleteParams = {
         Bucket: bucketName,
         Key: key,
@@ -117,7 +140,8 @@ export class S3Service {
    */
   static async getPresignedUrl(
     key: string,
-    expiresIn: number = 3600
+    expiresIn: number = 3600,
+    downloadName?: string // Saved under this name instead of being shown inline
   ): Promise<string> {
     const bucketName = process.env.AWS_S3_BUCKET_NAME;
     if (!bucketName) {
@@ -129,6 +153,9 @@ export class S3Service {
       const command = new GetObjectCommand({
         Bucket: bucketName,
         Key: key,
+        ...(downloadName && {
+          ResponseContentDisposition: `attachment; filename*=UTF-8''${encodeURIComponent(downloadName)}`
+        }),
       });
 
       return await getSignedUrl(s3Client, command, { expiresIn });
@@ -141,7 +168,7 @@ export class S3Service {
   /**
    * Extract S3 key from full S3 URL
    */
-  private static extractKeyFromUrl(url: string): string | null {
+  static extractKeyFromUrl(url: string): string | null {
     try {
       // Handle both path-style and virtual-hosted-style URLs
       const urlObj = new URL(url);
@@ -0,0 +1,364 @@
+import mongoose, { Schema } from 'mongoose';
+import { FieldEncryptionService } from './fieldEncryption';
+
+// Fields of a searchable model that feed its search tokens
+export interface SearchFields {
+  names: string[];
+  phones?: string[];
+  emails?: string[];
+}
+
+export interface SearchMatch<T = any> {
+  document: T;
+  score: number; // 0-100
+  matched_on: string[];
+}
+
+export interface SearchOptions {
+  limit?: number;
+  exact?: Record<string, any>[]; // Conditions that count as a full hit (e.g. MRN or invoice number)
+}
+
+interface ParsedQuery {
+  names: string[];
+  keys: string[]; // Sound key of each name token
+  digits: string;
+  email: string;
+}
+
+interface NameToken {
+  name: string;
+  key: string;
+}
+
+const SEARCH_FIELDS = new WeakMap<Schema, SearchFields>();
+
+const MAX_CANDIDATES = 500;
+export const MIN_SEARCH_SCORE = 50;
+const MIN_PHONE_DIGITS = 3;
+
+// Particles that carry no identity - "Al-Rashid" and "Rashid" are the same family name
+const IGNORED_TOKENS = new Set(['al', 'el', 'bin', 'ibn', 'bint', 'ال', 'بن', 'بنت']);
+
+// Joined to the next word - "Abdul Rahman", "Abdulrahman" and "عبد الرحمن" are one name
+const COMPOUND_PREFIXES = new Set(['abd', 'abdel', 'abdul', 'abdal', 'abu', 'abou', 'عبد', 'ابو']);
+
+// Arabic letters and the Latin consonant they are usually transliterated with (vowels and glottals drop)
+const ARABIC_SOUNDS: Record<string, string> = {
+  'ا': '', 'ء': '', 'ع': '', 'ب': 'b', 'ت': 't', 'ث': 't', 'ج': 'g', 'ح': 'h', 'خ': 'k', 'د': 'd', 'ذ': 'd',
+  'ر': 'r', 'ز': 'z', 'س': 's', 'ش': 's', 'ص': 's', 'ض': 'd', 'ط': 't', 'ظ': 'z', 'غ': 'g', 'ف': 'f',
+  'ق': 'k', 'ك': 'k', 'ل': 'l', 'م': 'm', 'ن': 'n', 'ه': 'h', 'و': 'w', 'ي': 'y'
+};
+
+// Latin spellings reduced to the same consonants ("Khaled"/"Kaled", "Jamal"/"Gamal", "Qasim"/"Kasim")
+const LATIN_SOUNDS: [RegExp, string][] = [
+  [/kh/g, 'k'], [/gh/g, 'g'], [/sh|ch/g, 's'], [/th/g, 't'], [/dh/g, 'd'], [/ph/g, 'f'],
+  [/ck|q|c/g, 'k'], [/x/g, 'ks'], [/j/g, 'g'], [/v/g, 'f'], [/p/g, 'b']
+];
+
+const ARABIC_SCRIPT = /[\u0600-\u06FF]/;
+
+const escapeRegex = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const reverse = (value: string): string => value.split('').reverse().join('');
+
+const mean = (values: number[]): number => values.reduce((sum, value) => sum + value, 0) / (values.length || 1);
+
+const getPath = (doc: any, path: string): any =>
+  doc?.get ? doc.get(path) : path.split('.').reduce((value, key) => value?.[key], doc);
+
+/**
+ * Name, phone and email search that tolerates partial numbers, typos and the many spellings of
+ * Arabic names, in either script. Models opt in with `searchable`, which keeps their search tokens.
+ */
+export class SearchService {
+  /**
+   * Lowercase text without accents or Arabic diacritics, with the Arabic letter variants people
+   * use interchangeably folded together (أ/إ/آ -> ا, ى -> ي, ة -> ه, ؤ -> و, ئ -> ي) and Arabic digits as ASCII
+   */
+  static normalize(text?: string | null): string {
+    return (text || '')
+      .replace(/[\u0660-\u0669]/g, digit => String(digit.charCodeAt(0) - 0x0660))
+      .replace(/[\u06F0-\u06F9]/g, digit => String(digit.charCodeAt(0) - 0x06F0))
+      .normalize('NFD')
+      .replace(/[\u0300-\u036F\u064B-\u065F\u0670\u0640\u0621]/g, '')
+      .replace(/\u0671/g, '\u0627') // Alef wasla
+      .replace(/\u0649/g, '\u064A') // Alef maqsura
+      .replace(/\u0629/g, '\u0647') // Taa marbuta
+      .toLowerCase();
+  }
+
+  static normalizeDigits(text?: string | null): string {
+    return SearchService.normalize(text).replace(/\D/g, '');
+  }
+
+  /**
+   * Name words as compared by search: particles dropped, compound names joined, the Arabic article removed
+   */
+  static tokenize(text?: string | null): string[] {
+    const words = SearchService.normalize(text).split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+    const tokens: string[] = [];
+
+    for (let i = 0; i < words.length; i++) {
+      const word = words[i];
+      if (COMPOUND_PREFIXES.has(word) && words[i + 1]) {
+        tokens.push(word + words[i + 1]);
+        continue;
+      }
+      if (IGNORED_TOKENS.has(word)) continue;
+      tokens.push(/^ال/.test(word) && word.length >= 5 ? word.slice(2) : word);
+    }
+    return Array.from(new Set(tokens));
+  }
+
+  /**
+   * Consonant skeleton of a name token, the same for its Arabic and common Latin spellings:
+   * "Mohammed", "Muhammad" and "محمد" all give "mhmd"
+   */
+  static soundKey(token: string): string {
+    let letters: string[];
+
+    if (ARABIC_SCRIPT.test(token)) {
+      // A final ha is almost always a silent taa marbuta ("فاطمة" - "Fatima")
+      letters = token.replace(/ه$/, '').split('').map(letter => ARABIC_SOUNDS[letter] ?? '');
+    } else {
+      let latin = token.replace(/[^a-z]/g, '').replace(/([aeiou])h$/, '$1');
+      for (const [pattern, sound] of LATIN_SOUNDS) {
+        latin = latin.replace(pattern, sound);
+      }
+      letters = latin.split('').map(letter => 'aeiou'.includes(letter) ? '' : letter);
+    }
+
+    // W and Y are vowels except at the start of a name ("Yousef" / "يوسف")
+    return letters
+      .map((letter, index) => index > 0 && (letter === 'w' || letter === 'y') ? '' : letter)
+      .join('')
+      .replace(/(.)\1+/g, '$1');
+  }
+
+  /**
+   * Similarity of two strings between 0 and 1 (1 - Levenshtein distance / longer length)
+   */
+  static similarity(a: string, b: string): number {
+    if (!a || !b) return 0;
+    if (a === b) return 1;
+
+    let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+    for (let i = 1; i <= a.length; i++) {
+      const current = [i];
+      for (let j = 1; j <= b.length; j++) {
+        current[j] = Math.min(
+          previous[j] + 1,
+          current[j - 1] + 1,
+          previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+        );
+      }
+      previous = current;
+    }
+    return 1 - previous[b.length] / Math.max(a.length, b.length);
+  }
+
+  /**
+   * Stored search tokens of a document: n:<name>, p:<sound key> and d:<phone digits reversed>, so
+   * name prefixes and phone suffixes are both index-friendly prefix matches
+   */
+  static buildTokens(doc: any, fields: SearchFields): string[] {
+    const names = SearchService.tokenize(fields.names.map(field => getPath(doc, field) || '').join(' '));
+    const phones = (fields.phones || [])
+      .filter(field => !FieldEncryptionService.isCiphertext(getPath(doc, field)))
+      .map(field => SearchService.normalizeDigits(getPath(doc, field)))
+      .filter(Boolean);
+
+    return Array.from(new Set([
+      ...names.map(name => `n:${name}`),
+      ...names.map(SearchService.soundKey).filter(Boolean).map(key => `p:${key}`),
+      ...phones.map(digits => `d:${reverse(digits)}`)
+    ]));
+  }
+
+  static parseQuery(query: string): ParsedQuery {
+    const normalized = SearchService.normalize(query).trim();
+    const email = normalized.match(/\S*@\S*/)?.[0] || '';
+    const rest = email ? normalized.replace(email, ' ') : normalized;
+    const digits = rest.replace(/\D/g, '');
+    const names = SearchService.tokenize(rest.replace(/\d/g, ' '));
+
+    return {
+      names,
+      keys: names.map(SearchService.soundKey),
+      // Leading zeros are trunk and international prefixes - the number is matched on its end
+      digits: digits.length >= MIN_PHONE_DIGITS ? digits.replace(/^0+/, '') : '',
+      email
+    };
+  }
+
+  static getFields(model: mongoose.Model<any>): SearchFields | undefined {
+    return SEARCH_FIELDS.get(model.schema);
+  }
+
+  /**
+   * Fields the search tokens are built from
+   */
+  static getTokenFields(model: mongoose.Model<any>): SearchFields | undefined {
+    const fields = SearchService.getFields(model);
+    return fields && tokenFields(model.schema, fields);
+  }
+
+  /**
+   * Ranked matches of a query among the documents of a searchable model that satisfy the filter
+   */
+  static async search<T = any>(
+    model: mongoose.Model<T>,
+    filter: Record<string, any>,
+    query: string,
+    options: SearchOptions = {}
+  ): Promise<SearchMatch<T>[]> {
+    const fields = SearchService.getFields(model);
+    if (!fields) {
+      throw new Error(`${model.modelName} is not searchable`);
+    }
+
+    const parsed = SearchService.parseQuery(query);
+    const exact = options.exact || [];
+    // Encrypted numbers are only found whole, through their blind index
+    const encryptedPhones = (fields.phones || []).filter(field => FieldEncryptionService.isEncrypted(model, field));
+    const limit = options.limit || MAX_CANDIDATES;
+
+    const conditions: Record<string, any>[] = [
+      ...parsed.names.map(name => ({ search_tokens: { $regex: `^n:${escapeRegex(name)}` } })),
+      ...parsed.keys.filter(Boolean).map(key => ({ search_tokens: { $regex: `^p:${escapeRegex(key)}` } })),
+      ...(parsed.digits ? [{ search_tokens: { $regex: `^d:${reverse(parsed.digits)}` } }] : []),
+      ...(parsed.digits ? encryptedPhones.map(field => ({ [field]: parsed.digits })) : []),
+      ...(parsed.email ? (fields.emails || []).map(field => ({ [field]: { $regex: `^${escapeRegex(parsed.email)}` } })) : []),
+      ...exact
+    ];
+    if (conditions.length === 0) return [];
+
+    let candidates = await model.find({ ...filter, $or: conditions }).limit(MAX_CANDIDATES);
+
+    // Typos past the first letters: widen to names sounding alike at the start
+    if (candidates.length < limit) {
+      const loose = parsed.keys
+        .filter(key => key.length >= 3)
+        .map(key => ({ search_tokens: { $regex: `^p:${escapeRegex(key.slice(0, 2))}` } }));
+      if (loose.length > 0) {
+        const seen = candidates.map((doc: any) => doc._id);
+        candidates = candidates.concat(await model.find({ ...filter, _id: { $nin: seen }, $or: loose }).limit(MAX_CANDIDATES));
+      }
+    }
+
+    const exactIds = new Set<string>();
+    if (exact.length > 0) {
+      const ids = await model.find({ ...filter, $or: exact }).limit(MAX_CANDIDATES).distinct('_id');
+      ids.forEach(id => exactIds.add(String(id)));
+    }
+
+    return candidates
+      .map(doc => exactIds.has(String((doc as any)._id))
+        ? { document: doc as T, score: 100, matched_on: ['reference'] }
+        : { document: doc as T, ...SearchService.score(doc, parsed, fields) })
+      .filter(match => match.score >= MIN_SEARCH_SCORE)
+      .sort((a, b) => b.score - a.score ||
+        (getPath(b.document, 'created_at')?.getTime?.() || 0) - (getPath(a.document, 'created_at')?.getTime?.() || 0))
+      .slice(0, limit);
+  }
+
+  /**
+   * How well a document matches a parsed query, 0-100, averaged over the parts of the query
+   */
+  static score(doc: any, parsed: ParsedQuery, fields: SearchFields): { score: number; matched_on: string[] } {
+    const parts: number[] = [];
+    const matched_on: string[] = [];
+
+    if (parsed.names.length > 0) {
+      const tokens: NameToken[] = SearchService.tokenize(fields.names.map(field => getPath(doc, field) || '').join(' '))
+        .map(name => ({ name, key: SearchService.soundKey(name) }));
+      const name = mean(parsed.names.map((query, i) =>
+        Math.max(0, ...tokens.map(token => SearchService.compareToken(query, parsed.keys[i], token)))
+      ));
+      parts.push(name);
+      if (name > 0) matched_on.push('name');
+    }
+
+    if (parsed.digits) {
+      const phones = (fields.phones || []).map(field => SearchService.normalizeDigits(getPath(doc, field)));
+      const phone = phones.some(digits => digits.endsWith(parsed.digits)) ? 1
+        : phones.some(digits => digits.includes(parsed.digits)) ? 0.6 : 0;
+      parts.push(phone);
+      if (phone > 0) matched_on.push('phone');
+    }
+
+    if (parsed.email) {
+      const email = (fields.emails || []).some(field => (getPath(doc, field) || '').toLowerCase().startsWith(parsed.email)) ? 1 : 0;
+      parts.push(email);
+      if (email > 0) matched_on.push('email');
+    }
+
+    return { score: Math.round(mean(parts) * 100), matched_on };
+  }
+
+  // Best match of one query word against one name word, 0-1
+  private static compareToken(query: string, queryKey: string, token: NameToken): number {
+    if (token.name === query) return 1;
+    if (query.length >= 2 && token.name.startsWith(query)) return 0.9;
+    if (queryKey && token.key === queryKey) return 0.85;
+    if (queryKey.length >= 2 && token.key.startsWith(queryKey)) return 0.75;
+
+    const spelling = SearchService.similarity(query, token.name);
+    const sound = queryKey.length >= 3 ? SearchService.similarity(queryKey, token.key) : 0;
+    return Math.max(spelling >= 0.7 ? spelling * 0.8 : 0, sound >= 0.75 ? sound * 0.7 : 0);
+  }
+}
+
+// Encrypted phone numbers stay out of the tokens, which would give them away
+const tokenFields = (schema: Schema, fields: SearchFields): SearchFields => FieldEncryptionService.isEnabled()
+  ? { ...fields, phones: (fields.phones || []).filter(field => !FieldEncryptionService.isEncrypted(schema, field)) }
+  : fields;
+
+/**
+ * Make a model searchable with SearchService: keeps its search_tokens in step with the given
+ * fields on save and on findOneAndUpdate / updateOne
+ */
+export const searchable = (schema: Schema, fields: SearchFields): void => {
+  SEARCH_FIELDS.set(schema, fields);
+  const paths = [...fields.names, ...(fields.phones || [])];
+
+  schema.add({ search_tokens: { type: [String], select: false } });
+  schema.index({ tenant_id: 1, search_tokens: 1 });
+
+  schema.pre('save', function(this: any, next) {
+    if (this.isNew || paths.some(path => this.isModified(path))) {
+      this.search_tokens = SearchService.buildTokens(this, tokenFields(schema, fields));
+    }
+    next();
+  });
+
+  schema.pre(['findOneAndUpdate', 'updateOne'], async function(this: any, next) {
+    try {
+      const update: any = this.getUpdate() || {};
+      const keys = Object.keys({ ...update, ...update.$set, ...update.$unset });
+      const touched = keys.some(key => paths.some(path => key === path || key.startsWith(`${path}.`) || path.startsWith(`${key}.`)));
+      this._search_target = touched ? await this.model.findOne(this.getQuery()).select('_id').lean() : null;
+      next();
+    } catch (error: any) {
+      next(error);
+    }
+  });
+
+  schema.post(['findOneAndUpdate', 'updateOne'], async function(this: any) {
+    const target = this._search_target;
+    if (!target) return;
+
+    try {
+      const doc = await this.model.findById(target._id).lean();
+      if (doc) {
+        // Straight to the collection - the tokens are derived and must not trigger these hooks again
+        await this.model.collection.updateOne({ _id: target._id }, { $set: { search_tokens: SearchService.buildTokens(doc, tokenFields(schema, fields)) } });
+      }
+    } catch (error) {
+      console.error('Search tokens update error:', error);
+    }
+  });
+};
+
+export default SearchService;
@@ -0,0 +1,174 @@
+import mongoose from 'mongoose';
+import { Appointment, AppointmentStatus, IAppointment, IAppointmentStatus, IUser, LEGACY_STATUS_FLAGS, StatusFlags, resolveStatusFlags, resolveVisitStage } from '../models';
+import { hasPermission } from '../middleware/permission';
+import { ConsentService } from './consents';
+
+type ObjectIdLike = mongoose.Types.ObjectId | string;
+
+export type StatusFlag = keyof StatusFlags;
+
+export type TransitionRejection = 'unknown_status' | 'terminal' | 'not_allowed' | 'forbidden' | 'missing_fields' | 'missing_consent';
+
+export interface TransitionCheckParams {
+  tenant_id: ObjectIdLike;
+  clinic_id: ObjectIdLike;
+  from: string;
+  to: string;
+  user?: IUser;
+  data?: Record<string, any>; // Request body - checked for the transition's required fields
+  appointment?: IAppointment; // Checked for unsigned required consents when the visit is being finished
+}
+
+export interface TransitionRejectionResult {
+  allowed: false;
+  reason: TransitionRejection;
+  http_status: number;
+  message: string;
+  allowed_transitions?: string[];
+  missing_fields?: string[];
+  missing_consents?: { patient_id: string; code: string; title?: string }[];
+}
+
+export type TransitionCheckResult =
+  | { allowed: true; status: IAppointmentStatus; flags: StatusFlags }
+  | TransitionRejectionResult;
+
+// Roles that bypass per-transition role and permission requirements, as in autoPermissionGuard
+const BYPASS_ROLES = ['super_admin', 'admin'];
+
+const HTTP_STATUS: Record<TransitionRejection, number> = {
+  unknown_status: 400,
+  terminal: 409,
+  not_allowed: 409,
+  forbidden: 403,
+  missing_fields: 400,
+  missing_consent: 409
+};
+
+export class StatusWorkflowService {
+  static async getFlags(tenant_id: ObjectIdLike, clinic_id: ObjectIdLike, code: string): Promise<StatusFlags> {
+    const status = await AppointmentStatus.findOne({ tenant_id, clinic_id, code }).lean();
+    return resolveStatusFlags(code, status);
+  }
+
+  /**
+   * Active status codes of a clinic that carry a flag, e.g. every code that frees the slot.
+   * Built-in codes the clinic never configured keep their usual flags.
+   */
+  static async getCodesWithFlag(tenant_id: ObjectIdLike, clinic_id: ObjectIdLike, flag: StatusFlag): Promise<string[]> {
+    const statuses = await AppointmentStatus.find({ tenant_id, clinic_id }).lean();
+    const configured = statuses
+      .filter(status => status.is_active && resolveStatusFlags(status.code, status)[flag])
+      .map(status => status.code);
+    const legacy = Object.keys(LEGACY_STATUS_FLAGS)
+      .filter(code => LEGACY_STATUS_FLAGS[code][flag] && !statuses.some(status => status.code === code));
+
+    return [...configured, ...legacy];
+  }
+
+  /**
+   * Code the cancel endpoints move appointments to - the first active status counting as cancelled
+   */
+  static async getCancelledStatusCode(tenant_id: ObjectIdLike, clinic_id: ObjectIdLike): Promise<string> {
+    const statuses = await AppointmentStatus.find({ tenant_id, clinic_id, is_active: true })
+      .sort({ order: 1 })
+      .lean();
+
+    const cancelled = statuses.find(status => resolveStatusFlags(status.code, status).counts_as_cancelled);
+    return cancelled ? cancelled.code : 'cancelled';
+  }
+
+  /**
+   * Re-copy a status's frees_slot flag onto its appointments after the flag was changed.
+   * Throws a duplicate key error (11000) when reactivated slots would double-book a doctor.
+   */
+  static async syncAppointmentSlots(tenant_id: ObjectIdLike, clinic_id: ObjectIdLike, code: string, freesSlot: boolean): Promise<number> {
+    try {
+      const result = await Appointment.updateMany(
+        { tenant_id, clinic_id, status: code, frees_slot: { $ne: freesSlot } },
+        { $set: { frees_slot: freesSlot } }
+      );
+      return result.modifiedCount;
+    } catch (error) {
+      // Undo the partial update - releasing slots again can never clash
+      if (!freesSlot) {
+        await Appointment.updateMany({ tenant_id, clinic_id, status: code }, { $set: { frees_slot: true } });
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Check a status change against the clinic's workflow.
+   * A status without configured transitions may move anywhere unless it is terminal.
+   */
+  static async checkTransition(params: TransitionCheckParams): Promise<TransitionCheckResult> {
+    const { tenant_id, clinic_id, from, to, user, data = {}, appointment } = params;
+
+    const target = await AppointmentStatus.findOne({ tenant_id, clinic_id, code: to, is_active: true });
+    if (!target) {
+      return StatusWorkflowService.reject('unknown_status', `Status '${to}' does not exist or is not active for this clinic`);
+    }
+
+    if (from === to) {
+      return { allowed: true, status: target, flags: resolveStatusFlags(to, target) };
+    }
+
+    const source = await AppointmentStatus.findOne({ tenant_id, clinic_id, code: from });
+    const sourceFlags = resolveStatusFlags(from, source);
+
+    if (sourceFlags.is_terminal) {
+      return StatusWorkflowService.reject('terminal', `Appointments in status '${from}' can no longer change status`);
+    }
+
+    const transitions = source?.transitions || [];
+    if (transitions.length > 0) {
+      const transition = transitions.find(candidate => candidate.to === to);
+
+      if (!transition) {
+        return StatusWorkflowService.reject('not_allowed', `Cannot change status from '${from}' to '${to}'`, {
+          allowed_transitions: transitions.map(candidate => candidate.to)
+        });
+      }
+
+      const bypass = !!user && BYPASS_ROLES.includes(user.role);
+
+      if (!bypass && transition.roles.length > 0 && (!user || !transition.roles.includes(user.role))) {
+        return StatusWorkflowService.reject('forbidden', `Only ${transition.roles.join(', ')} can change status from '${from}' to '${to}'`);
+      }
+
+      if (!bypass && transition.permission &&
+          (!user || !(await hasPermission(user._id.toString(), clinic_id.toString(), transition.permission)))) {
+        return StatusWorkflowService.reject('forbidden', `Permission '${transition.permission}' is required to change status from '${from}' to '${to}'`);
+      }
+
+      const missing = transition.required_fields.filter(field => !data[field] || !String(data[field]).trim());
+      if (missing.length > 0) {
+        return StatusWorkflowService.reject('missing_fields', `${missing.join(', ')} ${missing.length > 1 ? 'are' : 'is'} required to change status to '${to}'`, {
+          missing_fields: missing
+        });
+      }
+    }
+
+    if (appointment && resolveVisitStage(to, target) === 'finished') {
+      const missing = await ConsentService.getMissingConsents(appointment);
+      if (missing.length > 0) {
+        return StatusWorkflowService.reject('missing_consent', `Consent must be signed before the visit is completed: ${missing.map(item => item.title || item.code).join(', ')}`, {
+          missing_consents: missing.map(item => ({ patient_id: item.patient_id.toString(), code: item.code, title: item.title }))
+        });
+      }
+    }
+
+    return { allowed: true, status: target, flags: resolveStatusFlags(to, target) };
+  }
+
+  private static reject(
+    reason: TransitionRejection,
+    message: string,
+    details: Pick<TransitionRejectionResult, 'allowed_transitions' | 'missing_fields' | 'missing_consents'> = {}
+  ): TransitionRejectionResult {
+    return { allowed: false, reason, http_status: HTTP_STATUS[reason], message, ...details };
+  }
+}
+
+export default StatusWorkflowService;
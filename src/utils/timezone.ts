@@ -0,0 +1,191 @@
+import mongoose from 'mongoose';
+import Clinic from '../models/Clinic';
+
+// Used when a clinic has no (or an unknown) timezone - keeps the old server-local behaviour
+const SERVER_TIMEZONE = Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const getFormatter = (timezone: string): Intl.DateTimeFormat => {
+  let formatter = formatters.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit'
+    });
+    formatters.set(timezone, formatter);
+  }
+  return formatter;
+};
+
+const pad = (value: number): string => String(value).padStart(2, '0');
+
+export interface LocalizedTime {
+  timezone: string;
+  local: string; // ISO 8601 with the clinic's UTC offset, e.g. 2026-03-01T09:30:00+03:00
+  date: string; // YYYY-MM-DD
+  time: string; // HH:mm
+}
+
+/**
+ * Calendar arithmetic in a clinic's timezone. Dates are always stored in UTC; a "wall clock" date is a
+ * Date whose UTC fields hold the clinic's local date and time, so it can be manipulated with the UTC methods.
+ */
+export class TimezoneService {
+  static isValid(timezone?: string | null): boolean {
+    if (!timezone) return false;
+    try {
+      getFormatter(timezone);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  static resolve(timezone?: string | null): string {
+    return timezone && TimezoneService.isValid(timezone) ? timezone : SERVER_TIMEZONE;
+  }
+
+  static forClinic(clinic?: { settings?: { timezone?: string } } | null): string {
+    return TimezoneService.resolve(clinic?.settings?.timezone);
+  }
+
+  static async getClinicTimezone(clinic_id: string | mongoose.Types.ObjectId): Promise<string> {
+    const clinic = await Clinic.findById(clinic_id).select('settings.timezone').lean();
+    return TimezoneService.forClinic(clinic as any);
+  }
+
+  static toWallClock(date: Date, timezone?: string): Date {
+    const parts: Record<string, number> = {};
+    for (const part of getFormatter(TimezoneService.resolve(timezone)).formatToParts(date)) {
+      if (part.type !== 'literal') {
+        parts[part.type] = parseInt(part.value, 10);
+      }
+    }
+
+    return new Date(Date.UTC(
+      parts.year,
+      parts.month - 1,
+      parts.day,
+      parts.hour,
+      parts.minute,
+      parts.second,
+      date.getUTCMilliseconds()
+    ));
+  }
+
+  /**
+   * Minutes the timezone is ahead of UTC at `date`
+   */
+  static getOffsetMinutes(date: Date, timezone?: string): number {
+    return Math.round((TimezoneService.toWallClock(date, timezone).getTime() - date.getTime()) / 60000);
+  }
+
+  static fromWallClock(wallClock: Date, timezone?: string): Date {
+    const local = wallClock.getTime();
+    const firstOffset = TimezoneService.getOffsetMinutes(new Date(local), timezone);
+    const guess = local - firstOffset * 60000;
+
+    // Around a DST switch the offset at the guess can differ from the one at the wall clock time
+    const offset = TimezoneService.getOffsetMinutes(new Date(guess), timezone);
+    return offset === firstOffset ? new Date(guess) : new Date(local - offset * 60000);
+  }
+
+  /**
+   * Resolve a date or "YYYY-MM-DD" string to midnight of that day in the timezone
+   */
+  static startOfDay(date: string | Date, timezone?: string): Date {
+    if (typeof date === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(date)) {
+      const [year, month, day] = date.split('-').map((part) => parseInt(part, 10));
+      return TimezoneService.fromWallClock(new Date(Date.UTC(year, month - 1, day)), timezone);
+    }
+
+    const wallClock = TimezoneService.toWallClock(new Date(date), timezone);
+    wallClock.setUTCHours(0, 0, 0, 0);
+    return TimezoneService.fromWallClock(wallClock, timezone);
+  }
+
+  /**
+   * Midnight `days` calendar days after the day of `date` (not always 24h apart across DST)
+   */
+  static addDays(date: string | Date, days: number, timezone?: string): Date {
+    const wallClock = TimezoneService.toWallClock(TimezoneService.startOfDay(date, timezone), timezone);
+    wallClock.setUTCDate(wallClock.getUTCDate() + days);
+    return TimezoneService.fromWallClock(wallClock, timezone);
+  }
+
+  /**
+   * Midnight on the 1st of the month `months` away from the month of `date`
+   */
+  static startOfMonth(date: Date, timezone?: string, months = 0): Date {
+    const wallClock = TimezoneService.toWallClock(date, timezone);
+    return TimezoneService.fromWallClock(
+      new Date(Date.UTC(wallClock.getUTCFullYear(), wallClock.getUTCMonth() + months, 1)),
+      timezone
+    );
+  }
+
+  static startOfYear(date: Date, timezone?: string): Date {
+    const wallClock = TimezoneService.toWallClock(date, timezone);
+    return TimezoneService.fromWallClock(new Date(Date.UTC(wallClock.getUTCFullYear(), 0, 1)), timezone);
+  }
+
+  static getDayRange(date: string | Date, timezone?: string): { start: Date; end: Date } {
+    return {
+      start: TimezoneService.startOfDay(date, timezone),
+      end: TimezoneService.addDays(date, 1, timezone)
+    };
+  }
+
+  /**
+   * The moment `minutes` after midnight (wall clock) on the day of `date`
+   */
+  static atMinutes(date: string | Date, minutes: number, timezone?: string): Date {
+    const wallClock = TimezoneService.toWallClock(TimezoneService.startOfDay(date, timezone), timezone);
+    return TimezoneService.fromWallClock(new Date(wallClock.getTime() + minutes * 60000), timezone);
+  }
+
+  static getMinutesOfDay(date: Date, timezone?: string): number {
+    const wallClock = TimezoneService.toWallClock(date, timezone);
+    return wallClock.getUTCHours() * 60 + wallClock.getUTCMinutes();
+  }
+
+  /**
+   * 0 = Sunday ... 6 = Saturday
+   */
+  static getWeekDayIndex(date: Date, timezone?: string): number {
+    return TimezoneService.toWallClock(date, timezone).getUTCDay();
+  }
+
+  static formatDate(date: Date, timezone?: string): string {
+    const wallClock = TimezoneService.toWallClock(date, timezone);
+    return `${wallClock.getUTCFullYear()}-${pad(wallClock.getUTCMonth() + 1)}-${pad(wallClock.getUTCDate())}`;
+  }
+
+  static formatTime(date: Date, timezone?: string): string {
+    const wallClock = TimezoneService.toWallClock(date, timezone);
+    return `${pad(wallClock.getUTCHours())}:${pad(wallClock.getUTCMinutes())}`;
+  }
+
+  static localize(date: Date, timezone?: string): LocalizedTime {
+    const zone = TimezoneService.resolve(timezone);
+    const wallClock = TimezoneService.toWallClock(date, zone);
+    const offset = TimezoneService.getOffsetMinutes(date, zone);
+    const sign = offset < 0 ? '-' : '+';
+
+    return {
+      timezone: zone,
+      local: `${wallClock.toISOString().slice(0, 19)}${sign}${pad(Math.floor(Math.abs(offset) / 60))}:${pad(Math.abs(offset) % 60)}`,
+      date: TimezoneService.formatDate(date, zone),
+      time: TimezoneService.formatTime(date, zone)
+    };
+  }
+}
+
+export default TimezoneService;
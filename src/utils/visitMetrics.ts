@@ -0,0 +1,173 @@
+import mongoose from 'mongoose';
+import {
+  Appointment,
+  AppointmentStatus,
+  IAppointment,
+  IAppointmentStatusChange,
+  LEGACY_VISIT_STAGES,
+  VisitStage,
+  VISIT_STAGES,
+  resolveVisitStage
+} from '../models';
+import { TimezoneService } from './timezone';
+
+type ObjectIdLike = mongoose.Types.ObjectId | string;
+
+// Status codes of a clinic grouped by the visit stage they mark
+export type VisitStageCodes = Record<VisitStage, string[]>;
+
+export interface VisitMetrics {
+  arrived_at: Date | null;
+  started_at: Date | null;
+  finished_at: Date | null;
+  wait_minutes: number | null; // Scheduled time (or later arrival) until the patient was seen - up to now while still waiting
+  chair_minutes: number | null; // Start until finish - up to now while still in the chair
+}
+
+export interface DoctorDayWait {
+  doctor_id: mongoose.Types.ObjectId;
+  doctor_name: string;
+  date: string; // YYYY-MM-DD
+  visits: number;
+  average_wait_minutes: number | null;
+  average_chair_minutes: number | null;
+}
+
+const toMinutes = (from: Date, to: Date): number => Math.max(0, Math.round((to.getTime() - from.getTime()) / 60000));
+
+const average = (values: number[]): number | null => {
+  return values.length > 0 ? Math.round(values.reduce((sum, value) => sum + value, 0) / values.length) : null;
+};
+
+export class VisitMetricsService {
+  /**
+   * Codes marking each visit stage in a clinic - inactive statuses included, since history may still use them
+   */
+  static async getStageCodes(tenant_id: ObjectIdLike, clinic_id: ObjectIdLike): Promise<VisitStageCodes> {
+    const stageCodes: VisitStageCodes = { arrived: [], in_chair: [], finished: [] };
+    const statuses = await AppointmentStatus.find({ tenant_id, clinic_id }).lean();
+
+    for (const status of statuses) {
+      const stage = resolveVisitStage(status.code, status);
+      if (stage) stageCodes[stage].push(status.code);
+    }
+
+    // Built-in codes the clinic never configured keep their usual meaning
+    for (const [code, stage] of Object.entries(LEGACY_VISIT_STAGES)) {
+      if (!statuses.some(status => status.code === code)) {
+        stageCodes[stage].push(code);
+      }
+    }
+
+    return stageCodes;
+  }
+
+  static getStage(code: string, stageCodes: VisitStageCodes): VisitStage | null {
+    return VISIT_STAGES.find(stage => stageCodes[stage].includes(code)) || null;
+  }
+
+  /**
+   * Arrival, start and finish of a visit from its status history
+   */
+  static compute(appointment: IAppointment, stageCodes: VisitStageCodes, now = new Date()): VisitMetrics {
+    const history: IAppointmentStatusChange[] = [...(appointment.status_history || [])]
+      .sort((a, b) => new Date(a.changed_at).getTime() - new Date(b.changed_at).getTime());
+
+    const firstInto = (stage: VisitStage, after?: Date | null) => {
+      const entry = history.find(change =>
+        stageCodes[stage].includes(change.to_status) &&
+        (!after || new Date(change.changed_at).getTime() >= after.getTime())
+      );
+      return entry ? new Date(entry.changed_at) : null;
+    };
+
+    const started_at = firstInto('in_chair');
+    const finished_at = started_at ? firstInto('finished', started_at) : null;
+
+    // The arrival that led to this start - a patient may be re-booked and arrive again
+    const arrivals = history
+      .filter(change => stageCodes.arrived.includes(change.to_status))
+      .map(change => new Date(change.changed_at))
+      .filter(at => !started_at || at.getTime() <= started_at.getTime());
+    const arrived_at = arrivals.length > 0 ? arrivals[arrivals.length - 1] : null;
+
+    // Patients who arrive early only wait from their scheduled time
+    const scheduled = new Date(appointment.appointment_date);
+    const waitFrom = arrived_at && arrived_at.getTime() > scheduled.getTime() ? arrived_at : scheduled;
+    const stage = VisitMetricsService.getStage(appointment.status, stageCodes);
+
+    let wait_minutes: number | null = null;
+    if (started_at) {
+      wait_minutes = toMinutes(waitFrom, started_at);
+    } else if (arrived_at && stage === 'arrived') {
+      wait_minutes = toMinutes(waitFrom, now);
+    }
+
+    let chair_minutes: number | null = null;
+    if (started_at && finished_at) {
+      chair_minutes = toMinutes(started_at, finished_at);
+    } else if (started_at && stage === 'in_chair') {
+      chair_minutes = toMinutes(started_at, now);
+    }
+
+    return { arrived_at, started_at, finished_at, wait_minutes, chair_minutes };
+  }
+
+  /**
+   * Average wait and chair time of the visits seen in a date range, per doctor and day.
+   * Only waits that ended in the chair and chair times that finished are averaged.
+   */
+  static async averageWaitByDoctorDay(params: {
+    tenant_id: ObjectIdLike;
+    clinic_id: ObjectIdLike;
+    from: Date;
+    to: Date;
+    doctor_id?: ObjectIdLike;
+    timezone?: string; // Visits are grouped by their calendar day in the clinic's timezone
+  }): Promise<DoctorDayWait[]> {
+    const { tenant_id, clinic_id, from, to, doctor_id, timezone } = params;
+
+    const stageCodes = await VisitMetricsService.getStageCodes(tenant_id, clinic_id);
+    const appointments = await Appointment.find({
+      tenant_id,
+      clinic_id,
+      appointment_date: { $gte: from, $lt: to },
+      'status_history.to_status': { $in: stageCodes.in_chair },
+      ...(doctor_id && { doctor_id })
+    })
+    .populate('doctor_id', 'first_name last_name')
+    .sort({ appointment_date: 1 });
+
+    const groups = new Map<string, { doctor: any; date: string; waits: number[]; chairs: number[]; visits: number }>();
+
+    for (const appointment of appointments) {
+      const metrics = VisitMetricsService.compute(appointment, stageCodes);
+      if (!metrics.started_at) continue;
+
+      const doctor: any = appointment.doctor_id;
+      const doctorId = (doctor?._id || doctor).toString();
+      const date = TimezoneService.formatDate(appointment.appointment_date, timezone);
+      const key = `${doctorId}:${date}`;
+
+      if (!groups.has(key)) {
+        groups.set(key, { doctor, date, waits: [], chairs: [], visits: 0 });
+      }
+
+      const group = groups.get(key)!;
+      group.visits++;
+      if (metrics.wait_minutes !== null) group.waits.push(metrics.wait_minutes);
+      if (metrics.finished_at && metrics.chair_minutes !== null) group.chairs.push(metrics.chair_minutes);
+    }
+
+    return Array.from(groups.values()).map(group => ({
+      doctor_id: group.doctor?._id || group.doctor,
+      doctor_name: group.doctor?.first_name ? `${group.doctor.first_name} ${group.doctor.last_name}` : 'Unknown Doctor',
+      date: group.date,
+      visits: group.visits,
+      average_wait_minutes: average(group.waits),
+      average_chair_minutes: average(group.chairs)
+    }));
+  }
+}
+
+export default VisitMetricsService;
@@ -0,0 +1,318 @@
+import mongoose from 'mongoose';
+import {
+  IAppointment,
+  WaitlistEntry,
+  IWaitlistEntry,
+  WaitlistOffer,
+  IWaitlistOffer,
+  WaitlistPriority,
+  WaitlistTimeOfDay
+} from '../models';
+import { AvailabilityService } from './availability';
+import { NotificationService } from './notifications';
+import { TimezoneService } from './timezone';
+
+export interface FreedSlot {
+  tenant_id: string | mongoose.Types.ObjectId;
+  clinic_id: string | mongoose.Types.ObjectId;
+  doctor_id: string | mongoose.Types.ObjectId;
+  start: Date;
+  end: Date;
+  source_appointment_id?: mongoose.Types.ObjectId;
+  exclude_patient_ids?: Array<string | mongoose.Types.ObjectId>;
+  exclude_entry_ids?: Array<string | mongoose.Types.ObjectId>;
+}
+
+const PRIORITY_WEIGHT: Record<WaitlistPriority, number> = {
+  low: 1,
+  normal: 10,
+  high: 100,
+  urgent: 1000
+};
+
+// Minutes since midnight [from, to) for each time-of-day preference
+const TIME_OF_DAY_RANGES: Record<Exclude<WaitlistTimeOfDay, 'any'>, [number, number]> = {
+  morning: [0, 12 * 60],
+  afternoon: [12 * 60, 17 * 60],
+  evening: [17 * 60, 24 * 60]
+};
+
+const MIN_OFFER_MINUTES = 15;
+
+let expiryTimer: NodeJS.Timeout | null = null;
+let expiryRunning = false;
+
+export class WaitlistService {
+  /**
+   * How long a patient has to accept an offer before it moves to the next candidate
+   */
+  static getOfferTtlMinutes(): number {
+    return parseInt(process.env.WAITLIST_OFFER_TTL_MINUTES || '', 10) || 60;
+  }
+
+  static matchesTimeOfDay(preference: WaitlistTimeOfDay, start: Date, timezone?: string): boolean {
+    if (!preference || preference === 'any') return true;
+    const [from, to] = TIME_OF_DAY_RANGES[preference];
+    const minutes = TimezoneService.getMinutesOfDay(start, timezone);
+    return minutes >= from && minutes < to;
+  }
+
+  /**
+   * Rank score: priority dominates, then days waited, then preferred-doctor match
+   */
+  static scoreEntry(entry: IWaitlistEntry, doctorId: string | mongoose.Types.ObjectId): number {
+    const daysWaiting = (Date.now() - new Date(entry.created_at).getTime()) / (24 * 60 * 60000);
+    const doctorMatch = entry.doctor_id && entry.doctor_id.toString() === doctorId.toString() ? 5 : 0;
+    return PRIORITY_WEIGHT[entry.priority] + Math.max(0, daysWaiting) + doctorMatch;
+  }
+
+  /**
+   * Waiting entries that fit a freed slot, best candidate first
+   */
+  static async rankCandidates(slot: FreedSlot): Promise<IWaitlistEntry[]> {
+    const availableMinutes = (slot.end.getTime() - slot.start.getTime()) / 60000;
+    const timezone = await TimezoneService.getClinicTimezone(slot.clinic_id);
+
+    const filter: any = {
+      tenant_id: slot.tenant_id,
+      clinic_id: slot.clinic_id,
+      status: 'waiting',
+      duration: { $lte: availableMinutes },
+      earliest_date: { $lte: slot.start },
+      latest_date: { $gte: AvailabilityService.startOfDay(slot.start, timezone) },
+      $or: [{ doctor_id: slot.doctor_id }, { doctor_id: null }, { doctor_id: { $exists: false } }]
+    };
+
+    if (slot.exclude_patient_ids && slot.exclude_patient_ids.length > 0) {
+      filter.patient_id = { $nin: slot.exclude_patient_ids };
+    }
+
+    if (slot.exclude_entry_ids && slot.exclude_entry_ids.length > 0) {
+      filter._id = { $nin: slot.exclude_entry_ids };
+    }
+
+    const entries = await WaitlistEntry.find(filter);
+
+    return entries
+      .filter((entry) => WaitlistService.matchesTimeOfDay(entry.time_of_day, slot.start, timezone))
+      .sort((a, b) => WaitlistService.scoreEntry(b, slot.doctor_id) - WaitlistService.scoreEntry(a, slot.doctor_id));
+  }
+
+  /**
+   * Offer a freed slot to the best waiting candidate, creating a tentative hold that expires
+   */
+  static async offerSlot(slot: FreedSlot): Promise<IWaitlistOffer | null> {
+    if (slot.start.getTime() <= Date.now()) {
+      return null;
+    }
+
+    const candidates = await WaitlistService.rankCandidates(slot);
+
+    for (const entry of candidates) {
+      const availability = await AvailabilityService.checkAvailability({
+        tenant_id: slot.tenant_id,
+        clinic_id: slot.clinic_id,
+        doctor_id: slot.doctor_id,
+        start: slot.start,
+        duration: entry.duration
+      });
+
+      // The slot was re-booked or falls into time off - nobody can take it
+      if (!availability.available && availability.reason !== 'outside_working_hours') {
+        return null;
+      }
+      if (!availability.available) continue;
+
+      const expiresAt = new Date(Math.min(
+        Date.now() + WaitlistService.getOfferTtlMinutes() * 60000,
+        slot.start.getTime()
+      ));
+
+      const offer = new WaitlistOffer({
+        tenant_id: slot.tenant_id,
+        clinic_id: slot.clinic_id,
+        waitlist_entry_id: entry._id,
+        patient_id: entry.patient_id,
+        doctor_id: slot.doctor_id,
+        source_appointment_id: slot.source_appointment_id,
+        slot_start: slot.start,
+        slot_end: slot.end,
+        duration: entry.duration,
+        expires_at: expiresAt
+      });
+      await offer.save();
+
+      entry.status = 'offered';
+      await entry.save();
+
+      await NotificationService.notifyWaitlistOffer(offer);
+
+      return offer;
+    }
+
+    return null;
+  }
+
+  /**
+   * Offer whatever is left of a cancelled / no-show appointment's interval.
+   * Never throws - matching must not break the status change that triggered it.
+   */
+  static async offerFreedAppointment(appointment: IAppointment): Promise<IWaitlistOffer | null> {
+    try {
+      const end = new Date(appointment.appointment_date.getTime() + appointment.duration * 60000);
+
+      // A no-show frees only the remainder of the slot, starting at the next 5-minute mark
+      const nextMark = new Date(Math.ceil(Date.now() / (5 * 60000)) * 5 * 60000);
+      const start = appointment.appointment_date > nextMark ? appointment.appointment_date : nextMark;
+
+      if ((end.getTime() - start.getTime()) / 60000 < MIN_OFFER_MINUTES) {
+        return null;
+      }
+
+      return await WaitlistService.offerSlot({
+        tenant_id: appointment.tenant_id,
+        clinic_id: appointment.clinic_id,
+        doctor_id: appointment.doctor_id,
+        start,
+        end,
+        source_appointment_id: appointment._id as mongoose.Types.ObjectId,
+        exclude_patient_ids: [appointment.patient_id]
+      });
+    } catch (error) {
+      console.error('Waitlist offer error:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Pass a declined or expired offer's slot on to the next candidate
+   */
+  static async reofferSlot(offer: IWaitlistOffer): Promise<IWaitlistOffer | null> {
+    const previousEntryIds = await WaitlistOffer.distinct('waitlist_entry_id', {
+      tenant_id: offer.tenant_id,
+      doctor_id: offer.doctor_id,
+      slot_start: offer.slot_start
+    });
+
+    return WaitlistService.offerSlot({
+      tenant_id: offer.tenant_id,
+      clinic_id: offer.clinic_id,
+      doctor_id: offer.doctor_id,
+      start: offer.slot_start,
+      end: offer.slot_end,
+      source_appointment_id: offer.source_appointment_id,
+      exclude_entry_ids: previousEntryIds
+    });
+  }
+
+  static async declineOffer(offer: IWaitlistOffer, userId?: mongoose.Types.ObjectId): Promise<IWaitlistOffer | null> {
+    // Expired or declined meanwhile - its slot has already been passed on
+    const declined = await WaitlistOffer.findOneAndUpdate(
+      { _id: offer._id, status: 'pending' },
+      { status: 'declined', responded_at: new Date(), responded_by: userId },
+      { new: true }
+    );
+    if (!declined) return null;
+    offer.set(declined.toObject());
+
+    await WaitlistEntry.updateOne(
+      { _id: offer.waitlist_entry_id, status: 'offered' },
+      { status: 'waiting' }
+    );
+
+    return WaitlistService.reofferSlot(offer);
+  }
+
+  /**
+   * Expire lapsed offers (re-offering their slots) and entries whose date window has passed
+   */
+  static async expireStale(scope: { tenant_id?: string; clinic_id?: string } = {}): Promise<{ offers: number; entries: number }> {
+    const lapsedOffers = await WaitlistOffer.find({
+      ...scope,
+      status: 'pending',
+      expires_at: { $lte: new Date() }
+    });
+
+    let expiredOffers = 0;
+    for (const lapsed of lapsedOffers) {
+      // Only the caller that moves the offer out of 'pending' passes its slot on
+      const offer = await WaitlistOffer.findOneAndUpdate(
+        { _id: lapsed._id, status: 'pending' },
+        { status: 'expired' },
+        { new: true }
+      );
+      if (!offer) continue;
+      expiredOffers++;
+
+      await WaitlistEntry.updateOne(
+        { _id: offer.waitlist_entry_id, status: 'offered' },
+        { status: 'waiting' }
+      );
+
+      await WaitlistService.reofferSlot(offer);
+    }
+
+    // latest_date is midnight of the last acceptable day in the clinic's timezone, so an entry
+    // lapses a day after it whatever the clinic's timezone
+    const expiredEntries = await WaitlistEntry.updateMany(
+      {
+        ...scope,
+        status: 'waiting',
+        latest_date: { $lte: new Date(Date.now() - 24 * 60 * 60000) }
+      },
+      { status: 'expired' }
+    );
+
+    return { offers: expiredOffers, entries: expiredEntries.modifiedCount };
+  }
+
+  /**
+   * Expire lapsed offers and entries on an interval (WAITLIST_EXPIRY_INTERVAL_MS, default 60s),
+   * so a slot moves on to the next patient without anyone opening the waitlist
+   */
+  static startExpiryScheduler(): void {
+    if (expiryTimer) return;
+
+    const interval = parseInt(process.env.WAITLIST_EXPIRY_INTERVAL_MS || '', 10) || 60000;
+
+    expiryTimer = setInterval(async () => {
+      if (expiryRunning) return;
+      expiryRunning = true;
+
+      try {
+        await WaitlistService.expireStale();
+      } catch (error) {
+        console.error('Waitlist expiry scheduler error:', error);
+      } finally {
+        expiryRunning = false;
+      }
+    }, interval);
+
+    expiryTimer.unref();
+  }
+
+  static stopExpiryScheduler(): void {
+    if (expiryTimer) {
+      clearInterval(expiryTimer);
+      expiryTimer = null;
+    }
+  }
+
+  /**
+   * Withdraw an entry's pending offers, e.g. when staff book it manually
+   */
+  static async withdrawOffers(entryId: mongoose.Types.ObjectId): Promise<void> {
+    const pendingOffers = await WaitlistOffer.find({ waitlist_entry_id: entryId, status: 'pending' });
+
+    for (const pending of pendingOffers) {
+      const offer = await WaitlistOffer.findOneAndUpdate(
+        { _id: pending._id, status: 'pending' },
+        { status: 'withdrawn' },
+        { new: true }
+      );
+      if (offer) await WaitlistService.reofferSlot(offer);
+    }
+  }
+}
+
+export default WaitlistService;